@@ -15,20 +15,25 @@ import { FolderProducts } from './pages/warehouse/products/FolderProducts';
 import { Projects } from './pages/Projects';
 import { ProductDetails } from './pages/warehouse/products/ProductDetails';
 import { Calculator } from './pages/Calculator';
+import { Proposals } from './pages/Proposals';
+import { MarginReport } from './pages/MarginReport';
 import { Documents } from './pages/warehouse/Documents';
 import { Chat } from './pages/Chat';
 import { ClientFiles } from './pages/ClientFiles';
 import { Warehouse } from './pages/Warehouse';
 import { NewExpense } from './pages/warehouse/NewExpense';
 import { NewIncome } from './pages/warehouse/NewIncome';
+import { NewTransfer } from './pages/warehouse/NewTransfer';
 import { Dashboard } from './pages/Dashboard';
 import { Profile } from './pages/Profile';
+import { Users } from './pages/Users';
+import { Numbering } from './pages/Numbering';
 import { useStats } from './hooks/useStats';
 import { LoadingSpinner } from './components/LoadingSpinner';
 import { collection, getDocs } from 'firebase/firestore';
 import { db } from './lib/firebase';
 
-type Page = 'dashboard' | 'transactions' | 'feed' | 'daily-report' | 'clients' | 'templates' | 'products' | 'employees' | 'projects' | 'calculator' | 'chat' | 'warehouse';
+type Page = 'dashboard' | 'transactions' | 'feed' | 'daily-report' | 'clients' | 'templates' | 'products' | 'employees' | 'projects' | 'calculator' | 'proposals' | 'margin-report' | 'chat' | 'warehouse';
 
 const AppContent: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
@@ -91,13 +96,18 @@ const AppContent: React.FC = () => {
           <Route path="/employees" element={<EmployeesProtected />} />
           <Route path="/projects" element={<Projects />} />
           <Route path="/calculator" element={<Calculator />} />
+          <Route path="/proposals" element={<Proposals />} />
+          <Route path="/margin-report" element={<MarginReport />} />
           <Route path="/chat" element={<Chat />} />
           <Route path="/warehouse/documents" element={<Documents />} />
           <Route path="/warehouse" element={<Warehouse onPageChange={setCurrentPage} />} />
           <Route path="/clients/:clientId/files" element={<ClientFiles />} />
           <Route path="/warehouse/expense/new" element={<NewExpense />} />
           <Route path="/warehouse/income/new" element={<NewIncome />} />
+          <Route path="/warehouse/transfer/new" element={<NewTransfer />} />
           <Route path="/profile" element={<Profile />} />
+          <Route path="/users" element={<Users />} />
+          <Route path="/numbering" element={<Numbering />} />
         </Routes>
       </div>
     </div>
@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { X } from 'lucide-react';
 import { IconSelector } from './IconSelector';
 import { ColorSelector } from './ColorSelector';
-import { addCategory } from '../lib/firebase';
+import { addCategory, adjustCategoryBalance } from '../lib/firebase';
 
 interface AddCategoryModalProps {
   isOpen: boolean;
@@ -26,13 +26,18 @@ export const AddCategoryModal: React.FC<AddCategoryModalProps> = ({
     e.preventDefault();
     
     try {
-      await addCategory({
+      const categoryId = await addCategory({
         title,
-        amount: amount + ' ₸',
         icon: selectedIcon,
         color: selectedColor,
         row: selectedRow
       });
+
+      // Начальный остаток заносим корректирующей транзакцией
+      const initialBalance = parseFloat(amount);
+      if (initialBalance) {
+        await adjustCategoryBalance(categoryId, initialBalance, 'Начальный остаток');
+      }
       
       onClose();
       setTitle('');
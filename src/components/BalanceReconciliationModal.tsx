@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Scale, X } from 'lucide-react';
+import { recomputeAllCategoryBalances, BalanceDrift } from '../lib/firebase';
+import { showErrorNotification, showSuccessNotification } from '../utils/notifications';
+
+interface BalanceReconciliationModalProps {
+  onClose: () => void;
+}
+
+const formatMoney = (amount: number): string => {
+  return amount.toLocaleString('ru-RU', { maximumFractionDigits: 2 }) + ' ₸';
+};
+
+export const BalanceReconciliationModal: React.FC<BalanceReconciliationModalProps> = ({ onClose }) => {
+  const [drifts, setDrifts] = useState<BalanceDrift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    const loadDrifts = async () => {
+      try {
+        setDrifts(await recomputeAllCategoryBalances());
+      } catch (error) {
+        console.error('Error reconciling balances:', error);
+        showErrorNotification('Не удалось сверить балансы');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDrifts();
+  }, []);
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      await recomputeAllCategoryBalances({ apply: true });
+      setDrifts([]);
+      showSuccessNotification('Балансы пересчитаны по транзакциям');
+    } catch (error) {
+      console.error('Error applying balances:', error);
+      showErrorNotification('Ошибка при пересчёте балансов');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+              <Scale className="w-5 h-5 text-blue-600" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Сверка балансов</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-900"></div>
+            </div>
+          ) : drifts.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">
+              Балансы всех категорий совпадают с суммой транзакций
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4 font-medium">Категория</th>
+                  <th className="py-2 pr-4 font-medium text-right">Баланс</th>
+                  <th className="py-2 pr-4 font-medium text-right">По транзакциям</th>
+                  <th className="py-2 font-medium text-right">Расхождение</th>
+                </tr>
+              </thead>
+              <tbody>
+                {drifts.map(drift => (
+                  <tr key={drift.categoryId} className="border-b last:border-0">
+                    <td className="py-2 pr-4 text-gray-900">{drift.title || drift.categoryId}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(drift.storedBalance)}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(drift.ledgerBalance)}</td>
+                    <td className="py-2 text-right font-medium text-red-600">{formatMoney(drift.drift)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:text-gray-900"
+          >
+            Закрыть
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={loading || applying}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {applying ? 'Пересчёт...' : 'Пересчитать по транзакциям'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
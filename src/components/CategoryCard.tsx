@@ -1,6 +1,7 @@
 import React from 'react';
 import { CategoryCardType } from '../types';
 import { useDraggable } from '@dnd-kit/core';
+import { formatAmount } from '../utils/formatUtils';
 
 interface CategoryCardProps {
   category: CategoryCardType;
@@ -32,9 +33,9 @@ export const CategoryCard: React.FC<CategoryCardProps> = ({ category }) => {
           {category.title}
         </div>
         <div className={`text-xs sm:text-sm font-medium ${
-          category.amount.includes('-') ? 'text-red-500' : 'text-emerald-500'
+          category.balance < 0 ? 'text-red-500' : 'text-emerald-500'
         }`}>
-          {category.amount}
+          {category.balance < 0 ? '-' : ''}{formatAmount(category.balance)}
         </div>
       </div>
     </div>
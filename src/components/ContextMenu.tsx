@@ -8,6 +8,7 @@ interface ContextMenuProps {
   onDelete: () => void;
   onViewHistory: () => void;
   title: string;
+  historyLabel?: string;
   editLabel?: string;
   hideDelete?: boolean;
 }
@@ -19,6 +20,7 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
   onDelete,
   onViewHistory,
   title,
+  historyLabel = "История транзакций",
   editLabel = "Редактировать",
   hideDelete = false
 }) => {
@@ -98,7 +100,7 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
         className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
       >
         <History className="w-4 h-4" />
-        История транзакций
+        {historyLabel}
       </button>
 
       <button
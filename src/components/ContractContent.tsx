@@ -1,301 +0,0 @@
-import React from 'react';
-
-interface ContractContentProps {
-  client: {
-    clientNumber: string;
-    lastName: string;
-    firstName: string;
-    middleName: string;
-    objectName: string;
-    constructionAddress: string;
-    totalAmount: number;
-    totalAmountWords: string;
-    iin: string;
-    livingAddress: string;
-    phone: string;
-    email: string;
-    constructionDays: number;
-    deposit: number;
-    depositWords: string;
-    firstPayment: number;
-    firstPaymentWords: string;
-    secondPayment: number;
-    secondPaymentWords: string;
-    thirdPayment: number;
-    thirdPaymentWords: string;
-    fourthPayment: number;
-    fourthPaymentWords: string;
-  };
-}
-
-export const ContractContent: React.FC<ContractContentProps> = ({ client }) => {
-  return (
-    <div className="max-w-3xl mx-auto">
-      <div className="text-center mb-8">
-        <h1 className="text-xl font-bold mb-4">Договор подряда №{client.clientNumber}</h1>
-        <div className="flex justify-between mb-6">
-          <span>г. Алматы</span>
-          <span>{new Date().toLocaleDateString('ru-RU', {
-            day: '2-digit',
-            month: 'long',
-            year: 'numeric'
-          })}</span>
-        </div>
-      </div>
-
-      <p className="mb-6 text-justify">
-        ТОО "HotWell.KZ", БИН 180440039034, в лице Директора Милюк Виталия Игоревича, действующего на основании Устава, именуемый в дальнейшем 
-        «Исполнитель», с одной стороны и <span className="font-bold">{client.lastName} {client.firstName} {client.middleName}</span>, 
-        ИИН <span className="font-bold">{client.iin}</span>, именуемый(-ая) в дальнейшем «Заказчик», с другой стороны, далее 
-        совместно именуемые «Стороны», а по отдельности, именуемые «Сторона» заключили 
-        настоящий Договор (далее «Договор») о нижеследующем:
-      </p>
-
-      {/* Раздел 1: Предмет Договора */}
-      <div className="mb-6">
-        <h2 className="font-bold mb-4">1. Предмет Договора.</h2>
-        <p className="mb-4 text-justify">
-          1.1. Заказчик поручает, а Исполнитель принимает на себя обязательство по
-          возведению дома из Структурно-Изоляционных Панелей (СИП) (далее – «Работы») на
-          земельном участке, расположенном по адресу: <span className="font-bold">{client.constructionAddress} </span>
-           (далее – «Участок»). Работы производятся Исполнителем после внесения Заказчиком первой 
-          предоплаты, согласно п. 2.2. настоящего Договора. Наименование, объемы и стоимость Работ 
-          по настоящему Договору указаны в спецификации, являющейся неотъемлемой частью настоящего 
-          Договора (Приложение №1).
-        </p>
-        <p className="mb-4 text-justify">
-          1.2. Подрядчик обязуется выполнить Работы, согласно планам и размерам
-          Приложения №2 настоящего Договора, собственными силами и средствами, или силами и
-          средствами привлеченных субподрядных организаций, а также из материалов, в
-          соответствии с Приложением №1.
-        </p>
-        <p className="mb-4 text-justify">
-          1.3. Заказчик обязуется принять выполненные на Участке Работы при условии соблюдения 
-          всех условий Договора и уплатить за них обусловленную в разделе 2 настоящего Договора стоимость.
-        </p>
-        <p className="mb-4 text-justify">
-          1.4. Выполненная работа Исполнителя принимается Заказчиком путем двустороннего 
-          подписания Акта сдачи-приемки выполненных работ.
-        </p>
-      </div>
-
-      {/* Раздел 2: Цена Договора и порядок расчетов */}
-      <div className="mb-6">
-        <h2 className="font-bold mb-4">2. Цена Договора и порядок расчетов.</h2>
-        <p className="mb-4">
-          2.1. Сметная стоимость согласована сторонами в Спецификации (Приложение №1),
-          являющихся неотъемлемой частью настоящего Договора.
-        </p>
-        <p className="mb-4">
-          2.2. Цена Договора включает в себя сумму стоимости Работ, согласно Спецификации
-          (Приложение №1) и составляет <span className="font-bold">{client.totalAmount.toLocaleString()} </span> 
-          (<span className="font-bold">{client.totalAmountWords}</span>) тенге.
-        </p>
-        <p className="mb-4">
-          2.3. В цену Договора не входят услуги, не указанные в настоящем Договоре.
-        </p>
-        <p className="mb-4">
-          2.4. Оплата производится Заказчиком наличными в кассу Исполнителя или иным способом, 
-          согласованным Сторонами и не противоречащим действующему законодательству Республики Казахстан.
-        </p>
-        <p className="mb-4">
-          2.5. Заказчик производит предоплату в размере <span className="font-bold">{client.deposit.toLocaleString()} </span> 
-          (<span className="font-bold">{client.depositWords}</span>) тенге за согласования эскизного 2д проекта и сметы.
-        </p>
-        <p className="mb-4">
-          2.6. Заказчик производит предоплату в размере <span className="font-bold">{client.firstPayment.toLocaleString()} </span> 
-          (<span className="font-bold">{client.firstPaymentWords}</span>) тенге в момент заключения договора.
-        </p>
-        <p className="mb-4">
-          2.7. Заказчик производит предоплату в размере <span className="font-bold">{client.secondPayment.toLocaleString()} </span> 
-          (<span className="font-bold">{client.secondPaymentWords}</span>) тенге в течение 3 (трех) рабочих дней после монтажа фундамента и стен 1 этажа, перед завозом материала для монтажа кровли.
-        </p>
-        <p className="mb-4">
-          2.8. Заказчик производит предоплату в размере <span className="font-bold">{client.thirdPayment.toLocaleString()} </span> 
-          (<span className="font-bold">{client.thirdPaymentWords}</span>) тенге в течение 3 (трех) рабочих дней после возведения стен второго этажа, перед завозом материала для монтажа кровли.
-        </p>
-        <p className="mb-4">
-          2.9. Оставшаяся часть, <span className="font-bold">{client.fourthPayment.toLocaleString()} </span> 
-          (<span className="font-bold">{client.fourthPaymentWords}</span>) тенге оплачиваются Заказчиком в течение 3 (трех) рабочих дней с даты подписания акта сдачи-приемки выполненных Работ.
-        </p>
-      </div>
-
-      {/* Раздел 3: Сроки выполнения Работ */}
-      <div className="mb-6">
-        <h2 className="font-bold mb-4">3. Сроки выполнения Работ.</h2>
-        <p className="mb-4 text-justify">
-          3.1. Работы осуществляются Исполнителем по адресу: <span className="font-bold">{client.constructionAddress}</span> в 
-          течение <span className="font-bold">{client.constructionDays}</span> рабочих дней, при наличии погодных условий необходимых для проведения Работ, 
-          с учетом условия предусмотренных Разделом 2 настоящего Договора.
-        </p>
-      </div>
-
-      {/* Раздел 4: Права и обязанности сторон */}
-      <div className="mb-6">
-        <h2 className="font-bold mb-4">4. Права и обязанности сторон по Договору.</h2>
-        <p className="font-bold mb-2">4.1. Исполнитель обязуется:</p>
-        <p className="mb-4 text-justify">
-          4.1.1. Приступить к началу строительства не позднее 7-х календарных дней со дня оплаты 
-          Заказчикам суммы согласно пункту 2.8. Договора и осуществить работы в сроки, в порядке 
-          и на условиях, установленных настоящим Договором.
-        </p>
-        <p className="mb-4 text-justify">
-          4.1.2. Гарантировать качество и полное соответствие использованных материалов и выполненных 
-          работ согласно документации и перечням материалов из приложений №1 и №2 к настоящему Договору.
-        </p>
-        <p className="mb-4 text-justify">
-          4.1.2.1. После завершения Работ подписывать акт приема передачи со сроком гарантии 1 (один) 
-          календарный год и 6 месяцев. Исполнитель в течение гарантийного срока обязуется устранить 
-          выявленные Заказчиком недостатки за свой счет в течение 20 (двадцати) календарных дней со 
-          дня направления Заказчиком уведомления или произвести за него возврат денег, но в данном случае, 
-          Работы считаются выполненными со дня исправления Подрядчиком выявленных недостатков.
-        </p>
-        <p className="mb-4 text-justify">
-          4.1.3. Обеспечить доступ представителям Заказчика к объекту или его части во всякое 
-          время для проверки хода и качества работ, качества представленных Исполнителем материалов.
-        </p>
-        <p className="mb-4 text-justify">
-          4.1.4. Устранять по требованию Заказчика недостатки и дефекты в работе.
-        </p>
-
-        <p className="font-bold mb-2">4.2. Исполнитель имеет право:</p>
-        <p className="mb-4 text-justify">
-          4.2.1. Досрочно сдать Объект при достижении требуемого качества результатов их выполнения.
-        </p>
-        <p className="mb-4 text-justify">
-          4.2.2. На получение оплаты за результат выполненных работ.
-        </p>
-
-        <p className="font-bold mb-2">4.3. Заказчик:</p>
-        <p className="mb-4 text-justify">
-          4.3.1. Обязуется предоставить благоприятные условия для выполнения Работ, а именно: 
-          удобный подъезд к участку, обеспечение электричеством и водой.
-        </p>
-        <p className="mb-4 text-justify">
-          4.3.2. Обязуется подготовить участок перед началом строительства, а именно: расчистить 
-          участок от мусора, старых строений и деревьев, также провести выравнивание грунта.
-        </p>
-        <p className="mb-4 text-justify">
-          4.3.3. Обязуется оплатить Работы, в порядке и на условиях, определенных настоящим Договором.
-        </p>
-        <p className="mb-4 text-justify">
-          4.3.4. Имеет право осуществлять контроль и надзор за ходом и качеством выполняемых работ, 
-          соблюдением сроков их выполнения, качеством предоставленных Исполнителем материалов, 
-          не вмешиваясь при этом в оперативно-хозяйственную деятельность Исполнителя.
-        </p>
-      </div>
-
-      {/* Раздел 5: Ответственность сторон */}
-      <div className="mb-6">
-        <h2 className="font-bold mb-4">5. Ответственность сторон.</h2>
-        <p className="mb-4 text-justify">
-          5.1. За неисполнение или ненадлежащее исполнение обязательств по настоящему Договору 
-          Стороны несут ответственность, предусмотренную настоящим Договором и законодательством 
-          Республики Казахстан.
-        </p>
-        <p className="mb-4 text-justify">
-          5.2. В случае нарушения Исполнителем сроков производства Работ, Заказчик вправе потребовать 
-          от Исполнителя уплаты пени в размере 0,1% от цены Договора за каждый день просрочки, но не 
-          более 5% от стоимости невыполненных работ.
-        </p>
-        <p className="mb-4 text-justify">
-          5.3. В случае нарушения Заказчиком условий п. 2.5, 2.6, настоящего Договора, Исполнитель 
-          вправе требовать от Заказчика уплаты пени в размере 0,1% от суммы Договора, за каждый день 
-          просрочки, но не более 5% от общей стоимости настоящего Договора.
-        </p>
-        <p className="mb-4 text-justify">
-          5.4. Все споры, возникающие в период действия настоящего Договора, разрешаются Сторонами 
-          путем переговоров. В случае невозможности урегулирования спорных вопросов силами Сторон, 
-          они будут разрешаться в порядке установленном законодательством Республики Казахстан.
-        </p>
-      </div>
-
-      {/* Раздел 6: Обстоятельства непреодолимой силы */}
-      <div className="mb-6">
-        <h2 className="font-bold mb-4">6. Обстоятельства непреодолимой силы.</h2>
-        <p className="mb-4 text-justify">
-          6.1. В случае возникновения обстоятельств непреодолимой силы, к которым относятся стихийные 
-          бедствия, военные действия, эпидемии, крупномасштабные забастовки, вступление в силу 
-          законодательных и правительственных актов, прямо или косвенно запрещающих, а также 
-          препятствующих исполнению Сторонами обязательств по настоящему Договору, они освобождаются 
-          от ответственности за неисполнение взятых на себя обязательств.
-        </p>
-        <p className="mb-4 text-justify">
-          6.2. Затронутая обстоятельствами непреодолимой силы Сторона без промедления, но не позднее 
-          чем через 5 (пять) рабочих дней после наступления указанных обстоятельств, письменно должна 
-          известить об этом другую Сторону.
-        </p>
-      </div>
-
-      {/* Раздел 7: Заключительные положения */}
-      <div className="mb-6">
-        <h2 className="font-bold mb-4">7. Заключительные положения.</h2>
-        <p className="mb-4 text-justify">
-          7.1. Настоящий Договор вступает в силу с момента его подписания Сторонами и действует до 
-          исполнения Сторонами всех своих обязательств.
-        </p>
-        <p className="mb-4 text-justify">
-          7.2. Любые изменения и дополнения к Договору действительны лишь при условии, что они совершены 
-          в письменной форме и подписаны уполномоченными представителями Сторон.
-        </p>
-        <p className="mb-4 text-justify">
-          7.3. Все приложения к Договору являются его неотъемлемой частью.
-        </p>
-        <p className="mb-4 text-justify">
-          7.4. Права и обязательства Сторон по настоящему Договору не могут быть переданы третьим 
-          лицам без письменного согласия другой Стороны.
-        </p>
-        <p className="mb-4 text-justify">
-          7.5. Все уведомления и другие сообщения, требуемые или предусмотренные по Договору, должны 
-          быть составлены в письменной форме. Все уведомления или сообщения считаются представленными 
-          должным образом, если они будут доставлены лично или почтой с уведомлением по адресу 
-          участвующей Стороны, либо отправлены на e-mail, указанный в Договоре.
-        </p>
-        <p className="mb-4 text-justify">
-          7.6. Настоящий Договор составлен в двух идентичных экземплярах, на русском языке, имеющих 
-          одинаковую юридическую силу, по одному экземпляру для каждой из Сторон.
-        </p>
-        <p className="mb-4 text-justify">
-          7.7. На всех страницах данного Договора подписываются Стороны, подтверждая тем самым своё 
-          волеизъявление и согласие на данную сделку.
-        </p>
-        <p className="mb-4 text-justify">
-          7.8. Каждая из Сторон обязана заблаговременно уведомить другую сторону об изменении своих 
-          реквизитов.
-        </p>
-      </div>
-
-      {/* Подписи сторон */}
-      <div className="grid grid-cols-2 gap-8 mt-8">
-        <div>
-          <p className="font-bold mb-2">Исполнитель:</p>
-          <p>ТОО "HotWell.KZ"</p>
-          <p>Адрес: г.Алматы, пос. Бесагаш, ул. Алтай 12</p>
-          <p>БИН 180440039034</p>
-          <p>ИИК KZ47722S000007871613</p>
-          <p>КБе 17 АО "Kaspi Bank"</p>
-          <p>БИК CASPKZKA</p>
-          <p>КБе 14</p>
-          <p>Тел: +7 747 743 4343</p>
-          <p>WhatsApp: +7 747 743 4343</p>
-          <p>E-mail: HotWell.KZ@gmail.com</p>
-          <div className="mt-4 border-t border-black pt-2">
-            <p>Директор _____________ В. И. Милюк</p>
-            <p className="mt-2">Зам. Директор _____________ Л. Н. Гросс</p>
-          </div>
-        </div>
-        <div>
-          <p className="font-bold mb-2">Заказчик:</p>
-          <p>{client.lastName} {client.firstName} {client.middleName}</p>
-          <p>ИИН {client.iin}</p>
-          <p>Адрес проживания: {client.livingAddress}</p>
-          <p>Тел: {client.phone}</p>
-          <p>Email: {client.email}</p>
-          <div className="mt-4 border-t border-black pt-2">
-            <p>_____________ {client.lastName} {client.firstName[0]}. {client.middleName ? client.middleName[0] + '.' : ''}</p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-};
\ No newline at end of file
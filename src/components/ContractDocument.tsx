@@ -0,0 +1,62 @@
+import React from 'react';
+import { ContractBlock, ContractRun } from '../types/contract';
+
+interface ContractDocumentProps {
+  blocks: ContractBlock[];
+}
+
+const Runs: React.FC<{ runs: ContractRun[] }> = ({ runs }) => (
+  <>
+    {runs.map((run, index) => (
+      run.bold
+        ? <span key={index} className="font-bold">{run.text}</span>
+        : <React.Fragment key={index}>{run.text}</React.Fragment>
+    ))}
+  </>
+);
+
+// Договор, заполненный по шаблону
+export const ContractDocument: React.FC<ContractDocumentProps> = ({ blocks }) => {
+  return (
+    <div className="max-w-3xl mx-auto">
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'title':
+            return (
+              <h1 key={index} className="text-xl font-bold text-center mb-6">
+                <Runs runs={block.runs} />
+              </h1>
+            );
+          case 'heading':
+            return (
+              <h2 key={index} className="font-bold mt-6 mb-4">
+                <Runs runs={block.runs} />
+              </h2>
+            );
+          case 'paragraph':
+            return (
+              <p key={index} className="mb-4 text-justify">
+                {block.lines.map((line, lineIndex) => (
+                  <React.Fragment key={lineIndex}>
+                    {lineIndex > 0 && <br />}
+                    <Runs runs={line} />
+                  </React.Fragment>
+                ))}
+              </p>
+            );
+          case 'columns':
+            return (
+              <div key={index} className="grid grid-cols-2 gap-x-8 mb-6">
+                {block.rows.map(([left, right], rowIndex) => (
+                  <React.Fragment key={rowIndex}>
+                    <p><Runs runs={left} /></p>
+                    <p><Runs runs={right} /></p>
+                  </React.Fragment>
+                ))}
+              </div>
+            );
+        }
+      })}
+    </div>
+  );
+};
@@ -1,60 +1,58 @@
-import React from 'react';
-import { Share2, Download, Edit2, X } from 'lucide-react';
-import { ContractContent } from './ContractContent';
+import React, { useEffect, useState } from 'react';
+import { Share2, Download, X } from 'lucide-react';
+import { ContractDocument } from './ContractDocument';
+import { getContractBlocks } from '../lib/firebase';
+import { Contract, ContractBlock } from '../types/contract';
 import { shareContent } from '../utils/shareUtils';
-import { generatePDFFromElement } from '../utils/documentUtils';
-import { generateDOCX } from '../utils/documentUtils';
+import { generatePDFFromElement, generateContractDOCX } from '../utils/documentUtils';
+import { getContractClientData, getContractShareText } from '../utils/contractTemplates';
 
-interface ContractTemplateProps {
-  client: {
-    clientNumber: string;
-    lastName: string;
-    firstName: string;
-    middleName: string;
-    objectName: string;
-    constructionAddress: string;
-    totalAmount: number;
-    iin: string;
-    livingAddress: string;
-    phone: string;
-    email: string;
-  };
+interface ContractViewerProps {
+  contract: Contract;
   isOpen: boolean;
   onClose: () => void;
 }
 
-export const ContractTemplate: React.FC<ContractTemplateProps> = ({ client, isOpen, onClose }) => {
-  if (!isOpen) return null;
+export const ContractViewer: React.FC<ContractViewerProps> = ({ contract, isOpen, onClose }) => {
+  const [blocks, setBlocks] = useState<ContractBlock[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleShare = async () => {
-    const content = `
-Договор подряда №${client.clientNumber}
+  useEffect(() => {
+    let cancelled = false;
+    setBlocks(null);
+    setError(null);
+
+    getContractBlocks(contract)
+      .then(result => {
+        if (!cancelled) setBlocks(result);
+      })
+      .catch(loadError => {
+        console.error('Error rendering contract:', loadError);
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Не удалось сформировать договор');
+      });
 
-Заказчик: ${client.lastName} ${client.firstName} ${client.middleName}
-Объект: ${client.objectName}
-Адрес строительства: ${client.constructionAddress}
-Общая стоимость: ${client.totalAmount.toLocaleString()} тг
+    return () => {
+      cancelled = true;
+    };
+  }, [contract]);
 
-ТОО "HotWell.KZ"
-Тел: +7 747 743 4343
-WhatsApp: +7 747 743 4343
-Email: HotWell.KZ@gmail.com
-    `;
+  if (!isOpen) return null;
+
+  const data = getContractClientData(contract);
+  const fileName = `Договор_${data.lastName}_${data.firstName}`;
 
-    await shareContent('Договор подряда HotWell.KZ', content);
+  const handleShare = async () => {
+    await shareContent('Договор подряда HotWell.KZ', getContractShareText(data));
   };
 
   const handleDownloadPDF = async () => {
-    await generatePDFFromElement('contract-content', `Договор_${client.lastName}_${client.firstName}.pdf`);
+    await generatePDFFromElement('contract-content', `${fileName}.pdf`);
   };
 
   const handleDownloadDOCX = async () => {
-    await generateDOCX(client, `Договор_${client.lastName}_${client.firstName}.docx`);
-  };
-
-  const handleEdit = () => {
-    // Логика для редактирования будет добавлена позже
-    console.log('Edit functionality to be implemented');
+    if (blocks) {
+      await generateContractDOCX(blocks, `${fileName}.docx`);
+    }
   };
 
   return (
@@ -63,7 +61,13 @@ Email: HotWell.KZ@gmail.com
         {/* Шапка */}
         <div className="sticky top-0 bg-white rounded-t-lg border-b border-gray-200 z-10">
           <div className="flex justify-between items-center p-4">
-            <h2 className="text-xl font-semibold">Договор подряда №{client.clientNumber}</h2>
+            <div>
+              <h2 className="text-xl font-semibold">Договор подряда №{contract.contractNumber}</h2>
+              <p className="text-sm text-gray-500">
+                {contract.contractType}
+                {contract.templateVersion ? `, версия шаблона ${contract.templateVersion}` : ''}
+              </p>
+            </div>
             <div className="flex items-center space-x-2">
               <button
                 onClick={handleShare}
@@ -75,7 +79,8 @@ Email: HotWell.KZ@gmail.com
               <div className="relative group">
                 <button
                   onClick={handleDownloadPDF}
-                  className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full"
+                  disabled={!blocks}
+                  className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full disabled:opacity-50"
                   title="Скачать PDF"
                 >
                   <Download className="w-5 h-5" />
@@ -83,25 +88,20 @@ Email: HotWell.KZ@gmail.com
                 <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200">
                   <button
                     onClick={handleDownloadPDF}
+                    disabled={!blocks}
                     className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
                   >
                     Скачать как PDF
                   </button>
                   <button
                     onClick={handleDownloadDOCX}
+                    disabled={!blocks}
                     className="w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
                   >
                     Скачать как DOCX
                   </button>
                 </div>
               </div>
-              <button
-                onClick={handleEdit}
-                className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full"
-                title="Редактировать"
-              >
-                <Edit2 className="w-5 h-5" />
-              </button>
               <button
                 onClick={onClose}
                 className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full"
@@ -114,10 +114,18 @@ Email: HotWell.KZ@gmail.com
         </div>
 
         {/* Содержимое договора */}
-        <div id="contract-content" className="overflow-auto p-8 space-y-6 pdf-export" style={{ maxHeight: 'calc(90vh - 73px)' }}>
-          <ContractContent client={client} />
+        <div id="contract-content" className="overflow-auto p-8 space-y-6 pdf-export" style={{ maxHeight: 'calc(90vh - 89px)' }}>
+          {error ? (
+            <p className="text-center text-red-600 py-12">{error}</p>
+          ) : blocks ? (
+            <ContractDocument blocks={blocks} />
+          ) : (
+            <div className="flex justify-center items-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-500"></div>
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
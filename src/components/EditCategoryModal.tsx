@@ -3,7 +3,7 @@ import { X } from 'lucide-react';
 import { IconSelector } from './IconSelector';
 import { ColorSelector } from './ColorSelector';
 import { doc, collection, query, where, getDocs, writeBatch, serverTimestamp } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { db, adjustCategoryBalance } from '../lib/firebase';
 import { CategoryCardType } from '../types';
 import { showErrorNotification, showSuccessNotification } from '../utils/notifications';
 
@@ -19,7 +19,7 @@ export const EditCategoryModal: React.FC<EditCategoryModalProps> = ({
   onClose,
 }) => {
   const [title, setTitle] = useState(category.title);
-  const [amount, setAmount] = useState(category.amount.replace(/[^\d.-]/g, ''));
+  const [amount, setAmount] = useState(String(category.balance));
   const [selectedIcon, setSelectedIcon] = useState(category.iconName);
   const [selectedColor, setSelectedColor] = useState(category.color);
   const [loading, setLoading] = useState(false);
@@ -37,7 +37,6 @@ export const EditCategoryModal: React.FC<EditCategoryModalProps> = ({
       // Обновляем категорию
       batch.update(categoryRef, {
         title,
-        amount: amount ? `${parseFloat(amount).toLocaleString('ru-RU')} ₸` : '0 ₸',
         icon: selectedIcon,
         color: selectedColor,
         updatedAt: serverTimestamp()
@@ -65,6 +64,13 @@ export const EditCategoryModal: React.FC<EditCategoryModalProps> = ({
       }
 
       await batch.commit();
+
+      // Изменение суммы проводим корректирующей транзакцией
+      const newBalance = amount ? parseFloat(amount) : 0;
+      if (newBalance !== category.balance) {
+        await adjustCategoryBalance(category.id, newBalance);
+      }
+
       showSuccessNotification('Категория успешно обновлена');
       onClose();
     } catch (error) {
@@ -1,8 +1,9 @@
 import React from 'react';
 import { TopStats } from './TopStats';
+import { TopStatType } from '../types';
 
 interface HeaderProps {
-  stats: Array<{ label: string; value: string; }>;
+  stats: TopStatType[];
   onPageChange: (page: string) => void;
 }
 
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { auth } from '../lib/firebase/auth';
+import { usePermissions } from '../hooks/usePermissions';
 import { 
   LayoutDashboard,
   ArrowLeftRight, 
@@ -13,10 +14,14 @@ import {
   Package,
   Building2,
   Calculator,
+  Briefcase,
+  TrendingUp,
   MessageCircle,
   Warehouse,
   LogOut,
-  User
+  User,
+  ShieldCheck,
+  Hash
 } from 'lucide-react';
 
 interface MenuItem {
@@ -27,7 +32,7 @@ interface MenuItem {
 }
 
 interface SidebarProps {
-  onPageChange: (page: 'dashboard' | 'transactions' | 'feed' | 'daily-report' | 'clients' | 'templates' | 'products' | 'employees' | 'projects' | 'calculator' | 'chat' | 'warehouse') => void;
+  onPageChange: (page: 'dashboard' | 'transactions' | 'feed' | 'daily-report' | 'clients' | 'templates' | 'products' | 'employees' | 'projects' | 'calculator' | 'proposals' | 'margin-report' | 'chat' | 'warehouse') => void;
   currentPage: string;
 }
 
@@ -35,6 +40,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ onPageChange, currentPage }) =
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const navigate = useNavigate();
   const location = useLocation();
+  const { can } = usePermissions();
 
   const menuItems: MenuItem[] = [
     { 
@@ -85,6 +91,18 @@ export const Sidebar: React.FC<SidebarProps> = ({ onPageChange, currentPage }) =
       path: '/calculator',
       isActive: location.pathname === '/calculator'
     },
+    { 
+      icon: <Briefcase className="w-5 h-5" />, 
+      label: 'Коммерческие предложения', 
+      path: '/proposals',
+      isActive: location.pathname === '/proposals'
+    },
+    { 
+      icon: <TrendingUp className="w-5 h-5" />, 
+      label: 'Маржа по домам', 
+      path: '/margin-report',
+      isActive: location.pathname === '/margin-report'
+    },
     { 
       icon: <MessageCircle className="w-5 h-5" />, 
       label: 'Чат', 
@@ -161,6 +179,24 @@ export const Sidebar: React.FC<SidebarProps> = ({ onPageChange, currentPage }) =
                 <User className="w-4 h-4" />
                 <span>{auth.currentUser?.displayName}</span>
               </button>
+              {can('manageUsers') && (
+                <button
+                  onClick={() => navigate('/users')}
+                  className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  <span>Пользователи и роли</span>
+                </button>
+              )}
+              {can('manageNumbering') && (
+                <button
+                  onClick={() => navigate('/numbering')}
+                  className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900"
+                >
+                  <Hash className="w-4 h-4" />
+                  <span>Нумерация документов</span>
+                </button>
+              )}
               <button
                 onClick={() => auth.signOut()}
                 className="flex items-center gap-2 text-sm text-red-600 hover:text-red-700"
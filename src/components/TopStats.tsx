@@ -1,21 +1,22 @@
 import React, { useState } from 'react';
-import { collection, getDocs, writeBatch, doc, deleteDoc, setDoc } from 'firebase/firestore';
+import { collection, getDocs, writeBatch, doc, deleteDoc, setDoc, deleteField } from 'firebase/firestore';
 import { ScrollText, Receipt, ArrowLeftRight } from 'lucide-react';
 import { db } from '../lib/firebase';
 import { ContextMenu } from './ContextMenu'; 
+import { BalanceReconciliationModal } from './BalanceReconciliationModal';
 import { showErrorNotification } from '../utils/notifications';
+import { TopStatType } from '../types';
 
 interface TopStatsProps {
-  stats: Array<{ label: string; value: string; }>;
+  stats: TopStatType[];
   onNavigate: (page: string) => void;
 }
 
-const formatValue = (value: string): string => {
-  // Удаляем все пробелы, точки и знаки валюты
-  const cleanValue = value.replace(/[\s\.,₸]/g, '');
-  const numValue = parseFloat(cleanValue);
-  
-  if (isNaN(numValue)) return '0 ₸';
+const formatValue = (value: number): string => {
+  if (isNaN(value)) return '0 ₸';
+
+  const sign = value < 0 ? '-' : '';
+  const numValue = Math.abs(value);
   
   let formattedValue;
   if (numValue >= 1000000) {
@@ -25,10 +26,10 @@ const formatValue = (value: string): string => {
     // Для тысяч используем формат 232k
     formattedValue = Math.floor(numValue / 1000) + 'k';
   } else {
-    formattedValue = numValue.toString();
+    formattedValue = Math.round(numValue).toString();
   }
   
-  return formattedValue + ' ₸';
+  return sign + formattedValue + ' ₸';
 };
 
 export const TopStats: React.FC<TopStatsProps> = ({ stats, onNavigate }) => {
@@ -38,6 +39,7 @@ export const TopStats: React.FC<TopStatsProps> = ({ stats, onNavigate }) => {
   const [showPasswordPrompt, setShowPasswordPrompt] = useState(false);
   const [password, setPassword] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [showReconciliation, setShowReconciliation] = useState(false);
 
   const CORRECT_PASSWORD = '1888';
 
@@ -77,7 +79,8 @@ export const TopStats: React.FC<TopStatsProps> = ({ stats, onNavigate }) => {
       const categoriesSnapshot = await getDocs(collection(db, 'categories'));
       categoriesSnapshot.docs.forEach((docRef) => {
         batch.update(doc(db, 'categories', docRef.id), {
-          amount: '0 ₸'
+          balance: 0,
+          amount: deleteField()
         });
       });
 
@@ -159,12 +162,18 @@ export const TopStats: React.FC<TopStatsProps> = ({ stats, onNavigate }) => {
           onClose={() => setShowContextMenu(false)}
           onEdit={handleResetBalance}
           onDelete={() => {}}
+          onViewHistory={() => setShowReconciliation(true)}
           title={selectedStat || ''}
+          historyLabel="Сверить балансы с транзакциями"
           editLabel="Очистить историю транзакций"
           hideDelete={true}
         />
       )}
 
+      {showReconciliation && (
+        <BalanceReconciliationModal onClose={() => setShowReconciliation(false)} />
+      )}
+
       {showPasswordPrompt && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
@@ -1,8 +1,7 @@
 import React, { useState } from 'react';
 import { X } from 'lucide-react';
 import { CategoryCardType } from '../types';
-import { collection, addDoc, doc, updateDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { transferFunds } from '../lib/firebase';
 
 interface TransferModalProps {
   sourceCategory: CategoryCardType;
@@ -29,40 +28,9 @@ export const TransferModal: React.FC<TransferModalProps> = ({
 
     try {
       const transferAmount = Math.abs(parseFloat(amount));
-      const sourceAmount = parseFloat(sourceCategory.amount.replace(/[^\d.-]/g, ''));
-      const targetAmount = parseFloat(targetCategory.amount.replace(/[^\d.-]/g, ''));
 
-      // Создаем транзакцию расхода
-      await addDoc(collection(db, 'transactions'), {
-        categoryId: sourceCategory.id,
-        fromUser: sourceCategory.title,
-        toUser: targetCategory.title,
-        amount: -transferAmount,
-        description,
-        type: 'expense',
-        date: serverTimestamp()
-      });
-
-      // Создаем транзакцию дохода
-      await addDoc(collection(db, 'transactions'), {
-        categoryId: targetCategory.id,
-        fromUser: sourceCategory.title,
-        toUser: targetCategory.title,
-        amount: transferAmount,
-        description,
-        type: 'income',
-        date: serverTimestamp()
-      });
-
-      // Обновляем баланс источника
-      await updateDoc(doc(db, 'categories', sourceCategory.id), {
-        amount: `${sourceAmount - transferAmount} ₸`
-      });
-
-      // Обновляем баланс получателя
-      await updateDoc(doc(db, 'categories', targetCategory.id), {
-        amount: `${targetAmount + transferAmount} ₸`
-      });
+      // Перевод и изменение балансов выполняются одной транзакцией
+      await transferFunds(sourceCategory, targetCategory, transferAmount, description);
 
       onClose();
     } catch (error) {
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { auth } from '../../lib/firebase/auth';
+import { syncUserProfile } from '../../lib/firebase/users';
 import { LoginForm } from './LoginForm';
 import { RegisterForm } from './RegisterForm';
 import { LoadingSpinner } from '../LoadingSpinner';
@@ -15,6 +16,9 @@ export const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
 
   useEffect(() => {
     const unsubscribe = auth.onAuthStateChanged((user) => {
+      if (user) {
+        syncUserProfile(user).catch(error => console.error('Error syncing user profile:', error));
+      }
       setIsAuthenticated(!!user);
       setLoading(false);
     });
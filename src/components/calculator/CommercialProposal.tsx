@@ -1,29 +1,70 @@
-import React from 'react';
-import { X, Download, Share2 } from 'lucide-react';
-import { CalculatorState, CostBreakdown } from '../../types/calculator';
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { X, Download, Save, Share2 } from 'lucide-react';
+import { SaveProposalForm } from './SaveProposalForm';
+import { ProposalVariantsTable } from './ProposalVariantsTable';
+import { CalculatorPriceList, CalculatorVariant } from '../../types/calculator';
+import { SavedProposal } from '../../types/proposal';
 import { generatePDF } from '../../utils/pdfUtils';
 import { shareContent } from '../../utils/shareUtils';
+import { buildVariantComparison } from '../../utils/proposals';
 
 interface CommercialProposalProps {
-  formData: CalculatorState;
-  pricePerSqm: number;
-  totalPrice: number;
-  costBreakdown: CostBreakdown;
+  // Варианты дома; если их несколько, КП показывает таблицу сравнения
+  variants: CalculatorVariant[];
+  // Версия прайса, по которой рассчитана стоимость
+  priceList: CalculatorPriceList;
+  // Дата расчёта в формате YYYY-MM-DD
+  quoteDate: string;
+  // Уже сохранённое КП — повторно сохранить его нельзя
+  savedProposal?: Pick<SavedProposal, 'number' | 'recipient'>;
   onClose: () => void;
 }
 
 export const CommercialProposal: React.FC<CommercialProposalProps> = ({
-  formData,
-  pricePerSqm,
-  totalPrice,
-  costBreakdown,
+  variants,
+  priceList,
+  quoteDate,
+  savedProposal,
   onClose
 }) => {
+  const [saved, setSaved] = useState(savedProposal);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+
+  const [{ formData, pricePerSqm, totalPrice, costBreakdown }] = variants;
+  const isComparison = variants.length > 1;
+
   const formatPrice = (price: number) => {
     return price.toLocaleString('ru-RU') + ' ₸';
   };
 
+  // Текстовая таблица сравнения; строки с различиями помечены «*»
+  const getComparisonText = () => {
+    const header = ['Параметр', ...variants.map((_, index) => `Вариант ${index + 1}`)].join(' | ');
+    const rows = buildVariantComparison(variants).map(row =>
+      `${row.differs ? '* ' : ''}${[row.label, ...row.values].join(' | ')}`
+    );
+
+    return `
+Коммерческое предложение от HotWell.KZ
+
+Сравнение вариантов (* — различия):
+${header}
+${rows.join('\n')}
+
+ТОО "HotWell.KZ"
+Тел: +7 747 743 4343
+WhatsApp: +7 747 743 4343
+Email: HotWell.KZ@gmail.com
+    `;
+  };
+
   const handleShare = async () => {
+    if (isComparison) {
+      await shareContent('Коммерческое предложение HotWell.KZ', getComparisonText());
+      return;
+    }
+
     const content = `
 Коммерческое предложение от HotWell.KZ
 
@@ -65,6 +106,15 @@ Email: HotWell.KZ@gmail.com
           <div className="flex justify-between items-center p-4">
             <h2 className="text-xl font-semibold">Коммерческое предложение</h2>
             <div className="flex items-center space-x-2">
+              {!saved && (
+                <button
+                  onClick={() => setShowSaveForm(true)}
+                  className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full"
+                  title="Сохранить КП"
+                >
+                  <Save className="w-5 h-5" />
+                </button>
+              )}
               <button
                 onClick={handleShare}
                 className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full"
@@ -88,6 +138,24 @@ Email: HotWell.KZ@gmail.com
               </button>
             </div>
           </div>
+          {showSaveForm && !saved && (
+            <SaveProposalForm
+              proposal={{
+                formData,
+                pricePerSqm,
+                totalPrice,
+                costBreakdown,
+                variants,
+                priceListId: priceList.id,
+                quoteDate
+              }}
+              onSaved={(proposal) => {
+                setSaved(proposal);
+                setShowSaveForm(false);
+              }}
+              onCancel={() => setShowSaveForm(false)}
+            />
+          )}
         </div>
 
         {/* Содержимое */}
@@ -96,80 +164,99 @@ Email: HotWell.KZ@gmail.com
           <div className="text-center">
             <h1 className="text-3xl font-bold text-gray-900 mb-2">HotWell.KZ</h1>
             <p className="text-gray-600">Строительство домов из СИП-панелей</p>
+            {saved && (
+              <p className="mt-2 text-sm text-gray-500">
+                КП № {saved.number} от {format(parseISO(quoteDate), 'dd.MM.yyyy')} для {saved.recipient.name}
+              </p>
+            )}
           </div>
 
-          {/* Параметры дома */}
-          <div className="bg-gray-50 rounded-lg p-6">
-            <h2 className="text-xl font-semibold mb-4">Параметры дома</h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <span className="text-gray-600">Площадь:</span>
-                <span className="ml-2 font-medium">{formData.area} м²</span>
-              </div>
-              <div>
-                <span className="text-gray-600">Этажность:</span>
-                <span className="ml-2 font-medium">{formData.floors}</span>
-              </div>
-              <div>
-                <span className="text-gray-600">Высота 1-го этажа:</span>
-                <span className="ml-2 font-medium">{formData.firstFloorHeight}</span>
-              </div>
-              {formData.floors === '2 этажа' && (
-                <div>
-                  <span className="text-gray-600">Высота 2-го этажа:</span>
-                  <span className="ml-2 font-medium">{formData.secondFloorHeight}</span>
+          {isComparison ? (
+            <>
+              <ProposalVariantsTable variants={variants} />
+              <p className="text-sm text-gray-600">
+                Цены по прайсу от {format(parseISO(priceList.effectiveFrom), 'dd.MM.yyyy')}
+              </p>
+            </>
+          ) : (
+            <>
+              {/* Параметры дома */}
+              <div className="bg-gray-50 rounded-lg p-6">
+                <h2 className="text-xl font-semibold mb-4">Параметры дома</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <span className="text-gray-600">Площадь:</span>
+                    <span className="ml-2 font-medium">{formData.area} м²</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Этажность:</span>
+                    <span className="ml-2 font-medium">{formData.floors}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Высота 1-го этажа:</span>
+                    <span className="ml-2 font-medium">{formData.firstFloorHeight}</span>
+                  </div>
+                  {formData.floors === '2 этажа' && (
+                    <div>
+                      <span className="text-gray-600">Высота 2-го этажа:</span>
+                      <span className="ml-2 font-medium">{formData.secondFloorHeight}</span>
+                    </div>
+                  )}
+                  <div>
+                    <span className="text-gray-600">Тип крыши:</span>
+                    <span className="ml-2 font-medium">{formData.roofType}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Форма дома:</span>
+                    <span className="ml-2 font-medium">{formData.houseShape}</span>
+                  </div>
                 </div>
-              )}
-              <div>
-                <span className="text-gray-600">Тип крыши:</span>
-                <span className="ml-2 font-medium">{formData.roofType}</span>
-              </div>
-              <div>
-                <span className="text-gray-600">Форма дома:</span>
-                <span className="ml-2 font-medium">{formData.houseShape}</span>
               </div>
-            </div>
-          </div>
 
-          {/* Стоимость */}
-          <div className="bg-emerald-50 rounded-lg p-6">
-            <h2 className="text-xl font-semibold mb-4">Стоимость</h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <span className="text-emerald-800">Стоимость за м²:</span>
-                <p className="text-2xl font-bold text-emerald-900">{formatPrice(pricePerSqm)}</p>
-              </div>
-              <div>
-                <span className="text-emerald-800">Общая стоимость:</span>
-                <p className="text-2xl font-bold text-emerald-900">{formatPrice(totalPrice)}</p>
+              {/* Стоимость */}
+              <div className="bg-emerald-50 rounded-lg p-6">
+                <h2 className="text-xl font-semibold mb-4">Стоимость</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <span className="text-emerald-800">Стоимость за м²:</span>
+                    <p className="text-2xl font-bold text-emerald-900">{formatPrice(pricePerSqm)}</p>
+                  </div>
+                  <div>
+                    <span className="text-emerald-800">Общая стоимость:</span>
+                    <p className="text-2xl font-bold text-emerald-900">{formatPrice(totalPrice)}</p>
+                  </div>
+                </div>
+                <p className="mt-4 text-sm text-emerald-800">
+                  Цены по прайсу от {format(parseISO(priceList.effectiveFrom), 'dd.MM.yyyy')}
+                </p>
               </div>
-            </div>
-          </div>
 
-          {/* Расшифровка стоимости */}
-          <div className="bg-white rounded-lg shadow-sm p-6">
-            <h2 className="text-xl font-semibold mb-4">Расшифровка стоимости</h2>
-            <div className="space-y-4">
-              <div className="flex justify-between items-center">
-                <span className="text-gray-600">Фундамент</span>
-                <span className="font-medium">{formatPrice(costBreakdown.foundation)}</span>
-              </div>
-              <div className="flex justify-between items-center">
-                <span className="text-gray-600">Домокомплект</span>
-                <span className="font-medium">{formatPrice(costBreakdown.houseKit)}</span>
-              </div>
-              <div className="flex justify-between items-center">
-                <span className="text-gray-600">Монтаж</span>
-                <span className="font-medium">{formatPrice(costBreakdown.assembly)}</span>
-              </div>
-              <div className="pt-4 border-t">
-                <div className="flex justify-between items-center">
-                  <span className="font-medium text-gray-900">Итого</span>
-                  <span className="font-bold text-emerald-600">{formatPrice(totalPrice)}</span>
+              {/* Расшифровка стоимости */}
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <h2 className="text-xl font-semibold mb-4">Расшифровка стоимости</h2>
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Фундамент</span>
+                    <span className="font-medium">{formatPrice(costBreakdown.foundation)}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Домокомплект</span>
+                    <span className="font-medium">{formatPrice(costBreakdown.houseKit)}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Монтаж</span>
+                    <span className="font-medium">{formatPrice(costBreakdown.assembly)}</span>
+                  </div>
+                  <div className="pt-4 border-t">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium text-gray-900">Итого</span>
+                      <span className="font-bold text-emerald-600">{formatPrice(totalPrice)}</span>
+                    </div>
+                  </div>
                 </div>
               </div>
-            </div>
-          </div>
+            </>
+          )}
 
           {/* Контакты */}
           <div className="text-center text-gray-600">
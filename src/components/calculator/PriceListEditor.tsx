@@ -0,0 +1,371 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Tags, Trash2, X } from 'lucide-react';
+import { createPriceList, deletePriceList, PriceListInput } from '../../lib/firebase';
+import { CalculatorPriceList } from '../../types/calculator';
+import { DEFAULT_PRICE_LIST } from '../../utils/calculatorUtils';
+import { showErrorNotification, showSuccessNotification } from '../../utils/notifications';
+
+interface PriceListEditorProps {
+  priceLists: CalculatorPriceList[];
+  // Версия, действующая сегодня
+  currentPriceList: CalculatorPriceList;
+  onClose: () => void;
+}
+
+type AdditionField = 'floorAdditions' | 'firstFloorHeightAdditions' | 'secondFloorHeightAdditions' | 'shapeAdditions';
+
+const ADDITION_GROUPS: { field: AdditionField; title: string }[] = [
+  { field: 'floorAdditions', title: 'Этажность' },
+  { field: 'firstFloorHeightAdditions', title: 'Высота 1-го этажа' },
+  { field: 'secondFloorHeightAdditions', title: 'Высота 2-го этажа' },
+  { field: 'shapeAdditions', title: 'Форма дома' }
+];
+
+const formatDate = (date: string) => format(parseISO(date), 'dd.MM.yyyy');
+
+const toNumber = (value: string) => Number(value) || 0;
+
+export const PriceListEditor: React.FC<PriceListEditorProps> = ({
+  priceLists,
+  currentPriceList,
+  onClose
+}) => {
+  const versions = priceLists.length ? priceLists : [DEFAULT_PRICE_LIST];
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const [selectedId, setSelectedId] = useState(currentPriceList.id);
+  const [draft, setDraft] = useState<PriceListInput | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const selected = versions.find(({ id }) => id === selectedId) || currentPriceList;
+  const shown: PriceListInput = draft || selected;
+  const isEditing = draft !== null;
+
+  const handleStartDraft = () => {
+    setDraft({
+      name: '',
+      effectiveFrom: today,
+      tiers: selected.tiers.map(tier => ({ ...tier })),
+      floorAdditions: selected.floorAdditions,
+      firstFloorHeightAdditions: selected.firstFloorHeightAdditions,
+      secondFloorHeightAdditions: selected.secondFloorHeightAdditions,
+      roofAdditions: selected.roofAdditions,
+      shapeAdditions: selected.shapeAdditions
+    });
+  };
+
+  const updateDraft = (changes: Partial<PriceListInput>) => {
+    setDraft(prev => prev && { ...prev, ...changes });
+  };
+
+  const handleTierChange = (index: number, field: 'minArea' | 'maxArea' | 'pricePerSqm', value: string) => {
+    if (!draft) return;
+    updateDraft({
+      tiers: draft.tiers.map((tier, i) => i === index ? { ...tier, [field]: toNumber(value) } : tier)
+    });
+  };
+
+  const handleAddTier = () => {
+    if (!draft) return;
+    const last = draft.tiers[draft.tiers.length - 1];
+    const minArea = last ? last.maxArea + 1 : 10;
+    updateDraft({ tiers: [...draft.tiers, { minArea, maxArea: minArea, pricePerSqm: 0 }] });
+  };
+
+  const handleAdditionChange = (field: AdditionField, option: string, value: string) => {
+    if (!draft) return;
+    updateDraft({ [field]: { ...draft[field], [option]: toNumber(value) } });
+  };
+
+  const handleRoofAdditionChange = (roofType: string, floors: string, value: string) => {
+    if (!draft) return;
+    updateDraft({
+      roofAdditions: {
+        ...draft.roofAdditions,
+        [roofType]: { ...draft.roofAdditions[roofType], [floors]: toNumber(value) }
+      }
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const id = await createPriceList(draft);
+      setSelectedId(id);
+      setDraft(null);
+      showSuccessNotification('Новая версия прайса сохранена');
+    } catch (error) {
+      console.error('Error saving price list:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Не удалось сохранить прайс');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (priceList: CalculatorPriceList) => {
+    if (!window.confirm(`Удалить версию прайса «${priceList.name}»?`)) return;
+    try {
+      await deletePriceList(priceList);
+      if (selectedId === priceList.id) setSelectedId(currentPriceList.id);
+      showSuccessNotification('Версия прайса удалена');
+    } catch (error) {
+      console.error('Error deleting price list:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Не удалось удалить прайс');
+    }
+  };
+
+  const inputClassName = 'w-full px-2 py-1 border rounded text-right disabled:bg-gray-50 disabled:border-transparent';
+  const floorOptions = Object.keys(shown.floorAdditions);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-5xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center">
+              <Tags className="w-5 h-5 text-emerald-600" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Прайс калькулятора</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="overflow-y-auto border-r pr-4">
+            <h3 className="text-sm font-medium text-gray-500 mb-2">Версии</h3>
+            <ul className="space-y-1">
+              {versions.map(priceList => (
+                <li key={priceList.id}>
+                  <div
+                    onClick={() => !isEditing && setSelectedId(priceList.id)}
+                    className={`flex items-start justify-between p-2 rounded ${
+                      !isEditing && priceList.id === selected.id ? 'bg-emerald-50' : 'hover:bg-gray-50'
+                    } ${isEditing ? 'opacity-50' : 'cursor-pointer'}`}
+                  >
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{priceList.name}</p>
+                      <p className="text-xs text-gray-500">
+                        с {formatDate(priceList.effectiveFrom)}
+                        {priceList.id === currentPriceList.id && (
+                          <span className="ml-2 text-emerald-600">действует</span>
+                        )}
+                        {priceList.effectiveFrom > today && (
+                          <span className="ml-2 text-amber-600">запланирован</span>
+                        )}
+                      </p>
+                    </div>
+                    {priceList.effectiveFrom > today && !isEditing && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(priceList);
+                        }}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Удалить"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {!priceLists.length && (
+              <p className="mt-2 text-xs text-gray-500">
+                В базе нет версий прайса, расчёт идёт по базовому прайсу
+              </p>
+            )}
+          </div>
+
+          <div className="md:col-span-2 overflow-y-auto space-y-6">
+            {isEditing && draft && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Название</label>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => updateDraft({ name: e.target.value })}
+                    placeholder="Например, Прайс 2025"
+                    className="w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-emerald-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Действует с</label>
+                  <input
+                    type="date"
+                    value={draft.effectiveFrom}
+                    onChange={(e) => updateDraft({ effectiveFrom: e.target.value })}
+                    className="w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-emerald-500"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Цена за м² по площади дома</h3>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-2 font-medium">Площадь от, м²</th>
+                    <th className="py-2 pr-2 font-medium">до, м²</th>
+                    <th className="py-2 pr-2 font-medium">Цена за м², ₸</th>
+                    {isEditing && <th className="w-8"></th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.tiers.map((tier, index) => (
+                    <tr key={index} className="border-b last:border-0">
+                      <td className="py-1 pr-2">
+                        <input
+                          type="number"
+                          value={tier.minArea}
+                          disabled={!isEditing}
+                          onChange={(e) => handleTierChange(index, 'minArea', e.target.value)}
+                          className={inputClassName}
+                        />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <input
+                          type="number"
+                          value={tier.maxArea}
+                          disabled={!isEditing}
+                          onChange={(e) => handleTierChange(index, 'maxArea', e.target.value)}
+                          className={inputClassName}
+                        />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <input
+                          type="number"
+                          value={tier.pricePerSqm}
+                          disabled={!isEditing}
+                          onChange={(e) => handleTierChange(index, 'pricePerSqm', e.target.value)}
+                          className={inputClassName}
+                        />
+                      </td>
+                      {isEditing && draft && (
+                        <td className="py-1">
+                          <button
+                            onClick={() => updateDraft({ tiers: draft.tiers.filter((_, i) => i !== index) })}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="Удалить ступень"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {isEditing && (
+                <button
+                  onClick={handleAddTier}
+                  className="mt-2 flex items-center text-sm text-emerald-600 hover:text-emerald-700"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Добавить ступень
+                </button>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Надбавки за м², ₸</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {ADDITION_GROUPS.map(({ field, title }) => (
+                  <div key={field} className="bg-gray-50 rounded p-3">
+                    <p className="text-xs font-medium text-gray-500 mb-2">{title}</p>
+                    {Object.entries(shown[field]).map(([option, amount]) => (
+                      <div key={option} className="flex items-center justify-between gap-2 mb-1">
+                        <span className="text-sm text-gray-700">{option}</span>
+                        <input
+                          type="number"
+                          value={amount}
+                          disabled={!isEditing}
+                          onChange={(e) => handleAdditionChange(field, option, e.target.value)}
+                          className={`${inputClassName} max-w-[8rem]`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ))}
+
+                <div className="bg-gray-50 rounded p-3 sm:col-span-2">
+                  <p className="text-xs font-medium text-gray-500 mb-2">Тип крыши</p>
+                  <table className="text-sm">
+                    <thead>
+                      <tr className="text-gray-500">
+                        <th></th>
+                        {floorOptions.map(floors => (
+                          <th key={floors} className="px-2 font-medium text-right">{floors}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {Object.entries(shown.roofAdditions).map(([roofType, byFloors]) => (
+                        <tr key={roofType}>
+                          <td className="pr-4 text-gray-700">{roofType}</td>
+                          {floorOptions.map(floors => (
+                            <td key={floors} className="px-2 py-1">
+                              <input
+                                type="number"
+                                value={byFloors[floors] ?? 0}
+                                disabled={!isEditing}
+                                onChange={(e) => handleRoofAdditionChange(roofType, floors, e.target.value)}
+                                className={`${inputClassName} max-w-[8rem]`}
+                              />
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          {isEditing ? (
+            <>
+              <button
+                onClick={() => setDraft(null)}
+                disabled={saving}
+                className="px-4 py-2 text-gray-700 hover:text-gray-900"
+              >
+                Отмена
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Сохранение...' : 'Сохранить версию'}
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:text-gray-900"
+              >
+                Закрыть
+              </button>
+              <button
+                onClick={handleStartDraft}
+                className="px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors"
+              >
+                Новая версия на основе выбранной
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { CalculatorVariant } from '../../types/calculator';
+import { buildVariantComparison } from '../../utils/proposals';
+
+interface ProposalVariantsTableProps {
+  variants: CalculatorVariant[];
+}
+
+// Сравнение вариантов КП; строки, где варианты различаются, выделены
+export const ProposalVariantsTable: React.FC<ProposalVariantsTableProps> = ({ variants }) => {
+  const rows = buildVariantComparison(variants);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h2 className="text-xl font-semibold mb-4">Сравнение вариантов</h2>
+      <table className="min-w-full">
+        <thead>
+          <tr className="border-b">
+            <th className="py-2 pr-4 text-left font-medium text-gray-600">Параметр</th>
+            {variants.map((_, index) => (
+              <th key={index} className="py-2 px-4 text-right font-semibold text-gray-900">
+                Вариант {index + 1}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr
+              key={row.label}
+              className={`border-b last:border-0 ${row.differs ? 'bg-amber-50' : ''} ${row.isPrice ? 'font-medium' : ''}`}
+            >
+              <td className="py-2 pr-4 text-gray-600">{row.label}</td>
+              {row.values.map((value, index) => (
+                <td
+                  key={index}
+                  className={`py-2 px-4 text-right whitespace-nowrap ${row.differs ? 'text-amber-900 font-semibold' : 'text-gray-900'}`}
+                >
+                  {value}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-3 text-sm text-gray-500">
+        <span className="inline-block w-3 h-3 mr-2 align-middle bg-amber-50 border border-amber-200 rounded-sm"></span>
+        Параметры, которыми варианты отличаются
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import { saveProposal, ProposalInput } from '../../lib/firebase';
+import { ProposalRecipient } from '../../types/proposal';
+import { showErrorNotification, showSuccessNotification } from '../../utils/notifications';
+
+interface SaveProposalFormProps {
+  proposal: Omit<ProposalInput, 'recipient' | 'validUntil'>;
+  onSaved: (saved: { number: string; recipient: ProposalRecipient }) => void;
+  onCancel: () => void;
+}
+
+// Срок действия КП по умолчанию, дней
+const DEFAULT_VALIDITY_DAYS = 14;
+
+export const SaveProposalForm: React.FC<SaveProposalFormProps> = ({ proposal, onSaved, onCancel }) => {
+  const [recipient, setRecipient] = useState<ProposalRecipient>({ name: '', phone: '', email: '' });
+  const [validUntil, setValidUntil] = useState(() =>
+    format(addDays(parseISO(proposal.quoteDate), DEFAULT_VALIDITY_DAYS), 'yyyy-MM-dd')
+  );
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const { number } = await saveProposal({ ...proposal, recipient, validUntil });
+      showSuccessNotification(`КП ${number} сохранено`);
+      onSaved({ number, recipient });
+    } catch (error) {
+      console.error('Error saving proposal:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Не удалось сохранить КП');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-emerald-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-gray-50 border-b space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Получатель (ФИО)</label>
+          <input
+            type="text"
+            value={recipient.name}
+            onChange={(e) => setRecipient({ ...recipient, name: e.target.value })}
+            placeholder="Фамилия Имя Отчество"
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Действует до</label>
+          <input
+            type="date"
+            value={validUntil}
+            min={proposal.quoteDate}
+            onChange={(e) => setValidUntil(e.target.value)}
+            className={inputClassName}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Телефон</label>
+          <input
+            type="tel"
+            value={recipient.phone}
+            onChange={(e) => setRecipient({ ...recipient, phone: e.target.value })}
+            placeholder="+7"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+          <input
+            type="email"
+            value={recipient.email}
+            onChange={(e) => setRecipient({ ...recipient, email: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="px-4 py-2 text-gray-700 hover:text-gray-900"
+        >
+          Отмена
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Сохранение...' : 'Сохранить КП'}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -26,7 +26,7 @@ export const ClientCard: React.FC<ClientCardProps> = ({
   type,
   rowNumber,
 }) => {
-  const { progress, remainingAmount } = useClientPayments(client);
+  const { progress, remainingAmount, overdueAmount, tranches } = useClientPayments(client);
   const { netProfit } = useReceiptCalculation(client.id);
   const profitPercentage = ((netProfit / client.totalAmount) * 100).toFixed(2);
 
@@ -128,6 +128,8 @@ export const ClientCard: React.FC<ClientCardProps> = ({
               <PaymentProgress
                 progress={progress}
                 remainingAmount={remainingAmount}
+                overdueAmount={overdueAmount}
+                tranches={tranches}
               />
               <div className="flex items-center gap-1">
                 <button
@@ -212,6 +214,8 @@ export const ClientCard: React.FC<ClientCardProps> = ({
             <PaymentProgress
               progress={progress}
               remainingAmount={remainingAmount}
+              overdueAmount={overdueAmount}
+              tranches={tranches}
             />
 
             <div className="flex items-center gap-1 justify-end">
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { FilePlus, Paperclip } from 'lucide-react';
+import { subscribeToClientClosingDocuments } from '../../lib/firebase';
+import { ClosingDocumentModal } from './ClosingDocumentModal';
+import { Client, CONSTRUCTION_STAGES } from '../../types/client';
+import { ClosingDocument } from '../../types/closingDocument';
+import { getClosingDocumentTitle } from '../../utils/closingDocuments';
+
+interface ClientClosingDocumentsProps {
+  client: Client;
+}
+
+// Акты выполненных работ и счета на оплату по этапам
+export const ClientClosingDocuments: React.FC<ClientClosingDocumentsProps> = ({ client }) => {
+  const [documents, setDocuments] = useState<ClosingDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+
+  useEffect(() => {
+    return subscribeToClientClosingDocuments(
+      client.id,
+      (result) => {
+        setDocuments(result);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+  }, [client.id]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <button
+          onClick={() => setShowModal(true)}
+          className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+        >
+          <FilePlus className="w-4 h-4 mr-1" />
+          Сформировать акт или счёт
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-500"></div>
+        </div>
+      ) : documents.length === 0 ? (
+        <p className="text-center text-gray-500 py-6">Нет актов и счетов</p>
+      ) : (
+        <ul className="bg-white rounded-lg shadow divide-y">
+          {documents.map(document => (
+            <li key={document.id} className="p-4 flex flex-wrap justify-between items-center gap-2 text-sm">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {getClosingDocumentTitle(document.type, document.number)} от {format(parseISO(document.date), 'dd.MM.yyyy')}
+                </p>
+                <p className="text-gray-500">
+                  {CONSTRUCTION_STAGES[document.stage]}, договор №{document.contractNumber}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="font-medium text-gray-900">{document.totalAmount.toLocaleString('ru-RU')} ₸</span>
+                {document.file && (
+                  <a
+                    href={document.file.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center text-emerald-600 hover:text-emerald-700"
+                  >
+                    <Paperclip className="w-4 h-4 mr-1" />
+                    PDF
+                  </a>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showModal && (
+        <ClosingDocumentModal client={client} onClose={() => setShowModal(false)} />
+      )}
+    </div>
+  );
+};
@@ -1,48 +1,54 @@
 import React, { useState, useEffect } from 'react';
-import { FileText, Download, Share2, Edit2, Trash2 } from 'lucide-react';
-import { collection, query, where, onSnapshot, doc, deleteDoc } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
-import { ContractTemplate } from '../ContractTemplate';
-import { generatePDFFromElement } from '../../utils/documentUtils';
+import { FileText, Download, Share2, Edit2, Trash2, Upload, FilePlus, Paperclip } from 'lucide-react';
+import {
+  attachSignedScan,
+  deleteContract,
+  getContractBlocks,
+  subscribeToClientContracts,
+  updateContractStatus
+} from '../../lib/firebase';
+import { ContractViewer } from '../ContractViewer';
+import { ContractAmendments } from './ContractAmendments';
+import { ContractAmendmentModal } from './ContractAmendmentModal';
+import { Contract, ContractStatus, CONTRACT_STATUSES } from '../../types/contract';
+import { generateContractDOCX } from '../../utils/documentUtils';
+import { getContractClientData, getContractShareText } from '../../utils/contractTemplates';
+import { CONTRACT_STATUS_TRANSITIONS, canDeleteContract, getContractConstructionDays, getContractStatus } from '../../utils/contracts';
+import { ClientPaymentTerms } from '../../utils/paymentSchedule';
 import { shareContent } from '../../utils/shareUtils';
-
-interface Contract {
-  id: string;
-  contractNumber: string;
-  contractType: string;
-  createdAt: any;
-  content: string;
-}
+import { uploadFile } from '../../utils/storageUtils';
+import { showErrorNotification, showSuccessNotification } from '../../utils/notifications';
 
 interface ClientContractsProps {
   clientId: string;
+  // Цена и срок изменены доп. соглашением
+  onTermsChange?: (totalAmount: number, constructionDays: number, payments: ClientPaymentTerms | null) => void;
 }
 
-export const ClientContracts: React.FC<ClientContractsProps> = ({ clientId }) => {
+const STATUS_STYLES: Record<ContractStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  signed: 'bg-emerald-100 text-emerald-700',
+  terminated: 'bg-red-100 text-red-700'
+};
+
+export const ClientContracts: React.FC<ClientContractsProps> = ({ clientId, onTermsChange }) => {
   const [contracts, setContracts] = useState<Contract[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedContract, setSelectedContract] = useState<Contract | null>(null);
   const [showTemplate, setShowTemplate] = useState(false);
+  const [amendedContract, setAmendedContract] = useState<Contract | null>(null);
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
 
   useEffect(() => {
-    const q = query(
-      collection(db, 'contracts'),
-      where('clientId', '==', clientId)
+    return subscribeToClientContracts(
+      clientId,
+      (result) => {
+        setContracts(result);
+        setLoading(false);
+      },
+      () => setLoading(false)
     );
-
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const contractsData = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Contract[];
-      
-      contractsData.sort((a, b) => b.createdAt.seconds - a.createdAt.seconds);
-      
-      setContracts(contractsData);
-      setLoading(false);
-    });
-
-    return () => unsubscribe();
   }, [clientId]);
 
   const handleContractClick = (contract: Contract) => {
@@ -52,39 +58,64 @@ export const ClientContracts: React.FC<ClientContractsProps> = ({ clientId }) =>
 
   const handleShare = async (e: React.MouseEvent, contract: Contract) => {
     e.stopPropagation();
-    const content = JSON.parse(contract.content);
-    const shareText = `
-Договор подряда №${contract.contractNumber}
-
-Клиент: ${content.lastName} ${content.firstName} ${content.middleName}
-Объект: ${content.objectName}
-Адрес строительства: ${content.constructionAddress}
-Общая стоимость: ${content.totalAmount.toLocaleString()} тг
-
-ТОО "HotWell.KZ"
-Тел: +7 747 743 4343
-WhatsApp: +7 747 743 4343
-Email: HotWell.KZ@gmail.com
-    `;
-
-    await shareContent('Договор подряда HotWell.KZ', shareText);
+    await shareContent('Договор подряда HotWell.KZ', getContractShareText(getContractClientData(contract)));
   };
 
   const handleDownload = async (e: React.MouseEvent, contract: Contract) => {
     e.stopPropagation();
-    await generatePDFFromElement('contract-content', `Договор_${contract.contractNumber}.pdf`);
+    try {
+      const blocks = await getContractBlocks(contract);
+      await generateContractDOCX(blocks, `Договор_${contract.contractNumber}.docx`);
+    } catch (error) {
+      console.error('Error downloading contract:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Ошибка при формировании договора');
+    }
   };
 
   const handleDelete = async (e: React.MouseEvent, contract: Contract) => {
     e.stopPropagation();
-    
+
     if (window.confirm(`Вы уверены, что хотите удалить договор №${contract.contractNumber}?`)) {
       try {
-        await deleteDoc(doc(db, 'contracts', contract.id));
+        await deleteContract(contract);
       } catch (error) {
         console.error('Error deleting contract:', error);
-        alert('Ошибка при удалении договора');
+        showErrorNotification(error instanceof Error ? error.message : 'Ошибка при удалении договора');
+      }
+    }
+  };
+
+  const handleStatusChange = async (contract: Contract, status: ContractStatus) => {
+    let reason: string | undefined;
+    if (status === 'terminated') {
+      const input = window.prompt(`Расторгнуть договор №${contract.contractNumber}? Укажите причину`);
+      if (input === null) return;
+      reason = input;
+    }
+
+    try {
+      await updateContractStatus(contract, status, reason);
+      showSuccessNotification(`Договор №${contract.contractNumber}: ${CONTRACT_STATUSES[status].toLowerCase()}`);
+    } catch (error) {
+      console.error('Error updating contract status:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Не удалось изменить статус договора');
+    }
+  };
+
+  const handleScanUpload = async (contract: Contract, file: File) => {
+    setUploadingId(contract.id);
+    try {
+      const path = `contracts/${contract.id}/${Date.now()}_${file.name}`;
+      // Ошибки загрузки uploadFile показывает сам
+      const url = await uploadFile(file, path).catch(() => null);
+      if (url) {
+        await attachSignedScan(contract, { name: file.name, url, path });
       }
+    } catch (error) {
+      console.error('Error attaching contract scan:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Не удалось прикрепить скан договора');
+    } finally {
+      setUploadingId(null);
     }
   };
 
@@ -106,77 +137,159 @@ Email: HotWell.KZ@gmail.com
 
   return (
     <div className="space-y-4">
-      {contracts.map((contract) => (
-        <div
-          key={contract.id}
-          onClick={() => handleContractClick(contract)}
-          className="bg-white rounded-lg shadow hover:shadow-md transition-shadow cursor-pointer"
-        >
-          <div className="p-4 sm:p-6 flex items-start gap-4">
-            <div className="flex-shrink-0">
-              <div className="w-12 h-12 bg-emerald-100 rounded-lg flex items-center justify-center">
-                <FileText className="w-6 h-6 text-emerald-600" />
+      {contracts.map((contract) => {
+        const status = getContractStatus(contract);
+        const transitions = CONTRACT_STATUS_TRANSITIONS[status]
+          .filter(next => next !== 'signed' || contract.signedScan);
+
+        return (
+          <div
+            key={contract.id}
+            className="bg-white rounded-lg shadow hover:shadow-md transition-shadow"
+          >
+            <div className="p-4 sm:p-6 flex items-start gap-4">
+              <div className="flex-shrink-0">
+                <div className="w-12 h-12 bg-emerald-100 rounded-lg flex items-center justify-center">
+                  <FileText className="w-6 h-6 text-emerald-600" />
+                </div>
               </div>
-            </div>
-            <div className="flex-1 min-w-0">
-              <div className="flex justify-between items-start">
-                <div>
-                  <h3 className="text-lg font-medium text-gray-900 mb-1">
-                    Договор №{contract.contractNumber}
-                  </h3>
-                  <p className="text-sm text-gray-500 mb-2">
-                    {contract.contractType}
-                  </p>
-                  <p className="text-sm text-gray-400">
-                    Создан: {contract.createdAt.toDate().toLocaleDateString('ru-RU')}
-                  </p>
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 mb-1">
+                      Договор №{contract.contractNumber}
+                      <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium align-middle ${STATUS_STYLES[status]}`}>
+                        {CONTRACT_STATUSES[status]}
+                      </span>
+                    </h3>
+                    <p className="text-sm text-gray-500 mb-2">
+                      {contract.contractType}
+                    </p>
+                    <p className="text-sm text-gray-400">
+                      Создан: {contract.createdAt?.toDate().toLocaleDateString('ru-RU')}
+                      {contract.signedAt && `, подписан: ${contract.signedAt.toDate().toLocaleDateString('ru-RU')}`}
+                      {contract.terminatedAt && `, расторгнут: ${contract.terminatedAt.toDate().toLocaleDateString('ru-RU')}`}
+                    </p>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {contract.totalAmount.toLocaleString('ru-RU')} ₸, {getContractConstructionDays(contract)} раб. дн.
+                    </p>
+                    {contract.terminationReason && (
+                      <p className="text-sm text-red-600 mt-1">Причина расторжения: {contract.terminationReason}</p>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={(e) => handleShare(e, contract)}
+                      className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full"
+                      title="Поделиться"
+                    >
+                      <Share2 className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={(e) => handleDownload(e, contract)}
+                      className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full"
+                      title="Скачать DOCX"
+                    >
+                      <Download className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => handleContractClick(contract)}
+                      className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full"
+                      title="Просмотреть"
+                    >
+                      <Edit2 className="w-5 h-5" />
+                    </button>
+                    {canDeleteContract(contract) && (
+                      <button
+                        onClick={(e) => handleDelete(e, contract)}
+                        className="p-2 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-full"
+                        title="Удалить"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    )}
+                  </div>
                 </div>
-                <div className="flex space-x-2">
-                  <button
-                    onClick={(e) => handleShare(e, contract)}
-                    className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full"
-                    title="Поделиться"
-                  >
-                    <Share2 className="w-5 h-5" />
-                  </button>
-                  <button
-                    onClick={(e) => handleDownload(e, contract)}
-                    className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full"
-                    title="Скачать"
-                  >
-                    <Download className="w-5 h-5" />
-                  </button>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleContractClick(contract);
-                    }}
-                    className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full"
-                    title="Просмотреть"
-                  >
-                    <Edit2 className="w-5 h-5" />
-                  </button>
-                  <button
-                    onClick={(e) => handleDelete(e, contract)}
-                    className="p-2 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-full"
-                    title="Удалить"
-                  >
-                    <Trash2 className="w-5 h-5" />
-                  </button>
+
+                <div className="flex flex-wrap items-center gap-3 mt-3 text-sm">
+                  {transitions.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => handleStatusChange(contract, e.target.value as ContractStatus)}
+                      className="px-2 py-1 border rounded"
+                    >
+                      <option value="" disabled>Изменить статус</option>
+                      {transitions.map(next => (
+                        <option key={next} value={next}>{CONTRACT_STATUSES[next]}</option>
+                      ))}
+                    </select>
+                  )}
+
+                  {contract.signedScan && (
+                    <a
+                      href={contract.signedScan.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center text-emerald-600 hover:text-emerald-700"
+                    >
+                      <Paperclip className="w-4 h-4 mr-1" />
+                      {contract.signedScan.name}
+                    </a>
+                  )}
+
+                  {status !== 'terminated' && (
+                    <label className="flex items-center text-gray-600 hover:text-gray-900 cursor-pointer">
+                      <Upload className="w-4 h-4 mr-1" />
+                      {uploadingId === contract.id
+                        ? 'Загрузка...'
+                        : contract.signedScan ? 'Заменить скан' : 'Загрузить подписанный скан'}
+                      <input
+                        type="file"
+                        accept="application/pdf,image/*"
+                        className="hidden"
+                        disabled={uploadingId !== null}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = '';
+                          if (file) handleScanUpload(contract, file);
+                        }}
+                      />
+                    </label>
+                  )}
+
+                  {status === 'signed' && (
+                    <button
+                      onClick={() => setAmendedContract(contract)}
+                      className="flex items-center text-gray-600 hover:text-gray-900"
+                    >
+                      <FilePlus className="w-4 h-4 mr-1" />
+                      Доп. соглашение
+                    </button>
+                  )}
                 </div>
+
+                <ContractAmendments contractId={contract.id} />
               </div>
             </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
 
       {showTemplate && selectedContract && (
-        <ContractTemplate
-          client={JSON.parse(selectedContract.content)}
+        <ContractViewer
+          contract={selectedContract}
           isOpen={showTemplate}
           onClose={() => setShowTemplate(false)}
         />
       )}
+
+      {amendedContract && (
+        <ContractAmendmentModal
+          contract={amendedContract}
+          onClose={() => setAmendedContract(null)}
+          onApplied={onTermsChange}
+        />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
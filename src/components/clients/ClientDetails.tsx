@@ -1,12 +1,16 @@
 import React, { useState, forwardRef, useImperativeHandle } from 'react';
-import { ChevronDown, ChevronUp } from 'lucide-react';
+import { ChevronDown, ChevronUp, ClipboardList, History } from 'lucide-react';
 import { Client, initialClientState } from '../../types/client';
-import { doc, updateDoc, collection, query, where, getDocs, writeBatch, serverTimestamp } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
+import { doc, updateDoc, writeBatch, serverTimestamp } from 'firebase/firestore';
+import { db, findCategoryTransactions, getEntityCategories } from '../../lib/firebase';
 import { ClientMainInfo } from './ClientMainInfo';
 import { ClientPayments } from './ClientPayments';
 import { ClientContracts } from './ClientContracts';
+import { ClientClosingDocuments } from './ClientClosingDocuments';
 import { EstimateBlock } from './estimate/EstimateBlock';
+import { EstimateVersionsModal } from './estimate/EstimateVersionsModal';
+import { EstimateExportButton } from './estimate/EstimateExportButton';
+import { MaterialPlanModal } from './estimate/MaterialPlanModal';
 import { FoundationEstimate } from './FoundationEstimate';
 import { SipWallsEstimate } from './SipWallsEstimate';
 import { FloorEstimate } from './FloorEstimate';
@@ -15,6 +19,8 @@ import { PartitionEstimate } from './PartitionEstimate';
 import { ConsumablesEstimate } from './ConsumablesEstimate';
 import { AdditionalWorksEstimate } from './AdditionalWorksEstimate';
 import { ReceiptCalculation } from './ReceiptCalculation';
+import { getIncludedVat } from '../../utils/estimatePricing';
+import { ClientPaymentTerms } from '../../utils/paymentSchedule';
 
 interface ClientDetailsProps {
   client: Client;
@@ -36,7 +42,12 @@ export const ClientDetails = forwardRef<any, ClientDetailsProps>(({
   const [loading, setLoading] = useState(false);
   const [showPayments, setShowPayments] = useState(false);
   const [showContracts, setShowContracts] = useState(false);
+  const [showClosingDocuments, setShowClosingDocuments] = useState(false);
   const [floors, setFloors] = useState('1');
+  const [showEstimateVersions, setShowEstimateVersions] = useState(false);
+  const [showMaterialPlan, setShowMaterialPlan] = useState(false);
+  // Меняется после восстановления версии, чтобы разделы сметы перечитали данные
+  const [estimateRevision, setEstimateRevision] = useState(0);
 
   const clientRef = doc(db, 'clients', client.id);
 
@@ -51,65 +62,35 @@ export const ClientDetails = forwardRef<any, ClientDetailsProps>(({
         updatedAt: serverTimestamp()
       });
 
-      // Находим и обновляем связанные категории
-      const [projectsQuery, clientsQuery] = [
-        query(
-          collection(db, 'categories'),
-          where('title', '==', `${client.lastName} ${client.firstName}`),
-          where('row', '==', 3)
-        ),
-        query(
-          collection(db, 'categories'),
-          where('title', '==', `${client.lastName} ${client.firstName}`),
-          where('row', '==', 1)
-        )
-      ];
-      
-      const [projectsSnapshot, clientsSnapshot] = await Promise.all([
-        getDocs(projectsQuery),
-        getDocs(clientsQuery)
-      ]);
-
-      // Обновляем названия категорий
+      // Находим связанные с клиентом категории и обновляем их названия
+      const categoryDocs = await getEntityCategories(client.id);
       const newTitle = `${formData.lastName} ${formData.firstName}`;
-      [...projectsSnapshot.docs, ...clientsSnapshot.docs].forEach(doc => {
+      categoryDocs.forEach(doc => {
         batch.update(doc.ref, { 
           title: newTitle,
           updatedAt: serverTimestamp()
         });
       });
 
-      // Находим и обновляем все связанные транзакции
-      const transactionsQuery = query(
-        collection(db, 'transactions'),
-        where('fromUser', '==', `${client.lastName} ${client.firstName}`)
-      );
-      
-      const toUserTransactionsQuery = query(
-        collection(db, 'transactions'),
-        where('toUser', '==', `${client.lastName} ${client.firstName}`)
-      );
-
-      const [transactionsSnapshot, toUserTransactionsSnapshot] = await Promise.all([
-        getDocs(transactionsQuery),
-        getDocs(toUserTransactionsQuery)
-      ]);
-
-      // Обновляем fromUser в транзакциях
-      transactionsSnapshot.docs.forEach(doc => {
-        batch.update(doc.ref, { 
-          fromUser: newTitle,
-          updatedAt: serverTimestamp()
-        });
-      });
-
-      // Обновляем toUser в транзакциях
-      toUserTransactionsSnapshot.docs.forEach(doc => {
-        batch.update(doc.ref, { 
-          toUser: newTitle,
-          updatedAt: serverTimestamp()
+      // Переименовываем клиента в его проводках и во второй части их переводов.
+      // Проводки выбираются по категориям клиента, а не по имени: у однофамильцев
+      // история не меняется
+      const oldTitle = `${client.lastName} ${client.firstName}`;
+      if (newTitle !== oldTitle) {
+        const transactionDocs = await findCategoryTransactions(categoryDocs.map(doc => doc.id));
+        transactionDocs.forEach(transactionDoc => {
+          const data = transactionDoc.data();
+          const changes = {
+            ...(data.fromUser === oldTitle ? { fromUser: newTitle } : {}),
+            ...(data.toUser === oldTitle ? { toUser: newTitle } : {})
+          };
+          if (Object.keys(changes).length === 0) return;
+          batch.update(transactionDoc.ref, {
+            ...changes,
+            updatedAt: serverTimestamp()
+          });
         });
-      });
+      }
 
       await batch.commit();
       setIsEditing(false);
@@ -128,6 +109,26 @@ export const ClientDetails = forwardRef<any, ClientDetailsProps>(({
 
   const shouldShowFloorEstimate = floors !== '1';
 
+  // Цена, рассчитанная по смете, становится суммой договора клиента
+  const handleContractPriceChange = (totalAmount: number, vatRate: number, vatAmount: number) => {
+    setFormData(prev =>
+      prev.totalAmount === totalAmount && prev.vatRate === vatRate && prev.vatAmount === vatAmount
+        ? prev
+        : { ...prev, totalAmount, vatRate, vatAmount }
+    );
+  };
+
+  // Доп. соглашение уже записало новые цену, срок и транши в карточку клиента
+  const handleAmendmentTerms = (totalAmount: number, constructionDays: number, payments: ClientPaymentTerms | null) => {
+    setFormData(prev => ({
+      ...prev,
+      totalAmount,
+      constructionDays,
+      ...(prev.vatRate ? { vatAmount: getIncludedVat(totalAmount, prev.vatRate) } : {}),
+      ...payments
+    }));
+  };
+
   return (
     <div className="max-w-5xl mx-auto px-4 py-8">
       <div className="bg-white rounded-lg shadow-lg p-6">
@@ -162,6 +163,9 @@ export const ClientDetails = forwardRef<any, ClientDetailsProps>(({
                   const { name, value } = e.target;
                   setFormData(prev => ({ ...prev, [name]: Number(value) }));
                 }}
+                onScheduleChange={(paymentSchedule) => {
+                  setFormData(prev => ({ ...prev, paymentSchedule }));
+                }}
               />
             )}
           </div>
@@ -181,56 +185,104 @@ export const ClientDetails = forwardRef<any, ClientDetailsProps>(({
 
             {showContracts && (
               <div className="mt-4">
-                <ClientContracts clientId={client.id} />
+                <ClientContracts clientId={client.id} onTermsChange={handleAmendmentTerms} />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <button
+              onClick={() => setShowClosingDocuments(!showClosingDocuments)}
+              className="flex items-center text-gray-700 hover:text-gray-900"
+            >
+              {showClosingDocuments ? (
+                <ChevronUp className="w-5 h-5 mr-1" />
+              ) : (
+                <ChevronDown className="w-5 h-5 mr-1" />
+              )}
+              Акты и счета
+            </button>
+
+            {showClosingDocuments && (
+              <div className="mt-4">
+                <ClientClosingDocuments client={formData} />
               </div>
             )}
           </div>
 
+          <div className="flex justify-end gap-4">
+            <EstimateExportButton client={formData} />
+            <button
+              onClick={() => setShowMaterialPlan(true)}
+              className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+            >
+              <ClipboardList className="w-4 h-4 mr-1" />
+              Материалы
+            </button>
+            <button
+              onClick={() => setShowEstimateVersions(true)}
+              className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+            >
+              <History className="w-4 h-4 mr-1" />
+              Версии сметы
+            </button>
+          </div>
+
           <EstimateBlock
+            key={estimateRevision}
             isEditing={isEditing}
             clientId={client.id}
             onFloorsChange={setFloors}
+            onContractPriceChange={handleContractPriceChange}
           />
 
           <FoundationEstimate
+            key={estimateRevision}
             isEditing={isEditing}
             clientId={client.id}
           />
 
           <SipWallsEstimate
+            key={estimateRevision}
             isEditing={isEditing}
             clientId={client.id}
           />
 
           {shouldShowFloorEstimate && (
             <FloorEstimate
+              key={estimateRevision}
               isEditing={isEditing}
               clientId={client.id}
             />
           )}
 
           <RoofEstimate
+            key={estimateRevision}
             isEditing={isEditing}
             clientId={client.id}
           />
 
           <PartitionEstimate
+            key={estimateRevision}
             isEditing={isEditing}
             clientId={client.id}
           />
 
           <ConsumablesEstimate
+            key={estimateRevision}
             isEditing={isEditing}
             clientId={client.id}
           />
 
           <AdditionalWorksEstimate
+            key={estimateRevision}
             isEditing={isEditing}
             clientId={client.id}
             floors={floors}
           />
 
           <ReceiptCalculation
+            key={estimateRevision}
             isEditing={isEditing}
             clientId={client.id}
           />
@@ -254,6 +306,21 @@ export const ClientDetails = forwardRef<any, ClientDetailsProps>(({
           </div>
         )}
       </div>
+
+      {showEstimateVersions && (
+        <EstimateVersionsModal
+          clientId={client.id}
+          onClose={() => setShowEstimateVersions(false)}
+          onRestore={() => setEstimateRevision(prev => prev + 1)}
+        />
+      )}
+
+      {showMaterialPlan && (
+        <MaterialPlanModal
+          clientId={client.id}
+          onClose={() => setShowMaterialPlan(false)}
+        />
+      )}
     </div>
   );
 });
\ No newline at end of file
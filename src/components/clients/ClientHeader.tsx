@@ -1,8 +1,7 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { ArrowLeft, Edit2, FileText, Save, FolderOpen } from 'lucide-react';
 import { Client } from '../../types/client';
-import { addContract } from '../../lib/firebase'; 
-import { numberToWords } from '../../utils/numberToWords';
+import { CreateContractModal } from './CreateContractModal';
 import { useNavigate } from 'react-router-dom';
 
 interface ClientHeaderProps {
@@ -24,50 +23,7 @@ export const ClientHeader: React.FC<ClientHeaderProps> = ({
   handleSave,
 }) => {
   const navigate = useNavigate();
-
-  const handleCreateContract = async () => {
-    try {
-      const contractData = {
-        clientId: client.id,
-        clientNumber: client.clientNumber,
-        clientName: client.firstName,
-        clientLastName: client.lastName,
-        contractNumber: client.clientNumber,
-        contractType: 'Договор подряда на строительство дома',
-        createdAt: new Date(),
-        totalAmount: client.totalAmount,
-        content: JSON.stringify({
-          ...client,
-          totalAmountWords: numberToWords(client.totalAmount),
-          depositWords: numberToWords(client.deposit),
-          firstPaymentWords: numberToWords(client.firstPayment),
-          secondPaymentWords: numberToWords(client.secondPayment),
-          thirdPaymentWords: numberToWords(client.thirdPayment),
-          fourthPaymentWords: numberToWords(client.fourthPayment)
-        }),
-        firstName: client.firstName,
-        lastName: client.lastName,
-        middleName: client.middleName,
-        iin: client.iin,
-        constructionAddress: client.constructionAddress,
-        livingAddress: client.livingAddress,
-        phone: client.phone,
-        email: client.email,
-        constructionDays: client.constructionDays,
-        deposit: client.deposit,
-        firstPayment: client.firstPayment,
-        secondPayment: client.secondPayment,
-        thirdPayment: client.thirdPayment,
-        fourthPayment: client.fourthPayment
-      };
-
-      await addContract(contractData);
-      alert('Договор успешно создан');
-    } catch (error) {
-      console.error('Error creating contract:', error);
-      alert('Ошибка при создании договора');
-    }
-  };
+  const [showCreateContract, setShowCreateContract] = useState(false);
 
   return (
     <div className="bg-white border-b">
@@ -99,7 +55,7 @@ export const ClientHeader: React.FC<ClientHeaderProps> = ({
                   Редактировать
                 </button>
                 <button
-                  onClick={handleCreateContract}
+                  onClick={() => setShowCreateContract(true)}
                   className="inline-flex items-center justify-center px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors text-sm"
                 >
                   <FileText className="w-5 h-5 mr-1" />
@@ -119,6 +75,10 @@ export const ClientHeader: React.FC<ClientHeaderProps> = ({
           </div>
         </div>
       </div>
+
+      {showCreateContract && (
+        <CreateContractModal client={client} onClose={() => setShowCreateContract(false)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -2,8 +2,8 @@ import React, { useState } from 'react';
 import { X } from 'lucide-react';
 import { ClientForm } from './ClientForm';
 import { NewClient } from '../../types/client';
-import { collection, addDoc, doc, updateDoc, serverTimestamp, query, where, getDocs } from 'firebase/firestore';
-import { db, addCategory } from '../../lib/firebase';
+import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { db, createClient } from '../../lib/firebase';
 
 interface ClientModalProps {
   isOpen: boolean;
@@ -24,33 +24,6 @@ export const ClientModal: React.FC<ClientModalProps> = ({
 }) => {
   const [client, setClient] = useState<NewClient>(initialClient);
 
-  const generateClientNumber = async (status: 'building' | 'deposit', year: number) => {
-    try {
-      const q = query(
-        collection(db, 'clients'),
-        where('status', '==', status),
-        where('year', '==', year)
-      );
-      
-      const snapshot = await getDocs(q);
-      let maxNumber = 0;
-
-      snapshot.forEach(doc => {
-        const clientData = doc.data();
-        const currentNumber = parseInt(clientData.clientNumber.split('-')[1]);
-        if (currentNumber > maxNumber) {
-          maxNumber = currentNumber;
-        }
-      });
-
-      const nextNumber = maxNumber + 1;
-      return `${year}-${String(nextNumber).padStart(3, '0')}`;
-    } catch (error) {
-      console.error('Error generating client number:', error);
-      throw error;
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -60,57 +33,7 @@ export const ClientModal: React.FC<ClientModalProps> = ({
       };
 
       if (!isEditMode) {
-        // Генерируем номер клиента в зависимости от статуса
-        const clientNumber = await generateClientNumber(client.status, client.year);
-        clientData.clientNumber = clientNumber;
-
-        await addDoc(collection(db, 'clients'), clientData);
-        
-        // Проверяем существующие иконки в категориях
-        const [projectsQuery, clientsQuery] = [
-          query(
-            collection(db, 'categories'),
-            where('title', '==', `${client.lastName} ${client.firstName}`),
-            where('row', '==', 3)
-          ),
-          query(
-            collection(db, 'categories'),
-            where('title', '==', `${client.lastName} ${client.firstName}`),
-            where('row', '==', 1)
-          )
-        ];
-        
-        const [projectsSnapshot, clientsSnapshot] = await Promise.all([
-          getDocs(projectsQuery),
-          getDocs(clientsQuery)
-        ]);
-        
-        // Создаем иконки только если они еще не существуют и имя не "Milyuk Vitaliy"
-        if (!(client.lastName === "Milyuk" && client.firstName === "Vitaliy")) {
-          const promises = [];
-          
-          if (projectsSnapshot.empty) {
-            promises.push(addCategory({
-              title: `${client.lastName} ${client.firstName}`,
-              amount: '0 ₸',
-              icon: 'Building2',
-              color: 'bg-blue-500',
-              row: 3
-            }));
-          }
-          
-          if (clientsSnapshot.empty) {
-            promises.push(addCategory({
-              title: `${client.lastName} ${client.firstName}`,
-              amount: '0 ₸',
-              icon: 'User',
-              color: 'bg-amber-400',
-              row: 1
-            }));
-          }
-          
-          await Promise.all(promises);
-        }
+        await createClient(client);
       } else {
         const clientRef = doc(db, 'clients', initialClient.id!);
         await updateDoc(clientRef, clientData);
@@ -1,88 +1,280 @@
-import React from 'react';
-import { Client } from '../../types/client';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Client, ConstructionStage, CONSTRUCTION_STAGES, PaymentTranche } from '../../types/client';
+import { ClientPayment, getClientPayments } from '../../lib/firebase';
+import {
+  allocatePayments,
+  buildScheduleFromContract,
+  createTrancheId,
+  getPaymentSchedule,
+  TrancheStatus
+} from '../../utils/paymentSchedule';
 
 interface ClientPaymentsProps {
   formData: Client;
   isEditing: boolean;
   onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onScheduleChange: (schedule: PaymentTranche[]) => void;
 }
 
+const STATUS_STYLES: Record<TrancheStatus, { label: string; className: string }> = {
+  paid: { label: 'Оплачен', className: 'bg-emerald-100 text-emerald-700' },
+  partial: { label: 'Частично', className: 'bg-amber-100 text-amber-700' },
+  pending: { label: 'Ожидается', className: 'bg-gray-100 text-gray-600' },
+  overdue: { label: 'Просрочен', className: 'bg-red-100 text-red-700' }
+};
+
 export const ClientPayments: React.FC<ClientPaymentsProps> = ({
   formData,
   isEditing,
-  onChange
+  onChange,
+  onScheduleChange
 }) => {
+  const [payments, setPayments] = useState<ClientPayment[]>([]);
+
+  useEffect(() => {
+    if (!formData.id) return;
+
+    getClientPayments(formData.id)
+      .then(setPayments)
+      .catch(error => console.error('Error fetching client payments:', error));
+  }, [formData.id]);
+
+  const schedule = formData.paymentSchedule || [];
+  const tranches = useMemo(
+    () => allocatePayments(getPaymentSchedule(formData), payments),
+    [formData, payments]
+  );
+  const scheduledTotal = schedule.reduce((sum, tranche) => sum + tranche.amount, 0);
+
+  const formatMoney = (amount: number): string => {
+    return amount.toLocaleString('ru-RU') + ' ₸';
+  };
+
+  const updateTranche = (id: string, changes: Partial<PaymentTranche>) => {
+    onScheduleChange(schedule.map(tranche => {
+      if (tranche.id !== id) return tranche;
+      const updated = { ...tranche, ...changes };
+      // Firestore не принимает undefined-поля
+      if (!updated.stage) delete updated.stage;
+      return updated;
+    }));
+  };
+
+  const handleAddTranche = () => {
+    onScheduleChange([
+      ...schedule,
+      { id: createTrancheId(), label: `Транш ${schedule.length + 1}`, amount: 0, dueDate: '' }
+    ]);
+  };
+
+  const handleRemoveTranche = (id: string) => {
+    onScheduleChange(schedule.filter(tranche => tranche.id !== id));
+  };
+
   return (
-    <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-6">
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-1">
-          Задаток
-        </label>
-        <input
-          type="number"
-          name="deposit"
-          value={formData.deposit}
-          onChange={onChange}
-          disabled={!isEditing}
-          className="w-full px-3 py-2 border rounded-md disabled:bg-gray-50"
-        />
-      </div>
+    <div className="mt-4 space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Задаток
+          </label>
+          <input
+            type="number"
+            name="deposit"
+            value={formData.deposit}
+            onChange={onChange}
+            disabled={!isEditing}
+            className="w-full px-3 py-2 border rounded-md disabled:bg-gray-50"
+          />
+        </div>
 
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-1">
-          Первый транш
-        </label>
-        <input
-          type="number"
-          name="firstPayment"
-          value={formData.firstPayment}
-          onChange={onChange}
-          disabled={!isEditing}
-          className="w-full px-3 py-2 border rounded-md disabled:bg-gray-50"
-        />
-      </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Первый транш
+          </label>
+          <input
+            type="number"
+            name="firstPayment"
+            value={formData.firstPayment}
+            onChange={onChange}
+            disabled={!isEditing}
+            className="w-full px-3 py-2 border rounded-md disabled:bg-gray-50"
+          />
+        </div>
 
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-1">
-          Второй транш
-        </label>
-        <input
-          type="number"
-          name="secondPayment"
-          value={formData.secondPayment}
-          onChange={onChange}
-          disabled={!isEditing}
-          className="w-full px-3 py-2 border rounded-md disabled:bg-gray-50"
-        />
-      </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Второй транш
+          </label>
+          <input
+            type="number"
+            name="secondPayment"
+            value={formData.secondPayment}
+            onChange={onChange}
+            disabled={!isEditing}
+            className="w-full px-3 py-2 border rounded-md disabled:bg-gray-50"
+          />
+        </div>
 
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-1">
-          Третий транш
-        </label>
-        <input
-          type="number"
-          name="thirdPayment"
-          value={formData.thirdPayment}
-          onChange={onChange}
-          disabled={!isEditing}
-          className="w-full px-3 py-2 border rounded-md disabled:bg-gray-50"
-        />
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Третий транш
+          </label>
+          <input
+            type="number"
+            name="thirdPayment"
+            value={formData.thirdPayment}
+            onChange={onChange}
+            disabled={!isEditing}
+            className="w-full px-3 py-2 border rounded-md disabled:bg-gray-50"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Четвертый транш
+          </label>
+          <input
+            type="number"
+            name="fourthPayment"
+            value={formData.fourthPayment}
+            onChange={onChange}
+            disabled={!isEditing}
+            className="w-full px-3 py-2 border rounded-md disabled:bg-gray-50"
+          />
+        </div>
       </div>
 
       <div>
-        <label className="block text-sm font-medium text-gray-700 mb-1">
-          Четвертый транш
-        </label>
-        <input
-          type="number"
-          name="fourthPayment"
-          value={formData.fourthPayment}
-          onChange={onChange}
-          disabled={!isEditing}
-          className="w-full px-3 py-2 border rounded-md disabled:bg-gray-50"
-        />
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-700">График платежей</h3>
+          {isEditing && (
+            <div className="flex items-center gap-3">
+              {schedule.length === 0 && (
+                <button
+                  type="button"
+                  onClick={() => onScheduleChange(buildScheduleFromContract(formData))}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                >
+                  Заполнить из договора
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleAddTranche}
+                className="flex items-center text-sm text-emerald-600 hover:text-emerald-700"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Добавить транш
+              </button>
+            </div>
+          )}
+        </div>
+
+        {isEditing ? (
+          schedule.length === 0 ? (
+            <p className="text-sm text-gray-500">График не задан</p>
+          ) : (
+            <div className="space-y-2">
+              {schedule.map(tranche => (
+                <div key={tranche.id} className="grid grid-cols-1 md:grid-cols-[1fr,140px,150px,150px,32px] gap-2 items-center">
+                  <input
+                    type="text"
+                    value={tranche.label}
+                    onChange={(e) => updateTranche(tranche.id, { label: e.target.value })}
+                    placeholder="Назначение"
+                    className="px-3 py-2 border rounded-md text-sm"
+                  />
+                  <input
+                    type="number"
+                    value={tranche.amount}
+                    onChange={(e) => updateTranche(tranche.id, { amount: Number(e.target.value) })}
+                    placeholder="Сумма"
+                    className="px-3 py-2 border rounded-md text-sm"
+                  />
+                  <input
+                    type="date"
+                    value={tranche.dueDate}
+                    onChange={(e) => updateTranche(tranche.id, { dueDate: e.target.value })}
+                    className="px-3 py-2 border rounded-md text-sm"
+                  />
+                  <select
+                    value={tranche.stage || ''}
+                    onChange={(e) => updateTranche(tranche.id, {
+                      stage: (e.target.value || undefined) as ConstructionStage | undefined
+                    })}
+                    className="px-3 py-2 border rounded-md text-sm"
+                  >
+                    <option value="">Без этапа</option>
+                    {(Object.keys(CONSTRUCTION_STAGES) as ConstructionStage[]).map(stage => (
+                      <option key={stage} value={stage}>{CONSTRUCTION_STAGES[stage]}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveTranche(tranche.id)}
+                    className="p-1.5 text-gray-400 hover:text-red-600"
+                    title="Удалить транш"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {scheduledTotal !== Number(formData.totalAmount) && (
+                <p className="text-xs text-amber-600">
+                  Сумма графика {formatMoney(scheduledTotal)} не совпадает с суммой договора {formatMoney(Number(formData.totalAmount))}
+                </p>
+              )}
+            </div>
+          )
+        ) : tranches.length === 0 ? (
+          <p className="text-sm text-gray-500">График не задан</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4 font-medium">Транш</th>
+                  <th className="py-2 pr-4 font-medium">Срок</th>
+                  <th className="py-2 pr-4 font-medium text-right">Сумма</th>
+                  <th className="py-2 pr-4 font-medium text-right">Оплачено</th>
+                  <th className="py-2 pr-4 font-medium text-right">К оплате</th>
+                  <th className="py-2 font-medium">Статус</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tranches.map(state => (
+                  <tr key={state.tranche.id} className="border-b last:border-0">
+                    <td className="py-2 pr-4 text-gray-900">
+                      {state.tranche.label}
+                      {state.tranche.stage && (
+                        <span className="block text-xs text-gray-500">
+                          {CONSTRUCTION_STAGES[state.tranche.stage]}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">
+                      {state.tranche.dueDate
+                        ? new Date(`${state.tranche.dueDate}T00:00:00`).toLocaleDateString('ru-RU')
+                        : '—'}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(state.tranche.amount)}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(state.paidAmount)}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(state.dueAmount)}</td>
+                    <td className="py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[state.status].className}`}>
+                        {STATUS_STYLES[state.status].label}
+                        {state.status === 'overdue' && ` · ${state.daysOverdue} дн.`}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { flushSync } from 'react-dom';
+import { format } from 'date-fns';
+import { Receipt, X } from 'lucide-react';
+import { attachClosingDocumentFile, prepareClosingDocument, saveClosingDocument } from '../../lib/firebase';
+import { ContractDocument } from '../ContractDocument';
+import { Client, ConstructionStage, CONSTRUCTION_STAGES } from '../../types/client';
+import { ClosingDocument, ClosingDocumentDraft, ClosingDocumentType, CLOSING_DOCUMENT_TYPES } from '../../types/closingDocument';
+import {
+  getClosingDocumentBlocks,
+  getClosingDocumentFileName,
+  STAGE_ESTIMATE_SECTIONS
+} from '../../utils/closingDocuments';
+import { generatePDFFileFromElement } from '../../utils/documentUtils';
+import { numberToWords } from '../../utils/numberToWords';
+import { uploadFile } from '../../utils/storageUtils';
+import { showErrorNotification, showSuccessNotification } from '../../utils/notifications';
+
+interface ClosingDocumentModalProps {
+  client: Client;
+  onClose: () => void;
+}
+
+const CONTENT_ID = 'closing-document-content';
+
+export const ClosingDocumentModal: React.FC<ClosingDocumentModalProps> = ({ client, onClose }) => {
+  const [type, setType] = useState<ClosingDocumentType>('act');
+  const [stage, setStage] = useState<ConstructionStage>('foundation');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [draft, setDraft] = useState<ClosingDocumentDraft | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [issued, setIssued] = useState<ClosingDocument | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Для акта доступны только этапы, по которым в смете есть разделы
+  const stages = (Object.keys(CONSTRUCTION_STAGES) as ConstructionStage[])
+    .filter(key => type === 'invoice' || STAGE_ESTIMATE_SECTIONS[key].length > 0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setDraftError(null);
+
+    prepareClosingDocument(client, type, stage, date)
+      .then(result => {
+        if (!cancelled) setDraft(result);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setDraft(null);
+        setDraftError(error instanceof Error ? error.message : 'Не удалось рассчитать документ');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, type, stage, date]);
+
+  const handleTypeChange = (value: ClosingDocumentType) => {
+    setType(value);
+    if (value === 'act' && STAGE_ESTIMATE_SECTIONS[stage].length === 0) {
+      setStage('foundation');
+    }
+  };
+
+  // Номер присваивается при сохранении; PDF снимается уже с номером
+  // и попадает в файлы клиента
+  const handleIssue = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const saved = await saveClosingDocument(draft);
+      flushSync(() => setIssued(saved));
+
+      const fileName = getClosingDocumentFileName(saved.type, saved.number);
+      const file = await generatePDFFileFromElement(CONTENT_ID, fileName);
+      const path = `clients/${client.id}/files/${Date.now()}-${fileName.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+      // Ошибки загрузки uploadFile показывает сам
+      const url = await uploadFile(file, path).catch(() => null);
+      if (url) {
+        await attachClosingDocumentFile(saved, {
+          name: fileName,
+          url,
+          type: file.type,
+          size: file.size,
+          uploadedAt: new Date(),
+          path
+        });
+      }
+
+      showSuccessNotification(`${CLOSING_DOCUMENT_TYPES[saved.type]} №${saved.number} сформирован`);
+      onClose();
+    } catch (error) {
+      console.error('Error issuing closing document:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Не удалось сформировать документ');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-4xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center">
+              <Receipt className="w-5 h-5 text-emerald-600" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Акт или счёт по этапу</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Документ</label>
+            <select
+              value={type}
+              onChange={(e) => handleTypeChange(e.target.value as ClosingDocumentType)}
+              disabled={saving}
+              className="w-full px-3 py-2 border rounded-md"
+            >
+              {(Object.keys(CLOSING_DOCUMENT_TYPES) as ClosingDocumentType[]).map(key => (
+                <option key={key} value={key}>{CLOSING_DOCUMENT_TYPES[key]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Этап</label>
+            <select
+              value={stage}
+              onChange={(e) => setStage(e.target.value as ConstructionStage)}
+              disabled={saving}
+              className="w-full px-3 py-2 border rounded-md"
+            >
+              {stages.map(key => (
+                <option key={key} value={key}>{CONSTRUCTION_STAGES[key]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Дата</label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              disabled={saving}
+              className="w-full px-3 py-2 border rounded-md"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto border rounded-lg">
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-500"></div>
+            </div>
+          ) : draft ? (
+            <div id={CONTENT_ID} className="bg-white p-8 text-sm">
+              <ContractDocument blocks={getClosingDocumentBlocks(draft, issued?.number)} />
+            </div>
+          ) : (
+            <p className="text-center text-gray-500 py-12">{draftError}</p>
+          )}
+        </div>
+
+        <div className="flex justify-between items-center gap-3 mt-6">
+          <p className="text-sm text-gray-600">
+            {draft && `${draft.totalAmount.toLocaleString('ru-RU')} ₸ — ${numberToWords(draft.totalAmount)}`}
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 hover:text-gray-900"
+            >
+              Отмена
+            </button>
+            <button
+              onClick={handleIssue}
+              disabled={!draft || loading || saving}
+              className="px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Формирование...' : 'Сформировать'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
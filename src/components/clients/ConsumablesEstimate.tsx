@@ -1,11 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { ChevronDown, ChevronUp } from 'lucide-react';
-import { doc, getDoc, setDoc, collection, query, where, onSnapshot, or, serverTimestamp } from 'firebase/firestore';
+import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import { ConsumablesEstimateTable } from './ConsumablesEstimateTable';
+import { EstimatePriceSyncBar } from './estimate/EstimatePriceSyncBar';
 import { ConsumablesEstimateData } from '../../types/estimate';
-import { Product } from '../../types/product';
 import { prepareEstimateForSave } from '../../utils/estimateUtils';
+import { createEstimateItems, DEFAULT_ESTIMATE_SECTIONS } from '../../utils/estimateSections';
+import { useEstimateFormulas } from '../../hooks/useEstimateFormulas';
+import { useEstimatePriceSync } from '../../hooks/useEstimatePriceSync';
+
+const withTotals = (data: ConsumablesEstimateData): ConsumablesEstimateData => {
+  const totalMaterialsCost = data.items.reduce((sum, item) => sum + item.total, 0);
+  return {
+    ...data,
+    totalMaterialsCost
+  };
+};
 
 interface ConsumablesEstimateProps {
   isEditing: boolean;
@@ -17,68 +28,14 @@ export const ConsumablesEstimate: React.FC<ConsumablesEstimateProps> = ({
   clientId
 }) => {
   const [isExpanded, setIsExpanded] = useState(true);
-  const [estimateData, setEstimateData] = useState<ConsumablesEstimateData>({
-    items: [
-      { name: 'Нить строительная', unit: 'шт', quantity: 1, price: 300, total: 300 },
-      { name: 'Леска строительная', unit: 'шт', quantity: 1, price: 300, total: 300 },
-      { name: 'Анкера 12x150 (Для крепления обвязки к фундаменту)', unit: 'шт', quantity: 89.5, price: 220, total: 19690 },
-      { name: 'Шурупы 3 крупная резьба (Для монтажа гипсокар к сип) 1 п на 5 лис', unit: 'пач', quantity: 0, price: 700, total: 0 },
-      { name: 'Металлические Скобы (Для монтажа стропил)', unit: 'шт', quantity: 100, price: 80, total: 8000 },
-      { name: 'Насадка 8 на шуруповерт (Для шурупов по металлочерепицы)', unit: 'шт', quantity: 1, price: 300, total: 300 },
-      { name: 'Мешки мусорные', unit: 'шт', quantity: 10, price: 70, total: 700 },
-      { name: 'Насадки крестовые на шуруповерт пр-ва ЗУБР', unit: 'шт', quantity: 5, price: 400, total: 2000 },
-      { name: 'Диски 150мм Rodex на болгарку', unit: 'шт', quantity: 5, price: 400, total: 2000 },
-      { name: 'Пистолет для пены', unit: 'шт', quantity: 1, price: 3000, total: 3000 },
-      { name: 'Карандаши', unit: 'шт', quantity: 5, price: 100, total: 500 },
-      { name: 'Лезвия для строительного ножа', unit: 'шт', quantity: 2, price: 300, total: 600 },
-      { name: 'Перчатки', unit: 'шт', quantity: 12, price: 300, total: 3600 },
-      { name: 'Пленка от дождя самая плотная', unit: 'метр', quantity: 7, price: 400, total: 2800 },
-      { name: 'Диск на пчелку 180 по дереву', unit: 'шт', quantity: 1, price: 2000, total: 2000 },
-      { name: 'Силикон (Для вентиляции)', unit: 'шт', quantity: 1, price: 2500, total: 2500 },
-      { name: 'Скотч (Для монтажа биопленки)', unit: 'шт', quantity: 1, price: 500, total: 500 },
-      { name: 'Разное + Износ инструмента + ЗП сотрудникам', unit: '', quantity: 0, price: 0, total: 470000 }
-    ],
-    totalMaterialsCost: 518790,
-    createdAt: undefined,
-    updatedAt: undefined
-  });
+  const [estimateData, setEstimateData] = useState<ConsumablesEstimateData>(() => withTotals({
+    items: createEstimateItems(DEFAULT_ESTIMATE_SECTIONS.consumables),
+    totalMaterialsCost: 0
+  }));
 
-  // Подписываемся на изменения в документе estimates
-  useEffect(() => {
-    const estimateRef = doc(db, 'estimates', clientId);
-    const unsubscribe = onSnapshot(estimateRef, (doc) => {
-      if (doc.exists()) {
-        const data = doc.data();
-        const perimeter = data.foundationValues?.perimeter?.value || 0;
-        
-        setEstimateData(prev => {
-          const newItems = [...prev.items];
-          
-          // Анкера
-          const anchorIndex = newItems.findIndex(item => 
-            item.name === 'Анкера 12x150 (Для крепления обвязки к фундаменту)'
-          );
-          if (anchorIndex !== -1) {
-            const quantity = Math.ceil((perimeter / 2) + 20);
-            newItems[anchorIndex] = {
-              ...newItems[anchorIndex],
-              quantity,
-              total: quantity * newItems[anchorIndex].price
-            };
-          }
-
-          const totalMaterialsCost = newItems.reduce((sum, item) => sum + item.total, 0);
-          return {
-            ...prev,
-            items: newItems,
-            totalMaterialsCost
-          };
-        });
-      }
-    });
-
-    return () => unsubscribe();
-  }, [clientId]);
+  const applyFormulas = useEstimateFormulas('consumables', clientId, setEstimateData, withTotals);
+  const { catalogPrices, outdatedCount, updateAllPrices, togglePricePinned } =
+    useEstimatePriceSync('consumables', estimateData.items, setEstimateData, withTotals);
 
   useEffect(() => {
     const loadEstimateData = async () => {
@@ -87,7 +44,7 @@ export const ConsumablesEstimate: React.FC<ConsumablesEstimateProps> = ({
         const estimateDoc = await getDoc(estimateRef);
         
         if (estimateDoc.exists()) {
-          setEstimateData(estimateDoc.data() as ConsumablesEstimateData);
+          setEstimateData(applyFormulas(estimateDoc.data() as ConsumablesEstimateData));
         }
       } catch (error) {
         console.error('Error loading consumables estimate data:', error);
@@ -95,7 +52,7 @@ export const ConsumablesEstimate: React.FC<ConsumablesEstimateProps> = ({
     };
 
     loadEstimateData();
-  }, [clientId]);
+  }, [clientId, applyFormulas]);
 
   useEffect(() => {
     const saveEstimateData = async () => {
@@ -157,11 +114,19 @@ export const ConsumablesEstimate: React.FC<ConsumablesEstimateProps> = ({
             Расходные материалы
           </div>
           
+          <EstimatePriceSyncBar
+            outdatedCount={outdatedCount}
+            isEditing={isEditing}
+            onUpdateAll={updateAllPrices}
+          />
+
           <ConsumablesEstimateTable
             items={estimateData.items}
             totalMaterialsCost={estimateData.totalMaterialsCost}
             onUpdateItem={handleUpdateItem}
             isEditing={isEditing}
+            catalogPrices={catalogPrices}
+            onTogglePricePinned={togglePricePinned}
           />
         </div>
       )}
@@ -1,18 +1,24 @@
 import React from 'react';
 import { ConsumablesEstimateItem } from '../../types/estimate';
+import { CatalogPrice } from '../../hooks/useEstimatePriceSync';
+import { EstimatePriceCell } from './estimate/EstimatePriceCell';
 
 interface ConsumablesEstimateTableProps {
   items: ConsumablesEstimateItem[];
   totalMaterialsCost: number;
   onUpdateItem: (index: number, field: keyof ConsumablesEstimateItem, value: number) => void;
   isEditing: boolean;
+  catalogPrices?: (CatalogPrice | null)[];
+  onTogglePricePinned?: (index: number) => void;
 }
 
 export const ConsumablesEstimateTable: React.FC<ConsumablesEstimateTableProps> = ({
   items,
   totalMaterialsCost,
   onUpdateItem,
-  isEditing
+  isEditing,
+  catalogPrices,
+  onTogglePricePinned
 }) => {
   return (
     <div className="overflow-x-auto">
@@ -41,15 +47,13 @@ export const ConsumablesEstimateTable: React.FC<ConsumablesEstimateTableProps> =
                   step="0.1"
                 />
               </td>
-              <td className="px-4 py-2 text-center">
-                <input
-                  type="number"
-                  value={item.price}
-                  onChange={(e) => onUpdateItem(index, 'price', Number(e.target.value))}
-                  className="w-24 px-2 py-1 text-right border rounded"
-                  disabled={!isEditing}
-                />
-              </td>
+              <EstimatePriceCell
+                item={item}
+                catalogPrice={catalogPrices?.[index]}
+                isEditing={isEditing}
+                onChange={(value) => onUpdateItem(index, 'price', value)}
+                onTogglePinned={onTogglePricePinned && (() => onTogglePricePinned(index))}
+              />
               <td className="px-4 py-2 text-right">{item.total.toLocaleString()} ₸</td>
             </tr>
           ))}
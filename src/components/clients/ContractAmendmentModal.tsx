@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { FilePlus, X } from 'lucide-react';
+import { createContractAmendment } from '../../lib/firebase';
+import { Contract, ContractAmendmentInput } from '../../types/contract';
+import { ClientPaymentTerms } from '../../utils/paymentSchedule';
+import { getContractConstructionDays } from '../../utils/contracts';
+import { showErrorNotification, showSuccessNotification } from '../../utils/notifications';
+
+interface ContractAmendmentModalProps {
+  contract: Contract;
+  onClose: () => void;
+  // Новые цена, срок и суммы траншей после подписания соглашения
+  onApplied?: (totalAmount: number, constructionDays: number, payments: ClientPaymentTerms | null) => void;
+}
+
+export const ContractAmendmentModal: React.FC<ContractAmendmentModalProps> = ({ contract, onClose, onApplied }) => {
+  const constructionDays = getContractConstructionDays(contract);
+  const [draft, setDraft] = useState<ContractAmendmentInput>({
+    date: format(new Date(), 'yyyy-MM-dd'),
+    description: '',
+    totalAmount: contract.totalAmount,
+    constructionDays
+  });
+  const [saving, setSaving] = useState(false);
+
+  const amountDelta = draft.totalAmount - contract.totalAmount;
+  const daysDelta = draft.constructionDays - constructionDays;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { number, payments } = await createContractAmendment(contract, draft);
+      showSuccessNotification(`Доп. соглашение №${number} к договору №${contract.contractNumber} сохранено`);
+      if (!payments) {
+        showErrorNotification('Разницу в цене не удалось перенести на последний транш — пересчитайте график платежей');
+      }
+      onApplied?.(draft.totalAmount, draft.constructionDays, payments);
+      onClose();
+    } catch (error) {
+      console.error('Error saving contract amendment:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Не удалось сохранить доп. соглашение');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDelta = (delta: number, unit: string) =>
+    delta === 0 ? 'без изменений' : `${delta > 0 ? '+' : ''}${delta.toLocaleString('ru-RU')} ${unit}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center">
+              <FilePlus className="w-5 h-5 text-emerald-600" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              Доп. соглашение к договору №{contract.contractNumber}
+            </h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Дата соглашения</label>
+            <input
+              type="date"
+              value={draft.date}
+              onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+              className="w-full px-3 py-2 border rounded-md"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Изменение объёма работ</label>
+            <textarea
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              rows={3}
+              placeholder="Например: добавлена терраса 3×4 м"
+              className="w-full px-3 py-2 border rounded-md"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Цена договора, ₸</label>
+              <input
+                type="number"
+                min={0}
+                value={draft.totalAmount}
+                onChange={(e) => setDraft({ ...draft, totalAmount: Number(e.target.value) || 0 })}
+                className="w-full px-3 py-2 border rounded-md text-right"
+              />
+              <p className="text-xs text-gray-500 mt-1">{formatDelta(amountDelta, '₸')}</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Срок, рабочих дней</label>
+              <input
+                type="number"
+                min={0}
+                value={draft.constructionDays}
+                onChange={(e) => setDraft({ ...draft, constructionDays: Number(e.target.value) || 0 })}
+                className="w-full px-3 py-2 border rounded-md text-right"
+              />
+              <p className="text-xs text-gray-500 mt-1">{formatDelta(daysDelta, 'дн.')}</p>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Цена и срок строительства в карточке клиента будут заменены значениями из соглашения.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:text-gray-900"
+          >
+            Отмена
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Сохранение...' : 'Сохранить соглашение'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { subscribeToContractAmendments } from '../../lib/firebase';
+import { ContractAmendment } from '../../types/contract';
+
+interface ContractAmendmentsProps {
+  contractId: string;
+}
+
+// История доп. соглашений договора
+export const ContractAmendments: React.FC<ContractAmendmentsProps> = ({ contractId }) => {
+  const [amendments, setAmendments] = useState<ContractAmendment[]>([]);
+
+  useEffect(() => {
+    return subscribeToContractAmendments(contractId, setAmendments);
+  }, [contractId]);
+
+  if (amendments.length === 0) return null;
+
+  return (
+    <ul className="mt-3 space-y-2 border-t pt-3">
+      {amendments.map(amendment => (
+        <li key={amendment.id} className="text-sm">
+          <p className="font-medium text-gray-900">
+            Доп. соглашение №{amendment.number} от {format(parseISO(amendment.date), 'dd.MM.yyyy')}
+          </p>
+          <p className="text-gray-600">{amendment.description}</p>
+          <p className="text-gray-500">
+            {amendment.totalAmount !== amendment.previousTotalAmount && (
+              <>Цена: {amendment.previousTotalAmount.toLocaleString('ru-RU')} → {amendment.totalAmount.toLocaleString('ru-RU')} ₸. </>
+            )}
+            {amendment.constructionDays !== amendment.previousConstructionDays && (
+              <>Срок: {amendment.previousConstructionDays} → {amendment.constructionDays} раб. дн.</>
+            )}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileText, X } from 'lucide-react';
+import { createContract, subscribeToContractTemplates } from '../../lib/firebase';
+import { ContractDocument } from '../ContractDocument';
+import { Client } from '../../types/client';
+import { ContractTemplate } from '../../types/contract';
+import { DEFAULT_CONTRACT_TEMPLATE, renderContractTemplate } from '../../utils/contractTemplates';
+import { showErrorNotification, showSuccessNotification } from '../../utils/notifications';
+
+interface CreateContractModalProps {
+  client: Client;
+  onClose: () => void;
+}
+
+export const CreateContractModal: React.FC<CreateContractModalProps> = ({ client, onClose }) => {
+  const [templates, setTemplates] = useState<ContractTemplate[]>([DEFAULT_CONTRACT_TEMPLATE]);
+  const [templateId, setTemplateId] = useState(DEFAULT_CONTRACT_TEMPLATE.id);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    return subscribeToContractTemplates(setTemplates);
+  }, []);
+
+  const template = templates.find(({ id }) => id === templateId) || templates[0];
+
+  // Номер договора присваивается при создании
+  const previewBlocks = useMemo(
+    () => renderContractTemplate(template.body, { ...client, contractNumber: '___' }, new Date()),
+    [template, client]
+  );
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const { contractNumber } = await createContract(client, template);
+      showSuccessNotification(`Договор №${contractNumber} создан`);
+      onClose();
+    } catch (error) {
+      console.error('Error creating contract:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Ошибка при создании договора');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-4xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center">
+              <FileText className="w-5 h-5 text-emerald-600" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Создать договор</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 mb-4">
+          <label className="text-sm font-medium text-gray-700">Шаблон</label>
+          <select
+            value={template.id}
+            onChange={(e) => setTemplateId(e.target.value)}
+            className="flex-1 px-3 py-2 border rounded-md"
+          >
+            {templates.map(option => (
+              <option key={option.id} value={option.id}>
+                {option.title} (версия {option.version})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto border rounded-md p-6 text-sm">
+          <ContractDocument blocks={previewBlocks} />
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:text-gray-900"
+          >
+            Отмена
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={creating}
+            className="px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50"
+          >
+            {creating ? 'Создание...' : 'Создать договор'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
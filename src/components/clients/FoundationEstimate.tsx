@@ -3,9 +3,20 @@ import { ChevronDown, ChevronUp } from 'lucide-react';
 import { doc, getDoc, setDoc } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import { FoundationEstimateTable } from './FoundationEstimateTable';
+import { EstimatePriceSyncBar } from './estimate/EstimatePriceSyncBar';
 import { FoundationEstimateData } from '../../types/estimate';
-import { useFoundationCalculations } from '../../hooks/useFoundationCalculations';
-import { useFoundationPriceSync } from '../../hooks/useFoundationPriceSync';
+import { useEstimateFormulas } from '../../hooks/useEstimateFormulas';
+import { useEstimatePriceSync } from '../../hooks/useEstimatePriceSync';
+import { createEstimateItems, DEFAULT_ESTIMATE_SECTIONS } from '../../utils/estimateSections';
+
+const withTotals = (data: FoundationEstimateData): FoundationEstimateData => {
+  const totalMaterialsCost = data.items.reduce((sum, item) => sum + item.total, 0);
+  return {
+    ...data,
+    totalMaterialsCost,
+    totalCost: totalMaterialsCost + data.foundationWorkCost
+  };
+};
 
 interface FoundationEstimateProps {
   isEditing: boolean;
@@ -17,29 +28,16 @@ export const FoundationEstimate: React.FC<FoundationEstimateProps> = ({
   clientId
 }) => {
   const [isExpanded, setIsExpanded] = useState(true);
-  const [estimateData, setEstimateData] = useState<FoundationEstimateData>({
-    items: [
-      { name: 'Бетон М250 для фундамента', unit: 'м3', quantity: 0, price: 29.34, total: 0 },
-      { name: 'Бетон М250 для стяжки', unit: 'м3', quantity: 0, price: 29.34, total: 0 },
-      { name: 'Арматура 12 мм (Для армирования фундамента)', unit: 'м/п', quantity: 0, price: 240, total: 0 },
-      { name: 'Сетка 15x15 (Для теплого пола в стяжку) размер 80см на 2,4м = 1,92м2 1шт', unit: 'шт', quantity: 0, price: 550, total: 0 },
-      { name: 'Труба квадратная 80x80 2,5 мм (Для стойки балкона, навеса, или террасы)', unit: 'метр', quantity: 0, price: 2500, total: 0 },
-      { name: 'Проволока 6мм (Для хомутов при армировании арматуры)', unit: 'метр', quantity: 0, price: 120, total: 0 },
-      { name: 'ПГС Howo (Для засыпки внутри фундамента) (15м3)', unit: 'маш', quantity: 0, price: 50000, total: 0 },
-      { name: 'Вязальная проволока 3мм (Для крепления опалубки)', unit: 'кг', quantity: 0, price: 800, total: 0 },
-      { name: 'Вязальная проволока (Для связки арматуры и монтажа теплого пола)', unit: 'кг', quantity: 0, price: 800, total: 0 },
-      { name: 'Гвозди 120', unit: 'кг', quantity: 0, price: 700, total: 0 },
-      { name: 'Подложка под теплый пол Рулон 60м2', unit: 'рулон', quantity: 0, price: 6000, total: 0 },
-      { name: 'Теплый пол (для монтажа в стяжку) в 1 бухте 200м', unit: 'бухта', quantity: 0, price: 27000, total: 0 },
-      { name: 'Канализация, водопровод (Все материалы) См. доп смету', unit: '', quantity: 1, price: 80000, total: 80000 }
-    ],
-    totalMaterialsCost: 80000,
+  const [estimateData, setEstimateData] = useState<FoundationEstimateData>(() => withTotals({
+    items: createEstimateItems(DEFAULT_ESTIMATE_SECTIONS.foundation),
+    totalMaterialsCost: 0,
     foundationWorkCost: 245000,
-    totalCost: 325000
-  });
+    totalCost: 0
+  }));
 
-  const calculations = useFoundationCalculations(clientId);
-  useFoundationPriceSync(setEstimateData);
+  const applyFormulas = useEstimateFormulas('foundation', clientId, setEstimateData, withTotals);
+  const { catalogPrices, outdatedCount, updateAllPrices, togglePricePinned } =
+    useEstimatePriceSync('foundation', estimateData.items, setEstimateData, withTotals);
 
   useEffect(() => {
     const loadEstimateData = async () => {
@@ -48,7 +46,7 @@ export const FoundationEstimate: React.FC<FoundationEstimateProps> = ({
         const estimateDoc = await getDoc(estimateRef);
         
         if (estimateDoc.exists()) {
-          setEstimateData(estimateDoc.data() as FoundationEstimateData);
+          setEstimateData(applyFormulas(estimateDoc.data() as FoundationEstimateData));
         }
       } catch (error) {
         console.error('Error loading foundation estimate data:', error);
@@ -56,7 +54,7 @@ export const FoundationEstimate: React.FC<FoundationEstimateProps> = ({
     };
 
     loadEstimateData();
-  }, [clientId]);
+  }, [clientId, applyFormulas]);
 
   useEffect(() => {
     if (!isEditing) return;
@@ -74,56 +72,6 @@ export const FoundationEstimate: React.FC<FoundationEstimateProps> = ({
     return () => clearTimeout(debounceTimer);
   }, [clientId, isEditing, estimateData]);
 
-  useEffect(() => {
-    setEstimateData(prev => {
-      const newItems = prev.items.map(item => {
-        switch (item.name) {
-          case 'Бетон М250 для фундамента':
-            return { ...item, quantity: calculations.foundationConcreteQuantity + 4.5 };
-          case 'Бетон М250 для стяжки':
-            return { ...item, quantity: calculations.screedConcreteQuantity + 3 };
-          case 'Сетка 15x15 (Для теплого пола в стяжку) размер 80см на 2,4м = 1,92м2 1шт':
-            return { ...item, quantity: calculations.meshQuantity };
-          case 'Арматура 12 мм (Для армирования фундамента)':
-            return { ...item, quantity: calculations.armatureQuantity };
-          case 'Труба квадратная 80x80 2,5 мм (Для стойки балкона, навеса, или террасы)':
-            return { ...item, quantity: calculations.pipeLength };
-          case 'Проволока 6мм (Для хомутов при армировании арматуры)':
-            return { ...item, quantity: calculations.wireQuantity };
-          case 'ПГС Howo (Для засыпки внутри фундамента) (15м3)':
-            return { ...item, quantity: calculations.pgsHowoQuantity };
-          case 'Вязальная проволока 3мм (Для крепления опалубки)':
-            return { ...item, quantity: calculations.bindingWireQuantity };
-          case 'Вязальная проволока (Для связки арматуры и монтажа теплого пола)':
-            return { ...item, quantity: calculations.tieWireQuantity };
-          case 'Гвозди 120':
-            return { ...item, quantity: calculations.nailsQuantity };
-          case 'Подложка под теплый пол Рулон 60м2':
-            return { ...item, quantity: calculations.underlayQuantity };
-          case 'Теплый пол (для монтажа в стяжку) в 1 бухте 200м':
-            return { ...item, quantity: calculations.heatedFloorQuantity };
-          case 'Канализация, водопровод (Все материалы) См. доп смету':
-            return { ...item, quantity: 1, price: 80000, total: 80000 };
-          default:
-            return item;
-        }
-      }).map(item => ({
-        ...item,
-        total: item.name === 'Канализация, водопровод (Все материалы) См. доп смету' 
-          ? 80000 
-          : item.quantity * item.price
-      }));
-
-      const totalMaterialsCost = newItems.reduce((sum, item) => sum + item.total, 0);
-      return {
-        ...prev,
-        items: newItems,
-        totalMaterialsCost,
-        totalCost: totalMaterialsCost + prev.foundationWorkCost
-      };
-    });
-  }, [calculations]);
-
   const handleUpdateItem = (index: number, field: keyof typeof estimateData.items[0], value: number) => {
     setEstimateData(prev => {
       const newItems = [...prev.items];
@@ -173,6 +121,12 @@ export const FoundationEstimate: React.FC<FoundationEstimateProps> = ({
             Фундамент + Засыпка фундамента + Стяжка
           </div>
           
+          <EstimatePriceSyncBar
+            outdatedCount={outdatedCount}
+            isEditing={isEditing}
+            onUpdateAll={updateAllPrices}
+          />
+
           <FoundationEstimateTable
             items={estimateData.items}
             totalMaterialsCost={estimateData.totalMaterialsCost}
@@ -181,6 +135,8 @@ export const FoundationEstimate: React.FC<FoundationEstimateProps> = ({
             onUpdateItem={handleUpdateItem}
             onUpdateWorkCost={handleUpdateWorkCost}
             isEditing={isEditing}
+            catalogPrices={catalogPrices}
+            onTogglePricePinned={togglePricePinned}
           />
         </div>
       )}
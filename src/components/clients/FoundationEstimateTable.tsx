@@ -1,5 +1,7 @@
 import React from 'react';
 import { FoundationEstimateItem } from '../../types/estimate';
+import { CatalogPrice } from '../../hooks/useEstimatePriceSync';
+import { EstimatePriceCell } from './estimate/EstimatePriceCell';
 
 interface FoundationEstimateTableProps {
   items: FoundationEstimateItem[];
@@ -9,6 +11,8 @@ interface FoundationEstimateTableProps {
   onUpdateItem: (index: number, field: keyof FoundationEstimateItem, value: number) => void;
   onUpdateWorkCost: (value: number) => void;
   isEditing: boolean;
+  catalogPrices?: (CatalogPrice | null)[];
+  onTogglePricePinned?: (index: number) => void;
 }
 
 export const FoundationEstimateTable: React.FC<FoundationEstimateTableProps> = ({
@@ -17,7 +21,9 @@ export const FoundationEstimateTable: React.FC<FoundationEstimateTableProps> = (
   foundationWorkCost,
   totalCost,
   onUpdateItem,
-  isEditing
+  isEditing,
+  catalogPrices,
+  onTogglePricePinned
 }) => {
   return (
     <div className="overflow-x-auto">
@@ -46,15 +52,13 @@ export const FoundationEstimateTable: React.FC<FoundationEstimateTableProps> = (
                   step="0.1"
                 />
               </td>
-              <td className="px-4 py-2 text-center">
-                <input
-                  type="number"
-                  value={item.price}
-                  onChange={(e) => onUpdateItem(index, 'price', Number(e.target.value))}
-                  className="w-24 px-2 py-1 text-right border rounded"
-                  disabled={!isEditing}
-                />
-              </td>
+              <EstimatePriceCell
+                item={item}
+                catalogPrice={catalogPrices?.[index]}
+                isEditing={isEditing}
+                onChange={(value) => onUpdateItem(index, 'price', value)}
+                onTogglePinned={onTogglePricePinned && (() => onTogglePricePinned(index))}
+              />
               <td className="px-4 py-2 text-right">{item.total.toLocaleString()} ₸</td>
             </tr>
           ))}
@@ -1,5 +1,7 @@
 import React from 'react';
 import { PartitionEstimateItem } from '../../types/estimate';
+import { CatalogPrice } from '../../hooks/useEstimatePriceSync';
+import { EstimatePriceCell } from './estimate/EstimatePriceCell';
 
 interface PartitionEstimateTableProps {
   items: PartitionEstimateItem[];
@@ -10,6 +12,8 @@ interface PartitionEstimateTableProps {
   onUpdateItem: (index: number, field: keyof PartitionEstimateItem, value: number) => void;
   onUpdateCosts: (field: 'installationCost' | 'deliveryCost', value: number) => void;
   isEditing: boolean;
+  catalogPrices?: (CatalogPrice | null)[];
+  onTogglePricePinned?: (index: number) => void;
 }
 
 export const PartitionEstimateTable: React.FC<PartitionEstimateTableProps> = ({
@@ -20,7 +24,9 @@ export const PartitionEstimateTable: React.FC<PartitionEstimateTableProps> = ({
   totalCost,
   onUpdateItem,
   onUpdateCosts,
-  isEditing
+  isEditing,
+  catalogPrices,
+  onTogglePricePinned
 }) => {
   return (
     <div className="overflow-x-auto">
@@ -49,15 +55,13 @@ export const PartitionEstimateTable: React.FC<PartitionEstimateTableProps> = ({
                   step="0.1"
                 />
               </td>
-              <td className="px-4 py-2 text-center">
-                <input
-                  type="number"
-                  value={item.price}
-                  onChange={(e) => onUpdateItem(index, 'price', Number(e.target.value))}
-                  className="w-24 px-2 py-1 text-right border rounded"
-                  disabled={!isEditing}
-                />
-              </td>
+              <EstimatePriceCell
+                item={item}
+                catalogPrice={catalogPrices?.[index]}
+                isEditing={isEditing}
+                onChange={(value) => onUpdateItem(index, 'price', value)}
+                onTogglePinned={onTogglePricePinned && (() => onTogglePricePinned(index))}
+              />
               <td className="px-4 py-2 text-right">{item.total.toLocaleString()} ₸</td>
             </tr>
           ))}
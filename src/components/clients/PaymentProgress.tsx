@@ -1,13 +1,32 @@
 import React from 'react';
+import { TrancheState, TrancheStatus } from '../../utils/paymentSchedule';
 
 interface PaymentProgressProps {
   progress: number;
   remainingAmount: number;
+  overdueAmount?: number;
+  tranches?: TrancheState[];
 }
 
+const TRANCHE_COLORS: Record<TrancheStatus, string> = {
+  paid: 'bg-emerald-500',
+  partial: 'bg-amber-500',
+  pending: 'bg-gray-300',
+  overdue: 'bg-red-500'
+};
+
+const TRANCHE_LABELS: Record<TrancheStatus, string> = {
+  paid: 'оплачен',
+  partial: 'оплачен частично',
+  pending: 'ожидается',
+  overdue: 'просрочен'
+};
+
 export const PaymentProgress: React.FC<PaymentProgressProps> = ({
   progress,
-  remainingAmount
+  remainingAmount,
+  overdueAmount = 0,
+  tranches = []
 }) => {
   const getProgressColor = (progress: number) => {
     if (progress < 30) return 'bg-red-500';
@@ -19,20 +38,62 @@ export const PaymentProgress: React.FC<PaymentProgressProps> = ({
     return amount.toLocaleString('ru-RU') + ' ₸';
   };
 
+  const getTrancheTitle = (state: TrancheState): string => {
+    const parts = [
+      `${state.tranche.label}: ${TRANCHE_LABELS[state.status]}`,
+      `оплачено ${formatMoney(state.paidAmount)} из ${formatMoney(state.tranche.amount)}`
+    ];
+    if (state.dueAmount > 0) {
+      parts.push(`к оплате ${formatMoney(state.dueAmount)}`);
+    }
+    if (state.tranche.dueDate) {
+      parts.push(`срок ${new Date(`${state.tranche.dueDate}T00:00:00`).toLocaleDateString('ru-RU')}`);
+    }
+    return parts.join(', ');
+  };
+
   return (
     <div className="flex flex-col gap-1 min-w-[120px]">
-      <div className="w-full h-1.5 bg-gray-200 rounded-full">
-        <div
-          className={`h-1.5 rounded-full transition-all duration-500 ${getProgressColor(progress)}`}
-          style={{ width: `${progress}%` }}
-        />
-      </div>
+      {tranches.length > 0 ? (
+        <div className="w-full h-1.5 flex gap-0.5">
+          {tranches.map(state => (
+            <div
+              key={state.tranche.id}
+              className="h-1.5 rounded-full bg-gray-200 overflow-hidden"
+              style={{ flexGrow: state.tranche.amount || 1, flexBasis: 0 }}
+              title={getTrancheTitle(state)}
+            >
+              <div
+                className={`h-1.5 transition-all duration-500 ${TRANCHE_COLORS[state.status]}`}
+                style={{
+                  width: state.status === 'overdue' || state.status === 'paid'
+                    ? '100%'
+                    : `${state.tranche.amount ? (state.paidAmount / state.tranche.amount) * 100 : 0}%`
+                }}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="w-full h-1.5 bg-gray-200 rounded-full">
+          <div
+            className={`h-1.5 rounded-full transition-all duration-500 ${getProgressColor(progress)}`}
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+      )}
       <div className="flex justify-between items-center text-xs">
         <span className="font-medium text-gray-700">{progress}%</span>
-        <span className="text-gray-500 truncate" title={formatMoney(remainingAmount)}>
-          {formatMoney(remainingAmount)}
-        </span>
+        {overdueAmount > 0 ? (
+          <span className="text-red-600 font-medium truncate" title={`Просрочено: ${formatMoney(overdueAmount)}`}>
+            −{formatMoney(overdueAmount)}
+          </span>
+        ) : (
+          <span className="text-gray-500 truncate" title={formatMoney(remainingAmount)}>
+            {formatMoney(remainingAmount)}
+          </span>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
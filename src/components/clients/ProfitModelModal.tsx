@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Plus, Scale, Trash2, X } from 'lucide-react';
+import { saveProfitModel } from '../../lib/firebase';
+import { EstimateSectionId } from '../../types/estimate';
+import { ProfitCostLine, ProfitModel, ProfitTransactionKind } from '../../types/receipt';
+import { DEFAULT_ESTIMATE_SECTIONS } from '../../utils/estimateSections';
+import { PROFIT_TRANSACTION_KINDS } from '../../utils/profitModel';
+import { showErrorNotification, showSuccessNotification } from '../../utils/notifications';
+
+interface ProfitModelModalProps {
+  model: ProfitModel;
+  onClose: () => void;
+}
+
+const WEIGHT_OPTIONS = [
+  { value: 1, label: 'Учитывать' },
+  { value: -1, label: 'С обратным знаком' },
+  { value: 0, label: 'Не учитывать' }
+];
+
+const SECTION_IDS = Object.keys(DEFAULT_ESTIMATE_SECTIONS) as EstimateSectionId[];
+
+export const ProfitModelModal: React.FC<ProfitModelModalProps> = ({ model, onClose }) => {
+  const [draft, setDraft] = useState<ProfitModel>(model);
+  const [saving, setSaving] = useState(false);
+
+  const updateLine = (index: number, updates: Partial<ProfitCostLine>) =>
+    setDraft({
+      ...draft,
+      costLines: draft.costLines.map((line, i) => (i === index ? { ...line, ...updates } : line))
+    });
+
+  // При выборе позиции название подставляется из норм сметы
+  const handleItemChange = (index: number, line: ProfitCostLine, itemId: string) => {
+    const item = DEFAULT_ESTIMATE_SECTIONS[line.sectionId].items.find(config => config.id === itemId);
+    updateLine(index, { itemId, label: item?.name || line.label });
+  };
+
+  const handleAddLine = () => {
+    const firstItem = DEFAULT_ESTIMATE_SECTIONS.sipWalls.items[0];
+    setDraft({
+      ...draft,
+      costLines: [...draft.costLines, { sectionId: 'sipWalls', itemId: firstItem.id, label: firstItem.name }]
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveProfitModel(draft);
+      showSuccessNotification('Модель прибыли сохранена');
+      onClose();
+    } catch (error) {
+      console.error('Error saving profit model:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Не удалось сохранить модель прибыли');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-3xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center">
+              <Scale className="w-5 h-5 text-emerald-600" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Модель прибыли</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <label className="text-sm font-medium text-gray-700">Накладные расходы на дом, ₸</label>
+            <input
+              type="number"
+              value={draft.overheadPerHouse}
+              min={0}
+              onChange={(e) => setDraft({ ...draft, overheadPerHouse: Number(e.target.value) || 0 })}
+              className="w-40 px-3 py-2 border rounded-md text-right"
+            />
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <h3 className="font-medium text-gray-900">Позиции сметы в фактическом расходе</h3>
+              <button
+                onClick={handleAddLine}
+                className="flex items-center text-sm text-emerald-600 hover:text-emerald-700"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Добавить
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mb-2">
+              Материалы собственного производства, которые не проходят через проводки проекта.
+              В расход идёт сумма позиции по смете клиента.
+            </p>
+            <div className="space-y-2">
+              {draft.costLines.map((line, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                  <select
+                    value={line.sectionId}
+                    onChange={(e) => {
+                      const sectionId = e.target.value as EstimateSectionId;
+                      const firstItem = DEFAULT_ESTIMATE_SECTIONS[sectionId].items[0];
+                      updateLine(index, { sectionId, itemId: firstItem.id, label: firstItem.name });
+                    }}
+                    className="px-2 py-1 border rounded"
+                  >
+                    {SECTION_IDS.map(sectionId => (
+                      <option key={sectionId} value={sectionId}>{DEFAULT_ESTIMATE_SECTIONS[sectionId].title}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={line.itemId}
+                    onChange={(e) => handleItemChange(index, line, e.target.value)}
+                    className="flex-1 min-w-[10rem] px-2 py-1 border rounded"
+                  >
+                    {DEFAULT_ESTIMATE_SECTIONS[line.sectionId].items.map(item => (
+                      <option key={item.id} value={item.id}>{item.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={line.label}
+                    onChange={(e) => updateLine(index, { label: e.target.value })}
+                    placeholder="Название в расчёте"
+                    className="w-48 px-2 py-1 border rounded"
+                  />
+                  <button
+                    onClick={() => setDraft({ ...draft, costLines: draft.costLines.filter((_, i) => i !== index) })}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Удалить"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-medium text-gray-900 mb-1">Проводки по проекту</h3>
+            <p className="text-xs text-gray-500 mb-2">
+              Поступление на счёт проекта увеличивает расход, списание со счёта проекта уменьшает.
+              Сторнированные проводки не учитываются никогда.
+            </p>
+            <table className="min-w-full text-sm">
+              <tbody>
+                {(Object.keys(PROFIT_TRANSACTION_KINDS) as ProfitTransactionKind[]).map(kind => (
+                  <tr key={kind} className="border-b last:border-0">
+                    <td className="py-2 pr-4 text-gray-700">{PROFIT_TRANSACTION_KINDS[kind]}</td>
+                    <td className="py-2 text-right">
+                      <select
+                        value={draft.transactionWeights[kind]}
+                        onChange={(e) => setDraft({
+                          ...draft,
+                          transactionWeights: { ...draft.transactionWeights, [kind]: Number(e.target.value) }
+                        })}
+                        className="px-2 py-1 border rounded"
+                      >
+                        {WEIGHT_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:text-gray-900"
+          >
+            Отмена
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Сохранение...' : 'Сохранить'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
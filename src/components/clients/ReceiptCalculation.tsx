@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { ChevronDown, ChevronUp, Calculator } from 'lucide-react';
 import { useReceiptCalculation } from '../../hooks/useReceiptCalculation';
 import { ReceiptCalculationProps } from '../../types/receipt';
+import { getMarginPercent } from '../../utils/profitModel';
 
 export const ReceiptCalculation: React.FC<ReceiptCalculationProps> = ({
   clientId
@@ -36,21 +37,15 @@ export const ReceiptCalculation: React.FC<ReceiptCalculationProps> = ({
             </div>
           </div>
           
-          {/* СИП панели */}
-          <div className="p-3 sm:p-4 hover:bg-gray-50">
-            <div className="flex justify-between items-center">
-              <span className="text-gray-600 text-xs sm:text-base">Стены из СИП панелей (несущие)</span>
-              <span className="font-medium text-xs sm:text-base">{formatAmount(data.sipWalls)}</span>
-            </div>
-          </div>
-          
-          {/* Утепление потолка */}
-          <div className="p-3 sm:p-4 hover:bg-gray-50">
-            <div className="flex justify-between items-center">
-              <span className="text-gray-600 text-xs sm:text-base">Пенополистирол утепл потолка</span>
-              <span className="font-medium text-xs sm:text-base">{formatAmount(data.ceilingInsulation)}</span>
+          {/* Позиции сметы, входящие в расход по модели прибыли */}
+          {data.costLines.map(line => (
+            <div key={line.label} className="p-3 sm:p-4 hover:bg-gray-50">
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600 text-xs sm:text-base">{line.label}</span>
+                <span className="font-medium text-xs sm:text-base">{formatAmount(line.amount)}</span>
+              </div>
             </div>
-          </div>
+          ))}
           
           {/* Общий расход */}
           <div className="p-3 sm:p-4 hover:bg-gray-50">
@@ -67,6 +62,15 @@ export const ReceiptCalculation: React.FC<ReceiptCalculationProps> = ({
               <span className="font-bold text-blue-900 text-xs sm:text-base">{formatAmount(data.contractPrice)}</span>
             </div>
           </div>
+
+          {data.vatAmount > 0 && (
+            <div className="p-3 sm:p-4 hover:bg-gray-50">
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600 text-xs sm:text-base">в т.ч. НДС (не входит в прибыль)</span>
+                <span className="font-medium text-xs sm:text-base">{formatAmount(data.vatAmount)}</span>
+              </div>
+            </div>
+          )}
           
           {/* Итого общий расход */}
           <div className="p-3 sm:p-4 bg-gray-50">
@@ -83,6 +87,38 @@ export const ReceiptCalculation: React.FC<ReceiptCalculationProps> = ({
               <span className="font-bold text-red-900 text-xs sm:text-base">{formatAmount(data.netProfit)}</span>
             </div>
           </div>
+
+          {/* План и факт */}
+          <div className="p-3 sm:p-4">
+            <table className="w-full text-xs sm:text-sm">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left font-medium pb-1"></th>
+                  <th className="text-right font-medium pb-1">Расход</th>
+                  <th className="text-right font-medium pb-1">Прибыль</th>
+                  <th className="text-right font-medium pb-1">Маржа</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td className="py-1 text-gray-600">План по смете</td>
+                  <td className="py-1 text-right">{formatAmount(data.plannedExpense)}</td>
+                  <td className="py-1 text-right">{formatAmount(data.plannedProfit)}</td>
+                  <td className="py-1 text-right">{getMarginPercent(data.plannedProfit, data).toFixed(1)}%</td>
+                </tr>
+                <tr className="font-medium">
+                  <td className="py-1 text-gray-900">Факт</td>
+                  <td className="py-1 text-right">{formatAmount(data.totalExpense)}</td>
+                  <td className={`py-1 text-right ${data.netProfit < data.plannedProfit ? 'text-red-600' : 'text-emerald-600'}`}>
+                    {formatAmount(data.netProfit)}
+                  </td>
+                  <td className={`py-1 text-right ${data.netProfit < data.plannedProfit ? 'text-red-600' : 'text-emerald-600'}`}>
+                    {getMarginPercent(data.netProfit, data).toFixed(1)}%
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
         </div>
       )}
     </div>
@@ -1,5 +1,7 @@
 import React from 'react';
 import { RoofEstimateItem } from '../../types/estimate';
+import { CatalogPrice } from '../../hooks/useEstimatePriceSync';
+import { EstimatePriceCell } from './estimate/EstimatePriceCell';
 
 interface RoofEstimateTableProps {
   items: RoofEstimateItem[];
@@ -10,6 +12,8 @@ interface RoofEstimateTableProps {
   onUpdateItem: (index: number, field: keyof RoofEstimateItem, value: number) => void;
   onUpdateCosts: (field: 'roofWorkCost' | 'deliveryCost', value: number) => void;
   isEditing: boolean;
+  catalogPrices?: (CatalogPrice | null)[];
+  onTogglePricePinned?: (index: number) => void;
 }
 
 export const RoofEstimateTable: React.FC<RoofEstimateTableProps> = ({
@@ -20,7 +24,9 @@ export const RoofEstimateTable: React.FC<RoofEstimateTableProps> = ({
   totalCost,
   onUpdateItem,
   onUpdateCosts,
-  isEditing
+  isEditing,
+  catalogPrices,
+  onTogglePricePinned
 }) => {
   return (
     <div className="overflow-x-auto">
@@ -38,39 +44,11 @@ export const RoofEstimateTable: React.FC<RoofEstimateTableProps> = ({
           {items.map((item, index) => (
             <tr key={index} className="border-t">
               <td className="px-4 py-2">
-                {item.name === 'Брус 40x140x6000' ? (
+                {item.note ? (
                   <div className="group relative">
                     <span>{item.name}</span>
                     <div className="invisible group-hover:visible absolute left-0 top-full mt-2 p-2 bg-gray-800 text-white text-sm rounded shadow-lg z-10 w-64">
-                      (Для устройства стропильной системы крыши)
-                    </div>
-                  </div>
-                ) : item.name === 'Паро. пленка (Под обрешетку) и (Для обшивки потолок 2эт.)' ? (
-                  <div className="group relative">
-                    <span>{item.name}</span>
-                    <div className="invisible group-hover:visible absolute left-0 top-full mt-2 p-2 bg-gray-800 text-white text-sm rounded shadow-lg z-10 w-64">
-                      (Паро-гидро изоляция.) (Рулон-60м3) Класс D
-                    </div>
-                  </div>
-                ) : item.name === 'Гвозди 120' ? (
-                  <div className="group relative">
-                    <span>{item.name}</span>
-                    <div className="invisible group-hover:visible absolute left-0 top-full mt-2 p-2 bg-gray-800 text-white text-sm rounded shadow-lg z-10 w-64">
-                      (Для устройства стропильной системы)
-                    </div>
-                  </div>
-                ) : item.name === 'Пена монтажная 70л' ? (
-                  <div className="group relative">
-                    <span>{item.name}</span>
-                    <div className="invisible group-hover:visible absolute left-0 top-full mt-2 p-2 bg-gray-800 text-white text-sm rounded shadow-lg z-10 w-64">
-                      (Утеплен потолок 2 эт. + утеплен. перим перекр.)
-                    </div>
-                  </div>
-                ) : item.name === 'Шурупы 4 крупная резьба' ? (
-                  <div className="group relative">
-                    <span>{item.name}</span>
-                    <div className="invisible group-hover:visible absolute left-0 top-full mt-2 p-2 bg-gray-800 text-white text-sm rounded shadow-lg z-10 w-64">
-                      (Для монтажа фронтонов) 1 пач хват. на 7 осб
+                      {item.note}
                     </div>
                   </div>
                 ) : (
@@ -88,15 +66,13 @@ export const RoofEstimateTable: React.FC<RoofEstimateTableProps> = ({
                   step="0.1"
                 />
               </td>
-              <td className="px-4 py-2 text-center">
-                <input
-                  type="number"
-                  value={item.price}
-                  onChange={(e) => onUpdateItem(index, 'price', Number(e.target.value))}
-                  className="w-24 px-2 py-1 text-right border rounded"
-                  disabled={!isEditing}
-                />
-              </td>
+              <EstimatePriceCell
+                item={item}
+                catalogPrice={catalogPrices?.[index]}
+                isEditing={isEditing}
+                onChange={(value) => onUpdateItem(index, 'price', value)}
+                onTogglePinned={onTogglePricePinned && (() => onTogglePricePinned(index))}
+              />
               <td className="px-4 py-2 text-right">{item.total.toLocaleString()} ₸</td>
             </tr>
           ))}
@@ -1,5 +1,7 @@
 import React from 'react';
 import { SipWallsEstimateItem } from '../../types/estimate';
+import { CatalogPrice } from '../../hooks/useEstimatePriceSync';
+import { EstimatePriceCell } from './estimate/EstimatePriceCell';
 
 interface SipWallsEstimateTableProps {
   items: SipWallsEstimateItem[];
@@ -10,6 +12,8 @@ interface SipWallsEstimateTableProps {
   onUpdateItem: (index: number, field: keyof SipWallsEstimateItem, value: number) => void;
   onUpdateCosts: (field: 'installationCost' | 'deliveryCost', value: number) => void;
   isEditing: boolean;
+  catalogPrices?: (CatalogPrice | null)[];
+  onTogglePricePinned?: (index: number) => void;
 }
 
 export const SipWallsEstimateTable: React.FC<SipWallsEstimateTableProps> = ({
@@ -20,7 +24,9 @@ export const SipWallsEstimateTable: React.FC<SipWallsEstimateTableProps> = ({
   totalCost,
   onUpdateItem,
   onUpdateCosts,
-  isEditing
+  isEditing,
+  catalogPrices,
+  onTogglePricePinned
 }) => {
   return (
     <div className="overflow-x-auto">
@@ -38,25 +44,11 @@ export const SipWallsEstimateTable: React.FC<SipWallsEstimateTableProps> = ({
           {items.map((item, index) => (
             <tr key={index} className="border-t">
               <td className="px-4 py-2">
-                {item.name === 'Шурупы 4 крупная резьба' ? (
+                {item.note ? (
                   <div className="group relative">
                     <span>{item.name}</span>
                     <div className="invisible group-hover:visible absolute left-0 top-full mt-2 p-2 bg-gray-800 text-white text-sm rounded shadow-lg z-10 w-64">
-                      (Для монтажа СИП пан) 1 пач хват. на 2,5 СИП
-                    </div>
-                  </div>
-                ) : item.name === 'Шурупы 10 крупная резьба' ? (
-                  <div className="group relative">
-                    <span>{item.name}</span>
-                    <div className="invisible group-hover:visible absolute left-0 top-full mt-2 p-2 bg-gray-800 text-white text-sm rounded shadow-lg z-10 w-64">
-                      (Для соединения углов дома)
-                    </div>
-                  </div>
-                ) : item.name === 'Пена монтажная 70л' ? (
-                  <div className="group relative">
-                    <span>{item.name}</span>
-                    <div className="invisible group-hover:visible absolute left-0 top-full mt-2 p-2 bg-gray-800 text-white text-sm rounded shadow-lg z-10 w-64">
-                      (Для монтажа СИП) 1 пены хватает на 3 панели
+                      {item.note}
                     </div>
                   </div>
                 ) : (
@@ -74,15 +66,13 @@ export const SipWallsEstimateTable: React.FC<SipWallsEstimateTableProps> = ({
                   step="0.1"
                 />
               </td>
-              <td className="px-4 py-2 text-center">
-                <input
-                  type="number"
-                  value={item.price}
-                  onChange={(e) => onUpdateItem(index, 'price', Number(e.target.value))}
-                  className="w-24 px-2 py-1 text-right border rounded"
-                  disabled={!isEditing}
-                />
-              </td>
+              <EstimatePriceCell
+                item={item}
+                catalogPrice={catalogPrices?.[index]}
+                isEditing={isEditing}
+                onChange={(value) => onUpdateItem(index, 'price', value)}
+                onTogglePinned={onTogglePricePinned && (() => onTogglePricePinned(index))}
+              />
               <td className="px-4 py-2 text-right">{item.total.toLocaleString()} ₸</td>
             </tr>
           ))}
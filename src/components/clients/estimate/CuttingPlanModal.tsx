@@ -0,0 +1,493 @@
+import React, { useState } from 'react';
+import { Download, Plus, Scissors, Trash2, X } from 'lucide-react';
+import {
+  BeamLayout,
+  CuttingInput,
+  LumberPiece,
+  LumberUsage,
+  PanelLayout,
+  WallOpening,
+  WallSegment
+} from '../../../types/estimate';
+import {
+  BEAM_LENGTH,
+  calculateCuttingPlan,
+  DEFAULT_CUTTING_INPUT,
+  getCuttingEstimateValues,
+  getWallFramingPieces,
+  LUMBER_USAGES,
+  PANEL_HEIGHTS,
+  PANEL_NAMES,
+  PANEL_WIDTH,
+  validateCuttingInput
+} from '../../../utils/cuttingOptimizer';
+import { generatePDF } from '../../../utils/pdfUtils';
+
+interface CuttingPlanModalProps {
+  initialInput: CuttingInput | null;
+  hasPlan: boolean;
+  onApply: (input: CuttingInput | null, values: ReturnType<typeof getCuttingEstimateValues>) => void;
+  onClose: () => void;
+}
+
+const NEW_WALL: WallSegment = { name: '', length: 6, height: 2.5, openings: [] };
+const NEW_OPENING: WallOpening = { offset: 1, width: 1.2, height: 1.4, sillHeight: 0.9 };
+const NEW_PIECE: LumberPiece = { name: '', usage: 'roof40x140', length: 3, quantity: 1 };
+
+const formatNumber = (value: number) => value.toLocaleString('ru-RU', { maximumFractionDigits: 3 });
+
+const numberInputClass = 'w-20 px-2 py-1 border rounded text-right';
+
+// Одинаковые раскладки печатаются один раз с количеством
+const groupLayouts = <T extends PanelLayout | BeamLayout>(layouts: T[]) => {
+  const groups = new Map<string, { layout: T; count: number }>();
+  layouts.forEach(layout => {
+    const key = JSON.stringify(layout);
+    const group = groups.get(key);
+    if (group) {
+      group.count++;
+    } else {
+      groups.set(key, { layout, count: 1 });
+    }
+  });
+  return [...groups.values()];
+};
+
+// Схема панели: детали в масштабе, низ панели внизу
+const PanelPreview: React.FC<{ layout: PanelLayout }> = ({ layout }) => {
+  const height = PANEL_HEIGHTS[layout.type];
+  return (
+    <svg viewBox={`0 0 ${PANEL_WIDTH} ${height}`} className="w-20 h-40 bg-gray-100 border border-gray-300">
+      {layout.cuts.map((cut, index) => (
+        <rect
+          key={index}
+          x={cut.x}
+          y={height - cut.y - cut.height}
+          width={cut.width}
+          height={cut.height}
+          fill="#d1fae5"
+          stroke="#047857"
+          strokeWidth={0.01}
+        />
+      ))}
+    </svg>
+  );
+};
+
+export const CuttingPlanModal: React.FC<CuttingPlanModalProps> = ({ initialInput, hasPlan, onApply, onClose }) => {
+  const [input, setInput] = useState<CuttingInput>(initialInput || DEFAULT_CUTTING_INPUT);
+  const [view, setView] = useState<'input' | 'plan'>('input');
+
+  const error = validateCuttingInput(input);
+  const plan = error ? null : calculateCuttingPlan(input);
+  const values = plan ? getCuttingEstimateValues(plan) : null;
+
+  const updateWall = (index: number, updates: Partial<WallSegment>) =>
+    setInput({ ...input, walls: input.walls.map((wall, i) => (i === index ? { ...wall, ...updates } : wall)) });
+
+  const updateOpening = (wallIndex: number, openingIndex: number, updates: Partial<WallOpening>) =>
+    updateWall(wallIndex, {
+      openings: input.walls[wallIndex].openings.map((opening, i) =>
+        i === openingIndex ? { ...opening, ...updates } : opening
+      )
+    });
+
+  const updatePiece = (index: number, updates: Partial<LumberPiece>) =>
+    setInput({ ...input, pieces: input.pieces.map((piece, i) => (i === index ? { ...piece, ...updates } : piece)) });
+
+  // Обвязка пересчитывается по текущим стенам и заменяет прежние детали стен
+  const handleAddFraming = () => {
+    setInput({
+      ...input,
+      pieces: [
+        ...input.pieces.filter(piece => piece.usage !== 'walls40x140'),
+        ...getWallFramingPieces(input.walls)
+      ]
+    });
+  };
+
+  const handleApply = () => {
+    if (!plan || !values) return;
+    onApply(input, values);
+    onClose();
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Сбросить раскрой? Количества панелей и бруса в смете снова будут считаться по нормам.')) return;
+    onApply(null, { sip25Panels: 0, sip28Panels: 0, walls40x140: 0, roof40x140: 0, lathing25x100: 0 });
+    onClose();
+  };
+
+  const handleDownload = async () => {
+    await generatePDF('cutting-plan-content', 'Раскрой.pdf');
+  };
+
+  const summaryRows = plan
+    ? [
+        ...(['sip25', 'sip28'] as const).map(type => {
+          const panels = plan.panels.filter(panel => panel.type === type);
+          const waste = panels.reduce((sum, panel) => sum + panel.wasteArea, 0);
+          const total = panels.length * PANEL_WIDTH * PANEL_HEIGHTS[type];
+          return { name: PANEL_NAMES[type], count: panels.length, waste: `${formatNumber(waste)} м²`, percent: total ? (waste / total) * 100 : 0 };
+        }),
+        ...(Object.keys(LUMBER_USAGES) as LumberUsage[]).map(usage => {
+          const beams = plan.beams.filter(beam => beam.usage === usage);
+          const waste = beams.reduce((sum, beam) => sum + beam.offcut, 0);
+          const total = beams.length * BEAM_LENGTH;
+          return { name: LUMBER_USAGES[usage], count: beams.length, waste: `${formatNumber(waste)} м`, percent: total ? (waste / total) * 100 : 0 };
+        })
+      ].filter(row => row.count > 0)
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-5xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center">
+              <Scissors className="w-5 h-5 text-emerald-600" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Раскрой СИП панелей и бруса</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex rounded-lg border overflow-hidden self-start mb-4">
+          <button
+            onClick={() => setView('input')}
+            className={`px-4 py-2 text-sm ${view === 'input' ? 'bg-emerald-500 text-white' : 'bg-white text-gray-700'}`}
+          >
+            Исходные данные
+          </button>
+          <button
+            onClick={() => setView('plan')}
+            className={`px-4 py-2 text-sm ${view === 'plan' ? 'bg-emerald-500 text-white' : 'bg-white text-gray-700'}`}
+          >
+            План раскроя
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {error && (
+            <p className="mb-4 p-3 bg-amber-50 text-amber-800 text-sm rounded">{error}</p>
+          )}
+
+          {view === 'input' ? (
+            <div className="space-y-6">
+              <div className="flex items-center gap-2">
+                <label className="text-sm text-gray-700">Ширина пропила</label>
+                <input
+                  type="number"
+                  value={input.kerf}
+                  min={0}
+                  onChange={(e) => setInput({ ...input, kerf: Number(e.target.value) || 0 })}
+                  className={numberInputClass}
+                />
+                <span className="text-sm text-gray-500">мм</span>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="font-medium text-gray-900">Стены из СИП панелей</h3>
+                  <button
+                    onClick={() => setInput({ ...input, walls: [...input.walls, { ...NEW_WALL, name: `Стена ${input.walls.length + 1}` }] })}
+                    className="flex items-center text-sm text-emerald-600 hover:text-emerald-700"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Добавить стену
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mb-2">
+                  Панели шириной {formatNumber(PANEL_WIDTH)} м ставятся от начала стены. Стены до 2,5 м — из панелей 2,5 м, выше — из 2,8 м.
+                  Проёмы: смещение от начала стены, ширина, высота и высота низа от пола.
+                </p>
+                <div className="space-y-3">
+                  {input.walls.map((wall, wallIndex) => (
+                    <div key={wallIndex} className="p-3 border rounded-lg space-y-2">
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <input
+                          type="text"
+                          value={wall.name}
+                          onChange={(e) => updateWall(wallIndex, { name: e.target.value })}
+                          placeholder="Название"
+                          className="flex-1 min-w-[8rem] px-2 py-1 border rounded"
+                        />
+                        <span className="text-gray-500">длина</span>
+                        <input
+                          type="number"
+                          value={wall.length}
+                          step={0.01}
+                          min={0}
+                          onChange={(e) => updateWall(wallIndex, { length: Number(e.target.value) || 0 })}
+                          className={numberInputClass}
+                        />
+                        <span className="text-gray-500">высота</span>
+                        <input
+                          type="number"
+                          value={wall.height}
+                          step={0.01}
+                          min={0}
+                          onChange={(e) => updateWall(wallIndex, { height: Number(e.target.value) || 0 })}
+                          className={numberInputClass}
+                        />
+                        <button
+                          onClick={() => updateWall(wallIndex, { openings: [...wall.openings, NEW_OPENING] })}
+                          className="text-emerald-600 hover:text-emerald-700"
+                        >
+                          + проём
+                        </button>
+                        <button
+                          onClick={() => setInput({ ...input, walls: input.walls.filter((_, i) => i !== wallIndex) })}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Удалить стену"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      {wall.openings.map((opening, openingIndex) => (
+                        <div key={openingIndex} className="flex flex-wrap items-center gap-2 pl-4 text-sm">
+                          <span className="text-gray-500">Проём {openingIndex + 1}: смещение</span>
+                          {(['offset', 'width', 'height', 'sillHeight'] as const).map(field => (
+                            <React.Fragment key={field}>
+                              {field !== 'offset' && (
+                                <span className="text-gray-500">
+                                  {field === 'width' ? 'ширина' : field === 'height' ? 'высота' : 'низ'}
+                                </span>
+                              )}
+                              <input
+                                type="number"
+                                value={opening[field]}
+                                step={0.01}
+                                min={0}
+                                onChange={(e) => updateOpening(wallIndex, openingIndex, { [field]: Number(e.target.value) || 0 })}
+                                className={numberInputClass}
+                              />
+                            </React.Fragment>
+                          ))}
+                          <button
+                            onClick={() => updateWall(wallIndex, { openings: wall.openings.filter((_, i) => i !== openingIndex) })}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="Удалить проём"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="font-medium text-gray-900">Детали из бруса</h3>
+                  <div className="flex gap-4">
+                    <button
+                      onClick={handleAddFraming}
+                      disabled={input.walls.length === 0}
+                      className="text-sm text-emerald-600 hover:text-emerald-700 disabled:opacity-50"
+                    >
+                      Обвязка по стенам
+                    </button>
+                    <button
+                      onClick={() => setInput({ ...input, pieces: [...input.pieces, NEW_PIECE] })}
+                      className="flex items-center text-sm text-emerald-600 hover:text-emerald-700"
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Добавить деталь
+                    </button>
+                  </div>
+                </div>
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-2 font-medium">Деталь</th>
+                      <th className="py-2 pr-2 font-medium">Брус</th>
+                      <th className="py-2 pr-2 font-medium text-right">Длина, м</th>
+                      <th className="py-2 pr-2 font-medium text-right">Кол-во</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {input.pieces.map((piece, index) => (
+                      <tr key={index} className="border-b last:border-0">
+                        <td className="py-1 pr-2">
+                          <input
+                            type="text"
+                            value={piece.name}
+                            onChange={(e) => updatePiece(index, { name: e.target.value })}
+                            placeholder="Например, стропило"
+                            className="w-full px-2 py-1 border rounded"
+                          />
+                        </td>
+                        <td className="py-1 pr-2">
+                          <select
+                            value={piece.usage}
+                            onChange={(e) => updatePiece(index, { usage: e.target.value as LumberUsage })}
+                            className="px-2 py-1 border rounded"
+                          >
+                            {Object.entries(LUMBER_USAGES).map(([usage, label]) => (
+                              <option key={usage} value={usage}>{label}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-1 pr-2 text-right">
+                          <input
+                            type="number"
+                            value={piece.length}
+                            step={0.01}
+                            min={0}
+                            onChange={(e) => updatePiece(index, { length: Number(e.target.value) || 0 })}
+                            className={numberInputClass}
+                          />
+                        </td>
+                        <td className="py-1 pr-2 text-right">
+                          <input
+                            type="number"
+                            value={piece.quantity}
+                            min={1}
+                            onChange={(e) => updatePiece(index, { quantity: Number(e.target.value) || 0 })}
+                            className={numberInputClass}
+                          />
+                        </td>
+                        <td className="py-1 text-right">
+                          <button
+                            onClick={() => setInput({ ...input, pieces: input.pieces.filter((_, i) => i !== index) })}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title="Удалить деталь"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : plan && (
+            <div id="cutting-plan-content" className="bg-white p-2 space-y-6">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Материал</th>
+                    <th className="py-2 pr-4 font-medium text-right">Количество, шт</th>
+                    <th className="py-2 pr-4 font-medium text-right">Отходы</th>
+                    <th className="py-2 font-medium text-right">%</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summaryRows.map(row => (
+                    <tr key={row.name} className="border-b last:border-0">
+                      <td className="py-2 pr-4">{row.name}</td>
+                      <td className="py-2 pr-4 text-right font-medium">{row.count}</td>
+                      <td className="py-2 pr-4 text-right">{row.waste}</td>
+                      <td className="py-2 text-right">{formatNumber(Math.round(row.percent * 10) / 10)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {plan.panels.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-gray-900 mb-2">Раскрой панелей (размеры в метрах, ширина × высота)</h3>
+                  <div className="space-y-3">
+                    {groupLayouts(plan.panels).map(({ layout, count }, index) => (
+                      <div key={index} className="flex gap-4 items-start border-b pb-3">
+                        <PanelPreview layout={layout} />
+                        <div className="text-sm">
+                          <p className="font-medium">{PANEL_NAMES[layout.type]} × {count}</p>
+                          <ul className="text-gray-700">
+                            {layout.cuts.map((cut, cutIndex) => (
+                              <li key={cutIndex}>
+                                {cut.label}: {formatNumber(cut.width)} × {formatNumber(cut.height)}
+                                {(cut.x > 0 || cut.y > 0) && (
+                                  <span className="text-gray-500"> (от левого края {formatNumber(cut.x)}, от низа {formatNumber(cut.y)})</span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                          <p className="text-gray-500">Отход: {formatNumber(layout.wasteArea)} м²</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {plan.beams.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-gray-900 mb-2">Раскрой бруса {BEAM_LENGTH} м</h3>
+                  <div className="space-y-2">
+                    {groupLayouts(plan.beams).map(({ layout, count }, index) => (
+                      <div key={index} className="text-sm">
+                        <p className="font-medium">{LUMBER_USAGES[layout.usage]} × {count}</p>
+                        <div className="flex h-6 border border-gray-300 bg-gray-100">
+                          {layout.cuts.map((cut, cutIndex) => (
+                            <div
+                              key={cutIndex}
+                              style={{ width: `${(cut.length / BEAM_LENGTH) * 100}%` }}
+                              className="h-full bg-emerald-100 border-r-2 border-emerald-700 text-xs flex items-center justify-center overflow-hidden"
+                            >
+                              {formatNumber(cut.length)}
+                            </div>
+                          ))}
+                        </div>
+                        <p className="text-gray-600">
+                          {layout.cuts.map(cut => `${cut.label} ${formatNumber(cut.length)} м`).join('; ')}
+                          {layout.offcut > 0 && <span className="text-gray-500"> — обрезок {formatNumber(layout.offcut)} м</span>}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {summaryRows.length === 0 && (
+                <p className="text-center text-gray-500 py-8">Добавьте стены или детали из бруса</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-between gap-3 mt-6">
+          <div className="flex gap-3">
+            <button
+              onClick={handleDownload}
+              disabled={!plan || view !== 'plan'}
+              className="flex items-center px-4 py-2 text-gray-700 hover:text-gray-900 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              Скачать PDF
+            </button>
+            {hasPlan && (
+              <button
+                onClick={handleClear}
+                className="px-4 py-2 text-red-600 hover:text-red-700"
+              >
+                Сбросить раскрой
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 hover:text-gray-900"
+            >
+              Отмена
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!plan || summaryRows.length === 0}
+              className="px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50"
+            >
+              Заполнить смету
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,28 @@
 import React, { useState } from 'react';
-import { ChevronDown, ChevronUp } from 'lucide-react';
+import { ChevronDown, ChevronUp, Scissors, Triangle } from 'lucide-react';
 import { EstimateHeader } from './EstimateHeader';
 import { EstimateInputs } from './EstimateInputs';
 import { EstimateTables } from './EstimateTables';
+import { CuttingPlanModal } from './CuttingPlanModal';
+import { RoofGeometryModal } from './RoofGeometryModal';
 import { useEstimateData } from '../../../hooks/useEstimateData';
 
 interface EstimateBlockProps {
   isEditing: boolean;
   clientId: string;
   onFloorsChange: (floors: string) => void;
+  onContractPriceChange?: (price: number, vatRate: number, vatAmount: number) => void;
 }
 
 export const EstimateBlock: React.FC<EstimateBlockProps> = ({ 
   isEditing, 
   clientId,
-  onFloorsChange
+  onFloorsChange,
+  onContractPriceChange
 }) => {
   const [isExpanded, setIsExpanded] = useState(true);
+  const [showRoofGeometry, setShowRoofGeometry] = useState(false);
+  const [showCuttingPlan, setShowCuttingPlan] = useState(false);
   const {
     projectNumber,
     floors,
@@ -29,6 +35,10 @@ export const EstimateBlock: React.FC<EstimateBlockProps> = ({
     foundationValues,
     lumberValues,
     roofValues,
+    roofGeometry,
+    cuttingInput,
+    cuttingValues,
+    pricing,
     handleProjectNumberChange,
     handleFloorsChange: handleFloorsChangeInternal,
     handleFirstFloorHeightChange,
@@ -37,12 +47,15 @@ export const EstimateBlock: React.FC<EstimateBlockProps> = ({
     handleFloorsCheckChange,
     handleFirstFloorHeightCheckChange,
     handleSecondFloorHeightCheckChange,
+    handlePricingChange,
     handleFoundationChange,
     handleFoundationCheckChange,
     handleLumberChange,
     handleLumberCheckChange,
     handleRoofChange,
-    handleRoofCheckChange
+    handleRoofCheckChange,
+    applyRoofGeometry,
+    applyCuttingPlan
   } = useEstimateData(clientId, isEditing);
 
   // Wrap the floors change handler to notify parent component
@@ -89,10 +102,33 @@ export const EstimateBlock: React.FC<EstimateBlockProps> = ({
             isEditing={isEditing}
           />
 
+          {isEditing && (
+            <div className="flex flex-wrap gap-4">
+              <button
+                onClick={() => setShowRoofGeometry(true)}
+                className="flex items-center text-sm text-emerald-600 hover:text-emerald-700"
+              >
+                <Triangle className="w-4 h-4 mr-1" />
+                Рассчитать крышу по размерам дома
+              </button>
+              <button
+                onClick={() => setShowCuttingPlan(true)}
+                className="flex items-center text-sm text-emerald-600 hover:text-emerald-700"
+              >
+                <Scissors className="w-4 h-4 mr-1" />
+                Раскрой панелей и бруса
+              </button>
+            </div>
+          )}
+
           <EstimateTables
             foundationValues={foundationValues}
             lumberValues={lumberValues}
             roofValues={roofValues}
+            floors={floors}
+            pricing={pricing}
+            onPricingChange={handlePricingChange}
+            onContractPriceChange={onContractPriceChange}
             onFoundationChange={handleFoundationChange}
             onFoundationCheckChange={handleFoundationCheckChange}
             onLumberChange={handleLumberChange}
@@ -105,6 +141,23 @@ export const EstimateBlock: React.FC<EstimateBlockProps> = ({
           />
         </div>
       )}
+
+      {showRoofGeometry && (
+        <RoofGeometryModal
+          initialGeometry={roofGeometry}
+          onApply={applyRoofGeometry}
+          onClose={() => setShowRoofGeometry(false)}
+        />
+      )}
+
+      {showCuttingPlan && (
+        <CuttingPlanModal
+          initialInput={cuttingInput}
+          hasPlan={Object.values(cuttingValues).some(({ value }) => value > 0)}
+          onApply={applyCuttingPlan}
+          onClose={() => setShowCuttingPlan(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
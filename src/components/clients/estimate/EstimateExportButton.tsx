@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Download, FileSpreadsheet, FileText } from 'lucide-react';
+import { getCurrentEstimateDocuments } from '../../../lib/firebase';
+import { Client } from '../../../types/client';
+import { buildEstimateExport, exportEstimateToPdf, exportEstimateToXlsx } from '../../../utils/estimateExport';
+import { showErrorNotification } from '../../../utils/notifications';
+
+interface EstimateExportButtonProps {
+  client: Client;
+}
+
+type ExportFormat = 'xlsx' | 'pdf';
+
+export const EstimateExportButton: React.FC<EstimateExportButtonProps> = ({ client }) => {
+  const [showMenu, setShowMenu] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setShowMenu(false);
+    setExporting(true);
+    try {
+      const documents = await getCurrentEstimateDocuments(client.id);
+      const estimate = buildEstimateExport(
+        documents,
+        `Смета №${client.clientNumber} — ${client.lastName} ${client.firstName}`
+      );
+      const fileName = `Смета_${client.clientNumber}_${client.lastName}.${format}`;
+
+      const success = format === 'xlsx'
+        ? await exportEstimateToXlsx(estimate, fileName)
+        : await exportEstimateToPdf(estimate, fileName);
+
+      if (!success) {
+        showErrorNotification('Ошибка при выгрузке сметы');
+      }
+    } catch (error) {
+      console.error('Error exporting estimate:', error);
+      showErrorNotification('Ошибка при выгрузке сметы');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        disabled={exporting}
+        className="flex items-center text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+      >
+        <Download className="w-4 h-4 mr-1" />
+        {exporting ? 'Выгрузка...' : 'Экспорт сметы'}
+      </button>
+
+      {showMenu && (
+        <div className="absolute right-0 mt-2 w-44 bg-white rounded-md shadow-lg border z-20">
+          <button
+            onClick={() => handleExport('xlsx')}
+            className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+          >
+            <FileSpreadsheet className="w-4 h-4 mr-2 text-emerald-600" />
+            Excel (XLSX)
+          </button>
+          <button
+            onClick={() => handleExport('pdf')}
+            className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+          >
+            <FileText className="w-4 h-4 mr-2 text-red-600" />
+            PDF
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
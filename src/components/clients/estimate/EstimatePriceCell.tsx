@@ -0,0 +1,53 @@
+import React from 'react';
+import { Pin, PinOff } from 'lucide-react';
+import { EstimateItem } from '../../../types/estimate';
+import { CatalogPrice } from '../../../hooks/useEstimatePriceSync';
+
+interface EstimatePriceCellProps {
+  item: EstimateItem;
+  catalogPrice?: CatalogPrice | null;
+  isEditing: boolean;
+  onChange: (value: number) => void;
+  onTogglePinned?: () => void;
+}
+
+// Ячейка цены позиции сметы: цена из каталога, если она отличается, и закрепление цены
+export const EstimatePriceCell: React.FC<EstimatePriceCellProps> = ({
+  item,
+  catalogPrice,
+  isEditing,
+  onChange,
+  onTogglePinned
+}) => {
+  const isOutdated = !!catalogPrice && catalogPrice.price !== item.price;
+
+  return (
+    <td className="px-4 py-2 text-center">
+      <div className="flex items-center justify-center gap-1">
+        <input
+          type="number"
+          value={item.price}
+          onChange={(e) => onChange(Number(e.target.value))}
+          className={`w-24 px-2 py-1 text-right border rounded ${isOutdated && !item.pricePinned ? 'border-amber-400' : ''}`}
+          disabled={!isEditing}
+        />
+        {onTogglePinned && (isEditing || item.pricePinned) && (
+          <button
+            type="button"
+            onClick={onTogglePinned}
+            disabled={!isEditing}
+            className={item.pricePinned ? 'text-blue-600' : 'text-gray-300 hover:text-gray-500'}
+            title={item.pricePinned ? 'Цена закреплена и не обновляется из каталога' : 'Закрепить цену'}
+          >
+            {item.pricePinned ? <Pin className="w-4 h-4" /> : <PinOff className="w-4 h-4" />}
+          </button>
+        )}
+      </div>
+      {isOutdated && (
+        <div className={`text-xs mt-1 ${item.pricePinned ? 'text-gray-400' : 'text-amber-600'}`}>
+          В каталоге: {catalogPrice.price.toLocaleString()} ₸
+        </div>
+      )}
+    </td>
+  );
+};
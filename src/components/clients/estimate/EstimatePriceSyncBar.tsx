@@ -0,0 +1,33 @@
+import React from 'react';
+import { RefreshCw } from 'lucide-react';
+
+interface EstimatePriceSyncBarProps {
+  outdatedCount: number;
+  isEditing: boolean;
+  onUpdateAll: () => void;
+}
+
+export const EstimatePriceSyncBar: React.FC<EstimatePriceSyncBarProps> = ({
+  outdatedCount,
+  isEditing,
+  onUpdateAll
+}) => {
+  if (outdatedCount === 0) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-4 px-4 py-2 bg-amber-50 text-amber-800 text-sm">
+      <span>Цены позиций, отличающиеся от каталога: {outdatedCount}</span>
+      {isEditing ? (
+        <button
+          onClick={onUpdateAll}
+          className="flex items-center px-3 py-1 bg-amber-500 text-white rounded hover:bg-amber-600 transition-colors"
+        >
+          <RefreshCw className="w-4 h-4 mr-1" />
+          Обновить все цены
+        </button>
+      ) : (
+        <span className="text-amber-600">Для обновления включите режим редактирования</span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React from 'react';
+import { Percent } from 'lucide-react';
+import { DiscountType, EstimatePriceBreakdown, EstimatePricing } from '../../../types/estimate';
+import { DEFAULT_ESTIMATE_PRICING, ESTIMATE_TOTALS_LABELS } from '../../../utils/estimatePricing';
+
+interface EstimatePricingPanelProps {
+  pricing: EstimatePricing | null;
+  breakdown: EstimatePriceBreakdown | null;
+  isEditing: boolean;
+  onChange: (pricing: EstimatePricing | null) => void;
+}
+
+const formatAmount = (amount: number): string => amount.toLocaleString('ru-RU') + ' тг';
+
+export const EstimatePricingPanel: React.FC<EstimatePricingPanelProps> = ({
+  pricing,
+  breakdown,
+  isEditing,
+  onChange
+}) => {
+  if (!pricing || !breakdown) {
+    return isEditing ? (
+      <button
+        onClick={() => onChange(DEFAULT_ESTIMATE_PRICING)}
+        className="flex items-center text-sm text-emerald-600 hover:text-emerald-700"
+      >
+        <Percent className="w-4 h-4 mr-1" />
+        Рассчитать цену по договору: наценка, скидка и НДС
+      </button>
+    ) : null;
+  }
+
+  const handleDisable = () => {
+    if (!window.confirm('Отключить расчёт цены? Цена по договору останется текущей и будет вводиться вручную.')) return;
+    onChange(null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-hidden">
+      <div className="bg-gray-600 text-white text-center py-1 sm:py-2 text-[10px] sm:text-base">
+        Цена для клиента
+      </div>
+      <table className="min-w-full text-[10px] sm:text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="px-2 py-1 font-medium">Раздел</th>
+            <th className="px-2 py-1 font-medium text-right">Себестоимость</th>
+            <th className="px-2 py-1 font-medium text-right">Наценка, %</th>
+            <th className="px-2 py-1 font-medium text-right">Цена</th>
+          </tr>
+        </thead>
+        <tbody>
+          {breakdown.sections.map(section => (
+            <tr key={section.key} className="border-b">
+              <td className="px-2 py-1">{ESTIMATE_TOTALS_LABELS[section.key]}</td>
+              <td className="px-2 py-1 text-right whitespace-nowrap">{formatAmount(section.cost)}</td>
+              <td className="px-2 py-1 text-right">
+                <input
+                  type="number"
+                  value={pricing.markups[section.key]}
+                  step={1}
+                  onChange={(e) => onChange({
+                    ...pricing,
+                    markups: { ...pricing.markups, [section.key]: Number(e.target.value) || 0 }
+                  })}
+                  disabled={!isEditing}
+                  className="w-12 sm:w-16 px-1 py-0.5 border rounded text-right"
+                />
+              </td>
+              <td className="px-2 py-1 text-right whitespace-nowrap">{formatAmount(section.price)}</td>
+            </tr>
+          ))}
+          <tr className="border-b font-medium">
+            <td className="px-2 py-1">Итого с наценкой</td>
+            <td className="px-2 py-1 text-right whitespace-nowrap">{formatAmount(breakdown.cost)}</td>
+            <td className="px-2 py-1 text-right whitespace-nowrap">{formatAmount(breakdown.markupAmount)}</td>
+            <td className="px-2 py-1 text-right whitespace-nowrap">{formatAmount(breakdown.cost + breakdown.markupAmount)}</td>
+          </tr>
+          <tr className="border-b">
+            <td className="px-2 py-1" colSpan={2}>Скидка клиенту</td>
+            <td className="px-2 py-1 text-right">
+              <div className="flex justify-end gap-1">
+                <input
+                  type="number"
+                  value={pricing.discountValue}
+                  min={0}
+                  onChange={(e) => onChange({ ...pricing, discountValue: Number(e.target.value) || 0 })}
+                  disabled={!isEditing}
+                  className="w-16 sm:w-24 px-1 py-0.5 border rounded text-right"
+                />
+                <select
+                  value={pricing.discountType}
+                  onChange={(e) => onChange({ ...pricing, discountType: e.target.value as DiscountType })}
+                  disabled={!isEditing}
+                  className="px-1 py-0.5 border rounded"
+                >
+                  <option value="percent">%</option>
+                  <option value="fixed">тг</option>
+                </select>
+              </div>
+            </td>
+            <td className="px-2 py-1 text-right whitespace-nowrap text-red-600">
+              {breakdown.discountAmount > 0 && `−${formatAmount(breakdown.discountAmount)}`}
+            </td>
+          </tr>
+          <tr className="border-b font-medium">
+            <td className="px-2 py-1" colSpan={3}>Цена без НДС</td>
+            <td className="px-2 py-1 text-right whitespace-nowrap">{formatAmount(breakdown.priceWithoutVat)}</td>
+          </tr>
+          <tr className="border-b">
+            <td className="px-2 py-1" colSpan={2}>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={pricing.vatEnabled}
+                  onChange={(e) => onChange({ ...pricing, vatEnabled: e.target.checked })}
+                  disabled={!isEditing}
+                  className="w-3 h-3 sm:w-4 sm:h-4 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+                />
+                НДС
+              </label>
+            </td>
+            <td className="px-2 py-1 text-right">
+              <input
+                type="number"
+                value={pricing.vatRate}
+                min={0}
+                onChange={(e) => onChange({ ...pricing, vatRate: Number(e.target.value) || 0 })}
+                disabled={!isEditing || !pricing.vatEnabled}
+                className="w-12 sm:w-16 px-1 py-0.5 border rounded text-right"
+              />
+            </td>
+            <td className="px-2 py-1 text-right whitespace-nowrap">{formatAmount(breakdown.vatAmount)}</td>
+          </tr>
+          <tr className="bg-blue-100 font-bold text-blue-800">
+            <td className="px-2 py-1" colSpan={3}>
+              Цена по договору {pricing.vatEnabled ? 'с НДС' : 'без НДС'}
+            </td>
+            <td className="px-2 py-1 text-right whitespace-nowrap">{formatAmount(breakdown.contractPrice)}</td>
+          </tr>
+        </tbody>
+      </table>
+      {isEditing && (
+        <div className="flex justify-end px-2 py-1">
+          <button onClick={handleDisable} className="text-xs text-gray-500 hover:text-gray-700">
+            Вводить цену по договору вручную
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,19 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { EstimateTable } from './EstimateTable';
-import { EstimateValues } from '../../../types/estimate';
+import { EstimatePricingPanel } from './EstimatePricingPanel';
+import { EstimatePricing, EstimateValues } from '../../../types/estimate';
 import { useEstimateTotals } from '../../../hooks/useEstimateTotals';
 import { useReceiptCalculation } from '../../../hooks/useReceiptCalculation';
+import { calculateEstimatePrice } from '../../../utils/estimatePricing';
 
 interface EstimateTablesProps {
   foundationValues: EstimateValues;
   lumberValues: EstimateValues;
   roofValues: EstimateValues;
+  floors: string;
+  pricing: EstimatePricing | null;
+  onPricingChange: (pricing: EstimatePricing | null) => void;
+  onContractPriceChange?: (price: number, vatRate: number, vatAmount: number) => void;
   onFoundationChange: (key: keyof EstimateValues) => (value: number) => void;
   onFoundationCheckChange: (key: keyof EstimateValues) => (checked: boolean) => void;
   onLumberChange: (key: keyof EstimateValues) => (value: number) => void;
@@ -23,6 +29,10 @@ export const EstimateTables: React.FC<EstimateTablesProps> = ({
   foundationValues,
   lumberValues,
   roofValues,
+  floors,
+  pricing,
+  onPricingChange,
+  onContractPriceChange,
   onFoundationChange,
   onFoundationCheckChange,
   onLumberChange,
@@ -35,8 +45,40 @@ export const EstimateTables: React.FC<EstimateTablesProps> = ({
 }) => {
   const { grandTotal, totals, salaryTotal } = useEstimateTotals(clientId);
   const receiptData = useReceiptCalculation(clientId);
-  const operationalExpenses = 1300000;
-  const netIncome = roofValues.contractPrice.value - grandTotal;
+  const operationalExpenses = receiptData.operationalExpense;
+  const breakdown = pricing ? calculateEstimatePrice(totals, floors, pricing) : null;
+  const contractPrice = roofValues.contractPrice.value;
+
+  // Рассчитанная цена переносится в цену по договору сметы и в сумму договора клиента
+  const pricedContract = breakdown?.contractPrice;
+  const vatRate = pricing?.vatEnabled ? pricing.vatRate : 0;
+  const vatAmount = breakdown?.vatAmount || 0;
+  // Обработчики родителя создаются заново при каждом рендере, поэтому
+  // эффект берёт их из ref и срабатывает только при смене рассчитанной цены.
+  // Ref обновляется после рендера — эффектом, объявленным раньше эффекта цены
+  const latest = useRef({ contractPrice, onRoofChange, onContractPriceChange });
+  useEffect(() => {
+    latest.current = { contractPrice, onRoofChange, onContractPriceChange };
+  });
+  useEffect(() => {
+    if (!isEditing || pricedContract === undefined) return;
+    const { contractPrice: currentPrice, onRoofChange: setRoofValue, onContractPriceChange: setClientPrice } = latest.current;
+    if (pricedContract !== currentPrice) {
+      setRoofValue('contractPrice')(pricedContract);
+    }
+    setClientPrice?.(pricedContract, vatRate, vatAmount);
+  }, [isEditing, pricedContract, vatRate, vatAmount]);
+
+  // При переходе на ручной ввод цена договора остаётся прежней, но без НДС
+  const handlePricingChange = (value: EstimatePricing | null) => {
+    onPricingChange(value);
+    if (!value) {
+      onContractPriceChange?.(contractPrice, 0, 0);
+    }
+  };
+
+  // Маржа считается от цены без НДС
+  const netIncome = contractPrice - receiptData.vatAmount - grandTotal;
   const marginPercentage = roofValues.contractPrice.value > 0 
     ? ((netIncome / roofValues.contractPrice.value) * 100).toFixed(2)
     : '0';
@@ -99,7 +141,7 @@ export const EstimateTables: React.FC<EstimateTablesProps> = ({
             { label: 'Планка примык к стене', value: roofValues.wallPlank.value, isChecked: roofValues.wallPlank.isChecked, onChange: onRoofChange('wallPlank'), onCheckChange: onRoofCheckChange('wallPlank') },
             { label: 'Разное', value: '', isHeader: true },
             { label: 'ЗП строителям', value: roofValues.builderSalary.value, isChecked: roofValues.builderSalary.isChecked, onChange: onRoofChange('builderSalary'), onCheckChange: onRoofCheckChange('builderSalary') },
-            { label: 'Цена по договору', value: roofValues.contractPrice.value, isChecked: roofValues.contractPrice.isChecked, onChange: onRoofChange('contractPrice'), onCheckChange: onRoofCheckChange('contractPrice') },
+            { label: 'Цена по договору', value: roofValues.contractPrice.value, isChecked: roofValues.contractPrice.isChecked, onChange: pricing ? undefined : onRoofChange('contractPrice'), onCheckChange: onRoofCheckChange('contractPrice') },
             { label: 'Операционный расход', value: operationalExpenses, isChecked: true }
           ]}
           isEditing={isEditing}
@@ -114,6 +156,13 @@ export const EstimateTables: React.FC<EstimateTablesProps> = ({
           </div>
         </div>
 
+        <EstimatePricingPanel
+          pricing={pricing}
+          breakdown={breakdown}
+          isEditing={isEditing}
+          onChange={handlePricingChange}
+        />
+
         <div className={`${netIncome < 0 ? 'bg-red-100' : 'bg-green-100'} p-1.5 sm:p-3 rounded-lg shadow`}>
           <div className="flex justify-between items-center">
             <span className={`font-bold ${netIncome < 0 ? 'text-red-800' : 'text-green-800'} text-[10px] sm:text-base`}>
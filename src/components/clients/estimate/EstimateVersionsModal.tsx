@@ -0,0 +1,365 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { History, RotateCcw, Trash2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import {
+  ESTIMATE_DOCUMENTS,
+  createEstimateVersion,
+  deleteEstimateVersion,
+  getCurrentEstimateDocuments,
+  restoreEstimateVersion,
+  subscribeToEstimateVersions
+} from '../../../lib/firebase';
+import { EstimateVersion } from '../../../types/estimate';
+import { diffEstimateDocuments, getEstimateGrandTotal } from '../../../utils/estimateDiff';
+import { showErrorNotification, showSuccessNotification } from '../../../utils/notifications';
+
+interface EstimateVersionsModalProps {
+  clientId: string;
+  onClose: () => void;
+  // Вызывается после восстановления, чтобы разделы сметы перечитали данные
+  onRestore: () => void;
+}
+
+const CURRENT = 'current';
+const VERSION_PRESETS = ['Отправлена клиенту', 'Договор подписан'];
+
+const formatMoney = (amount: number): string =>
+  amount.toLocaleString('ru-RU', { maximumFractionDigits: 2 }) + ' ₸';
+
+const formatNumber = (value: number): string =>
+  value.toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+
+const formatVersionDate = (createdAt: EstimateVersion['createdAt']): string => {
+  const date = createdAt?.toDate();
+  return date ? format(date, 'd MMM yyyy, HH:mm', { locale: ru }) : '—';
+};
+
+export const EstimateVersionsModal: React.FC<EstimateVersionsModalProps> = ({
+  clientId,
+  onClose,
+  onRestore
+}) => {
+  const [versions, setVersions] = useState<EstimateVersion[]>([]);
+  const [currentDocuments, setCurrentDocuments] = useState<EstimateVersion['documents']>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [beforeId, setBeforeId] = useState('');
+  const [afterId, setAfterId] = useState(CURRENT);
+  const [onlyChanges, setOnlyChanges] = useState(true);
+
+  const loadCurrentDocuments = useCallback(async () => {
+    try {
+      setCurrentDocuments(await getCurrentEstimateDocuments(clientId));
+    } catch (error) {
+      console.error('Error loading current estimate:', error);
+      showErrorNotification('Не удалось загрузить текущую смету');
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    loadCurrentDocuments();
+
+    return subscribeToEstimateVersions(
+      clientId,
+      (loadedVersions) => {
+        setVersions(loadedVersions);
+        setLoading(false);
+      },
+      () => {
+        showErrorNotification('Не удалось загрузить версии сметы');
+        setLoading(false);
+      }
+    );
+  }, [clientId, loadCurrentDocuments]);
+
+  // По умолчанию сравниваем последнюю сохранённую версию с текущей сметой
+  useEffect(() => {
+    if (!beforeId && versions.length > 0) {
+      setBeforeId(versions[0].id);
+    }
+  }, [versions, beforeId]);
+
+  const getDocuments = (id: string) =>
+    id === CURRENT ? currentDocuments : versions.find(version => version.id === id)?.documents;
+
+  const beforeDocuments = getDocuments(beforeId);
+  const afterDocuments = getDocuments(afterId);
+  const diff = beforeDocuments && afterDocuments
+    ? diffEstimateDocuments(beforeDocuments, afterDocuments, ESTIMATE_DOCUMENTS.map(({ key }) => key))
+    : [];
+
+  const handleCreate = async (versionName: string) => {
+    setSaving(true);
+    try {
+      await createEstimateVersion(clientId, versionName);
+      await loadCurrentDocuments();
+      setName('');
+      showSuccessNotification('Версия сметы сохранена');
+    } catch (error) {
+      console.error('Error creating estimate version:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Ошибка при сохранении версии');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: EstimateVersion) => {
+    if (!window.confirm(`Восстановить смету из версии «${version.name}»? Текущая смета будет сохранена отдельной версией.`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await restoreEstimateVersion(version);
+      await loadCurrentDocuments();
+      onRestore();
+      showSuccessNotification('Смета восстановлена');
+    } catch (error) {
+      console.error('Error restoring estimate version:', error);
+      showErrorNotification('Ошибка при восстановлении версии');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (version: EstimateVersion) => {
+    if (!window.confirm(`Удалить версию «${version.name}»?`)) return;
+
+    try {
+      await deleteEstimateVersion(version.id);
+      if (beforeId === version.id) setBeforeId('');
+      if (afterId === version.id) setAfterId(CURRENT);
+    } catch (error) {
+      console.error('Error deleting estimate version:', error);
+      showErrorNotification('Ошибка при удалении версии');
+    }
+  };
+
+  const renderValues = (values: { quantity: number; price: number; total: number } | null, isInput: boolean) => {
+    if (!values) {
+      return <td colSpan={isInput ? 1 : 3} className="py-1 px-2 text-center text-gray-400">—</td>;
+    }
+    if (isInput) {
+      return <td className="py-1 px-2 text-right">{formatNumber(values.quantity)}</td>;
+    }
+    return (
+      <>
+        <td className="py-1 px-2 text-right">{formatNumber(values.quantity)}</td>
+        <td className="py-1 px-2 text-right">{formatNumber(values.price)}</td>
+        <td className="py-1 px-2 text-right">{formatNumber(values.total)}</td>
+      </>
+    );
+  };
+
+  const versionOptions = (
+    <>
+      <option value={CURRENT}>Текущая смета</option>
+      {versions.map(version => (
+        <option key={version.id} value={version.id}>
+          {version.name} — {formatVersionDate(version.createdAt)}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-5xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+              <History className="w-5 h-5 text-blue-600" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Версии сметы</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-6">
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Название версии"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => handleCreate(name)}
+                disabled={saving || !name.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Сохранить версию
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {VERSION_PRESETS.map(preset => (
+                <button
+                  key={preset}
+                  onClick={() => handleCreate(preset)}
+                  disabled={saving}
+                  className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-full hover:bg-gray-200 disabled:opacity-50"
+                >
+                  {preset}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-900"></div>
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-center text-gray-500 py-4">Сохранённых версий пока нет</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4 font-medium">Версия</th>
+                  <th className="py-2 pr-4 font-medium">Дата</th>
+                  <th className="py-2 pr-4 font-medium">Автор</th>
+                  <th className="py-2 pr-4 font-medium text-right">Итого</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {versions.map(version => (
+                  <tr key={version.id} className="border-b last:border-0">
+                    <td className="py-2 pr-4 text-gray-900">{version.name}</td>
+                    <td className="py-2 pr-4 text-gray-600">{formatVersionDate(version.createdAt)}</td>
+                    <td className="py-2 pr-4 text-gray-600">{version.createdBy || '—'}</td>
+                    <td className="py-2 pr-4 text-right">{formatMoney(version.grandTotal || 0)}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => handleRestore(version)}
+                        disabled={saving}
+                        className="p-1 text-gray-500 hover:text-blue-600 disabled:opacity-50"
+                        title="Восстановить"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(version)}
+                        className="p-1 text-gray-500 hover:text-red-600"
+                        title="Удалить"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {versions.length > 0 && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <h3 className="font-medium text-gray-900">Сравнение</h3>
+                <select
+                  value={beforeId}
+                  onChange={(e) => setBeforeId(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {versionOptions}
+                </select>
+                <span className="text-gray-500">→</span>
+                <select
+                  value={afterId}
+                  onChange={(e) => setAfterId(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {versionOptions}
+                </select>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={onlyChanges}
+                    onChange={(e) => setOnlyChanges(e.target.checked)}
+                  />
+                  Только изменения
+                </label>
+              </div>
+
+              <div className="flex justify-between text-sm text-gray-600">
+                <span>Итого: {formatMoney(getEstimateGrandTotal(beforeDocuments || {}))}</span>
+                <span>Итого: {formatMoney(getEstimateGrandTotal(afterDocuments || {}))}</span>
+              </div>
+
+              {diff.map(section => {
+                const isInput = section.key === 'inputs';
+                const items = onlyChanges ? section.items.filter(item => item.changed) : section.items;
+                const title = ESTIMATE_DOCUMENTS.find(({ key }) => key === section.key)?.title;
+                if (items.length === 0 && section.totalBefore === section.totalAfter) return null;
+
+                return (
+                  <div key={section.key}>
+                    <h4 className="font-medium text-gray-800 mb-1">{title}</h4>
+                    <table className="min-w-full text-xs border">
+                      <thead className="bg-gray-50 text-gray-500">
+                        <tr>
+                          <th rowSpan={2} className="py-1 px-2 text-left font-medium">Позиция</th>
+                          <th colSpan={isInput ? 1 : 3} className="py-1 px-2 font-medium border-l">Было</th>
+                          <th colSpan={isInput ? 1 : 3} className="py-1 px-2 font-medium border-l">Стало</th>
+                        </tr>
+                        {!isInput && (
+                          <tr>
+                            <th className="py-1 px-2 text-right font-medium border-l">Кол-во</th>
+                            <th className="py-1 px-2 text-right font-medium">Цена</th>
+                            <th className="py-1 px-2 text-right font-medium">Сумма</th>
+                            <th className="py-1 px-2 text-right font-medium border-l">Кол-во</th>
+                            <th className="py-1 px-2 text-right font-medium">Цена</th>
+                            <th className="py-1 px-2 text-right font-medium">Сумма</th>
+                          </tr>
+                        )}
+                      </thead>
+                      <tbody>
+                        {items.map(item => (
+                          <tr key={item.key} className={`border-t ${item.changed ? 'bg-yellow-50' : ''}`}>
+                            <td className="py-1 px-2">
+                              {item.name}
+                              {item.unit && <span className="text-gray-400"> ({item.unit})</span>}
+                            </td>
+                            {renderValues(item.before, isInput)}
+                            {renderValues(item.after, isInput)}
+                          </tr>
+                        ))}
+                        {!isInput && (
+                          <tr className="border-t font-medium">
+                            <td className="py-1 px-2">Итого по разделу</td>
+                            <td colSpan={3} className="py-1 px-2 text-right">{formatMoney(section.totalBefore)}</td>
+                            <td
+                              colSpan={3}
+                              className={`py-1 px-2 text-right ${section.totalAfter !== section.totalBefore ? 'text-red-600' : ''}`}
+                            >
+                              {formatMoney(section.totalAfter)}
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:text-gray-900"
+          >
+            Закрыть
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ClipboardList, X } from 'lucide-react';
+import { getMaterialPlan, MaterialPlan } from '../../../lib/firebase';
+import { getRemainingQuantity, getWarehouseLine, isMaterialOverrun } from '../../../utils/billOfMaterials';
+import { showErrorNotification } from '../../../utils/notifications';
+import { WarehouseSelect } from '../../warehouse/WarehouseSelect';
+
+interface MaterialPlanModalProps {
+  clientId: string;
+  onClose: () => void;
+}
+
+const formatMoney = (amount: number): string =>
+  amount.toLocaleString('ru-RU', { maximumFractionDigits: 0 }) + ' ₸';
+
+const formatQuantity = (value: number): string =>
+  value.toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+
+export const MaterialPlanModal: React.FC<MaterialPlanModalProps> = ({ clientId, onClose }) => {
+  const navigate = useNavigate();
+  const [plan, setPlan] = useState<MaterialPlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [warehouseFilter, setWarehouseFilter] = useState('all');
+
+  useEffect(() => {
+    const loadPlan = async () => {
+      try {
+        setPlan(await getMaterialPlan(clientId));
+      } catch (error) {
+        console.error('Error loading material plan:', error);
+        showErrorNotification('Не удалось загрузить план материалов');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPlan();
+  }, [clientId]);
+
+  // Остаток по плану для товаров, которые есть на складе. Считается по выдаче
+  // со всех складов, чтобы расход не заполнялся повторно
+  const plannedItems = plan
+    ? plan.lines
+        .filter(line => line.productId && plan.products[line.productId] && getRemainingQuantity(line) > 0)
+        .map(line => ({
+          product: plan.products[line.productId as string],
+          quantity: Math.ceil(getRemainingQuantity(line) * 100) / 100
+        }))
+    : [];
+
+  const handleFillExpense = () => {
+    if (!plan?.project) return;
+    navigate('/warehouse/expense/new', {
+      state: { selectedProject: plan.project.id, plannedItems }
+    });
+  };
+
+  // Выдача с выбранного склада; товары вне сметы, не выданные с него, скрываются
+  const lines = (plan?.lines || [])
+    .map(line => ({ line: getWarehouseLine(line, warehouseFilter), remaining: getRemainingQuantity(line) }))
+    .filter(({ line }) => line.plannedQuantity > 0 || line.issuedQuantity > 0);
+
+  const totals = lines.reduce(
+    (sum, { line }) => ({
+      planned: sum.planned + line.plannedCost,
+      issued: sum.issued + line.issuedCost
+    }),
+    { planned: 0, issued: 0 }
+  );
+  const unlinkedCount = plan?.lines.filter(line => !line.productId).length || 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-5xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center">
+              <ClipboardList className="w-5 h-5 text-emerald-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Материалы: план и факт</h2>
+              {plan?.project && <p className="text-sm text-gray-500">Проект: {plan.project.title}</p>}
+            </div>
+          </div>
+          <WarehouseSelect
+            value={warehouseFilter}
+            onChange={setWarehouseFilter}
+            allowAll
+            className="ml-auto mr-4 text-sm rounded-md border-gray-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500"
+          />
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-900"></div>
+            </div>
+          ) : !plan || plan.lines.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">В смете нет материалов</p>
+          ) : (
+            <>
+              {!plan.project && (
+                <p className="mb-4 p-3 bg-amber-50 text-amber-800 text-sm rounded">
+                  У клиента нет категории проекта — фактический расход не учитывается
+                </p>
+              )}
+              {unlinkedCount > 0 && (
+                <p className="mb-4 p-3 bg-gray-50 text-gray-600 text-sm rounded">
+                  Позиций без товара на складе: {unlinkedCount}. Они не попадут в расходную накладную.
+                </p>
+              )}
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Материал</th>
+                    <th className="py-2 pr-4 font-medium text-right">План, кол-во</th>
+                    <th className="py-2 pr-4 font-medium text-right">Выдано</th>
+                    <th className="py-2 pr-4 font-medium text-right">Остаток</th>
+                    <th className="py-2 pr-4 font-medium text-right">План, сумма</th>
+                    <th className="py-2 font-medium text-right">Факт, сумма</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map(({ line, remaining }) => {
+                    const isOverrun = isMaterialOverrun(line);
+                    return (
+                      <tr key={line.key} className={`border-b last:border-0 ${isOverrun ? 'bg-red-50' : ''}`}>
+                        <td className={`py-2 pr-4 ${line.productId ? 'text-gray-900' : 'text-gray-400'}`}>
+                          {line.name}
+                        </td>
+                        <td className="py-2 pr-4 text-right whitespace-nowrap">
+                          {formatQuantity(line.plannedQuantity)} {line.unit}
+                        </td>
+                        <td className={`py-2 pr-4 text-right whitespace-nowrap ${line.issuedQuantity > line.plannedQuantity ? 'text-red-600 font-medium' : ''}`}>
+                          {formatQuantity(line.issuedQuantity)} {line.unit}
+                        </td>
+                        <td className="py-2 pr-4 text-right whitespace-nowrap">
+                          {formatQuantity(remaining)}
+                        </td>
+                        <td className="py-2 pr-4 text-right whitespace-nowrap">{formatMoney(line.plannedCost)}</td>
+                        <td className={`py-2 text-right whitespace-nowrap ${line.issuedCost > line.plannedCost ? 'text-red-600 font-medium' : ''}`}>
+                          {formatMoney(line.issuedCost)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t font-semibold">
+                    <td colSpan={4} className="py-2 pr-4 text-right">Итого</td>
+                    <td className="py-2 pr-4 text-right whitespace-nowrap">{formatMoney(totals.planned)}</td>
+                    <td className={`py-2 text-right whitespace-nowrap ${totals.issued > totals.planned ? 'text-red-600' : ''}`}>
+                      {formatMoney(totals.issued)}
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:text-gray-900"
+          >
+            Закрыть
+          </button>
+          <button
+            onClick={handleFillExpense}
+            disabled={loading || !plan?.project || plannedItems.length === 0}
+            className="px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50"
+          >
+            Заполнить расход по смете
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Triangle, X } from 'lucide-react';
+import { RoofGeometryInput, RoofGeometryResult, RoofType } from '../../../types/estimate';
+import {
+  calculateRoofGeometry,
+  DEFAULT_ROOF_GEOMETRY,
+  getRoofEstimateValues,
+  validateRoofGeometry
+} from '../../../utils/roofGeometry';
+
+interface RoofGeometryModalProps {
+  initialGeometry: RoofGeometryInput | null;
+  onApply: (geometry: RoofGeometryInput, values: ReturnType<typeof getRoofEstimateValues>) => void;
+  onClose: () => void;
+}
+
+const ROOF_TYPES: RoofType[] = ['1-скатная', '2-скатная', '4-скатная'];
+
+type NumericField = Exclude<keyof RoofGeometryInput, 'roofType'>;
+
+const FIELDS: { field: NumericField; label: string; unit: string; step: number }[] = [
+  { field: 'length', label: 'Длина дома (вдоль конька)', unit: 'м', step: 0.1 },
+  { field: 'width', label: 'Ширина дома', unit: 'м', step: 0.1 },
+  { field: 'pitch', label: 'Угол наклона', unit: '°', step: 1 },
+  { field: 'eaveOverhang', label: 'Свес по карнизу', unit: 'м', step: 0.05 },
+  { field: 'gableOverhang', label: 'Свес по фронтону', unit: 'м', step: 0.05 },
+  { field: 'wingLength', label: 'Пристройка: вынос от стены', unit: 'м', step: 0.1 },
+  { field: 'wingWidth', label: 'Пристройка: ширина', unit: 'м', step: 0.1 },
+  { field: 'rafterSpacing', label: 'Шаг стропил', unit: 'м', step: 0.05 },
+  { field: 'lathingSpacing', label: 'Шаг обрешётки', unit: 'м', step: 0.05 }
+];
+
+const formatNumber = (value: number) => value.toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+
+// План крыши: контур по свесам, коньки, рёбра и ендовы
+const RoofPlanPreview: React.FC<{ plan: RoofGeometryResult['plan'] }> = ({ plan }) => {
+  const padding = 0.5;
+  const viewBox = `${-padding} ${-padding} ${plan.width + padding * 2} ${plan.height + padding * 2}`;
+  const strokeWidth = Math.max(plan.width, plan.height) / 150;
+
+  return (
+    <svg viewBox={viewBox} className="w-full h-64 bg-gray-50 rounded">
+      {plan.outlines.map((points, index) => (
+        <polygon
+          key={index}
+          points={points.map(point => point.join(',')).join(' ')}
+          fill="#d1fae5"
+          stroke="#047857"
+          strokeWidth={strokeWidth}
+        />
+      ))}
+      {plan.ridges.map(({ from, to }, index) => (
+        <line key={`ridge-${index}`} x1={from[0]} y1={from[1]} x2={to[0]} y2={to[1]} stroke="#b91c1c" strokeWidth={strokeWidth * 2} />
+      ))}
+      {plan.hips.map(({ from, to }, index) => (
+        <line key={`hip-${index}`} x1={from[0]} y1={from[1]} x2={to[0]} y2={to[1]} stroke="#ea580c" strokeWidth={strokeWidth * 1.5} />
+      ))}
+      {plan.valleys.map(({ from, to }, index) => (
+        <line key={`valley-${index}`} x1={from[0]} y1={from[1]} x2={to[0]} y2={to[1]} stroke="#2563eb" strokeWidth={strokeWidth * 1.5} strokeDasharray={`${strokeWidth * 4} ${strokeWidth * 2}`} />
+      ))}
+    </svg>
+  );
+};
+
+export const RoofGeometryModal: React.FC<RoofGeometryModalProps> = ({ initialGeometry, onApply, onClose }) => {
+  const [geometry, setGeometry] = useState<RoofGeometryInput>(initialGeometry || DEFAULT_ROOF_GEOMETRY);
+
+  const error = validateRoofGeometry(geometry);
+  const result = error ? null : calculateRoofGeometry(geometry);
+
+  const handleApply = () => {
+    if (!result) return;
+    onApply(geometry, getRoofEstimateValues(result));
+    onClose();
+  };
+
+  const resultRows: { label: string; value: string; target?: string }[] = result
+    ? [
+        { label: 'Площадь кровли', value: `${formatNumber(result.roofArea)} м²`, target: 'Мет. Череп м2' },
+        { label: 'Длина ската', value: `${formatNumber(result.slopeLength)} м` },
+        { label: 'Коньки и рёбра', value: `${formatNumber(result.ridgeLength)} м`, target: 'Длина коньков' },
+        { label: 'в т.ч. рёбра вальм', value: `${formatNumber(result.hipLength)} м` },
+        { label: 'Ендовы', value: `${formatNumber(result.valleyLength)} м`, target: 'Длина вн ендов' },
+        { label: 'Заглушки конусные', value: `${result.conicPlugs} шт`, target: 'Заглушка конусная' },
+        { label: 'Тройники', value: `${result.tees} шт`, target: 'Тройник' },
+        { label: 'Фронтоны', value: `${formatNumber(result.gableArea)} м²`, target: 'м2 франтона' },
+        { label: 'Стропила 40x14', value: `${result.rafterLength} м`, target: '40x14 Крыша в метрах' },
+        { label: 'Обрешётка 20x9', value: `${result.lathingLength} м`, target: '20x9 обрешетка в метрах' }
+      ]
+    : [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-4xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center">
+              <Triangle className="w-5 h-5 text-emerald-600" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Геометрия крыши</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Тип крыши</label>
+              <select
+                value={geometry.roofType}
+                onChange={(e) => setGeometry({ ...geometry, roofType: e.target.value as RoofType })}
+                className="w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-emerald-500"
+              >
+                {ROOF_TYPES.map(roofType => (
+                  <option key={roofType} value={roofType}>{roofType}</option>
+                ))}
+              </select>
+            </div>
+
+            {FIELDS.map(({ field, label, unit, step }) => {
+              const disabled = geometry.roofType === '1-скатная' && (field === 'wingLength' || field === 'wingWidth');
+              return (
+                <div key={field} className="flex items-center justify-between gap-3">
+                  <label className={`text-sm ${disabled ? 'text-gray-400' : 'text-gray-700'}`}>{label}</label>
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="number"
+                      value={geometry[field]}
+                      step={step}
+                      min={0}
+                      disabled={disabled}
+                      onChange={(e) => setGeometry({ ...geometry, [field]: Number(e.target.value) || 0 })}
+                      className="w-24 px-2 py-1 border rounded text-right disabled:bg-gray-50"
+                    />
+                    <span className="w-4 text-sm text-gray-500">{unit}</span>
+                  </div>
+                </div>
+              );
+            })}
+            <p className="text-xs text-gray-500">
+              Пристройка — крыло Т-образного дома с крышей того же уклона, примыкающее к середине стены вдоль конька.
+              Оставьте 0, если её нет.
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            {result ? (
+              <>
+                <RoofPlanPreview plan={result.plan} />
+                <div className="flex gap-4 text-xs text-gray-600">
+                  <span className="flex items-center"><span className="w-4 h-0.5 bg-red-700 mr-1"></span>Конёк</span>
+                  <span className="flex items-center"><span className="w-4 h-0.5 bg-orange-600 mr-1"></span>Рёбра</span>
+                  <span className="flex items-center"><span className="w-4 h-0.5 bg-blue-600 mr-1"></span>Ендовы</span>
+                </div>
+                <table className="min-w-full text-sm">
+                  <tbody>
+                    {resultRows.map(row => (
+                      <tr key={row.label} className="border-b last:border-0">
+                        <td className="py-1.5 pr-2 text-gray-600">{row.label}</td>
+                        <td className="py-1.5 pr-2 text-right font-medium whitespace-nowrap">{row.value}</td>
+                        <td className="py-1.5 text-xs text-gray-400">{row.target && `→ ${row.target}`}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            ) : (
+              <p className="p-3 bg-amber-50 text-amber-800 text-sm rounded">{error}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:text-gray-900"
+          >
+            Отмена
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!result}
+            className="px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50"
+          >
+            Заполнить смету
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
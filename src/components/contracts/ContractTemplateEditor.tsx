@@ -0,0 +1,264 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { FileText, History, X } from 'lucide-react';
+import { saveContractTemplate, subscribeToContractTemplateVersions } from '../../lib/firebase';
+import { ContractDocument } from '../ContractDocument';
+import { ContractTemplate, ContractTemplateInput, ContractTemplateVersion } from '../../types/contract';
+import {
+  CONTRACT_FILTERS,
+  CONTRACT_PLACEHOLDERS,
+  SAMPLE_CONTRACT_DATA,
+  findTemplateErrors,
+  renderContractTemplate
+} from '../../utils/contractTemplates';
+import { showErrorNotification, showSuccessNotification } from '../../utils/notifications';
+
+interface ContractTemplateEditorProps {
+  // null — новый шаблон
+  template: ContractTemplate | null;
+  onClose: () => void;
+}
+
+type EditorTab = 'text' | 'preview';
+
+const NEW_TEMPLATE_BODY = `# Договор №{{contractNumber}}
+
+г. Алматы || {{contractDate}}
+
+## 1. Предмет Договора.
+
+`;
+
+export const ContractTemplateEditor: React.FC<ContractTemplateEditorProps> = ({ template, onClose }) => {
+  const [templateId, setTemplateId] = useState(template?.id);
+  const [draft, setDraft] = useState<ContractTemplateInput>({
+    title: template?.title || '',
+    description: template?.description || '',
+    body: template?.body || NEW_TEMPLATE_BODY
+  });
+  const [versions, setVersions] = useState<ContractTemplateVersion[]>([]);
+  // Просматриваемая сохранённая версия; null — редактируемый текст
+  const [viewedVersion, setViewedVersion] = useState<ContractTemplateVersion | null>(null);
+  const [tab, setTab] = useState<EditorTab>('text');
+  const [saving, setSaving] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!templateId) return;
+    return subscribeToContractTemplateVersions(templateId, setVersions);
+  }, [templateId]);
+
+  const previewBody = viewedVersion ? viewedVersion.body : draft.body;
+  const previewBlocks = useMemo(
+    () => renderContractTemplate(previewBody, SAMPLE_CONTRACT_DATA, new Date()),
+    [previewBody]
+  );
+  const errors = useMemo(() => findTemplateErrors(draft.body), [draft.body]);
+
+  const handleInsertPlaceholder = (key: string) => {
+    const textarea = textareaRef.current;
+    const placeholder = `{{${key}}}`;
+    const start = textarea?.selectionStart ?? draft.body.length;
+    const end = textarea?.selectionEnd ?? draft.body.length;
+    setDraft({ ...draft, body: draft.body.slice(0, start) + placeholder + draft.body.slice(end) });
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handleRestore = (version: ContractTemplateVersion) => {
+    setDraft({ ...draft, title: version.title, body: version.body });
+    setViewedVersion(null);
+    setTab('text');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await saveContractTemplate(draft, templateId);
+      setTemplateId(saved.id);
+      showSuccessNotification(`Шаблон сохранён, версия ${saved.version}`);
+    } catch (error) {
+      console.error('Error saving contract template:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Не удалось сохранить шаблон');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatVersionDate = (version: ContractTemplateVersion) =>
+    version.createdAt ? format(version.createdAt.toDate(), 'dd.MM.yyyy HH:mm') : 'базовый договор';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-6xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center">
+              <FileText className="w-5 h-5 text-emerald-600" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {templateId ? 'Шаблон договора' : 'Новый шаблон договора'}
+            </h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="overflow-y-auto md:border-r md:pr-4 space-y-6">
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-2">Подстановки</h3>
+              <ul className="space-y-1">
+                {CONTRACT_PLACEHOLDERS.map(placeholder => (
+                  <li key={placeholder.key}>
+                    <button
+                      onClick={() => handleInsertPlaceholder(placeholder.key)}
+                      disabled={viewedVersion !== null || tab !== 'text'}
+                      className="w-full text-left px-2 py-1 rounded text-sm hover:bg-emerald-50 disabled:hover:bg-transparent"
+                      title={`{{${placeholder.key}}}`}
+                    >
+                      {placeholder.label}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-gray-500 mt-2">
+                Фильтры: {Object.entries(CONTRACT_FILTERS).map(([name, filter]) => `|${name} — ${filter.label.toLowerCase()}`).join(', ')}.
+                Например, {'{{totalAmount|words}}'}.
+              </p>
+            </div>
+
+            {templateId && (
+              <div>
+                <h3 className="flex items-center text-sm font-medium text-gray-500 mb-2">
+                  <History className="w-4 h-4 mr-1" />
+                  Версии
+                </h3>
+                <ul className="space-y-1">
+                  <li>
+                    <button
+                      onClick={() => setViewedVersion(null)}
+                      className={`w-full text-left px-2 py-1 rounded text-sm ${viewedVersion === null ? 'bg-emerald-50 text-emerald-700' : 'hover:bg-gray-50'}`}
+                    >
+                      Редактируемый текст
+                    </button>
+                  </li>
+                  {versions.map(version => (
+                    <li key={version.id}>
+                      <button
+                        onClick={() => {
+                          setViewedVersion(version);
+                          setTab('preview');
+                        }}
+                        className={`w-full text-left px-2 py-1 rounded text-sm ${viewedVersion?.id === version.id ? 'bg-emerald-50 text-emerald-700' : 'hover:bg-gray-50'}`}
+                      >
+                        <span className="font-medium">Версия {version.version}</span>
+                        <span className="block text-xs text-gray-500">
+                          {formatVersionDate(version)}
+                          {version.createdBy ? `, ${version.createdBy}` : ''}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div className="md:col-span-3 flex flex-col overflow-hidden">
+            {viewedVersion ? (
+              <div className="flex justify-between items-center mb-3 px-3 py-2 bg-gray-50 rounded">
+                <span className="text-sm text-gray-700">
+                  Версия {viewedVersion.version}: {viewedVersion.title}
+                </span>
+                <button
+                  onClick={() => handleRestore(viewedVersion)}
+                  className="text-sm text-emerald-600 hover:text-emerald-700"
+                >
+                  Восстановить в редакторе
+                </button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+                <input
+                  type="text"
+                  value={draft.title}
+                  onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                  placeholder="Название шаблона"
+                  className="px-3 py-2 border rounded-md"
+                />
+                <input
+                  type="text"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  placeholder="Описание"
+                  className="px-3 py-2 border rounded-md"
+                />
+              </div>
+            )}
+
+            <div className="flex border-b mb-3">
+              {(['text', 'preview'] as EditorTab[]).map(value => (
+                <button
+                  key={value}
+                  onClick={() => setTab(value)}
+                  disabled={value === 'text' && viewedVersion !== null}
+                  className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px disabled:opacity-50 ${
+                    tab === value ? 'border-emerald-500 text-emerald-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {value === 'text' ? 'Текст' : 'Предпросмотр'}
+                </button>
+              ))}
+            </div>
+
+            {tab === 'text' && !viewedVersion ? (
+              <div className="flex-1 flex flex-col overflow-hidden">
+                <textarea
+                  ref={textareaRef}
+                  value={draft.body}
+                  onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                  className="flex-1 min-h-[20rem] w-full px-3 py-2 border rounded-md font-mono text-sm"
+                  spellCheck={false}
+                />
+                <p className="text-xs text-gray-500 mt-2">
+                  «# » — заголовок договора, «## » — заголовок раздела, **текст** — жирный шрифт,
+                  «слева || справа» — строка в две колонки. Абзацы разделяются пустой строкой.
+                </p>
+                {errors.length > 0 && (
+                  <ul className="mt-2 text-sm text-red-600">
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                )}
+              </div>
+            ) : (
+              <div className="flex-1 overflow-y-auto border rounded-md p-6 text-sm">
+                <ContractDocument blocks={previewBlocks} />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:text-gray-900"
+          >
+            Закрыть
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || viewedVersion !== null || errors.length > 0}
+            className="px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Сохранение...' : 'Сохранить новую версию'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
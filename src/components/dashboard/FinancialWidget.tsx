@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { collection, query, orderBy, limit, onSnapshot } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
+import { db, isReversedEntry } from '../../lib/firebase';
 import { ArrowUpRight, ArrowDownRight, DollarSign } from 'lucide-react';
 
 interface Transaction {
@@ -27,6 +27,9 @@ export const FinancialWidget: React.FC = () => {
       const transactionsMap = new Map<string, Transaction>();
       
       snapshot.docs.forEach(doc => {
+        // Сторнированные операции и сторно не попадают в ленту расходов
+        if (isReversedEntry(doc.data())) return;
+
         const data = doc.data() as Transaction;
         // Создаем уникальный ключ для транзакции
         const key = `${data.fromUser}-${data.toUser}-${data.amount}-${data.date.seconds}`;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { useOverduePayments } from '../../hooks/useOverduePayments';
+import { CONSTRUCTION_STAGES } from '../../types/client';
+import { parseDueDate } from '../../utils/paymentSchedule';
+
+export const OverduePayments: React.FC = () => {
+  const { overduePayments, totalOverdue, loading } = useOverduePayments();
+
+  const formatMoney = (amount: number): string => {
+    return amount.toLocaleString('ru-RU') + ' ₸';
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+          <div className="space-y-3">
+            <div className="h-12 bg-gray-200 rounded"></div>
+            <div className="h-12 bg-gray-200 rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Просроченные платежи</h2>
+        {totalOverdue > 0 && (
+          <span className="text-sm font-medium text-red-600">{formatMoney(totalOverdue)}</span>
+        )}
+      </div>
+
+      {overduePayments.length === 0 ? (
+        <div className="text-center py-8">
+          <CheckCircle2 className="w-12 h-12 text-emerald-400 mx-auto mb-2" />
+          <p className="text-gray-500">Просроченных платежей нет</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {overduePayments.map(payment => (
+            <div
+              key={`${payment.client.id}-${payment.tranche.id}`}
+              className="flex items-start space-x-3 p-3 border border-red-100 rounded-lg bg-red-50"
+            >
+              <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between gap-2">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {payment.client.lastName} {payment.client.firstName}
+                  </p>
+                  <p className="text-sm font-medium text-red-600 whitespace-nowrap">
+                    {formatMoney(payment.dueAmount)}
+                  </p>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {payment.tranche.label}
+                  {payment.tranche.stage && ` · ${CONSTRUCTION_STAGES[payment.tranche.stage]}`}
+                  {' · до '}
+                  {parseDueDate(payment.tranche.dueDate)?.toLocaleDateString('ru-RU')}
+                  {` · ${payment.daysOverdue} дн. просрочки`}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
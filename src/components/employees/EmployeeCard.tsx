@@ -1,10 +1,11 @@
 import React from 'react';
 import { Building2, Mail, Phone, Calendar, DollarSign, History, Edit2, Trash2, Pencil } from 'lucide-react';
 import { Employee } from '../../types/employee';
-import { collection, query, where, getDocs, doc, updateDoc, onSnapshot } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
+import { collection, query, where, onSnapshot } from 'firebase/firestore';
+import { db, adjustCategoryBalance, getCategoryBalance } from '../../lib/firebase';
 import { useState, useEffect } from 'react';
 import { showErrorNotification } from '../../utils/notifications';
+import { formatAmount } from '../../utils/formatUtils';
 
 interface EmployeeCardProps {
   employee: Employee;
@@ -21,61 +22,37 @@ export const EmployeeCard: React.FC<EmployeeCardProps> = ({
   onViewHistory,
   onViewContract
 }) => {
-  const [amount, setAmount] = useState('0 ₸');
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [balance, setBalance] = useState(0);
   const [isEditingAmount, setIsEditingAmount] = useState(false);
   const [editAmount, setEditAmount] = useState('');
 
   useEffect(() => {
-    const fetchAmount = async () => {
-      try {
-        const categoriesQuery = query(
-          collection(db, 'categories'),
-          where('title', '==', `${employee.lastName} ${employee.firstName}`),
-          where('row', '==', 2)
-        );
-        
-        const snapshot = await getDocs(categoriesQuery);
-        if (!snapshot.empty) {
-          setAmount(snapshot.docs[0].data().amount);
-        }
-      } catch (error) {
-        console.error('Error fetching amount:', error);
-      }
-    };
-
-    fetchAmount();
-
-    // Подписываемся на изменения категории
+    // Подписываемся на категорию, связанную с сотрудником
     const unsubscribe = onSnapshot(
       query(
         collection(db, 'categories'),
-        where('title', '==', `${employee.lastName} ${employee.firstName}`),
-        where('row', '==', 2)
+        where('entityType', '==', 'employee'),
+        where('entityId', '==', employee.id)
       ),
       (snapshot) => {
         if (!snapshot.empty) {
-          setAmount(snapshot.docs[0].data().amount);
+          setCategoryId(snapshot.docs[0].id);
+          setBalance(getCategoryBalance(snapshot.docs[0].data()));
         }
+      },
+      (error) => {
+        console.error('Error fetching amount:', error);
       }
     );
 
     return () => unsubscribe();
-  }, [employee]);
+  }, [employee.id]);
 
   const handleAmountSubmit = async () => {
     try {
-      const categoriesQuery = query(
-        collection(db, 'categories'),
-        where('title', '==', `${employee.lastName} ${employee.firstName}`),
-        where('row', '==', 2)
-      );
-      
-      const snapshot = await getDocs(categoriesQuery);
-      if (!snapshot.empty) {
-        const categoryRef = doc(db, 'categories', snapshot.docs[0].id);
-        await updateDoc(categoryRef, {
-          amount: `${parseFloat(editAmount).toLocaleString('ru-RU')} ₸`
-        });
+      if (categoryId) {
+        await adjustCategoryBalance(categoryId, parseFloat(editAmount));
         setIsEditingAmount(false);
         showErrorNotification('Сумма успешно обновлена');
       }
@@ -192,10 +169,12 @@ export const EmployeeCard: React.FC<EmployeeCardProps> = ({
                 </div>
               ) : (
                 <>
-                  <span className="text-gray-900">{amount}</span>
+                  <span className={balance < 0 ? 'text-red-600' : 'text-gray-900'}>
+                    {balance < 0 ? '-' : ''}{formatAmount(balance)}
+                  </span>
                   <button
                     onClick={() => {
-                      setEditAmount(amount.replace(/[^\d.-]/g, ''));
+                      setEditAmount(String(balance));
                       setIsEditingAmount(true);
                     }}
                     className="text-gray-400 hover:text-gray-600"
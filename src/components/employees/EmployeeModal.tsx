@@ -36,7 +36,9 @@ export const EmployeeModal: React.FC<EmployeeModalProps> = ({
         title: `${formData.lastName} ${formData.firstName}`,
         icon: 'User',
         color: 'bg-amber-400',
-        row: 2
+        row: 2,
+        entityType: 'employee',
+        entityId: employeeRef.id
       });
 
       onSave();
@@ -0,0 +1,66 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { ProposalConversionRow } from '../../types/proposal';
+
+interface ProposalConversionReportProps {
+  rows: ProposalConversionRow[];
+}
+
+const formatMonth = (month: string) => format(parseISO(`${month}-01`), 'LLLL yyyy', { locale: ru });
+
+export const ProposalConversionReport: React.FC<ProposalConversionReportProps> = ({ rows }) => {
+  if (rows.length === 0) {
+    return <p className="text-center text-gray-500 py-8">Нет данных для отчёта</p>;
+  }
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      total: sum.total + row.total,
+      accepted: sum.accepted + row.accepted,
+      rejected: sum.rejected + row.rejected,
+      converted: sum.converted + row.converted
+    }),
+    { total: 0, accepted: 0, rejected: 0, converted: 0 }
+  );
+  const totalRate = totals.total ? Math.round((totals.accepted / totals.total) * 1000) / 10 : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="px-4 py-3 font-medium">Месяц</th>
+            <th className="px-4 py-3 font-medium text-right">Всего КП</th>
+            <th className="px-4 py-3 font-medium text-right">Принято</th>
+            <th className="px-4 py-3 font-medium text-right">Отклонено</th>
+            <th className="px-4 py-3 font-medium text-right">Стали клиентами</th>
+            <th className="px-4 py-3 font-medium text-right">Конверсия</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.month} className="border-b last:border-0">
+              <td className="px-4 py-2 capitalize">{formatMonth(row.month)}</td>
+              <td className="px-4 py-2 text-right">{row.total}</td>
+              <td className="px-4 py-2 text-right text-emerald-600">{row.accepted}</td>
+              <td className="px-4 py-2 text-right text-red-600">{row.rejected}</td>
+              <td className="px-4 py-2 text-right">{row.converted}</td>
+              <td className="px-4 py-2 text-right font-medium">{row.conversionRate}%</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t font-semibold">
+            <td className="px-4 py-2">Итого</td>
+            <td className="px-4 py-2 text-right">{totals.total}</td>
+            <td className="px-4 py-2 text-right">{totals.accepted}</td>
+            <td className="px-4 py-2 text-right">{totals.rejected}</td>
+            <td className="px-4 py-2 text-right">{totals.converted}</td>
+            <td className="px-4 py-2 text-right">{totalRate}%</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
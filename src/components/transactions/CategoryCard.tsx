@@ -70,8 +70,8 @@ export const CategoryCard: React.FC<CategoryCardProps> = ({
             {formatAmount(warehouseTotal)}
           </div>
         ) : (
-          <div className={`text-[10px] font-medium ${parseFloat(category.amount.replace(/[^\d.-]/g, '')) < 0 ? 'text-red-500' : 'text-emerald-500'}`}>
-            {formatAmount(parseFloat(category.amount.replace(/[^\d.-]/g, '')))}
+          <div className={`text-[10px] font-medium ${category.balance < 0 ? 'text-red-500' : 'text-emerald-500'}`}>
+            {formatAmount(category.balance)}
           </div>
         )}
       </div>
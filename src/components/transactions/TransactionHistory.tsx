@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
 import { collection, query, where, orderBy, onSnapshot } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
+import { db, isReversedEntry } from '../../lib/firebase';
 import { CategoryCardType } from '../../types';
 import { GroupedTransactions, Transaction } from '../../types/transaction';
 import { TransactionList } from './TransactionList';
@@ -40,15 +40,16 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
           ...doc.data()
         })) as Transaction[];
 
-        // Calculate total amount
-        const total = transactionsData.reduce((sum, transaction) => {
+        // Calculate total amount (reversed pairs cancel out and are skipped)
+        const activeTransactions = transactionsData.filter(transaction => !isReversedEntry(transaction));
+        const total = activeTransactions.reduce((sum, transaction) => {
           return sum + Math.abs(transaction.amount);
         }, 0);
         setTotalAmount(total);
 
         // Calculate total salary if this is a project category
         if (category.row === 3) {
-          const salaryTotal = transactionsData.reduce((sum, transaction) => {
+          const salaryTotal = activeTransactions.reduce((sum, transaction) => {
             return transaction.isSalary ? sum + Math.abs(transaction.amount) : sum;
           }, 0);
           setTotalSalary(salaryTotal);
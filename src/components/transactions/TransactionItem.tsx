@@ -1,11 +1,15 @@
 import React, { useState } from 'react';
-import { ArrowUpRight, ArrowDownRight, Trash2, Image } from 'lucide-react';
+import { ArrowUpRight, ArrowDownRight, RotateCcw, Image } from 'lucide-react';
 import { Transaction } from '../../types/transaction';
 import { formatAmount } from '../../utils/formatUtils';
-import { formatTime } from '../../utils/dateUtils';
+import { formatTime, formatDateTime } from '../../utils/dateUtils';
 import { useSwipeable } from 'react-swipeable';
-import { deleteTransaction } from '../../lib/firebase/transactions';
-import { showErrorNotification } from '../../utils/notifications';
+import {
+  reverseTransaction,
+  isReversedEntry,
+  WAREHOUSE_DOCUMENT_REVERSAL_MESSAGE
+} from '../../lib/firebase/transactions';
+import { showErrorNotification, showSuccessNotification } from '../../utils/notifications';
 import { PasswordPrompt } from '../PasswordPrompt';
 
 interface TransactionItemProps {
@@ -17,31 +21,41 @@ export const TransactionItem: React.FC<TransactionItemProps> = ({ transaction })
   const [isLoading, setIsLoading] = useState(false);
   const [showPasswordPrompt, setShowPasswordPrompt] = useState(false);
   const [showPhotos, setShowPhotos] = useState(false);
+  const [reason, setReason] = useState('');
+  const isStruck = isReversedEntry(transaction);
 
   const handlers = useSwipeable({
-    onSwipedLeft: () => setIsDeleting(true),
+    onSwipedLeft: () => !isStruck && setIsDeleting(true),
     onSwipedRight: () => setIsDeleting(false),
     trackMouse: true,
     preventDefaultTouchmoveEvent: true,
     delta: 10
   });
 
-  const handleDeleteClick = () => {
-    if (window.confirm('Вы уверены, что хотите удалить эту операцию?')) {
+  const handleReverseClick = () => {
+    if (transaction.warehouseDocumentId) {
+      showErrorNotification(WAREHOUSE_DOCUMENT_REVERSAL_MESSAGE);
+      setIsDeleting(false);
+      return;
+    }
+
+    const input = window.prompt('Сторнировать операцию? Укажите причину');
+    if (input !== null) {
+      setReason(input.trim());
       setShowPasswordPrompt(true);
     } else {
       setIsDeleting(false);
     }
   };
 
-  const handleDelete = async (isAuthenticated: boolean) => {
+  const handleReverse = async (isAuthenticated: boolean) => {
     if (!isAuthenticated) {
       setIsDeleting(false);
       return;
     }
 
     if (!transaction.id) {
-      showErrorNotification('Невозможно удалить транзакцию: отсутствует ID');
+      showErrorNotification('Невозможно сторнировать операцию: отсутствует ID');
       return;
     }
 
@@ -49,11 +63,11 @@ export const TransactionItem: React.FC<TransactionItemProps> = ({ transaction })
 
     setIsLoading(true);
     try {
-      await deleteTransaction(transaction.id);
-      showSuccessNotification('Операция успешно удалена');
+      await reverseTransaction(transaction.id, reason);
+      showSuccessNotification('Операция сторнирована');
     } catch (error) {
-      console.error('Error deleting transaction:', error);
-      showErrorNotification('Ошибка при удалении операции');
+      console.error('Error reversing transaction:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Ошибка при сторнировании операции');
     } finally {
       setIsLoading(false);
       setIsDeleting(false);
@@ -63,22 +77,24 @@ export const TransactionItem: React.FC<TransactionItemProps> = ({ transaction })
   return (
     <div className="relative overflow-hidden">
       <div 
-        className={`absolute inset-y-0 right-0 w-20 bg-red-500 flex items-center justify-center transition-opacity duration-200 ${
+        className={`absolute inset-y-0 right-0 w-20 bg-amber-500 flex items-center justify-center transition-opacity duration-200 ${
           isDeleting ? 'opacity-100' : 'opacity-0'
         }`}
       >
         <button
-          onClick={handleDeleteClick}
+          onClick={handleReverseClick}
           disabled={isLoading}
           className="w-full h-full flex items-center justify-center"
+          title="Сторно"
         >
-          <Trash2 className={`w-5 h-5 text-white ${isLoading ? 'opacity-50' : ''}`} />
+          <RotateCcw className={`w-5 h-5 text-white ${isLoading ? 'opacity-50' : ''}`} />
         </button>
       </div>
 
       <div
         {...handlers}
         className={`relative transform transition-transform duration-200 ease-out ${
+          isStruck ? 'bg-gray-50' :
           transaction.isSalary ? 'bg-emerald-50' :
           transaction.isWarehouseOperation ? 'bg-blue-50' :
           'bg-white'
@@ -93,9 +109,9 @@ export const TransactionItem: React.FC<TransactionItemProps> = ({ transaction })
               ) : (
                 <ArrowDownRight className="w-5 h-5 text-red-500 mt-1" />
               )}
-              <div>
+              <div className={isStruck ? 'line-through text-gray-400' : ''}>
                 <div className="font-medium">{transaction.fromUser}</div>
-                <div className="text-sm text-gray-600">{transaction.toUser}</div>
+                <div className={`text-sm ${isStruck ? '' : 'text-gray-600'}`}>{transaction.toUser}</div>
                 <div className="text-xs text-gray-400 mt-1">
                   {formatTime(transaction.date)}
                 </div>
@@ -103,6 +119,7 @@ export const TransactionItem: React.FC<TransactionItemProps> = ({ transaction })
             </div>
             <div className="flex flex-col items-end">
               <div className={`font-medium ${
+                isStruck ? 'line-through text-gray-400' :
                 transaction.type === 'income' ? 'text-emerald-600' : 'text-red-600'
               }`}>
                 {transaction.type === 'income' ? '+' : '-'} {formatAmount(transaction.amount)}
@@ -126,6 +143,21 @@ export const TransactionItem: React.FC<TransactionItemProps> = ({ transaction })
                   ЗП
                 </div>
               )}
+              {transaction.isReversed && (
+                <div className="text-xs text-amber-600 mt-1 text-right">
+                  Сторнировано: {transaction.reversedBy}
+                  {transaction.reversedAt && `, ${formatDateTime(transaction.reversedAt)}`}
+                  {transaction.reversalReason && (
+                    <div className="text-gray-500">Причина: {transaction.reversalReason}</div>
+                  )}
+                </div>
+              )}
+              {transaction.isReversal && (
+                <div className="text-xs text-amber-600 mt-1 text-right">
+                  Сторно: {transaction.reversedBy}
+                  {transaction.date && `, ${formatDateTime(transaction.date)}`}
+                </div>
+              )}
             </div>
           </div>
           {showPhotos && transaction.photos && (
@@ -159,7 +191,7 @@ export const TransactionItem: React.FC<TransactionItemProps> = ({ transaction })
           }}
           onSuccess={() => {
             setShowPasswordPrompt(false);
-            handleDelete(true);
+            handleReverse(true);
           }}
         />
       )}
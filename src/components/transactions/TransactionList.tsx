@@ -3,6 +3,7 @@ import { GroupedTransactions } from '../../types/transaction';
 import { TransactionItem } from './TransactionItem';
 import { formatDateHeader } from '../../utils/dateUtils';
 import { formatAmount } from '../../utils/formatUtils';
+import { isReversedEntry } from '../../lib/firebase/transactions';
 
 interface TransactionListProps {
   transactions: GroupedTransactions;
@@ -11,6 +12,7 @@ interface TransactionListProps {
 export const TransactionList: React.FC<TransactionListProps> = ({ transactions }) => {
   const calculateDailyTotal = (dayTransactions: any[]) => {
     return dayTransactions.reduce((total, transaction) => {
+      if (isReversedEntry(transaction)) return total;
       return total + Math.abs(transaction.amount);
     }, 0);
   };
@@ -3,6 +3,7 @@ import { X } from 'lucide-react';
 import { CategoryCardType } from '../../types';
 import { transferFunds } from '../../lib/firebase/transactions';
 import { uploadFile } from '../../utils/storageUtils';
+import { formatAmount } from '../../utils/formatUtils';
 
 interface TransferModalProps {
   sourceCategory: CategoryCardType;
@@ -112,7 +113,7 @@ export const TransferModal: React.FC<TransferModalProps> = ({
             <span>Кому: {targetCategory.title}</span>
           </div>
           <div className="mt-2 text-sm text-gray-500">
-            Текущий баланс: {sourceCategory.amount}
+            Текущий баланс: {sourceCategory.balance < 0 ? '-' : ''}{formatAmount(sourceCategory.balance)}
           </div>
         </div>
 
@@ -11,6 +11,8 @@ interface IncomeWaybillProps {
     documentNumber: string;
     date: string;
     supplier: string;
+    // Склад прихода или расхода; в старых накладных не указан
+    warehouse?: string;
     note: string;
     items: Array<{
       product: {
@@ -35,7 +37,7 @@ export const IncomeWaybill: React.FC<IncomeWaybillProps> = ({
 Приходная накладная №${data.documentNumber}
 Дата: ${data.date}
 Поставщик: ${data.supplier}
-
+${data.warehouse ? `Склад: ${data.warehouse}\n` : ''}
 Товары:
 ${data.items.map(item => `- ${item.product.name}: ${item.quantity} ${item.product.unit}`).join('\n')}
 
@@ -103,6 +105,13 @@ ${data.items.map(item => `- ${item.product.name}: ${item.quantity} ${item.produc
             <p className="font-medium">{data.supplier}</p>
           </div>
 
+          {data.warehouse && (
+            <div>
+              <p className="text-sm text-gray-600">Склад:</p>
+              <p className="font-medium">{data.warehouse}</p>
+            </div>
+          )}
+
           {data.note && (
             <div>
               <p className="text-sm text-gray-600">Примечание:</p>
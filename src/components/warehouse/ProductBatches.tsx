@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { subscribeToProductBatches } from '../../lib/firebase';
+import { useWarehouses } from '../../hooks/useWarehouses';
+import { CostingMethod, ProductBatch } from '../../types/warehouse';
+import {
+  COSTING_METHOD_LABELS,
+  getBatchWarehouseRemaining,
+  getCostingMethod,
+  getUnbatchedQuantity
+} from '../../utils/batchCosting';
+
+interface ProductBatchesProps {
+  productId: string;
+  quantity: number;
+  unit: string;
+  averagePrice: number;
+  costingMethod?: CostingMethod;
+}
+
+const formatAmount = (amount: number): string =>
+  amount.toLocaleString('ru-RU', { maximumFractionDigits: 2 }) + ' ₸';
+
+// Остатки товара по партиям в порядке списания
+export const ProductBatches: React.FC<ProductBatchesProps> = ({
+  productId,
+  quantity,
+  unit,
+  averagePrice,
+  costingMethod
+}) => {
+  const [batches, setBatches] = useState<ProductBatch[]>([]);
+  const { warehouses } = useWarehouses();
+
+  useEffect(() => {
+    return subscribeToProductBatches(productId, setBatches);
+  }, [productId]);
+
+  const openBatches = batches
+    .filter(batch => !batch.isCancelled && (batch.remainingQuantity || 0) > 0)
+    .map(batch => ({ ...batch, remainingByWarehouse: getBatchWarehouseRemaining(batch) }));
+  const unbatchedQuantity = getUnbatchedQuantity(quantity, openBatches);
+
+  const getWarehouseName = (warehouseId: string): string =>
+    warehouses.find(warehouse => warehouse.id === warehouseId)?.name || 'Удалённый склад';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm text-gray-500">Остатки по партиям</label>
+        <span className="text-xs text-gray-400">
+          {COSTING_METHOD_LABELS[getCostingMethod(costingMethod)]}
+        </span>
+      </div>
+
+      {openBatches.length === 0 && unbatchedQuantity === 0 ? (
+        <p className="text-sm text-gray-400 mt-1">Партий с остатком нет</p>
+      ) : (
+        <div className="mt-1 divide-y">
+          {unbatchedQuantity > 0 && (
+            <div className="flex justify-between py-2 text-sm">
+              <div>
+                <p className="text-gray-700">Без партии</p>
+                <p className="text-xs text-gray-400">Поступило до учёта партий, по средней цене</p>
+              </div>
+              <div className="text-right">
+                <p className="font-medium">{unbatchedQuantity} {unit}</p>
+                <p className="text-xs text-gray-500">
+                  {formatAmount(averagePrice)} · {formatAmount(unbatchedQuantity * averagePrice)}
+                </p>
+              </div>
+            </div>
+          )}
+          {openBatches.map(batch => (
+            <div key={batch.id} className="flex justify-between py-2 text-sm">
+              <div>
+                <p className="text-gray-700">
+                  Партия от {batch.date ? batch.date.toDate().toLocaleDateString('ru-RU') : '—'}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {[batch.supplier, batch.warehouseName].filter(Boolean).join(' · ')}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {Object.entries(batch.remainingByWarehouse)
+                    .map(([warehouseId, remaining]) => `${getWarehouseName(warehouseId)}: ${remaining} ${unit}`)
+                    .join(' · ')}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="font-medium">
+                  {batch.remainingQuantity} из {batch.quantity} {unit}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {formatAmount(batch.purchasePrice)} · {formatAmount(batch.remainingQuantity * batch.purchasePrice)}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Edit2, ArrowRight, Trash2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { Product } from '../../types/warehouse';
 import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
@@ -17,6 +18,7 @@ export const ProductContextMenu: React.FC<ProductContextMenuProps> = ({
   product,
   onClose
 }) => {
+  const navigate = useNavigate();
   const [showPasswordPrompt, setShowPasswordPrompt] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
@@ -60,26 +62,9 @@ export const ProductContextMenu: React.FC<ProductContextMenuProps> = ({
     }
   };
 
-  const handleMoveToWarehouse = async (warehouseNumber: string) => {
-    try {
-      const productRef = doc(db, 'products', product.id);
-      const currentWarehouse = product.warehouse;
-      
-      if (currentWarehouse === warehouseNumber) {
-        showErrorNotification('Товар уже находится на этом складе');
-        return;
-      }
-      
-      await updateDoc(productRef, {
-        warehouse: warehouseNumber,
-        updatedAt: serverTimestamp()
-      });
-      showSuccessNotification(`Товар перемещен на Склад ${warehouseNumber}`);
-      onClose();
-    } catch (error) {
-      console.error('Error moving product:', error);
-      showErrorNotification('Ошибка при перемещении товара');
-    }
+  const handleTransfer = () => {
+    navigate('/warehouse/transfer/new', { state: { addedProduct: { product, quantity: 1 } } });
+    onClose();
   };
 
   const handleDelete = async () => {
@@ -219,59 +204,13 @@ export const ProductContextMenu: React.FC<ProductContextMenuProps> = ({
         Редактировать
       </button>
 
-      {/* Показываем опции перемещения в зависимости от текущего склада */}
-      {product.warehouse === '1' ? (
-        <>
-          <button
-            onClick={() => handleMoveToWarehouse('2')}
-            className="w-full px-4 py-2 text-left text-sm text-amber-600 hover:bg-gray-100 flex items-center gap-2"
-          >
-            <ArrowRight className="w-4 h-4" />
-            Переместить на Склад 2
-          </button>
-          <button
-            onClick={() => handleMoveToWarehouse('3')}
-            className="w-full px-4 py-2 text-left text-sm text-blue-600 hover:bg-gray-100 flex items-center gap-2"
-          >
-            <ArrowRight className="w-4 h-4" />
-            Переместить на Склад 3
-          </button>
-        </>
-      ) : product.warehouse === '2' ? (
-        <>
-          <button
-            onClick={() => handleMoveToWarehouse('1')}
-            className="w-full px-4 py-2 text-left text-sm text-emerald-600 hover:bg-gray-100 flex items-center gap-2"
-          >
-            <ArrowRight className="w-4 h-4" />
-            Переместить на Склад 1
-          </button>
-          <button
-            onClick={() => handleMoveToWarehouse('3')}
-            className="w-full px-4 py-2 text-left text-sm text-blue-600 hover:bg-gray-100 flex items-center gap-2"
-          >
-            <ArrowRight className="w-4 h-4" />
-            Переместить на Склад 3
-          </button>
-        </>
-      ) : product.warehouse === '3' ? (
-        <>
-          <button
-            onClick={() => handleMoveToWarehouse('1')}
-            className="w-full px-4 py-2 text-left text-sm text-emerald-600 hover:bg-gray-100 flex items-center gap-2"
-          >
-            <ArrowRight className="w-4 h-4" />
-            Переместить на Склад 1
-          </button>
-          <button
-            onClick={() => handleMoveToWarehouse('2')}
-            className="w-full px-4 py-2 text-left text-sm text-amber-600 hover:bg-gray-100 flex items-center gap-2"
-          >
-            <ArrowRight className="w-4 h-4" />
-            Переместить на Склад 2
-          </button>
-        </>
-      ) : null}
+      <button
+        onClick={handleTransfer}
+        className="w-full px-4 py-2 text-left text-sm text-amber-600 hover:bg-gray-100 flex items-center gap-2"
+      >
+        <ArrowRight className="w-4 h-4" />
+        Переместить на другой склад
+      </button>
 
       <button
         onClick={() => setShowDeleteConfirm(true)}
@@ -1,9 +1,13 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { ArrowLeft, Package, History, QrCode, Edit2 } from 'lucide-react';
-import { Product } from '../../types/warehouse';
+import { Product, WarehouseStock } from '../../types/warehouse';
+import { subscribeToWarehouseStock } from '../../lib/firebase';
+import { useWarehouses } from '../../hooks/useWarehouses';
+import { getWarehouseQuantity } from '../../utils/warehouseStock';
 import { TransactionHistory } from './TransactionHistory';
 import { QRCodeModal } from './QRCodeModal';
 import { ProductModal } from './ProductModal';
+import { ProductBatches } from './ProductBatches';
 
 interface ProductDetailsProps {
   product: Product;
@@ -17,6 +21,12 @@ export const ProductDetails: React.FC<ProductDetailsProps> = ({
   const [showHistory, setShowHistory] = useState(false);
   const [showQRCode, setShowQRCode] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [stocks, setStocks] = useState<WarehouseStock[]>([]);
+  const { warehouses } = useWarehouses();
+
+  useEffect(() => {
+    return subscribeToWarehouseStock(setStocks, product.id);
+  }, [product.id]);
 
   const formatAmount = (amount: number | undefined): string => {
     if (typeof amount !== 'number') return '0 ₸';
@@ -63,8 +73,15 @@ export const ProductDetails: React.FC<ProductDetailsProps> = ({
 
               <div className="mt-6 space-y-4">
                 <div>
-                  <label className="text-sm text-gray-500">Склад</label>
-                  <p className="text-lg font-medium">Склад {product.warehouse}</p>
+                  <label className="text-sm text-gray-500">Остатки по складам</label>
+                  {warehouses.map(warehouse => (
+                    <p key={warehouse.id} className="flex justify-between text-sm">
+                      <span className="text-gray-700">{warehouse.name}</span>
+                      <span className="font-medium">
+                        {getWarehouseQuantity(product, stocks, warehouse.id)} {product.unit}
+                      </span>
+                    </p>
+                  ))}
                 </div>
                 <div>
                   <label className="text-sm text-gray-500">Количество</label>
@@ -86,6 +103,13 @@ export const ProductDetails: React.FC<ProductDetailsProps> = ({
                     {formatAmount((product.quantity || 0) * (product.averagePurchasePrice || 0))}
                   </p>
                 </div>
+                <ProductBatches
+                  productId={product.id}
+                  quantity={product.quantity || 0}
+                  unit={product.unit}
+                  averagePrice={product.averagePurchasePrice || 0}
+                  costingMethod={product.costingMethod}
+                />
               </div>
             </div>
 
@@ -1,13 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Trash2 } from 'lucide-react';
-import { collection, query, where, orderBy, onSnapshot, doc, writeBatch } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
-import { Product } from '../../types/warehouse';
+import { X, Ban } from 'lucide-react';
+import { collection, query, where, orderBy, onSnapshot } from 'firebase/firestore';
+import { cancelStockMovement, db } from '../../lib/firebase';
+import { MAIN_WAREHOUSE_ID, Product } from '../../types/warehouse';
 import { format, isValid } from 'date-fns';
 import { ru } from 'date-fns/locale';
 import { useSwipeable } from 'react-swipeable';
 import { showErrorNotification, showSuccessNotification } from '../../utils/notifications';
-import { PasswordPrompt } from '../PasswordPrompt';
+import { usePermissions } from '../../hooks/usePermissions';
+import { WarehouseSelect } from './WarehouseSelect';
 
 interface Movement {
   id: string;
@@ -18,6 +19,11 @@ interface Movement {
   date: any;
   description: string;
   warehouse: string;
+  warehouseId?: string;
+  transferId?: string;
+  documentId?: string;
+  isReversed?: boolean;
+  isReversal?: boolean;
   previousQuantity: number;
   newQuantity: number;
   previousAveragePrice: number;
@@ -38,11 +44,13 @@ export const ProductHistory: React.FC<ProductHistoryProps> = ({
 }) => {
   const [movements, setMovements] = useState<Movement[]>([]);
   const [loading, setLoading] = useState(true);
-  const [showPasswordPrompt, setShowPasswordPrompt] = useState(false);
-  const [selectedMovement, setSelectedMovement] = useState<Movement | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
   const [swipedMovementId, setSwipedMovementId] = useState<string | null>(null);
   const [totalQuantity, setTotalQuantity] = useState(0);
   const [totalValue, setTotalValue] = useState(0);
+  const [warehouseFilter, setWarehouseFilter] = useState('all');
+  const { can } = usePermissions();
+  const canCancel = can('cancelWarehouseDocuments');
 
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -157,47 +165,45 @@ export const ProductHistory: React.FC<ProductHistoryProps> = ({
     return amount.toLocaleString('ru-RU', { maximumFractionDigits: 2 }) + ' ₸';
   };
 
-  const handleDelete = async (isAuthenticated: boolean) => {
-    if (!isAuthenticated || !selectedMovement) {
-      setShowPasswordPrompt(false);
-      setSelectedMovement(null);
+  // Отмена вместо удаления: остаток меняется на разницу, движение остаётся
+  // в истории с обратной записью. Права те же, что на отмену накладных
+  const handleCancelClick = async (movement: Movement) => {
+    if (cancellingId) return;
+
+    if (movement.transferId) {
+      showErrorNotification('Операцию перемещения между складами нельзя отменить отдельно');
       return;
     }
 
-    try {
-      const batch = writeBatch(db);
-      
-      // Обновляем количество товара
-      const productRef = doc(db, 'products', product.id);
-      const newQuantity = selectedMovement.type === 'in' 
-        ? selectedMovement.previousQuantity // Возвращаем предыдущее количество при удалении прихода
-        : selectedMovement.previousQuantity; // Возвращаем предыдущее количество при удалении расхода
-
-      batch.update(productRef, {
-        quantity: newQuantity,
-        averagePurchasePrice: selectedMovement.previousAveragePrice
-      });
+    if (movement.documentId || movement.isReversal) {
+      showErrorNotification('Операция проведена накладной — отмените накладную в разделе «Документы»');
+      return;
+    }
 
-      // Удаляем запись о движении
-      const movementRef = doc(db, 'productMovements', selectedMovement.id);
-      batch.delete(movementRef);
+    const input = window.prompt('Отменить операцию? Укажите причину');
+    if (input === null) return;
+    if (!input.trim()) {
+      showErrorNotification('Укажите причину отмены');
+      return;
+    }
 
-      await batch.commit();
-      showSuccessNotification('Операция успешно удалена');
+    setCancellingId(movement.id);
+    try {
+      await cancelStockMovement(movement.id, input);
+      showSuccessNotification('Операция отменена');
     } catch (error) {
-      console.error('Error deleting movement:', error);
-      showErrorNotification('Ошибка при удалении операции');
+      console.error('Error cancelling movement:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Ошибка при отмене операции');
     } finally {
-      setShowPasswordPrompt(false);
-      setSelectedMovement(null);
+      setCancellingId(null);
       setSwipedMovementId(null);
     }
   };
 
-  const handleDeleteClick = (movement: Movement) => {
-    setSelectedMovement(movement);
-    setShowPasswordPrompt(true);
-  };
+  // Движения без склада записаны до появления складов — это основной склад
+  const filteredMovements = warehouseFilter === 'all'
+    ? movements
+    : movements.filter(movement => (movement.warehouseId || MAIN_WAREHOUSE_ID) === warehouseFilter);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -207,9 +213,12 @@ export const ProductHistory: React.FC<ProductHistoryProps> = ({
             <h2 className="text-xl font-semibold">{product.name}</h2>
             <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-2 ml-2">
               <p className="text-xs sm:text-sm text-gray-500">История операций</p>
-              <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full self-start sm:self-auto">
-                Склад {product.warehouse}
-              </span>
+              <WarehouseSelect
+                value={warehouseFilter}
+                onChange={setWarehouseFilter}
+                allowAll
+                className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full self-start sm:self-auto border-0"
+              />
             </div>
             <div className="hidden sm:block ml-auto text-right">
               <p className="text-xs sm:text-sm text-gray-600">Текущий остаток: {totalQuantity} {product.unit}</p>
@@ -246,39 +255,45 @@ export const ProductHistory: React.FC<ProductHistoryProps> = ({
             <div className="flex justify-center py-8">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-500"></div>
             </div>
-          ) : movements.length === 0 ? (
+          ) : filteredMovements.length === 0 ? (
             <div className="text-center py-8 text-gray-500">
               История операций пуста
             </div>
           ) : (
             <div className="space-y-4" {...handlers}>
-              {movements.map((movement) => (
+              {filteredMovements.map((movement) => (
                 <div
                   key={movement.id}
                   data-movement-id={movement.id}
                   className="relative overflow-hidden"
                 >
-                  <div
-                    className={`absolute inset-y-0 right-0 w-16 bg-red-500 flex items-center justify-center transition-opacity duration-200 ${
-                      swipedMovementId === movement.id ? 'opacity-100' : 'opacity-0'
-                    }`}
-                  >
-                    <button
-                      onClick={() => handleDeleteClick(movement)}
-                      className="w-full h-full flex items-center justify-center"
+                  {canCancel && !movement.isReversed && (
+                    <div
+                      className={`absolute inset-y-0 right-0 w-16 bg-red-500 flex items-center justify-center transition-opacity duration-200 ${
+                        swipedMovementId === movement.id ? 'opacity-100' : 'opacity-0'
+                      }`}
                     >
-                      <Trash2 className="w-5 h-5 text-white" />
-                    </button>
-                  </div>
+                      <button
+                        onClick={() => handleCancelClick(movement)}
+                        disabled={cancellingId === movement.id}
+                        className="w-full h-full flex items-center justify-center disabled:opacity-50"
+                      >
+                        <Ban className="w-5 h-5 text-white" />
+                      </button>
+                    </div>
+                  )}
                   <div
                     className={`bg-white border rounded-lg p-4 hover:shadow-sm transition-all transform ${
-                      swipedMovementId === movement.id ? '-translate-x-16' : 'translate-x-0'
+                      canCancel && !movement.isReversed && swipedMovementId === movement.id ? '-translate-x-16' : 'translate-x-0'
                     }`}
                   >
                     <div className="flex flex-col lg:flex-row justify-between items-start gap-2 lg:gap-4">
                     <div className="w-full lg:w-auto">
                       <p className="text-sm sm:text-base font-medium text-gray-900">
                         {movement.type === 'in' ? 'Приход' : 'Расход'}
+                        {movement.isReversed && (
+                          <span className="ml-2 text-xs font-normal text-amber-600">Отменено</span>
+                        )}
                       </p>
                       <p className="text-xs sm:text-sm text-gray-600 mt-1">
                         {movement.description}
@@ -326,17 +341,6 @@ export const ProductHistory: React.FC<ProductHistoryProps> = ({
           )}
         </div>
       </div>
-      
-      {showPasswordPrompt && (
-        <PasswordPrompt
-          isOpen={showPasswordPrompt}
-          onClose={() => {
-            setShowPasswordPrompt(false);
-            setSelectedMovement(null);
-          }}
-          onSuccess={() => handleDelete(true)}
-        />
-      )}
     </div>
   );
 };
\ No newline at end of file
@@ -4,6 +4,7 @@ import { collection, addDoc, doc, updateDoc, serverTimestamp } from 'firebase/fi
 import { db } from '../../lib/firebase';
 import { Product } from '../../types/warehouse';
 import { showErrorNotification } from '../../utils/notifications';
+import { COSTING_METHOD_LABELS, getCostingMethod } from '../../utils/batchCosting';
 
 interface ProductModalProps {
   isOpen: boolean;
@@ -25,7 +26,7 @@ export const ProductModal: React.FC<ProductModalProps> = ({
     minQuantity: product?.minQuantity || 5,
     averagePurchasePrice: product?.averagePurchasePrice || 0,
     unit: product?.unit || 'шт',
-    warehouse: product?.warehouse || '1'
+    costingMethod: getCostingMethod(product?.costingMethod)
   });
   const [loading, setLoading] = useState(false);
 
@@ -164,16 +165,16 @@ export const ProductModal: React.FC<ProductModalProps> = ({
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Склад
+              Себестоимость списания
             </label>
             <select
-              value={formData.warehouse}
-              onChange={(e) => setFormData({ ...formData, warehouse: e.target.value })}
+              value={formData.costingMethod}
+              onChange={(e) => setFormData({ ...formData, costingMethod: getCostingMethod(e.target.value) })}
               className="w-full px-3 py-2 border rounded-md focus:ring-emerald-500 focus:border-emerald-500"
             >
-              <option value="1">Склад 1</option>
-              <option value="2">Склад 2</option>
-              <option value="3">Склад 3</option>
+              {Object.entries(COSTING_METHOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
             </select>
           </div>
 
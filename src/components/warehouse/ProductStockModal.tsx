@@ -1,14 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { X, Package } from 'lucide-react';
-import { collection, query, where, getDocs } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db, subscribeToWarehouseStock } from '../../lib/firebase';
 import { Product } from '../../types/product';
-
-interface WarehouseStock {
-  id: string;
-  name: string;
-  quantity: number;
-}
+import { WarehouseStock } from '../../types/warehouse';
+import { useWarehouses } from '../../hooks/useWarehouses';
+import { getWarehouseQuantity } from '../../utils/warehouseStock';
 
 interface ProductStockModalProps {
   isOpen: boolean;
@@ -22,35 +19,37 @@ export const ProductStockModal: React.FC<ProductStockModalProps> = ({
   product
 }) => {
   const [stocks, setStocks] = useState<WarehouseStock[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [totalQuantity, setTotalQuantity] = useState<number | null>(null);
+  const { warehouses } = useWarehouses();
 
   useEffect(() => {
-    const fetchStocks = async () => {
-      try {
-        const stocksQuery = query(
-          collection(db, 'warehouseStock'),
-          where('productId', '==', product.id)
-        );
-        
-        const snapshot = await getDocs(stocksQuery);
-        setStocks(snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as WarehouseStock[]);
-      } catch (error) {
-        console.error('Error fetching stocks:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
+    if (!isOpen) return;
 
-    if (isOpen) {
-      fetchStocks();
-    }
+    const unsubscribeProduct = onSnapshot(doc(db, 'products', product.id), (snapshot) => {
+      setTotalQuantity(Number(snapshot.data()?.quantity) || 0);
+    }, (error) => {
+      console.error('Error fetching product:', error);
+      setTotalQuantity(0);
+    });
+    const unsubscribeStock = subscribeToWarehouseStock(setStocks, product.id);
+
+    return () => {
+      unsubscribeProduct();
+      unsubscribeStock();
+    };
   }, [product.id, isOpen]);
 
   if (!isOpen) return null;
 
+  const warehouseQuantities = totalQuantity === null
+    ? []
+    : warehouses
+      .map(warehouse => ({
+        warehouse,
+        quantity: getWarehouseQuantity({ id: product.id, quantity: totalQuantity }, stocks, warehouse.id)
+      }))
+      .filter(({ quantity }) => quantity !== 0);
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg w-full max-w-md mx-4">
@@ -62,28 +61,31 @@ export const ProductStockModal: React.FC<ProductStockModalProps> = ({
         </div>
 
         <div className="p-4">
-          {loading ? (
+          {totalQuantity === null ? (
             <div className="flex justify-center py-8">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-500"></div>
             </div>
-          ) : stocks.length === 0 ? (
+          ) : warehouseQuantities.length === 0 ? (
             <div className="text-center py-8">
               <Package className="w-12 h-12 text-gray-400 mx-auto mb-2" />
-              <p className="text-gray-500">Нет данных о наличии на складах</p>
+              <p className="text-gray-500">Товара нет на складах</p>
             </div>
           ) : (
             <div className="space-y-4">
-              {stocks.map((stock) => (
+              {warehouseQuantities.map(({ warehouse, quantity }) => (
                 <div
-                  key={stock.id}
+                  key={warehouse.id}
                   className="flex items-center justify-between p-4 bg-gray-50 rounded-lg"
                 >
                   <div>
-                    <h3 className="font-medium text-gray-900">{stock.name}</h3>
+                    <h3 className="font-medium text-gray-900">{warehouse.name}</h3>
+                    {warehouse.description && (
+                      <p className="text-xs text-gray-500">{warehouse.description}</p>
+                    )}
                   </div>
                   <div className="text-right">
                     <p className="text-lg font-medium text-emerald-600">
-                      {stock.quantity} {product.unit}
+                      {quantity} {product.unit}
                     </p>
                   </div>
                 </div>
@@ -94,4 +96,4 @@ export const ProductStockModal: React.FC<ProductStockModalProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -58,12 +58,7 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
         <div className="flex justify-between items-center p-6 border-b">
           <div>
             <h2 className="text-xl font-semibold">{product.name}</h2>
-            <div className="flex items-center gap-2">
-              <p className="text-sm text-gray-500">История транзакций</p>
-              <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">
-                Склад {product.warehouse}
-              </span>
-            </div>
+            <p className="text-sm text-gray-500">История транзакций</p>
           </div>
           <button onClick={onClose}>
             <X className="w-6 h-6 text-gray-500" />
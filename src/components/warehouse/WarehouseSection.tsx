@@ -11,9 +11,22 @@ interface WarehouseSectionProps {
   onProductClick: (product: Product) => void;
   onViewHistory: (product: Product) => void;
   onViewQRCode: (product: Product) => void;
-  warehouse: 'all' | '1' | '2' | '3';
+  // Идентификатор склада или 'all' для общего списка
+  warehouse: string;
+  colorIndex?: number;
 }
 
+const WAREHOUSE_COLORS = {
+  all: { status: 'text-purple-500', badge: 'bg-purple-100 text-purple-600' },
+  items: [
+    { status: 'text-emerald-500', badge: 'bg-emerald-100 text-emerald-600' },
+    { status: 'text-amber-500', badge: 'bg-amber-100 text-amber-600' },
+    { status: 'text-blue-500', badge: 'bg-blue-100 text-blue-600' },
+    { status: 'text-rose-500', badge: 'bg-rose-100 text-rose-600' },
+    { status: 'text-cyan-500', badge: 'bg-cyan-100 text-cyan-600' }
+  ]
+};
+
 export const WarehouseSection: React.FC<WarehouseSectionProps> = ({ 
   title,
   subtitle,
@@ -22,7 +35,8 @@ export const WarehouseSection: React.FC<WarehouseSectionProps> = ({
   onProductClick,
   onViewHistory,
   onViewQRCode,
-  warehouse
+  warehouse,
+  colorIndex = 0
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(warehouse !== 'all');
   const navigate = useNavigate();
@@ -33,35 +47,13 @@ export const WarehouseSection: React.FC<WarehouseSectionProps> = ({
     onContextMenu(e, product);
   };
 
-  const getStatusColor = () => {
-    switch (warehouse) {
-      case 'all':
-        return 'text-purple-500';
-      case '1':
-        return 'text-emerald-500';
-      case '2':
-        return 'text-amber-500';
-      case '3':
-        return 'text-blue-500';
-      default:
-        return 'text-gray-500';
-    }
-  };
+  const palette = warehouse === 'all'
+    ? WAREHOUSE_COLORS.all
+    : WAREHOUSE_COLORS.items[colorIndex % WAREHOUSE_COLORS.items.length];
 
-  const getBadgeColor = () => {
-    switch (warehouse) {
-      case 'all':
-        return 'bg-purple-100 text-purple-600';
-      case '1':
-        return 'bg-emerald-100 text-emerald-600';
-      case '2':
-        return 'bg-amber-100 text-amber-600';
-      case '3':
-        return 'bg-blue-100 text-blue-600';
-      default:
-        return 'bg-gray-100 text-gray-600';
-    }
-  };
+  const getStatusColor = () => palette.status;
+
+  const getBadgeColor = () => palette.badge;
 
   return (
     <div>
@@ -0,0 +1,36 @@
+import React from 'react';
+import { useWarehouses } from '../../hooks/useWarehouses';
+import { Warehouse } from '../../types/warehouse';
+
+interface WarehouseSelectProps {
+  value: string;
+  onChange: (warehouseId: string, warehouse?: Warehouse) => void;
+  // Пункт «Все склады» со значением 'all' — для фильтров
+  allowAll?: boolean;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const WarehouseSelect: React.FC<WarehouseSelectProps> = ({
+  value,
+  onChange,
+  allowAll = false,
+  disabled = false,
+  className = 'w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-emerald-500'
+}) => {
+  const { warehouses } = useWarehouses();
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value, warehouses.find(warehouse => warehouse.id === e.target.value))}
+      disabled={disabled}
+      className={className}
+    >
+      {allowAll && <option value="all">Все склады</option>}
+      {warehouses.map(warehouse => (
+        <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+      ))}
+    </select>
+  );
+};
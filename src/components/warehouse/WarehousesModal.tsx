@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Check, Edit2, Plus, Trash2, Warehouse as WarehouseIcon, X } from 'lucide-react';
+import { deleteWarehouse, saveWarehouse, WarehouseInput } from '../../lib/firebase';
+import { useWarehouses } from '../../hooks/useWarehouses';
+import { MAIN_WAREHOUSE_ID, Warehouse } from '../../types/warehouse';
+import { showErrorNotification, showSuccessNotification } from '../../utils/notifications';
+
+interface WarehousesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EMPTY_INPUT: WarehouseInput = { name: '', description: '' };
+
+export const WarehousesModal: React.FC<WarehousesModalProps> = ({ isOpen, onClose }) => {
+  const { warehouses } = useWarehouses();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editInput, setEditInput] = useState<WarehouseInput>(EMPTY_INPUT);
+  const [newInput, setNewInput] = useState<WarehouseInput>(EMPTY_INPUT);
+  const [saving, setSaving] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleStartEdit = (warehouse: Warehouse) => {
+    setEditingId(warehouse.id);
+    setEditInput({ name: warehouse.name, description: warehouse.description || '' });
+  };
+
+  const handleSave = async (input: WarehouseInput, warehouseId?: string) => {
+    setSaving(true);
+    try {
+      await saveWarehouse(input, warehouseId);
+      showSuccessNotification(warehouseId ? 'Склад сохранён' : 'Склад добавлен');
+      if (warehouseId) {
+        setEditingId(null);
+      } else {
+        setNewInput(EMPTY_INPUT);
+      }
+    } catch (error) {
+      console.error('Error saving warehouse:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Не удалось сохранить склад');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (warehouse: Warehouse) => {
+    if (!window.confirm(`Удалить склад «${warehouse.name}»?`)) return;
+
+    try {
+      await deleteWarehouse(warehouse);
+      showSuccessNotification('Склад удалён');
+    } catch (error) {
+      console.error('Error deleting warehouse:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Не удалось удалить склад');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center">
+              <WarehouseIcon className="w-5 h-5 text-emerald-600" />
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900">Склады</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y">
+          {warehouses.map(warehouse => (
+            <div key={warehouse.id} className="py-3">
+              {editingId === warehouse.id ? (
+                <div className="space-y-2">
+                  <input
+                    type="text"
+                    value={editInput.name}
+                    onChange={(e) => setEditInput({ ...editInput, name: e.target.value })}
+                    placeholder="Название"
+                    className="w-full px-3 py-2 border rounded-md text-sm"
+                  />
+                  <input
+                    type="text"
+                    value={editInput.description}
+                    onChange={(e) => setEditInput({ ...editInput, description: e.target.value })}
+                    placeholder="Описание"
+                    className="w-full px-3 py-2 border rounded-md text-sm"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+                    >
+                      Отмена
+                    </button>
+                    <button
+                      onClick={() => handleSave(editInput, warehouse.id)}
+                      disabled={saving}
+                      className="px-3 py-1 text-sm bg-emerald-500 text-white rounded-md hover:bg-emerald-600 disabled:opacity-50 flex items-center gap-1"
+                    >
+                      <Check className="w-4 h-4" />
+                      Сохранить
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <div className="font-medium text-gray-900">{warehouse.name}</div>
+                    {warehouse.description && (
+                      <div className="text-xs text-gray-500">{warehouse.description}</div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleStartEdit(warehouse)}
+                      className="p-1.5 text-gray-500 hover:text-emerald-600 rounded"
+                      title="Переименовать"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    {warehouse.id !== MAIN_WAREHOUSE_ID && (
+                      <button
+                        onClick={() => handleDelete(warehouse)}
+                        className="p-1.5 text-gray-500 hover:text-red-600 rounded"
+                        title="Удалить"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="border-t pt-4 mt-2 space-y-2">
+          <h3 className="text-sm font-medium text-gray-700">Новый склад</h3>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={newInput.name}
+              onChange={(e) => setNewInput({ ...newInput, name: e.target.value })}
+              placeholder="Название"
+              className="flex-1 px-3 py-2 border rounded-md text-sm"
+            />
+            <input
+              type="text"
+              value={newInput.description}
+              onChange={(e) => setNewInput({ ...newInput, description: e.target.value })}
+              placeholder="Описание"
+              className="flex-1 px-3 py-2 border rounded-md text-sm"
+            />
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800"
+            >
+              Отмена
+            </button>
+            <button
+              onClick={() => handleSave(newInput)}
+              disabled={saving || !newInput.name.trim()}
+              className="px-4 py-2 bg-emerald-500 text-white rounded-md hover:bg-emerald-600 disabled:opacity-50 flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Добавить
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { collection, onSnapshot, query, where } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { db, getCategoryBalance } from '../lib/firebase';
 import { Building2, Car, Globe, Hammer, Home, Package, User, Wallet } from 'lucide-react';
 import { CategoryCardType } from '../types';
 import React from 'react';
@@ -42,7 +42,7 @@ export const useCategories = () => {
                 updates.set(change.doc.id, {
                   id: change.doc.id,
                   title: data.title,
-                  amount: data.amount,
+                  balance: getCategoryBalance(data),
                   icon: React.createElement(IconComponent, { 
                     size: 24,
                     className: "text-white"
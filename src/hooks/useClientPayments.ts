@@ -1,59 +1,44 @@
 import { useState, useEffect } from 'react';
-import { collection, query, where, getDocs } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { getClientPayments } from '../lib/firebase';
 import { Client } from '../types/client';
+import { allocatePayments, getOverdueAmount, getPaymentSchedule, TrancheState } from '../utils/paymentSchedule';
 
 export interface PaymentStats {
   paidAmount: number;
   remainingAmount: number;
   progress: number;
+  overdueAmount: number;
+  tranches: TrancheState[];
 }
 
 export const useClientPayments = (client: Client) => {
   const [stats, setStats] = useState<PaymentStats>({
     paidAmount: 0,
     remainingAmount: client.totalAmount,
-    progress: 0
+    progress: 0,
+    overdueAmount: 0,
+    tranches: []
   });
 
   useEffect(() => {
     const fetchPaymentHistory = async () => {
       try {
-        const categoriesQuery = query(
-          collection(db, 'categories'),
-          where('title', '==', `${client.lastName} ${client.firstName}`),
-          where('row', '==', 1)
-        );
-        
-        const categorySnapshot = await getDocs(categoriesQuery);
-        if (!categorySnapshot.empty) {
-          const categoryId = categorySnapshot.docs[0].id;
-
-          const transactionsQuery = query(
-            collection(db, 'transactions'),
-            where('categoryId', '==', categoryId)
-          );
-          
-          const transactionsSnapshot = await getDocs(transactionsQuery);
-          
-          let totalPaid = 0;
-          transactionsSnapshot.docs.forEach(doc => {
-            const amount = doc.data().amount;
-            if (amount < 0) {
-              totalPaid += Math.abs(amount);
-            }
-          });
-
-          const remainingAmount = client.totalAmount - totalPaid;
-          const progress = client.totalAmount === 0 ? 0 : 
-            Math.min(Math.round((totalPaid / client.totalAmount) * 100), 100);
-
-          setStats({
-            paidAmount: totalPaid,
-            remainingAmount,
-            progress
-          });
-        }
+        const payments = await getClientPayments(client.id);
+        const totalPaid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+
+        const remainingAmount = client.totalAmount - totalPaid;
+        const progress = client.totalAmount === 0 ? 0 :
+          Math.min(Math.round((totalPaid / client.totalAmount) * 100), 100);
+
+        const tranches = allocatePayments(getPaymentSchedule(client), payments);
+
+        setStats({
+          paidAmount: totalPaid,
+          remainingAmount,
+          progress,
+          overdueAmount: getOverdueAmount(tranches),
+          tranches
+        });
       } catch (error) {
         console.error('Error fetching payment history:', error);
       }
@@ -63,4 +48,4 @@ export const useClientPayments = (client: Client) => {
   }, [client]);
 
   return stats;
-};
\ No newline at end of file
+};
@@ -1,6 +1,5 @@
 import { useState } from 'react';
-import { collection, query, where, getDocs } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { getCategoryBalance, getEntityCategory } from '../lib/firebase';
 import { Employee } from '../types/employee';
 import { CategoryCardType } from '../types';
 import { showErrorNotification } from '../utils/notifications';
@@ -11,22 +10,17 @@ export const useEmployeeHistory = () => {
 
   const handleViewHistory = async (employee: Employee) => {
     try {
-      const categoriesQuery = query(
-        collection(db, 'categories'),
-        where('title', '==', employee.lastName + ' ' + employee.firstName),
-        where('row', '==', 2)
-      );
-      
-      const snapshot = await getDocs(categoriesQuery);
-      if (!snapshot.empty) {
-        const categoryDoc = snapshot.docs[0];
+      const categoryDoc = await getEntityCategory('employee', employee.id);
+      if (categoryDoc) {
         setSelectedCategory({
           id: categoryDoc.id,
           title: categoryDoc.data().title,
-          amount: categoryDoc.data().amount,
+          balance: getCategoryBalance(categoryDoc.data()),
           iconName: categoryDoc.data().icon,
           color: categoryDoc.data().color,
-          row: 2
+          row: 2,
+          entityType: 'employee',
+          entityId: employee.id
         });
         setShowHistory(true);
       }
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from '../lib/firebase';
-import { EstimateValues } from '../types/estimate';
+import { CuttingInput, EstimatePricing, EstimateValues, RoofGeometryInput } from '../types/estimate';
 
 const initialEstimateValues = {
   value: 0,
@@ -17,6 +17,9 @@ export const useEstimateData = (clientId: string, isEditing: boolean) => {
   const [isFloorsChecked, setIsFloorsChecked] = useState(false);
   const [isFirstFloorHeightChecked, setIsFirstFloorHeightChecked] = useState(false);
   const [isSecondFloorHeightChecked, setIsSecondFloorHeightChecked] = useState(false);
+  const [roofGeometry, setRoofGeometry] = useState<RoofGeometryInput | null>(null);
+  const [cuttingInput, setCuttingInput] = useState<CuttingInput | null>(null);
+  const [pricing, setPricing] = useState<EstimatePricing | null>(null);
 
   const [foundationValues, setFoundationValues] = useState<EstimateValues>({
     perimeter: initialEstimateValues,
@@ -60,6 +63,15 @@ export const useEstimateData = (clientId: string, isEditing: boolean) => {
     contractPrice: initialEstimateValues
   });
 
+  // Количества по раскрою; 0 — раскрой не выполнен, в смете действуют нормы
+  const [cuttingValues, setCuttingValues] = useState<EstimateValues>({
+    sip25Panels: initialEstimateValues,
+    sip28Panels: initialEstimateValues,
+    walls40x140: initialEstimateValues,
+    roof40x140: initialEstimateValues,
+    lathing25x100: initialEstimateValues
+  });
+
   useEffect(() => {
     const loadEstimateData = async () => {
       try {
@@ -76,6 +88,9 @@ export const useEstimateData = (clientId: string, isEditing: boolean) => {
           setIsFloorsChecked(data.isFloorsChecked || false);
           setIsFirstFloorHeightChecked(data.isFirstFloorHeightChecked || false);
           setIsSecondFloorHeightChecked(data.isSecondFloorHeightChecked || false);
+          setRoofGeometry(data.roofGeometry || null);
+          setCuttingInput(data.cuttingInput || null);
+          setPricing(data.pricing || null);
           
           if (data.foundationValues) {
             setFoundationValues(prev => ({
@@ -97,6 +112,13 @@ export const useEstimateData = (clientId: string, isEditing: boolean) => {
               ...data.roofValues
             }));
           }
+
+          if (data.cuttingValues) {
+            setCuttingValues(prev => ({
+              ...prev,
+              ...data.cuttingValues
+            }));
+          }
         }
       } catch (error) {
         console.error('Error loading estimate data:', error);
@@ -124,6 +146,10 @@ export const useEstimateData = (clientId: string, isEditing: boolean) => {
           foundationValues,
           lumberValues,
           roofValues,
+          roofGeometry,
+          cuttingValues,
+          cuttingInput,
+          pricing,
           updatedAt: serverTimestamp()
         });
       } catch (error) {
@@ -146,7 +172,11 @@ export const useEstimateData = (clientId: string, isEditing: boolean) => {
     isSecondFloorHeightChecked,
     foundationValues,
     lumberValues,
-    roofValues
+    roofValues,
+    roofGeometry,
+    cuttingValues,
+    cuttingInput,
+    pricing
   ]);
 
   const handleProjectNumberChange = (value: string) => setProjectNumber(value);
@@ -157,6 +187,7 @@ export const useEstimateData = (clientId: string, isEditing: boolean) => {
   const handleFloorsCheckChange = (checked: boolean) => setIsFloorsChecked(checked);
   const handleFirstFloorHeightCheckChange = (checked: boolean) => setIsFirstFloorHeightChecked(checked);
   const handleSecondFloorHeightCheckChange = (checked: boolean) => setIsSecondFloorHeightChecked(checked);
+  const handlePricingChange = (value: EstimatePricing | null) => setPricing(value);
 
   const handleFoundationChange = (key: keyof typeof foundationValues) => (value: number) => {
     setFoundationValues(prev => ({
@@ -200,6 +231,28 @@ export const useEstimateData = (clientId: string, isEditing: boolean) => {
     }));
   };
 
+  const mergeValues = (prev: EstimateValues, updates: Record<string, number>) =>
+    Object.entries(updates).reduce(
+      (result, [key, value]) => ({ ...result, [key]: { ...result[key], value } }),
+      prev
+    );
+
+  // Значения из инструмента геометрии крыши; отметки «учтено» не меняются
+  const applyRoofGeometry = (
+    geometry: RoofGeometryInput,
+    values: { roofValues: Record<string, number>; lumberValues: Record<string, number> }
+  ) => {
+    setRoofGeometry(geometry);
+    setRoofValues(prev => mergeValues(prev, values.roofValues));
+    setLumberValues(prev => mergeValues(prev, values.lumberValues));
+  };
+
+  // Результат раскроя панелей и бруса; нулевые количества возвращают нормы сметы
+  const applyCuttingPlan = (input: CuttingInput | null, values: Record<string, number>) => {
+    setCuttingInput(input);
+    setCuttingValues(prev => mergeValues(prev, values));
+  };
+
   return {
     projectNumber,
     floors,
@@ -212,6 +265,10 @@ export const useEstimateData = (clientId: string, isEditing: boolean) => {
     foundationValues,
     lumberValues,
     roofValues,
+    roofGeometry,
+    cuttingInput,
+    cuttingValues,
+    pricing,
     handleProjectNumberChange,
     handleFloorsChange,
     handleFirstFloorHeightChange,
@@ -220,11 +277,14 @@ export const useEstimateData = (clientId: string, isEditing: boolean) => {
     handleFloorsCheckChange,
     handleFirstFloorHeightCheckChange,
     handleSecondFloorHeightCheckChange,
+    handlePricingChange,
     handleFoundationChange,
     handleFoundationCheckChange,
     handleLumberChange,
     handleLumberCheckChange,
     handleRoofChange,
-    handleRoofCheckChange
+    handleRoofCheckChange,
+    applyRoofGeometry,
+    applyCuttingPlan
   };
 };
\ No newline at end of file
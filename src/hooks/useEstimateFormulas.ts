@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { doc, onSnapshot, DocumentData } from 'firebase/firestore';
+import { db, subscribeToEstimateSection } from '../lib/firebase';
+import { EstimateItem, EstimateSectionConfig, EstimateSectionId } from '../types/estimate';
+import { applyEstimateFormulas, DEFAULT_ESTIMATE_SECTIONS } from '../utils/estimateSections';
+
+// Пересчитывает количества позиций раздела по формулам из конфигурации
+// при изменении исходных данных сметы (estimates/{clientId}) или самих норм.
+// withTotals должна быть стабильной (объявлена вне компонента)
+export const useEstimateFormulas = <T extends { items: EstimateItem[] }>(
+  sectionId: EstimateSectionId,
+  clientId: string,
+  setEstimateData: React.Dispatch<React.SetStateAction<T>>,
+  withTotals: (data: T) => T
+) => {
+  const [config, setConfig] = useState<EstimateSectionConfig>(DEFAULT_ESTIMATE_SECTIONS[sectionId]);
+  const [estimateValues, setEstimateValues] = useState<DocumentData | null>(null);
+
+  useEffect(() => {
+    return subscribeToEstimateSection(sectionId, setConfig);
+  }, [sectionId]);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, 'estimates', clientId), (snapshot) => {
+      if (snapshot.exists()) {
+        setEstimateValues(snapshot.data());
+      }
+    });
+
+    return () => unsubscribe();
+  }, [clientId]);
+
+  const latest = useRef({ config, estimateValues });
+  latest.current = { config, estimateValues };
+
+  // Применяет формулы к данным раздела, например к смете, загруженной из базы.
+  // Функция стабильна и всегда использует последние нормы и исходные данные
+  const applyFormulas = useCallback((data: T): T => {
+    const { config: currentConfig, estimateValues: currentValues } = latest.current;
+    if (!currentValues) return data;
+    return withTotals({
+      ...data,
+      items: applyEstimateFormulas(data.items, currentConfig, currentValues)
+    });
+  }, [withTotals]);
+
+  useEffect(() => {
+    setEstimateData(prev => applyFormulas(prev));
+  }, [config, estimateValues, applyFormulas, setEstimateData]);
+
+  return applyFormulas;
+};
@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { collection, documentId, onSnapshot, query, where } from 'firebase/firestore';
+import { db, subscribeToEstimateSection } from '../lib/firebase';
+import { EstimateItem, EstimateSectionConfig, EstimateSectionId } from '../types/estimate';
+import { DEFAULT_ESTIMATE_SECTIONS } from '../utils/estimateSections';
+
+export interface CatalogPrice {
+  productId: string;
+  price: number;
+}
+
+interface CatalogProduct extends CatalogPrice {
+  name: string;
+}
+
+// Ограничение Firestore на количество значений в условии 'in'
+const IN_QUERY_LIMIT = 30;
+
+const chunk = <T>(values: T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += IN_QUERY_LIMIT) {
+    chunks.push(values.slice(i, i + IN_QUERY_LIMIT));
+  }
+  return chunks;
+};
+
+// Товар каталога для позиции: по productId позиции или конфигурации,
+// а для ещё не связанных позиций — по названию товара
+const getProductRef = (item: EstimateItem, config: EstimateSectionConfig) => {
+  const itemConfig = item.id ? config.items.find(({ id }) => id === item.id) : undefined;
+  return {
+    productId: item.productId || itemConfig?.productId,
+    productName: itemConfig?.productName || item.name
+  };
+};
+
+// Сверяет цены позиций раздела с каталогом товаров. Цены не меняются сами:
+// расхождения показываются в таблице и применяются по кнопке «Обновить все цены».
+// Позиции с закреплённой ценой (pricePinned) не обновляются
+export const useEstimatePriceSync = <T extends { items: EstimateItem[] }>(
+  sectionId: EstimateSectionId,
+  items: EstimateItem[],
+  setEstimateData: React.Dispatch<React.SetStateAction<T>>,
+  withTotals: (data: T) => T
+) => {
+  const [config, setConfig] = useState<EstimateSectionConfig>(DEFAULT_ESTIMATE_SECTIONS[sectionId]);
+  const [products, setProducts] = useState<Record<string, CatalogProduct>>({});
+
+  useEffect(() => {
+    return subscribeToEstimateSection(sectionId, setConfig);
+  }, [sectionId]);
+
+  const refs = items.map(item => getProductRef(item, config));
+  const productIds = [...new Set(refs.map(ref => ref.productId).filter(Boolean) as string[])].sort();
+  const productNames = [...new Set(refs.filter(ref => !ref.productId).map(ref => ref.productName).filter(Boolean))].sort();
+  const idsKey = productIds.join('\n');
+  const namesKey = productNames.join('\n');
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split('\n') : [];
+    const names = namesKey ? namesKey.split('\n') : [];
+    const queries = [
+      ...chunk(ids).map(values => query(collection(db, 'products'), where(documentId(), 'in', values))),
+      ...chunk(names).map(values => query(collection(db, 'products'), where('name', 'in', values)))
+    ];
+
+    const unsubscribes = queries.map(q =>
+      onSnapshot(
+        q,
+        (snapshot) => {
+          setProducts(prev => {
+            const next = { ...prev };
+            snapshot.docChanges().forEach(change => {
+              if (change.type === 'removed') {
+                delete next[change.doc.id];
+              } else {
+                const data = change.doc.data();
+                next[change.doc.id] = {
+                  productId: change.doc.id,
+                  name: data.name,
+                  price: Number(data.price) || 0
+                };
+              }
+            });
+            return next;
+          });
+        },
+        (error) => {
+          console.error('Error loading catalog prices:', error);
+        }
+      )
+    );
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [idsKey, namesKey]);
+
+  const findProduct = useCallback((item: EstimateItem): CatalogProduct | undefined => {
+    const { productId, productName } = getProductRef(item, config);
+    if (productId) return products[productId];
+    return Object.values(products).find(product => product.name === productName);
+  }, [config, products]);
+
+  const catalogPrices = useMemo(
+    () => items.map(item => findProduct(item) || null),
+    [items, findProduct]
+  );
+
+  // Позиции, найденные в каталоге по названию, получают id товара —
+  // дальше связь не зависит от переименования товара или позиции
+  useEffect(() => {
+    if (!items.some(item => !item.productId && findProduct(item))) return;
+
+    setEstimateData(prev => ({
+      ...prev,
+      items: prev.items.map(item => {
+        if (item.productId) return item;
+        const product = findProduct(item);
+        return product ? { ...item, productId: product.productId } : item;
+      })
+    }));
+  }, [items, findProduct, setEstimateData]);
+
+  const outdatedCount = items.filter((item, index) => {
+    const catalogPrice = catalogPrices[index];
+    return !item.pricePinned && catalogPrice && catalogPrice.price !== item.price;
+  }).length;
+
+  const updateAllPrices = useCallback(() => {
+    setEstimateData(prev => withTotals({
+      ...prev,
+      items: prev.items.map(item => {
+        const product = findProduct(item);
+        if (item.pricePinned || !product || product.price === item.price) return item;
+        return { ...item, price: product.price, total: item.quantity * product.price };
+      })
+    }));
+  }, [findProduct, setEstimateData, withTotals]);
+
+  const togglePricePinned = useCallback((index: number) => {
+    setEstimateData(prev => ({
+      ...prev,
+      items: prev.items.map((item, itemIndex) =>
+        itemIndex === index ? { ...item, pricePinned: !item.pricePinned } : item
+      )
+    }));
+  }, [setEstimateData]);
+
+  return {
+    catalogPrices,
+    outdatedCount,
+    updateAllPrices,
+    togglePricePinned
+  };
+};
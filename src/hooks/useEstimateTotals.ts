@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
-import { doc, onSnapshot, collection, query, where, getDocs } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { doc, onSnapshot, collection, query, where } from 'firebase/firestore';
+import { db, isReversedEntry, getEntityCategory } from '../lib/firebase';
 
 export const useEstimateTotals = (clientId: string) => {
   const [totals, setTotals] = useState({
@@ -43,42 +43,26 @@ export const useEstimateTotals = (clientId: string) => {
     // Получаем связанную категорию проекта
     const fetchProjectCategory = async () => {
       try {
-        const clientDoc = await getDocs(query(
-          collection(db, 'clients'),
-          where('id', '==', clientId)
-        ));
+        // Находим категорию проекта клиента
+        const category = await getEntityCategory('project', clientId);
 
-        if (!clientDoc.empty) {
-          const clientData = clientDoc.docs[0].data();
-          const projectName = `${clientData.lastName} ${clientData.firstName}`;
+        if (category) {
+          // Подписываемся на транзакции этой категории
+          const transactionsUnsubscribe = onSnapshot(
+            query(
+              collection(db, 'transactions'),
+              where('categoryId', '==', category.id)
+            ),
+            (snapshot) => {
+              const salarySum = snapshot.docs.reduce((sum, doc) => {
+                const data = doc.data();
+                return data.isSalary && !isReversedEntry(data) ? sum + Math.abs(data.amount) : sum;
+              }, 0);
+              setSalaryTotal(salarySum);
+            }
+          );
 
-          // Находим категорию проекта
-          const categorySnapshot = await getDocs(query(
-            collection(db, 'categories'),
-            where('title', '==', projectName),
-            where('row', '==', 3)
-          ));
-
-          if (!categorySnapshot.empty) {
-            const categoryId = categorySnapshot.docs[0].id;
-
-            // Подписываемся на транзакции этой категории
-            const transactionsUnsubscribe = onSnapshot(
-              query(
-                collection(db, 'transactions'),
-                where('categoryId', '==', categoryId)
-              ),
-              (snapshot) => {
-                const salarySum = snapshot.docs.reduce((sum, doc) => {
-                  const data = doc.data();
-                  return data.isSalary ? sum + Math.abs(data.amount) : sum;
-                }, 0);
-                setSalaryTotal(salarySum);
-              }
-            );
-
-            unsubscribes.push(transactionsUnsubscribe);
-          }
+          unsubscribes.push(transactionsUnsubscribe);
         }
       } catch (error) {
         console.error('Error fetching project category:', error);
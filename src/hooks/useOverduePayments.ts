@@ -0,0 +1,53 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ClientPayment, subscribeToAllClientPayments } from '../lib/firebase';
+import { subscribeToClients } from '../services/clientService';
+import { Client } from '../types/client';
+import { allocatePayments, TrancheState } from '../utils/paymentSchedule';
+
+export interface OverduePayment extends TrancheState {
+  client: Client;
+}
+
+// Просроченные транши по всем клиентам, самые давние — первыми.
+// Клиенты и поступления приходят подписками и соединяются синхронно,
+// поэтому устаревший ответ не может перезаписать свежий
+export const useOverduePayments = () => {
+  const [clients, setClients] = useState<Client[] | null>(null);
+  const [payments, setPayments] = useState<Map<string, ClientPayment[]> | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const unsubscribeClients = subscribeToClients(
+      setClients,
+      (error) => {
+        console.error('Error fetching clients:', error);
+        setFailed(true);
+      }
+    );
+    const unsubscribePayments = subscribeToAllClientPayments(setPayments, () => setFailed(true));
+
+    return () => {
+      unsubscribeClients();
+      unsubscribePayments();
+    };
+  }, []);
+
+  const overduePayments = useMemo<OverduePayment[]>(() => {
+    if (!clients || !payments) return [];
+
+    // Сроки есть только у явно заданного графика
+    return clients
+      .filter(client => client.paymentSchedule?.length)
+      .flatMap(client =>
+        allocatePayments(client.paymentSchedule || [], payments.get(client.id) || [])
+          .filter(state => state.status === 'overdue')
+          .map(state => ({ ...state, client }))
+      )
+      .sort((a, b) => b.daysOverdue - a.daysOverdue);
+  }, [clients, payments]);
+
+  const totalOverdue = overduePayments.reduce((sum, payment) => sum + payment.dueAmount, 0);
+  const loading = !failed && (!clients || !payments);
+
+  return { overduePayments, totalOverdue, loading };
+};
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { subscribeToUserRole } from '../lib/firebase';
+import { auth } from '../lib/firebase/auth';
+import { Permission, UserRole } from '../types/user';
+import { DEFAULT_USER_ROLE, hasPermission } from '../utils/permissions';
+
+// Роль текущего пользователя; до загрузки прав нет ни у кого
+export const usePermissions = () => {
+  const [role, setRole] = useState<UserRole>(DEFAULT_USER_ROLE);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let unsubscribeRole: (() => void) | undefined;
+
+    const unsubscribeAuth = auth.onAuthStateChanged((user) => {
+      unsubscribeRole?.();
+      unsubscribeRole = undefined;
+
+      if (!user) {
+        setRole(DEFAULT_USER_ROLE);
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      unsubscribeRole = subscribeToUserRole(user.uid, (result) => {
+        setRole(result);
+        setLoading(false);
+      });
+    });
+
+    return () => {
+      unsubscribeAuth();
+      unsubscribeRole?.();
+    };
+  }, []);
+
+  const can = (permission: Permission) => !loading && hasPermission(role, permission);
+
+  return { role, loading, can };
+};
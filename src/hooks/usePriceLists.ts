@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { subscribeToPriceLists } from '../lib/firebase';
+import { CalculatorPriceList } from '../types/calculator';
+
+// Версии прайса калькулятора. Пока в базе нет ни одной версии, список пуст
+// и расчёт идёт по DEFAULT_PRICE_LIST (см. getPriceListForDate)
+export const usePriceLists = () => {
+  const [priceLists, setPriceLists] = useState<CalculatorPriceList[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    return subscribeToPriceLists(
+      (lists) => {
+        setPriceLists(lists);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+  }, []);
+
+  return { priceLists, loading };
+};
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { subscribeToProfitModel } from '../lib/firebase';
+import { ProfitModel } from '../types/receipt';
+import { DEFAULT_PROFIT_MODEL } from '../utils/profitModel';
+
+export const useProfitModel = () => {
+  const [model, setModel] = useState<ProfitModel>(DEFAULT_PROFIT_MODEL);
+
+  useEffect(() => {
+    return subscribeToProfitModel(setModel);
+  }, []);
+
+  return model;
+};
@@ -1,12 +1,12 @@
 import { useState, useEffect } from 'react';
 import { collection, onSnapshot, query, orderBy, getDocs, where } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { db, isReversedEntry } from '../lib/firebase';
 import { TopStatType } from '../types';
 
 export const useStats = () => {
   const [stats, setStats] = useState<TopStatType[]>([
-    { label: 'Баланс', value: '0 ₸' },
-    { label: 'Расходы', value: '0 ₸' }
+    { label: 'Баланс', value: 0 },
+    { label: 'Расходы', value: 0 }
   ]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -37,6 +37,8 @@ export const useStats = () => {
             const data = doc.data();
             const amount = data.amount;
             const categoryId = data.categoryId;
+
+            if (isReversedEntry(data)) return;
             
             // Обновляем общий баланс системы
             if (categoryId === 'system_balance') {
@@ -55,8 +57,8 @@ export const useStats = () => {
           });
 
           setStats([
-            { label: 'Баланс', value: `${totalBalance.toLocaleString()} ₸` },
-            { label: 'Расходы', value: `${totalExpenses.toLocaleString()} ₸` }
+            { label: 'Баланс', value: totalBalance },
+            { label: 'Расходы', value: totalExpenses }
           ]);
           setLoading(false);
         } catch (error) {
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { subscribeToWarehouses } from '../lib/firebase';
+import { Warehouse } from '../types/warehouse';
+import { MAIN_WAREHOUSE } from '../utils/warehouseStock';
+
+// Склады компании; до загрузки — только основной склад
+export const useWarehouses = () => {
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([MAIN_WAREHOUSE]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    return subscribeToWarehouses(
+      (result) => {
+        setWarehouses(result);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+  }, []);
+
+  return { warehouses, loading };
+};
@@ -1,4 +1,20 @@
 export * from './firebase/config';
 export * from './firebase/categories';
 export * from './firebase/transactions';
-export * from './firebase/contracts';
\ No newline at end of file
+export * from './firebase/ledger';
+export * from './firebase/categoryLinks';
+export * from './firebase/clientPayments';
+export * from './firebase/counters';
+export * from './firebase/clients';
+export * from './firebase/estimateSections';
+export * from './firebase/estimateVersions';
+export * from './firebase/materialPlan';
+export * from './firebase/priceLists';
+export * from './firebase/proposals';
+export * from './firebase/profitModel';
+export * from './firebase/contracts';
+export * from './firebase/contractTemplates';
+export * from './firebase/closingDocuments';
+export * from './firebase/warehouses';
+export * from './firebase/stockPosting';
+export * from './firebase/users';
\ No newline at end of file
@@ -1,22 +1,58 @@
-import { collection, addDoc, deleteDoc, doc, updateDoc, query, where, getDocs, writeBatch, serverTimestamp } from 'firebase/firestore';
+import { collection, addDoc, deleteDoc, doc, getDoc, updateDoc, query, where, getDocs, writeBatch, serverTimestamp, DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
 import { db } from './config';
-import { CategoryData } from '../../types';
+import { findCategoryTransactions } from './transactions';
+import { CategoryData, CategoryEntityType } from '../../types';
 
-// Вспомогательная функция для форматирования суммы
-export const formatAmount = (amount: number): string => {
-  return `${amount} ₸`;
+// Ряд на главном экране для каждого типа связанной сущности
+export const ENTITY_CATEGORY_ROWS: Record<CategoryEntityType, number> = {
+  client: 1,
+  employee: 2,
+  project: 3
 };
 
-// Вспомогательная функция для парсинга суммы из строки
+// Вспомогательная функция для парсинга суммы из строки (старый формат '123 ₸')
 export const parseAmount = (amountStr: string): number => {
-  return parseFloat(amountStr.replace(/[^\d.-]/g, ''));
+  const value = parseFloat(amountStr.replace(/[^\d.-]/g, ''));
+  return isNaN(value) ? 0 : value;
+};
+
+// Баланс категории хранится числом в поле balance.
+// Старые документы содержат только строку amount — читаем её как запасной вариант.
+export const getCategoryBalance = (data: DocumentData | undefined): number => {
+  if (!data) return 0;
+  if (typeof data.balance === 'number') return data.balance;
+  return typeof data.amount === 'string' ? parseAmount(data.amount) : 0;
+};
+
+// Категория, привязанная к клиенту, сотруднику или проекту по ID сущности
+export const getEntityCategory = async (
+  entityType: CategoryEntityType,
+  entityId: string
+): Promise<QueryDocumentSnapshot<DocumentData> | null> => {
+  const snapshot = await getDocs(query(
+    collection(db, 'categories'),
+    where('entityType', '==', entityType),
+    where('entityId', '==', entityId)
+  ));
+  return snapshot.empty ? null : snapshot.docs[0];
+};
+
+// Все категории сущности (для клиента — категории клиента и проекта)
+export const getEntityCategories = async (
+  entityId: string
+): Promise<QueryDocumentSnapshot<DocumentData>[]> => {
+  const snapshot = await getDocs(query(
+    collection(db, 'categories'),
+    where('entityId', '==', entityId)
+  ));
+  return snapshot.docs;
 };
 
 export const addCategory = async (categoryData: CategoryData) => {
   try {
     const docRef = await addDoc(collection(db, 'categories'), {
       ...categoryData,
-      amount: '0 ₸',
+      balance: 0,
       createdAt: serverTimestamp()
     });
     return docRef.id;
@@ -39,29 +75,28 @@ export const updateCategory = async (categoryId: string, data: any) => {
   }
 };
 
-export const deleteCategory = async (categoryId: string, categoryTitle: string, deleteAll: boolean) => {
+// Удаляет категорию; с deleteAll — вместе с категориями той же сущности
+// (клиент и его проект) и их проводками. Связанные категории ищутся по
+// entityId, а не по названию, чтобы не задеть однофамильцев
+export const deleteCategory = async (categoryId: string, deleteAll: boolean) => {
   const batch = writeBatch(db);
 
   try {
     if (deleteAll) {
-      // Удаляем все связанные транзакции
-      const transactionsQuery = query(
-        collection(db, 'transactions'),
-        where('categoryId', '==', categoryId)
-      );
-      const transactionsSnapshot = await getDocs(transactionsQuery);
-      transactionsSnapshot.docs.forEach((doc) => {
-        batch.delete(doc.ref);
+      const categorySnap = await getDoc(doc(db, 'categories', categoryId));
+      const entityId = categorySnap.data()?.entityId;
+      const categoryRefs = entityId
+        ? (await getEntityCategories(entityId)).map(categoryDoc => categoryDoc.ref)
+        : [categorySnap.ref];
+
+      // Удаляем проводки категорий и вторые части их переводов
+      const transactionDocs = await findCategoryTransactions(categoryRefs.map(ref => ref.id));
+      transactionDocs.forEach((transactionDoc) => {
+        batch.delete(transactionDoc.ref);
       });
 
-      // Удаляем все связанные категории
-      const categoriesQuery = query(
-        collection(db, 'categories'),
-        where('title', '==', categoryTitle)
-      );
-      const categoriesSnapshot = await getDocs(categoriesQuery);
-      categoriesSnapshot.docs.forEach((doc) => {
-        batch.delete(doc.ref);
+      categoryRefs.forEach((ref) => {
+        batch.delete(ref);
       });
 
       await batch.commit();
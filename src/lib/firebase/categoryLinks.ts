@@ -0,0 +1,137 @@
+import { collection, getDocs, writeBatch, serverTimestamp, deleteField, DocumentReference } from 'firebase/firestore';
+import { db } from './config';
+import { ENTITY_CATEGORY_ROWS } from './categories';
+import { CategoryEntityType } from '../../types';
+
+export type CategoryLinkIssue = 'not_found' | 'ambiguous' | 'duplicate';
+
+export interface CategoryLinkResult {
+  categoryId: string;
+  title: string;
+  row: number;
+  entityType: CategoryEntityType;
+  entityId?: string;
+  issue?: CategoryLinkIssue;
+}
+
+interface BackfillOptions {
+  // Записать найденные связи и пометки в категории
+  apply?: boolean;
+}
+
+const BATCH_LIMIT = 450;
+
+const ROW_ENTITY_TYPES: Record<number, CategoryEntityType> = {
+  [ENTITY_CATEGORY_ROWS.client]: 'client',
+  [ENTITY_CATEGORY_ROWS.employee]: 'employee',
+  [ENTITY_CATEGORY_ROWS.project]: 'project'
+};
+
+const normalizeName = (value: string): string =>
+  value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const fullName = (data: { lastName?: string; firstName?: string }): string =>
+  normalizeName(`${data.lastName || ''} ${data.firstName || ''}`);
+
+const groupIdsByName = (docs: Array<{ id: string; data: () => { lastName?: string; firstName?: string } }>) => {
+  const map = new Map<string, string[]>();
+  docs.forEach(doc => {
+    const name = fullName(doc.data());
+    map.set(name, [...(map.get(name) || []), doc.id]);
+  });
+  return map;
+};
+
+// Проставляет entityType/entityId категориям клиентов, сотрудников и проектов,
+// сопоставляя название категории с ФИО. Неоднозначные и ненайденные
+// категории помечаются полем entityLinkIssue и возвращаются в отчёте.
+export const backfillCategoryEntityLinks = async (
+  options: BackfillOptions = {}
+): Promise<CategoryLinkResult[]> => {
+  const [categoriesSnap, clientsSnap, employeesSnap] = await Promise.all([
+    getDocs(collection(db, 'categories')),
+    getDocs(collection(db, 'clients')),
+    getDocs(collection(db, 'employees'))
+  ]);
+
+  const clientsByName = groupIdsByName(clientsSnap.docs);
+  const employeesByName = groupIdsByName(employeesSnap.docs);
+
+  // Сущности, у которых уже есть связанная категория данного типа
+  const linked = new Set<string>();
+  categoriesSnap.docs.forEach(doc => {
+    const data = doc.data();
+    if (data.entityType && data.entityId) {
+      linked.add(`${data.entityType}:${data.entityId}`);
+    }
+  });
+
+  const results: CategoryLinkResult[] = [];
+  const refs = new Map<string, DocumentReference>();
+
+  categoriesSnap.docs.forEach(doc => {
+    const data = doc.data();
+    const row = parseInt(data.row) || 0;
+    const entityType = ROW_ENTITY_TYPES[row];
+    if (!entityType || data.entityId) return;
+
+    const candidates = (entityType === 'employee' ? employeesByName : clientsByName)
+      .get(normalizeName(data.title || '')) || [];
+
+    const result: CategoryLinkResult = {
+      categoryId: doc.id,
+      title: data.title || '',
+      row,
+      entityType
+    };
+
+    if (candidates.length === 0) {
+      result.issue = 'not_found';
+    } else if (candidates.length > 1) {
+      result.issue = 'ambiguous';
+    } else if (linked.has(`${entityType}:${candidates[0]}`)) {
+      result.issue = 'duplicate';
+    } else {
+      result.entityId = candidates[0];
+      linked.add(`${entityType}:${candidates[0]}`);
+    }
+
+    results.push(result);
+    refs.set(doc.id, doc.ref);
+  });
+
+  if (options.apply) {
+    let batch = writeBatch(db);
+    let pending = 0;
+
+    for (const result of results) {
+      const ref = refs.get(result.categoryId);
+      if (!ref) continue;
+
+      batch.update(ref, result.entityId
+        ? {
+            entityType: result.entityType,
+            entityId: result.entityId,
+            entityLinkIssue: deleteField(),
+            updatedAt: serverTimestamp()
+          }
+        : {
+            entityLinkIssue: result.issue,
+            updatedAt: serverTimestamp()
+          });
+      pending++;
+
+      if (pending >= BATCH_LIMIT) {
+        await batch.commit();
+        batch = writeBatch(db);
+        pending = 0;
+      }
+    }
+
+    if (pending > 0) {
+      await batch.commit();
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,117 @@
+import { collection, query, where, getDocs, onSnapshot, DocumentData, QueryDocumentSnapshot } from 'firebase/firestore';
+import { db } from './config';
+import { getEntityCategory } from './categories';
+import { isReversedEntry } from './transactions';
+
+// Ограничение Firestore на количество значений в условии 'in'
+const IN_QUERY_LIMIT = 30;
+
+const chunk = <T>(values: T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += IN_QUERY_LIMIT) {
+    chunks.push(values.slice(i, i + IN_QUERY_LIMIT));
+  }
+  return chunks;
+};
+
+export interface ClientPayment {
+  id: string;
+  amount: number;
+  date: Date | null;
+}
+
+const isClientPayment = (data: DocumentData): boolean =>
+  !isReversedEntry(data) && data.amount < 0;
+
+const toClientPayment = (doc: QueryDocumentSnapshot<DocumentData>): ClientPayment => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    amount: Math.abs(data.amount),
+    date: data.date?.toDate ? data.date.toDate() : null
+  };
+};
+
+// Поступления от клиента — списания с его категории (отрицательные суммы),
+// без сторнированных проводок
+export const getClientPayments = async (clientId: string): Promise<ClientPayment[]> => {
+  const category = await getEntityCategory('client', clientId);
+  if (!category) return [];
+
+  const transactionsSnapshot = await getDocs(query(
+    collection(db, 'transactions'),
+    where('categoryId', '==', category.id)
+  ));
+
+  return transactionsSnapshot.docs
+    .filter(doc => isClientPayment(doc.data()))
+    .map(toClientPayment);
+};
+
+// Поступления всех клиентов по id клиента. Подписка на категории клиентов
+// определяет, какие проводки слушать: на каждую порцию id категорий — своя
+// подписка. При смене набора категорий подписки на проводки пересоздаются
+export const subscribeToAllClientPayments = (
+  onUpdate: (payments: Map<string, ClientPayment[]>) => void,
+  onError?: (error: Error) => void
+) => {
+  let clientIds = new Map<string, string>();
+  let categoryKey: string | null = null;
+  let chunkDocs: (QueryDocumentSnapshot<DocumentData>[] | null)[] = [];
+  let unsubscribeChunks: (() => void)[] = [];
+
+  const emit = () => {
+    if (chunkDocs.some(docs => docs === null)) return;
+    const payments = new Map<string, ClientPayment[]>();
+    chunkDocs.forEach(docs => docs?.forEach(doc => {
+      const clientId = clientIds.get(doc.data().categoryId);
+      if (!clientId || !isClientPayment(doc.data())) return;
+      payments.set(clientId, [...(payments.get(clientId) || []), toClientPayment(doc)]);
+    }));
+    onUpdate(payments);
+  };
+
+  const handleError = (error: Error) => {
+    console.error('Error loading client payments:', error);
+    onError?.(error);
+  };
+
+  const stopChunks = () => {
+    unsubscribeChunks.forEach(unsubscribe => unsubscribe());
+    unsubscribeChunks = [];
+  };
+
+  const unsubscribeCategories = onSnapshot(
+    query(collection(db, 'categories'), where('entityType', '==', 'client')),
+    (snapshot) => {
+      clientIds = new Map(snapshot.docs.map(doc => [doc.id, doc.data().entityId as string]));
+
+      const categoryIds = Array.from(clientIds.keys()).sort();
+      const nextKey = categoryIds.join(',');
+      if (nextKey === categoryKey) {
+        emit();
+        return;
+      }
+      categoryKey = nextKey;
+
+      stopChunks();
+      const chunks = chunk(categoryIds);
+      chunkDocs = chunks.map(() => null);
+      unsubscribeChunks = chunks.map((ids, index) => onSnapshot(
+        query(collection(db, 'transactions'), where('categoryId', 'in', ids)),
+        (transactionsSnapshot) => {
+          chunkDocs[index] = transactionsSnapshot.docs;
+          emit();
+        },
+        handleError
+      ));
+      emit();
+    },
+    handleError
+  );
+
+  return () => {
+    unsubscribeCategories();
+    stopChunks();
+  };
+};
@@ -0,0 +1,47 @@
+import { collection, doc, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { db } from './config';
+import { addCategory } from './categories';
+import { prepareNextNumber } from './counters';
+import { NewClient } from '../../types/client';
+
+// Создаёт клиента с номером из общего счётчика и его иконки клиента и проекта.
+// Возвращает id нового клиента
+export const createClient = async (client: NewClient): Promise<string> => {
+  // Номер выдаётся общим счётчиком и не зависит от статуса клиента;
+  // счётчик и клиент пишутся одной транзакцией
+  const allocateNumber = await prepareNextNumber('client', { year: client.year });
+  const clientRef = doc(collection(db, 'clients'));
+
+  await runTransaction(db, async (transaction) => {
+    const clientNumber = await allocateNumber(transaction);
+    transaction.set(clientRef, {
+      ...client,
+      clientNumber,
+      createdAt: serverTimestamp()
+    });
+  });
+
+  // Создаем иконки клиента и проекта, связанные с клиентом по ID (кроме "Milyuk Vitaliy")
+  if (!(client.lastName === "Milyuk" && client.firstName === "Vitaliy")) {
+    await Promise.all([
+      addCategory({
+        title: `${client.lastName} ${client.firstName}`,
+        icon: 'Building2',
+        color: 'bg-blue-500',
+        row: 3,
+        entityType: 'project',
+        entityId: clientRef.id
+      }),
+      addCategory({
+        title: `${client.lastName} ${client.firstName}`,
+        icon: 'User',
+        color: 'bg-amber-400',
+        row: 1,
+        entityType: 'client',
+        entityId: clientRef.id
+      })
+    ]);
+  }
+
+  return clientRef.id;
+};
@@ -0,0 +1,144 @@
+import {
+  collection,
+  doc,
+  updateDoc,
+  query,
+  where,
+  getDocs,
+  onSnapshot,
+  arrayUnion,
+  runTransaction,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from './config';
+import { auth } from './auth';
+import { prepareNextNumber } from './counters';
+import { getClientPayments } from './clientPayments';
+import { getCurrentEstimateDocuments } from './estimateVersions';
+import { Client, ClientFile, ConstructionStage, CONSTRUCTION_STAGES } from '../../types/client';
+import { Contract } from '../../types/contract';
+import { ClosingDocument, ClosingDocumentDraft, ClosingDocumentType } from '../../types/closingDocument';
+import { getActLines, getInvoiceLines } from '../../utils/closingDocuments';
+import { getContractStatus } from '../../utils/contracts';
+import { getIncludedVat } from '../../utils/estimatePricing';
+
+// Номер договора, к которому выставляется документ: подписанный, иначе
+// последний действующий; без договоров — номер клиента
+const getClosingContractNumber = async (client: Client): Promise<string> => {
+  const snapshot = await getDocs(query(collection(db, 'contracts'), where('clientId', '==', client.id)));
+  const contracts = (snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Contract[])
+    .filter(contract => getContractStatus(contract) !== 'terminated')
+    .sort((a, b) => (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0));
+
+  const contract = contracts.find(item => getContractStatus(item) === 'signed') || contracts[0];
+  return contract?.contractNumber || client.clientNumber;
+};
+
+// Собирает акт по смете или счёт по графику платежей для этапа — без номера
+export const prepareClosingDocument = async (
+  client: Client,
+  type: ClosingDocumentType,
+  stage: ConstructionStage,
+  date: string
+): Promise<ClosingDocumentDraft> => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error('Укажите дату документа');
+  }
+  if (!(client.totalAmount > 0)) {
+    throw new Error('Не указана цена договора');
+  }
+
+  const stageLabel = CONSTRUCTION_STAGES[stage];
+  let lines;
+  if (type === 'act') {
+    lines = getActLines(client, await getCurrentEstimateDocuments(client.id), stage);
+    if (lines.length === 0) {
+      throw new Error(`В смете нет работ этапа «${stageLabel}»`);
+    }
+  } else {
+    lines = getInvoiceLines(client, await getClientPayments(client.id), stage);
+    if (lines.length === 0) {
+      throw new Error(`В графике платежей нет неоплаченных траншей этапа «${stageLabel}»`);
+    }
+  }
+
+  const totalAmount = lines.reduce((sum, line) => sum + line.amount, 0);
+  const vatRate = Number(client.vatRate) || 0;
+
+  return {
+    type,
+    clientId: client.id,
+    clientNumber: client.clientNumber,
+    clientName: [client.lastName, client.firstName, client.middleName].filter(Boolean).join(' '),
+    clientIin: client.iin,
+    constructionAddress: client.constructionAddress,
+    contractNumber: await getClosingContractNumber(client),
+    stage,
+    date,
+    lines,
+    totalAmount,
+    vatRate,
+    vatAmount: vatRate ? getIncludedVat(totalAmount, vatRate) : 0
+  };
+};
+
+// Присваивает документу очередной номер своего вида и сохраняет его в той же
+// транзакции, чтобы номер не пропадал при ошибке записи
+export const saveClosingDocument = async (draft: ClosingDocumentDraft): Promise<ClosingDocument> => {
+  const allocateNumber = await prepareNextNumber(draft.type, { year: parseInt(draft.date.slice(0, 4)) });
+  const createdBy = auth.currentUser?.displayName || auth.currentUser?.email || null;
+  const docRef = doc(collection(db, 'closingDocuments'));
+
+  const number = await runTransaction(db, async (transaction) => {
+    const documentNumber = await allocateNumber(transaction);
+    transaction.set(docRef, {
+      ...draft,
+      number: documentNumber,
+      createdAt: serverTimestamp(),
+      createdBy
+    });
+    return documentNumber;
+  });
+
+  return { ...draft, id: docRef.id, number, createdBy };
+};
+
+// Прикрепляет сформированный PDF к документу и к файлам клиента
+export const attachClosingDocumentFile = async (
+  document: ClosingDocument,
+  file: ClientFile
+): Promise<void> => {
+  await Promise.all([
+    updateDoc(doc(db, 'closingDocuments', document.id), { file }),
+    updateDoc(doc(db, 'clients', document.clientId), {
+      files: arrayUnion(file),
+      updatedAt: serverTimestamp()
+    })
+  ]);
+};
+
+// Акты и счета клиента, новые сверху
+export const subscribeToClientClosingDocuments = (
+  clientId: string,
+  onUpdate: (documents: ClosingDocument[]) => void,
+  onError?: (error: Error) => void
+) => {
+  const q = query(collection(db, 'closingDocuments'), where('clientId', '==', clientId));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const documents = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as ClosingDocument[];
+
+      documents.sort((a, b) => b.date.localeCompare(a.date) || b.number.localeCompare(a.number));
+      onUpdate(documents);
+    },
+    (error) => {
+      console.error('Error loading closing documents:', error);
+      onError?.(error);
+    }
+  );
+};
@@ -0,0 +1,186 @@
+import { collection, doc, getDoc, onSnapshot, query, where, runTransaction, writeBatch, serverTimestamp } from 'firebase/firestore';
+import { db } from './config';
+import { auth } from './auth';
+import { Contract, ContractBlock, ContractTemplate, ContractTemplateInput, ContractTemplateVersion } from '../../types/contract';
+import {
+  DEFAULT_CONTRACT_TEMPLATE,
+  findTemplateErrors,
+  getContractClientData,
+  getContractDate,
+  renderContractTemplate
+} from '../../utils/contractTemplates';
+
+const versionId = (templateId: string, version: number) => `${templateId}_v${version}`;
+
+const currentUserName = () => auth.currentUser?.displayName || auth.currentUser?.email || null;
+
+const defaultTemplateVersion = (): ContractTemplateVersion => ({
+  id: versionId(DEFAULT_CONTRACT_TEMPLATE.id, DEFAULT_CONTRACT_TEMPLATE.version),
+  templateId: DEFAULT_CONTRACT_TEMPLATE.id,
+  version: DEFAULT_CONTRACT_TEMPLATE.version,
+  title: DEFAULT_CONTRACT_TEMPLATE.title,
+  body: DEFAULT_CONTRACT_TEMPLATE.body
+});
+
+// Все шаблоны договоров. Пока базовый шаблон не записан в базу, он берётся из кода
+export const subscribeToContractTemplates = (
+  onUpdate: (templates: ContractTemplate[]) => void,
+  onError?: (error: Error) => void
+) => {
+  return onSnapshot(
+    collection(db, 'contractTemplates'),
+    (snapshot) => {
+      const templates = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as ContractTemplate[];
+
+      if (!templates.some(template => template.id === DEFAULT_CONTRACT_TEMPLATE.id)) {
+        templates.push(DEFAULT_CONTRACT_TEMPLATE);
+      }
+      templates.sort((a, b) => a.title.localeCompare(b.title));
+      onUpdate(templates);
+    },
+    (error) => {
+      console.error('Error loading contract templates:', error);
+      onError?.(error);
+    }
+  );
+};
+
+// Версии шаблона, новые сверху
+export const subscribeToContractTemplateVersions = (
+  templateId: string,
+  onUpdate: (versions: ContractTemplateVersion[]) => void,
+  onError?: (error: Error) => void
+) => {
+  const q = query(collection(db, 'contractTemplateVersions'), where('templateId', '==', templateId));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const versions = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as ContractTemplateVersion[];
+
+      if (templateId === DEFAULT_CONTRACT_TEMPLATE.id && !versions.some(version => version.version === 1)) {
+        versions.push(defaultTemplateVersion());
+      }
+      versions.sort((a, b) => b.version - a.version);
+      onUpdate(versions);
+    },
+    (error) => {
+      console.error('Error loading contract template versions:', error);
+      onError?.(error);
+    }
+  );
+};
+
+// Версия шаблона, по которой сформирован договор
+export const getContractTemplateVersion = async (
+  templateId: string,
+  version: number
+): Promise<ContractTemplateVersion | null> => {
+  const snapshot = await getDoc(doc(db, 'contractTemplateVersions', versionId(templateId, version)));
+  if (snapshot.exists()) {
+    return { id: snapshot.id, ...snapshot.data() } as ContractTemplateVersion;
+  }
+  return templateId === DEFAULT_CONTRACT_TEMPLATE.id && version === DEFAULT_CONTRACT_TEMPLATE.version
+    ? defaultTemplateVersion()
+    : null;
+};
+
+// Текст договора по версии шаблона, с которой он создан, и сохранённым данным клиента.
+// Договоры без templateId созданы до появления шаблонов — по базовому договору
+export const getContractBlocks = async (contract: Contract): Promise<ContractBlock[]> => {
+  const version = await getContractTemplateVersion(
+    contract.templateId || DEFAULT_CONTRACT_TEMPLATE.id,
+    contract.templateVersion || DEFAULT_CONTRACT_TEMPLATE.version
+  );
+  if (!version) {
+    throw new Error('Версия шаблона договора не найдена');
+  }
+  return renderContractTemplate(version.body, getContractClientData(contract), getContractDate(contract));
+};
+
+// Сохраняет шаблон новой версией; прежние версии не изменяются.
+// Без templateId создаёт новый шаблон. Возвращает id шаблона и номер версии
+export const saveContractTemplate = async (
+  input: ContractTemplateInput,
+  templateId?: string
+): Promise<{ id: string; version: number }> => {
+  const title = input.title.trim();
+  if (!title) {
+    throw new Error('Укажите название шаблона');
+  }
+  if (!input.body.trim()) {
+    throw new Error('Текст шаблона пуст');
+  }
+  const errors = findTemplateErrors(input.body);
+  if (errors.length) {
+    throw new Error(errors.join('\n'));
+  }
+
+  const templateRef = templateId
+    ? doc(db, 'contractTemplates', templateId)
+    : doc(collection(db, 'contractTemplates'));
+
+  const version = await runTransaction(db, async (transaction) => {
+    const current = await transaction.get(templateRef);
+    // Базовый шаблон из кода считается версией 1, даже если его нет в базе
+    const previousVersion = current.exists()
+      ? Number(current.data().version) || 0
+      : templateRef.id === DEFAULT_CONTRACT_TEMPLATE.id ? DEFAULT_CONTRACT_TEMPLATE.version : 0;
+    const nextVersion = previousVersion + 1;
+
+    transaction.set(templateRef, {
+      title,
+      description: input.description.trim(),
+      body: input.body,
+      version: nextVersion,
+      updatedAt: serverTimestamp(),
+      updatedBy: currentUserName(),
+      ...(current.exists() ? {} : { createdAt: serverTimestamp() })
+    }, { merge: true });
+
+    transaction.set(doc(db, 'contractTemplateVersions', versionId(templateRef.id, nextVersion)), {
+      templateId: templateRef.id,
+      version: nextVersion,
+      title,
+      body: input.body,
+      createdAt: serverTimestamp(),
+      createdBy: currentUserName()
+    });
+
+    return nextVersion;
+  });
+
+  return { id: templateRef.id, version };
+};
+
+// Записывает базовый шаблон договора под id 'default', если его ещё нет.
+// Возвращает true, если документ был создан
+export const seedDefaultContractTemplate = async (): Promise<boolean> => {
+  const templateRef = doc(db, 'contractTemplates', DEFAULT_CONTRACT_TEMPLATE.id);
+  if ((await getDoc(templateRef)).exists()) return false;
+
+  const batch = writeBatch(db);
+  batch.set(templateRef, {
+    title: DEFAULT_CONTRACT_TEMPLATE.title,
+    description: DEFAULT_CONTRACT_TEMPLATE.description,
+    body: DEFAULT_CONTRACT_TEMPLATE.body,
+    version: DEFAULT_CONTRACT_TEMPLATE.version,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp()
+  });
+  batch.set(doc(db, 'contractTemplateVersions', versionId(DEFAULT_CONTRACT_TEMPLATE.id, DEFAULT_CONTRACT_TEMPLATE.version)), {
+    templateId: DEFAULT_CONTRACT_TEMPLATE.id,
+    version: DEFAULT_CONTRACT_TEMPLATE.version,
+    title: DEFAULT_CONTRACT_TEMPLATE.title,
+    body: DEFAULT_CONTRACT_TEMPLATE.body,
+    createdAt: serverTimestamp()
+  });
+  await batch.commit();
+  return true;
+};
@@ -1,12 +1,47 @@
-import { collection, addDoc, query, where, getDocs, writeBatch, serverTimestamp } from 'firebase/firestore';
-import { db } from './config';
+import {
+  collection,
+  doc,
+  addDoc,
+  deleteDoc,
+  updateDoc,
+  query,
+  where,
+  getDocs,
+  onSnapshot,
+  runTransaction,
+  writeBatch,
+  serverTimestamp
+} from 'firebase/firestore';
+import { ref, deleteObject } from 'firebase/storage';
+import { db, storage } from './config';
+import { auth } from './auth';
+import { prepareNextNumber } from './counters';
+import { Client } from '../../types/client';
+import {
+  Contract,
+  ContractAmendment,
+  ContractAmendmentInput,
+  ContractInput,
+  ContractScan,
+  ContractStatus,
+  ContractTemplate,
+  CONTRACT_STATUSES
+} from '../../types/contract';
+import { CONTRACT_STATUS_TRANSITIONS, canDeleteContract, getContractConstructionDays, getContractStatus } from '../../utils/contracts';
+import { getIncludedVat } from '../../utils/estimatePricing';
+import { ClientPaymentTerms, shiftLastTranche } from '../../utils/paymentSchedule';
 
-export const addContract = async (contractData: any) => {
+// Новый договор создаётся черновиком
+const getNewContractData = (contract: ContractInput) => ({
+  ...contract,
+  status: 'draft',
+  statusChangedAt: serverTimestamp(),
+  createdAt: serverTimestamp()
+});
+
+export const addContract = async (contract: ContractInput): Promise<string> => {
   try {
-    const docRef = await addDoc(collection(db, 'contracts'), {
-      ...contractData,
-      createdAt: serverTimestamp()
-    });
+    const docRef = await addDoc(collection(db, 'contracts'), getNewContractData(contract));
     return docRef.id;
   } catch (error) {
     console.error('Error adding contract:', error);
@@ -14,19 +49,243 @@ export const addContract = async (contractData: any) => {
   }
 };
 
+// Создаёт договор клиента по текущей версии шаблона. Данные клиента
+// сохраняются на момент создания, чтобы договор не менялся вместе с карточкой.
+// Номер присваивается в той же транзакции, что и запись договора
+export const createContract = async (client: Client, template: ContractTemplate) => {
+  const allocateNumber = await prepareNextNumber('contract');
+  const contractRef = doc(collection(db, 'contracts'));
+
+  const contractNumber = await runTransaction(db, async (transaction) => {
+    const number = await allocateNumber(transaction);
+    transaction.set(contractRef, getNewContractData({
+      clientId: client.id,
+      clientNumber: client.clientNumber,
+      clientName: client.firstName,
+      clientLastName: client.lastName,
+      contractNumber: number,
+      contractType: template.title,
+      templateId: template.id,
+      templateVersion: template.version,
+      totalAmount: client.totalAmount,
+      constructionDays: client.constructionDays,
+      content: JSON.stringify({ ...client, contractNumber: number })
+    }));
+    return number;
+  });
+
+  return { id: contractRef.id, contractNumber };
+};
+
+// Договоры клиента, новые сверху
+export const subscribeToClientContracts = (
+  clientId: string,
+  onUpdate: (contracts: Contract[]) => void,
+  onError?: (error: Error) => void
+) => {
+  const q = query(collection(db, 'contracts'), where('clientId', '==', clientId));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const contracts = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as Contract[];
+
+      contracts.sort((a, b) => (b.createdAt?.toMillis() ?? Date.now()) - (a.createdAt?.toMillis() ?? Date.now()));
+      onUpdate(contracts);
+    },
+    (error) => {
+      console.error('Error loading client contracts:', error);
+      onError?.(error);
+    }
+  );
+};
+
+export const updateContractStatus = async (
+  contract: Contract,
+  status: ContractStatus,
+  terminationReason?: string
+): Promise<void> => {
+  const current = getContractStatus(contract);
+  if (!CONTRACT_STATUS_TRANSITIONS[current].includes(status)) {
+    throw new Error(`Нельзя перевести договор из статуса «${CONTRACT_STATUSES[current]}» в «${CONTRACT_STATUSES[status]}»`);
+  }
+  if (status === 'signed' && !contract.signedScan) {
+    throw new Error('Загрузите скан подписанного договора');
+  }
+  if (status === 'terminated' && !terminationReason?.trim()) {
+    throw new Error('Укажите причину расторжения');
+  }
+
+  await updateDoc(doc(db, 'contracts', contract.id), {
+    status,
+    statusChangedAt: serverTimestamp(),
+    ...(status === 'signed' ? { signedAt: serverTimestamp() } : {}),
+    ...(status === 'terminated' ? { terminatedAt: serverTimestamp(), terminationReason: terminationReason?.trim() } : {})
+  });
+};
+
+// Прикрепляет загруженный скан подписанного экземпляра. Черновик или
+// отправленный договор при этом становится подписанным; прежний скан удаляется
+export const attachSignedScan = async (
+  contract: Contract,
+  scan: Omit<ContractScan, 'uploadedAt'>
+): Promise<void> => {
+  const status = getContractStatus(contract);
+  if (status === 'terminated') {
+    throw new Error('Договор расторгнут');
+  }
+
+  await updateDoc(doc(db, 'contracts', contract.id), {
+    signedScan: { ...scan, uploadedAt: serverTimestamp() },
+    ...(status !== 'signed'
+      ? { status: 'signed', statusChangedAt: serverTimestamp(), signedAt: serverTimestamp() }
+      : {})
+  });
+
+  if (contract.signedScan && contract.signedScan.path !== scan.path) {
+    await deleteObject(ref(storage, contract.signedScan.path)).catch(error => {
+      console.error('Error deleting previous contract scan:', error);
+    });
+  }
+};
+
+export const deleteContract = async (contract: Contract): Promise<void> => {
+  if (!canDeleteContract(contract)) {
+    throw new Error('Подписанный договор нельзя удалить, его можно только расторгнуть');
+  }
+  await deleteDoc(doc(db, 'contracts', contract.id));
+};
+
+// Доп. соглашения к договору, по порядку номеров
+export const subscribeToContractAmendments = (
+  contractId: string,
+  onUpdate: (amendments: ContractAmendment[]) => void,
+  onError?: (error: Error) => void
+) => {
+  const q = query(collection(db, 'contractAmendments'), where('contractId', '==', contractId));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const amendments = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as ContractAmendment[];
+
+      amendments.sort((a, b) => a.number - b.number);
+      onUpdate(amendments);
+    },
+    (error) => {
+      console.error('Error loading contract amendments:', error);
+      onError?.(error);
+    }
+  );
+};
+
+export interface AppliedContractAmendment {
+  number: number;
+  // Новые суммы траншей клиента; null — график нужно пересчитать вручную
+  payments: ClientPaymentTerms | null;
+}
+
+// Доп. соглашение к подписанному договору. Новые цена и срок
+// записываются в договор и в карточку клиента, прежние — в соглашение.
+// Разница в цене переносится на последний транш графика клиента
+export const createContractAmendment = async (
+  contract: Contract,
+  input: ContractAmendmentInput
+): Promise<AppliedContractAmendment> => {
+  if (!input.description.trim()) {
+    throw new Error('Опишите изменения по соглашению');
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date)) {
+    throw new Error('Укажите дату соглашения');
+  }
+  if (!(input.totalAmount > 0)) {
+    throw new Error('Укажите цену договора');
+  }
+  if (!(input.constructionDays > 0)) {
+    throw new Error('Укажите срок строительства');
+  }
+
+  const contractRef = doc(db, 'contracts', contract.id);
+  const clientRef = doc(db, 'clients', contract.clientId);
+
+  return runTransaction(db, async (transaction) => {
+    const [contractSnapshot, clientSnapshot] = await Promise.all([
+      transaction.get(contractRef),
+      transaction.get(clientRef)
+    ]);
+    if (!contractSnapshot.exists()) {
+      throw new Error('Договор не найден');
+    }
+
+    // Статус проверяется по договору из транзакции: его могли отозвать,
+    // пока открыта форма соглашения
+    const current = { id: contractSnapshot.id, ...contractSnapshot.data() } as Contract;
+    if (getContractStatus(current) !== 'signed') {
+      throw new Error('Доп. соглашение заключается только к подписанному договору');
+    }
+    const number = (current.amendmentCount || 0) + 1;
+    const payments = clientSnapshot.exists()
+      ? shiftLastTranche(clientSnapshot.data() as ClientPaymentTerms, input.totalAmount - (Number(current.totalAmount) || 0))
+      : null;
+
+    transaction.set(doc(collection(db, 'contractAmendments')), {
+      contractId: contract.id,
+      clientId: contract.clientId,
+      number,
+      date: input.date,
+      description: input.description.trim(),
+      previousTotalAmount: current.totalAmount,
+      totalAmount: input.totalAmount,
+      previousConstructionDays: getContractConstructionDays(current),
+      constructionDays: input.constructionDays,
+      paymentsAdjusted: payments !== null,
+      createdAt: serverTimestamp(),
+      createdBy: auth.currentUser?.displayName || auth.currentUser?.email || null
+    });
+
+    transaction.update(contractRef, {
+      totalAmount: input.totalAmount,
+      constructionDays: input.constructionDays,
+      amendmentCount: number
+    });
+
+    if (clientSnapshot.exists()) {
+      const vatRate = Number(clientSnapshot.data().vatRate) || 0;
+      transaction.update(clientRef, {
+        totalAmount: input.totalAmount,
+        constructionDays: input.constructionDays,
+        ...(vatRate ? { vatAmount: getIncludedVat(input.totalAmount, vatRate) } : {}),
+        ...payments,
+        updatedAt: serverTimestamp()
+      });
+    }
+
+    return { number, payments };
+  });
+};
+
 export const deleteClientContracts = async (clientId: string) => {
   try {
-    const q = query(collection(db, 'contracts'), where('clientId', '==', clientId));
-    const querySnapshot = await getDocs(q);
-    
+    const [contractsSnapshot, amendmentsSnapshot, closingSnapshot] = await Promise.all([
+      getDocs(query(collection(db, 'contracts'), where('clientId', '==', clientId))),
+      getDocs(query(collection(db, 'contractAmendments'), where('clientId', '==', clientId))),
+      getDocs(query(collection(db, 'closingDocuments'), where('clientId', '==', clientId)))
+    ]);
+
     const batch = writeBatch(db);
-    querySnapshot.docs.forEach(doc => {
+    [...contractsSnapshot.docs, ...amendmentsSnapshot.docs, ...closingSnapshot.docs].forEach(doc => {
       batch.delete(doc.ref);
     });
-    
+
     await batch.commit();
   } catch (error) {
     console.error('Error deleting client contracts:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
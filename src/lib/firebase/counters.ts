@@ -0,0 +1,161 @@
+import { collection, doc, getDoc, getDocs, query, where, setDoc, onSnapshot, serverTimestamp, Transaction } from 'firebase/firestore';
+import { db } from './config';
+import { assertPermission } from './users';
+
+export type CounterKey = 'client' | 'contract' | 'proposal' | 'act' | 'invoice' | 'income' | 'expense' | 'transfer';
+
+interface CounterOptions {
+  year?: number;
+}
+
+// Формат номера: {year} — год, {seq} — порядковый номер, {seq:3} — с дополнением нулями
+export const DEFAULT_COUNTER_FORMATS: Record<CounterKey, string> = {
+  client: '{year}-{seq:3}',
+  contract: '{year}-{seq:3}',
+  proposal: 'КП-{year}-{seq:3}',
+  act: 'АВР-{year}-{seq:3}',
+  invoice: 'СЧ-{year}-{seq:3}',
+  income: 'ПН-{year}-{seq:4}',
+  expense: 'РН-{year}-{seq:4}',
+  transfer: 'ПМ-{year}-{seq:3}'
+};
+
+export const COUNTER_LABELS: Record<CounterKey, string> = {
+  client: 'Клиенты',
+  contract: 'Договоры',
+  proposal: 'Коммерческие предложения',
+  act: 'Акты выполненных работ',
+  invoice: 'Счета на оплату',
+  income: 'Приходные накладные',
+  expense: 'Расходные накладные',
+  transfer: 'Перемещения'
+};
+
+// Поле с номером в существующих документах — для начального значения счётчика
+const COUNTER_SOURCES: Record<CounterKey, { collection: string; field: string; yearField?: string }> = {
+  client: { collection: 'clients', field: 'clientNumber', yearField: 'year' },
+  contract: { collection: 'contracts', field: 'contractNumber' },
+  proposal: { collection: 'commercialProposals', field: 'number' },
+  act: { collection: 'closingDocuments', field: 'number' },
+  invoice: { collection: 'closingDocuments', field: 'number' },
+  income: { collection: 'warehouseDocuments', field: 'documentNumber' },
+  expense: { collection: 'warehouseDocuments', field: 'documentNumber' },
+  transfer: { collection: 'warehouseDocuments', field: 'documentNumber' }
+};
+
+export const formatCounterNumber = (format: string, seq: number, year: number): string =>
+  format
+    .replace(/\{year\}/g, String(year))
+    .replace(/\{seq(?::(\d+))?\}/g, (_, width) =>
+      width ? String(seq).padStart(Number(width), '0') : String(seq)
+    );
+
+// Последовательность сбрасывается по годам, только если год есть в формате
+const getScope = (format: string, year: number): string =>
+  format.includes('{year}') ? String(year) : 'all';
+
+// Разбирает номер по формату и возвращает порядковую часть
+const parseSequence = (format: string, year: number, value: unknown): number => {
+  if (typeof value !== 'string') return 0;
+
+  const pattern = format
+    .split(/(\{year\}|\{seq(?::\d+)?\})/)
+    .map(part => {
+      if (part === '{year}') return String(year);
+      if (part.startsWith('{seq')) return '(\\d+)';
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = value.match(new RegExp(`^${pattern}$`));
+  return match ? parseInt(match[1]) : 0;
+};
+
+// Максимальный номер среди уже существующих документов — чтобы счётчик,
+// заведённый поверх старых данных, не выдал занятый номер
+const findExistingMaxSequence = async (key: CounterKey, format: string, year: number): Promise<number> => {
+  const source = COUNTER_SOURCES[key];
+  const sourceQuery = source.yearField && format.includes('{year}')
+    ? query(collection(db, source.collection), where(source.yearField, '==', year))
+    : collection(db, source.collection);
+
+  const snapshot = await getDocs(sourceQuery);
+  return snapshot.docs.reduce(
+    (max, doc) => Math.max(max, parseSequence(format, year, doc.data()[source.field])),
+    0
+  );
+};
+
+// Готовит выдачу номера внутри транзакции вызывающего: возвращённая функция
+// читает и увеличивает счётчик, поэтому вызывается после остальных чтений
+// и до записей транзакции. Номер и документ сохраняются вместе — неудачная запись
+// не оставляет пропуска в нумерации
+export const prepareNextNumber = async (
+  key: CounterKey,
+  options: CounterOptions = {}
+): Promise<(transaction: Transaction) => Promise<string>> => {
+  const year = options.year ?? new Date().getFullYear();
+  const counterRef = doc(db, 'counters', key);
+
+  const counterSnap = await getDoc(counterRef);
+  const format: string = counterSnap.data()?.format || DEFAULT_COUNTER_FORMATS[key];
+  const scope = getScope(format, year);
+  const seed = counterSnap.data()?.sequences?.[scope] === undefined
+    ? await findExistingMaxSequence(key, format, year)
+    : 0;
+
+  return async (transaction) => {
+    const snap = await transaction.get(counterRef);
+    const data = snap.data();
+    const currentFormat: string = data?.format || DEFAULT_COUNTER_FORMATS[key];
+    const currentScope = getScope(currentFormat, year);
+    const current = data?.sequences?.[currentScope] ?? seed;
+    const next = current + 1;
+
+    transaction.set(counterRef, {
+      sequences: { [currentScope]: next },
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+
+    return formatCounterNumber(currentFormat, next, year);
+  };
+};
+
+// Текущие форматы номеров; для счётчиков без своего формата — по умолчанию
+export const subscribeToCounterFormats = (
+  onUpdate: (formats: Record<CounterKey, string>) => void,
+  onError?: (error: Error) => void
+) => {
+  return onSnapshot(
+    collection(db, 'counters'),
+    (snapshot) => {
+      const formats = { ...DEFAULT_COUNTER_FORMATS };
+      snapshot.docs.forEach(counterDoc => {
+        const format = counterDoc.data().format;
+        if (Object.prototype.hasOwnProperty.call(formats, counterDoc.id) && typeof format === 'string' && format) {
+          formats[counterDoc.id as CounterKey] = format;
+        }
+      });
+      onUpdate(formats);
+    },
+    (error) => {
+      console.error('Error loading counters:', error);
+      onError?.(error);
+    }
+  );
+};
+
+// Новый формат действует со следующего номера. Последовательность
+// продолжается, если формат по-прежнему с годом или по-прежнему без него
+export const setCounterFormat = async (key: CounterKey, format: string): Promise<void> => {
+  const value = format.trim();
+  if (!/\{seq(?::\d+)?\}/.test(value)) {
+    throw new Error('Формат номера должен содержать {seq}');
+  }
+  await assertPermission('manageNumbering');
+
+  await setDoc(doc(db, 'counters', key), {
+    format: value,
+    updatedAt: serverTimestamp()
+  }, { merge: true });
+};
@@ -0,0 +1,127 @@
+import { collection, doc, getDoc, getDocs, onSnapshot, query, setDoc, where, writeBatch, serverTimestamp } from 'firebase/firestore';
+import { db } from './config';
+import { EstimateItemConfig, EstimateSectionConfig, EstimateSectionId } from '../../types/estimate';
+import { DEFAULT_ESTIMATE_SECTIONS } from '../../utils/estimateSections';
+import { validateFormula } from '../../utils/formulaEvaluator';
+
+// Конфигурация раздела сметы; пока документа нет, используются нормы по умолчанию
+export const subscribeToEstimateSection = (
+  sectionId: EstimateSectionId,
+  onUpdate: (config: EstimateSectionConfig) => void
+) => {
+  return onSnapshot(
+    doc(db, 'estimateSections', sectionId),
+    (snapshot) => {
+      if (snapshot.exists() && Array.isArray(snapshot.data().items)) {
+        const data = snapshot.data();
+        onUpdate({
+          id: sectionId,
+          title: data.title || DEFAULT_ESTIMATE_SECTIONS[sectionId].title,
+          items: data.items
+        });
+      } else {
+        onUpdate(DEFAULT_ESTIMATE_SECTIONS[sectionId]);
+      }
+    },
+    (error) => {
+      console.error(`Error loading estimate section ${sectionId}:`, error);
+      onUpdate(DEFAULT_ESTIMATE_SECTIONS[sectionId]);
+    }
+  );
+};
+
+export const saveEstimateSection = async (config: EstimateSectionConfig): Promise<void> => {
+  const ids = new Set<string>();
+  config.items.forEach(item => {
+    if (ids.has(item.id)) {
+      throw new Error(`Повторяющийся id позиции «${item.id}»`);
+    }
+    ids.add(item.id);
+
+    const formulaError = item.quantityFormula ? validateFormula(item.quantityFormula) : null;
+    if (formulaError) {
+      throw new Error(`${item.name}: ${formulaError}`);
+    }
+  });
+
+  await setDoc(doc(db, 'estimateSections', config.id), {
+    title: config.title,
+    items: config.items,
+    updatedAt: serverTimestamp()
+  });
+};
+
+// Записывает нормы по умолчанию в разделы, для которых ещё нет конфигурации.
+// С overwrite перезаписывает и существующие. Возвращает id записанных разделов.
+export const seedEstimateSections = async (
+  options: { overwrite?: boolean } = {}
+): Promise<EstimateSectionId[]> => {
+  const batch = writeBatch(db);
+  const written: EstimateSectionId[] = [];
+
+  for (const config of Object.values(DEFAULT_ESTIMATE_SECTIONS)) {
+    const sectionRef = doc(db, 'estimateSections', config.id);
+    if (!options.overwrite && (await getDoc(sectionRef)).exists()) continue;
+
+    batch.set(sectionRef, {
+      title: config.title,
+      items: config.items,
+      updatedAt: serverTimestamp()
+    });
+    written.push(config.id);
+  }
+
+  await batch.commit();
+  return written;
+};
+
+export interface ProductLinkResult {
+  linked: number;
+  // Позиции, для которых товар в каталоге не найден: «раздел.id — название»
+  missing: string[];
+}
+
+// Проставляет позициям конфигурации id товаров каталога, найденных по названию.
+// Позиции без названия товара (работы, «под итог») пропускаются
+export const linkEstimateSectionProducts = async (): Promise<ProductLinkResult> => {
+  const result: ProductLinkResult = { linked: 0, missing: [] };
+  const batch = writeBatch(db);
+
+  for (const sectionId of Object.keys(DEFAULT_ESTIMATE_SECTIONS) as EstimateSectionId[]) {
+    const sectionRef = doc(db, 'estimateSections', sectionId);
+    const sectionSnap = await getDoc(sectionRef);
+    const config: EstimateSectionConfig = sectionSnap.exists() && Array.isArray(sectionSnap.data().items)
+      ? { id: sectionId, title: sectionSnap.data().title, items: sectionSnap.data().items }
+      : DEFAULT_ESTIMATE_SECTIONS[sectionId];
+
+    let changed = false;
+    const items: EstimateItemConfig[] = [];
+    for (const item of config.items) {
+      if (item.productId || !item.productName) {
+        items.push(item);
+        continue;
+      }
+
+      const productsSnap = await getDocs(query(collection(db, 'products'), where('name', '==', item.productName)));
+      if (productsSnap.empty) {
+        result.missing.push(`${sectionId}.${item.id} — ${item.productName}`);
+        items.push(item);
+      } else {
+        items.push({ ...item, productId: productsSnap.docs[0].id });
+        result.linked++;
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      batch.set(sectionRef, {
+        title: config.title,
+        items,
+        updatedAt: serverTimestamp()
+      });
+    }
+  }
+
+  await batch.commit();
+  return result;
+};
@@ -0,0 +1,103 @@
+import { collection, doc, getDoc, addDoc, deleteDoc, onSnapshot, query, where, writeBatch, serverTimestamp } from 'firebase/firestore';
+import { db } from './config';
+import { auth } from './auth';
+import { EstimateDocumentKey, EstimateVersion } from '../../types/estimate';
+import { getEstimateGrandTotal } from '../../utils/estimateDiff';
+
+// Коллекции документов сметы клиента; все документы имеют id клиента
+export const ESTIMATE_DOCUMENTS: { key: EstimateDocumentKey; collection: string; title: string }[] = [
+  { key: 'inputs', collection: 'estimates', title: 'Исходные данные' },
+  { key: 'foundation', collection: 'foundationEstimates', title: 'Фундамент' },
+  { key: 'sipWalls', collection: 'sipWallsEstimates', title: 'Стены из SIP панелей' },
+  { key: 'floor', collection: 'floorEstimates', title: 'Перекрытие' },
+  { key: 'roof', collection: 'roofEstimates', title: 'Кровля' },
+  { key: 'partition', collection: 'partitionEstimates', title: 'Перегородки' },
+  { key: 'consumables', collection: 'consumablesEstimates', title: 'Расходные материалы' },
+  { key: 'additionalWorks', collection: 'additionalWorksEstimates', title: 'Дополнительные работы' }
+];
+
+// Текущее содержимое всех документов сметы клиента
+export const getCurrentEstimateDocuments = async (
+  clientId: string
+): Promise<EstimateVersion['documents']> => {
+  const snapshots = await Promise.all(
+    ESTIMATE_DOCUMENTS.map(({ collection: collectionName }) => getDoc(doc(db, collectionName, clientId)))
+  );
+
+  return ESTIMATE_DOCUMENTS.reduce((documents, { key }, index) => {
+    documents[key] = snapshots[index].exists() ? snapshots[index].data() : null;
+    return documents;
+  }, {} as EstimateVersion['documents']);
+};
+
+// Сохраняет именованную версию сметы («Отправлена клиенту», «Договор подписан» и т.п.)
+export const createEstimateVersion = async (clientId: string, name: string): Promise<string> => {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('Укажите название версии');
+  }
+
+  const documents = await getCurrentEstimateDocuments(clientId);
+  const versionRef = await addDoc(collection(db, 'estimateVersions'), {
+    clientId,
+    name: trimmedName,
+    documents,
+    grandTotal: getEstimateGrandTotal(documents),
+    createdAt: serverTimestamp(),
+    createdBy: auth.currentUser?.displayName || auth.currentUser?.email || null
+  });
+
+  return versionRef.id;
+};
+
+// Версии сметы клиента, новые сверху. Сортировка на клиенте, чтобы не требовать составной индекс
+export const subscribeToEstimateVersions = (
+  clientId: string,
+  onUpdate: (versions: EstimateVersion[]) => void,
+  onError?: (error: Error) => void
+) => {
+  const q = query(collection(db, 'estimateVersions'), where('clientId', '==', clientId));
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const versions = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as EstimateVersion[];
+
+      versions.sort((a, b) => (b.createdAt?.toMillis() ?? Date.now()) - (a.createdAt?.toMillis() ?? Date.now()));
+      onUpdate(versions);
+    },
+    (error) => {
+      console.error('Error loading estimate versions:', error);
+      onError?.(error);
+    }
+  );
+};
+
+// Восстанавливает документы сметы из версии. Перед этим текущее состояние
+// сохраняется отдельной версией, чтобы восстановление можно было отменить
+export const restoreEstimateVersion = async (version: EstimateVersion): Promise<void> => {
+  await createEstimateVersion(version.clientId, `Перед восстановлением «${version.name}»`);
+
+  const batch = writeBatch(db);
+  ESTIMATE_DOCUMENTS.forEach(({ key, collection: collectionName }) => {
+    // Разделов, которых не было в старых версиях, не касаемся
+    if (!(key in version.documents)) return;
+
+    const documentRef = doc(db, collectionName, version.clientId);
+    const data = version.documents[key];
+    if (data) {
+      batch.set(documentRef, { ...data, updatedAt: serverTimestamp() });
+    } else {
+      batch.delete(documentRef);
+    }
+  });
+
+  await batch.commit();
+};
+
+export const deleteEstimateVersion = async (versionId: string): Promise<void> => {
+  await deleteDoc(doc(db, 'estimateVersions', versionId));
+};
@@ -1,5 +1,21 @@
 export * from './config';
 export * from './categories';
 export * from './transactions';
+export * from './ledger';
+export * from './categoryLinks';
+export * from './clientPayments';
+export * from './counters';
+export * from './clients';
+export * from './estimateSections';
+export * from './estimateVersions';
+export * from './materialPlan';
+export * from './priceLists';
+export * from './proposals';
+export * from './profitModel';
 export * from './contracts';
+export * from './contractTemplates';
+export * from './closingDocuments';
+export * from './warehouses';
+export * from './stockPosting';
+export * from './users';
 export * from './auth';
\ No newline at end of file
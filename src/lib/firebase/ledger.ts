@@ -0,0 +1,165 @@
+import { collection, doc, getDoc, getDocs, query, where, runTransaction, updateDoc, serverTimestamp, writeBatch, deleteField, DocumentData } from 'firebase/firestore';
+import { db } from './config';
+import { getCategoryBalance } from './categories';
+
+export interface BalanceDrift {
+  categoryId: string;
+  title: string;
+  storedBalance: number;
+  ledgerBalance: number;
+  drift: number;
+}
+
+interface RecomputeOptions {
+  // Записать пересчитанный баланс в категорию
+  apply?: boolean;
+}
+
+const BATCH_LIMIT = 450;
+
+// Округляем до копеек, чтобы не считать расхождением погрешность float
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const buildDrift = (
+  categoryId: string,
+  data: DocumentData | undefined,
+  ledgerBalance: number
+): BalanceDrift => {
+  const storedBalance = getCategoryBalance(data);
+  const rounded = roundMoney(ledgerBalance);
+  return {
+    categoryId,
+    title: data?.title || '',
+    storedBalance,
+    ledgerBalance: rounded,
+    drift: roundMoney(storedBalance - rounded)
+  };
+};
+
+const needsWrite = (data: DocumentData | undefined, drift: BalanceDrift): boolean =>
+  drift.drift !== 0 || typeof data?.balance !== 'number' || data?.amount !== undefined;
+
+// Пересчитывает баланс одной категории по её транзакциям
+export const recomputeCategoryBalance = async (
+  categoryId: string,
+  options: RecomputeOptions = {}
+): Promise<BalanceDrift> => {
+  const categoryRef = doc(db, 'categories', categoryId);
+  const [categorySnap, transactionsSnap] = await Promise.all([
+    getDoc(categoryRef),
+    getDocs(query(collection(db, 'transactions'), where('categoryId', '==', categoryId)))
+  ]);
+
+  if (!categorySnap.exists()) {
+    throw new Error('Категория не найдена');
+  }
+
+  const ledgerBalance = transactionsSnap.docs.reduce(
+    (sum, doc) => sum + (Number(doc.data().amount) || 0),
+    0
+  );
+  const drift = buildDrift(categoryId, categorySnap.data(), ledgerBalance);
+
+  if (options.apply && needsWrite(categorySnap.data(), drift)) {
+    await updateDoc(categoryRef, {
+      balance: drift.ledgerBalance,
+      amount: deleteField(),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  return drift;
+};
+
+// Сверяет все категории с журналом транзакций и возвращает расхождения
+export const recomputeAllCategoryBalances = async (
+  options: RecomputeOptions = {}
+): Promise<BalanceDrift[]> => {
+  const [categoriesSnap, transactionsSnap] = await Promise.all([
+    getDocs(collection(db, 'categories')),
+    getDocs(collection(db, 'transactions'))
+  ]);
+
+  const sums = new Map<string, number>();
+  transactionsSnap.docs.forEach(doc => {
+    const data = doc.data();
+    if (!data.categoryId) return;
+    sums.set(data.categoryId, (sums.get(data.categoryId) || 0) + (Number(data.amount) || 0));
+  });
+
+  const drifts: BalanceDrift[] = [];
+  let batch = writeBatch(db);
+  let pending = 0;
+
+  for (const categoryDoc of categoriesSnap.docs) {
+    const data = categoryDoc.data();
+    const drift = buildDrift(categoryDoc.id, data, sums.get(categoryDoc.id) || 0);
+
+    if (drift.drift !== 0) {
+      drifts.push(drift);
+    }
+
+    if (options.apply && needsWrite(data, drift)) {
+      batch.update(categoryDoc.ref, {
+        balance: drift.ledgerBalance,
+        amount: deleteField(),
+        updatedAt: serverTimestamp()
+      });
+      pending++;
+
+      if (pending >= BATCH_LIMIT) {
+        await batch.commit();
+        batch = writeBatch(db);
+        pending = 0;
+      }
+    }
+  }
+
+  if (pending > 0) {
+    await batch.commit();
+  }
+
+  return drifts;
+};
+
+// Ручная корректировка баланса проводится корректирующей транзакцией,
+// чтобы баланс всегда совпадал с суммой журнала
+export const adjustCategoryBalance = async (
+  categoryId: string,
+  newBalance: number,
+  description = 'Корректировка баланса'
+): Promise<void> => {
+  if (isNaN(newBalance)) {
+    throw new Error('Некорректная сумма');
+  }
+
+  const categoryRef = doc(db, 'categories', categoryId);
+
+  await runTransaction(db, async (transaction) => {
+    const categorySnap = await transaction.get(categoryRef);
+    if (!categorySnap.exists()) {
+      throw new Error('Категория не найдена');
+    }
+
+    const data = categorySnap.data();
+    const delta = roundMoney(newBalance - getCategoryBalance(data));
+    if (delta === 0) return;
+
+    const timestamp = serverTimestamp();
+    transaction.set(doc(collection(db, 'transactions')), {
+      categoryId,
+      fromUser: data.title,
+      toUser: data.title,
+      amount: delta,
+      description,
+      type: delta > 0 ? 'income' : 'expense',
+      date: timestamp,
+      isAdjustment: true
+    });
+
+    transaction.update(categoryRef, {
+      balance: newBalance,
+      updatedAt: timestamp
+    });
+  });
+};
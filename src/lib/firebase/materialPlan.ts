@@ -0,0 +1,125 @@
+import { collection, documentId, getDocs, query, where } from 'firebase/firestore';
+import { db } from './config';
+import { getEntityCategory } from './categories';
+import { getCurrentEstimateDocuments } from './estimateVersions';
+import { MAIN_WAREHOUSE_ID, MaterialPlanLine, Product } from '../../types/warehouse';
+import { buildBillOfMaterials } from '../../utils/billOfMaterials';
+
+export interface MaterialPlan {
+  project: { id: string; title: string } | null;
+  lines: MaterialPlanLine[];
+  // Товары склада по id — для заполнения расходной накладной
+  products: Record<string, Product>;
+}
+
+// Ограничение Firestore на количество значений в условии 'in'
+const IN_QUERY_LIMIT = 30;
+
+const getProductsBy = async (field: 'id' | 'name', values: string[]): Promise<Product[]> => {
+  const products: Product[] = [];
+  for (let i = 0; i < values.length; i += IN_QUERY_LIMIT) {
+    const chunk = values.slice(i, i + IN_QUERY_LIMIT);
+    const snapshot = await getDocs(query(
+      collection(db, 'products'),
+      where(field === 'id' ? documentId() : 'name', 'in', chunk)
+    ));
+    snapshot.docs.forEach(doc => products.push({ id: doc.id, ...doc.data() } as Product));
+  }
+  return products;
+};
+
+// Расход со склада на проект: движения 'out' с projectId (кроме отменённых), а для списаний,
+// сделанных до появления поля, — по описанию «Списание на проект: …»
+const getIssuedMovements = async (projectId: string, projectTitle: string) => {
+  const [byProject, byDescription] = await Promise.all([
+    getDocs(query(
+      collection(db, 'productMovements'),
+      where('type', '==', 'out'),
+      where('projectId', '==', projectId)
+    )),
+    getDocs(query(
+      collection(db, 'productMovements'),
+      where('description', '==', `Списание на проект: ${projectTitle}`)
+    ))
+  ]);
+
+  const movements = new Map<string, { productId: string; warehouseId: string; quantity: number; price?: number }>();
+  [...byProject.docs, ...byDescription.docs].forEach(doc => {
+    const data = doc.data();
+    if (data.type !== 'out' || data.isReversed || (data.projectId && data.projectId !== projectId)) return;
+    movements.set(doc.id, {
+      productId: data.productId,
+      warehouseId: data.warehouseId || MAIN_WAREHOUSE_ID,
+      quantity: Number(data.quantity) || 0,
+      price: data.price
+    });
+  });
+
+  return [...movements.values()];
+};
+
+// План материалов проекта клиента по смете и фактическая выдача со склада
+export const getMaterialPlan = async (clientId: string): Promise<MaterialPlan> => {
+  const [documents, projectCategory] = await Promise.all([
+    getCurrentEstimateDocuments(clientId),
+    getEntityCategory('project', clientId)
+  ]);
+
+  const lines = buildBillOfMaterials(documents);
+  const project = projectCategory
+    ? { id: projectCategory.id, title: projectCategory.data().title as string }
+    : null;
+
+  // Позиции смет, ещё не связанные с каталогом, ищем по названию товара
+  const unlinked = lines.filter(line => !line.productId);
+  const productsByName = await getProductsBy('name', unlinked.map(line => line.name));
+  unlinked.forEach(line => {
+    const product = productsByName.find(({ name }) => name === line.name);
+    if (product) line.productId = product.id;
+  });
+
+  const movements = project ? await getIssuedMovements(project.id, project.title) : [];
+  const productIds = [...new Set([
+    ...lines.map(line => line.productId),
+    ...movements.map(movement => movement.productId)
+  ].filter(Boolean) as string[])];
+  const products = Object.fromEntries(
+    (await getProductsBy('id', productIds)).map(product => [product.id, product])
+  );
+
+  const linesByProduct = new Map(
+    lines.filter(line => line.productId).map(line => [line.productId as string, line])
+  );
+
+  movements.forEach(movement => {
+    const product = products[movement.productId];
+    let line = linesByProduct.get(movement.productId);
+    // Товар выдан на проект, но в смете его нет — весь расход считается перерасходом
+    if (!line) {
+      line = {
+        key: movement.productId,
+        productId: movement.productId,
+        name: product?.name || 'Удалённый товар',
+        unit: product?.unit || '',
+        plannedQuantity: 0,
+        plannedCost: 0,
+        issuedQuantity: 0,
+        issuedCost: 0,
+        issuedByWarehouse: {}
+      };
+      linesByProduct.set(movement.productId, line);
+      lines.push(line);
+    }
+
+    const cost = movement.quantity * (movement.price ?? product?.averagePurchasePrice ?? 0);
+    const issued = line.issuedByWarehouse[movement.warehouseId] || { quantity: 0, cost: 0 };
+    line.issuedByWarehouse[movement.warehouseId] = {
+      quantity: issued.quantity + movement.quantity,
+      cost: issued.cost + cost
+    };
+    line.issuedQuantity += movement.quantity;
+    line.issuedCost += cost;
+  });
+
+  return { project, lines, products };
+};
@@ -0,0 +1,122 @@
+import { collection, doc, getDoc, getDocs, addDoc, deleteDoc, setDoc, onSnapshot, query, where, serverTimestamp } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { db } from './config';
+import { auth } from './auth';
+import { CalculatorPriceList } from '../../types/calculator';
+import { DEFAULT_PRICE_LIST } from '../../utils/calculatorUtils';
+
+export type PriceListInput = Omit<CalculatorPriceList, 'id' | 'createdAt' | 'createdBy'>;
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const validatePriceList = (priceList: PriceListInput) => {
+  if (!priceList.name.trim()) {
+    throw new Error('Укажите название прайса');
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(priceList.effectiveFrom)) {
+    throw new Error('Укажите дату начала действия');
+  }
+  if (!priceList.tiers.length) {
+    throw new Error('Добавьте хотя бы одну ступень цены по площади');
+  }
+
+  const tiers = [...priceList.tiers].sort((a, b) => a.minArea - b.minArea);
+  tiers.forEach((tier, index) => {
+    if (tier.minArea <= 0 || tier.maxArea < tier.minArea) {
+      throw new Error(`Неверный диапазон площади ${tier.minArea}–${tier.maxArea} м²`);
+    }
+    if (tier.pricePerSqm <= 0) {
+      throw new Error(`Не указана цена для площади ${tier.minArea}–${tier.maxArea} м²`);
+    }
+    const previous = tiers[index - 1];
+    if (previous && tier.minArea <= previous.maxArea) {
+      throw new Error(`Диапазоны ${previous.minArea}–${previous.maxArea} и ${tier.minArea}–${tier.maxArea} м² пересекаются`);
+    }
+  });
+
+  return tiers;
+};
+
+// Все версии прайса калькулятора, новые по дате действия сверху
+export const subscribeToPriceLists = (
+  onUpdate: (priceLists: CalculatorPriceList[]) => void,
+  onError?: (error: Error) => void
+) => {
+  return onSnapshot(
+    collection(db, 'calculatorPriceLists'),
+    (snapshot) => {
+      const priceLists = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as CalculatorPriceList[];
+
+      priceLists.sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+      onUpdate(priceLists);
+    },
+    (error) => {
+      console.error('Error loading price lists:', error);
+      onError?.(error);
+    }
+  );
+};
+
+// Версия прайса по id — для пересчёта сохранённых КП по ценам, с которыми они составлены
+export const getPriceList = async (priceListId: string): Promise<CalculatorPriceList | null> => {
+  const snapshot = await getDoc(doc(db, 'calculatorPriceLists', priceListId));
+  if (snapshot.exists()) {
+    return { id: snapshot.id, ...snapshot.data() } as CalculatorPriceList;
+  }
+  return priceListId === DEFAULT_PRICE_LIST.id ? DEFAULT_PRICE_LIST : null;
+};
+
+// Создаёт новую версию прайса. Существующие версии не изменяются
+export const createPriceList = async (priceList: PriceListInput): Promise<string> => {
+  const tiers = validatePriceList(priceList);
+
+  const sameDate = await getDocs(query(
+    collection(db, 'calculatorPriceLists'),
+    where('effectiveFrom', '==', priceList.effectiveFrom)
+  ));
+  if (!sameDate.empty) {
+    throw new Error('На эту дату уже есть версия прайса');
+  }
+
+  const priceListRef = await addDoc(collection(db, 'calculatorPriceLists'), {
+    ...priceList,
+    name: priceList.name.trim(),
+    tiers,
+    createdAt: serverTimestamp(),
+    createdBy: auth.currentUser?.displayName || auth.currentUser?.email || null
+  });
+
+  return priceListRef.id;
+};
+
+// Удалить можно только версию, которая ещё не вступила в силу:
+// по действующим и прошлым версиям могли быть составлены КП
+export const deletePriceList = async (priceList: CalculatorPriceList): Promise<void> => {
+  if (priceList.effectiveFrom <= today()) {
+    throw new Error('Версия прайса уже действует и не может быть удалена');
+  }
+  await deleteDoc(doc(db, 'calculatorPriceLists', priceList.id));
+};
+
+// Записывает базовый прайс под id 'default', если его ещё нет.
+// Возвращает true, если документ был создан
+export const seedDefaultPriceList = async (): Promise<boolean> => {
+  const priceListRef = doc(db, 'calculatorPriceLists', DEFAULT_PRICE_LIST.id);
+  if ((await getDoc(priceListRef)).exists()) return false;
+
+  await setDoc(priceListRef, {
+    name: DEFAULT_PRICE_LIST.name,
+    effectiveFrom: DEFAULT_PRICE_LIST.effectiveFrom,
+    tiers: DEFAULT_PRICE_LIST.tiers,
+    floorAdditions: DEFAULT_PRICE_LIST.floorAdditions,
+    firstFloorHeightAdditions: DEFAULT_PRICE_LIST.firstFloorHeightAdditions,
+    secondFloorHeightAdditions: DEFAULT_PRICE_LIST.secondFloorHeightAdditions,
+    roofAdditions: DEFAULT_PRICE_LIST.roofAdditions,
+    shapeAdditions: DEFAULT_PRICE_LIST.shapeAdditions,
+    createdAt: serverTimestamp()
+  });
+  return true;
+};
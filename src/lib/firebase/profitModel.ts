@@ -0,0 +1,88 @@
+import { collection, doc, getDocs, onSnapshot, query, setDoc, where, serverTimestamp } from 'firebase/firestore';
+import { db } from './config';
+import { auth } from './auth';
+import { getEntityCategory } from './categories';
+import { isReversedEntry } from './transactions';
+import { getCurrentEstimateDocuments } from './estimateVersions';
+import { MarginReportRow, ProfitModel } from '../../types/receipt';
+import { calculateReceipt, DEFAULT_PROFIT_MODEL } from '../../utils/profitModel';
+
+const profitModelRef = () => doc(db, 'settings', 'profitModel');
+
+// Модель прибыли; пока документа нет, используется модель по умолчанию
+export const subscribeToProfitModel = (onUpdate: (model: ProfitModel) => void) => {
+  return onSnapshot(
+    profitModelRef(),
+    (snapshot) => {
+      onUpdate(snapshot.exists()
+        ? { ...DEFAULT_PROFIT_MODEL, ...snapshot.data() } as ProfitModel
+        : DEFAULT_PROFIT_MODEL);
+    },
+    (error) => {
+      console.error('Error loading profit model:', error);
+      onUpdate(DEFAULT_PROFIT_MODEL);
+    }
+  );
+};
+
+export const saveProfitModel = async (model: ProfitModel): Promise<void> => {
+  if (!(model.overheadPerHouse >= 0)) {
+    throw new Error('Накладные расходы на дом не могут быть отрицательными');
+  }
+
+  const keys = new Set<string>();
+  model.costLines.forEach(line => {
+    if (!line.itemId.trim() || !line.label.trim()) {
+      throw new Error('Укажите позицию и название для каждой строки расхода по смете');
+    }
+    const key = `${line.sectionId}.${line.itemId}`;
+    if (keys.has(key)) {
+      throw new Error(`Позиция ${key} указана дважды`);
+    }
+    keys.add(key);
+  });
+
+  await setDoc(profitModelRef(), {
+    overheadPerHouse: model.overheadPerHouse,
+    costLines: model.costLines,
+    transactionWeights: model.transactionWeights,
+    updatedAt: serverTimestamp(),
+    updatedBy: auth.currentUser?.uid || null
+  });
+};
+
+// Проводки категории проекта клиента без сторнированных
+export const getProjectTransactions = async (projectCategoryId: string) => {
+  const snapshot = await getDocs(query(
+    collection(db, 'transactions'),
+    where('categoryId', '==', projectCategoryId)
+  ));
+  return snapshot.docs.map(doc => doc.data()).filter(transaction => !isReversedEntry(transaction));
+};
+
+// Плановая и фактическая маржа по всем строящимся и построенным домам
+export const getMarginReport = async (model: ProfitModel): Promise<MarginReportRow[]> => {
+  const clientsSnapshot = await getDocs(query(
+    collection(db, 'clients'),
+    where('status', 'in', ['building', 'built'])
+  ));
+
+  const rows = await Promise.all(clientsSnapshot.docs.map(async (clientDoc) => {
+    const client = clientDoc.data();
+    const [documents, project] = await Promise.all([
+      getCurrentEstimateDocuments(clientDoc.id),
+      getEntityCategory('project', clientDoc.id)
+    ]);
+    const transactions = project ? await getProjectTransactions(project.id) : [];
+
+    return {
+      clientId: clientDoc.id,
+      clientNumber: client.clientNumber || '',
+      name: `${client.lastName || ''} ${client.firstName || ''}`.trim(),
+      status: client.status,
+      receipt: calculateReceipt(model, documents, transactions)
+    } as MarginReportRow;
+  }));
+
+  return rows.sort((a, b) => a.clientNumber.localeCompare(b.clientNumber));
+};
@@ -0,0 +1,129 @@
+import { collection, doc, getDoc, setDoc, updateDoc, onSnapshot, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { db } from './config';
+import { auth } from './auth';
+import { prepareNextNumber } from './counters';
+import { createClient } from './clients';
+import { initialClientState } from '../../types/client';
+import { ProposalStatus, SavedProposal } from '../../types/proposal';
+import { getProposalVariants, splitRecipientName, toEstimateInputs } from '../../utils/proposals';
+
+export type ProposalInput = Pick<
+  SavedProposal,
+  'formData' | 'pricePerSqm' | 'totalPrice' | 'costBreakdown' | 'variants' | 'priceListId' | 'quoteDate' | 'validUntil' | 'recipient'
+>;
+
+// Сохраняет КП со статусом «Отправлено». Возвращает id и присвоенный номер
+export const saveProposal = async ({ variants, ...proposal }: ProposalInput): Promise<{ id: string; number: string }> => {
+  if (!proposal.recipient.name.trim()) {
+    throw new Error('Укажите получателя КП');
+  }
+  if (!proposal.recipient.phone.trim() && !proposal.recipient.email.trim()) {
+    throw new Error('Укажите телефон или email получателя');
+  }
+  if (proposal.totalPrice <= 0 || variants?.some(variant => variant.totalPrice <= 0)) {
+    throw new Error('Стоимость не рассчитана');
+  }
+
+  const allocateNumber = await prepareNextNumber('proposal', { year: parseInt(proposal.quoteDate.slice(0, 4)) });
+  const proposalRef = doc(collection(db, 'commercialProposals'));
+  const number = await runTransaction(db, async (transaction) => {
+    const proposalNumber = await allocateNumber(transaction);
+    transaction.set(proposalRef, {
+      ...proposal,
+      recipient: {
+        name: proposal.recipient.name.trim(),
+        phone: proposal.recipient.phone.trim(),
+        email: proposal.recipient.email.trim()
+      },
+      // Один вариант полностью описывают поля formData и цены
+      ...(variants && variants.length > 1 ? { variants } : {}),
+      number: proposalNumber,
+      status: 'sent',
+      statusChangedAt: serverTimestamp(),
+      createdAt: serverTimestamp(),
+      createdBy: auth.currentUser?.displayName || auth.currentUser?.email || null
+    });
+    return proposalNumber;
+  });
+
+  return { id: proposalRef.id, number };
+};
+
+// Все КП, новые по дате расчёта сверху
+export const subscribeToProposals = (
+  onUpdate: (proposals: SavedProposal[]) => void,
+  onError?: (error: Error) => void
+) => {
+  return onSnapshot(
+    collection(db, 'commercialProposals'),
+    (snapshot) => {
+      const proposals = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as SavedProposal[];
+
+      proposals.sort((a, b) =>
+        b.quoteDate.localeCompare(a.quoteDate) || b.number.localeCompare(a.number)
+      );
+      onUpdate(proposals);
+    },
+    (error) => {
+      console.error('Error loading proposals:', error);
+      onError?.(error);
+    }
+  );
+};
+
+export const updateProposalStatus = async (proposalId: string, status: ProposalStatus): Promise<void> => {
+  await updateDoc(doc(db, 'commercialProposals', proposalId), {
+    status,
+    statusChangedAt: serverTimestamp()
+  });
+};
+
+// Создаёт клиента из принятого КП: контакты получателя, сумма договора
+// и исходные данные сметы (этажность, высоты, площадь) по выбранному варианту.
+// Возвращает id клиента
+export const convertProposalToClient = async (proposalId: string, variantIndex = 0): Promise<string> => {
+  const proposalRef = doc(db, 'commercialProposals', proposalId);
+  const snapshot = await getDoc(proposalRef);
+  if (!snapshot.exists()) {
+    throw new Error('КП не найдено');
+  }
+
+  const proposal = { id: snapshot.id, ...snapshot.data() } as SavedProposal;
+  if (proposal.clientId) {
+    throw new Error('Клиент по этому КП уже создан');
+  }
+  if (proposal.status !== 'accepted') {
+    throw new Error('Создать клиента можно только по принятому КП');
+  }
+
+  const variant = getProposalVariants(proposal)[variantIndex];
+  if (!variant) {
+    throw new Error('Вариант КП не найден');
+  }
+
+  const clientId = await createClient({
+    ...initialClientState,
+    ...splitRecipientName(proposal.recipient.name),
+    phone: proposal.recipient.phone,
+    email: proposal.recipient.email,
+    totalAmount: variant.totalPrice,
+    year: new Date().getFullYear(),
+    files: []
+  });
+
+  await setDoc(doc(db, 'estimates', clientId), {
+    ...toEstimateInputs(variant.formData),
+    updatedAt: serverTimestamp()
+  });
+
+  await updateDoc(proposalRef, {
+    clientId,
+    clientVariant: variantIndex,
+    convertedAt: serverTimestamp()
+  });
+
+  return clientId;
+};
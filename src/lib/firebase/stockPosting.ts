@@ -0,0 +1,846 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from './config';
+import { auth } from './auth';
+import { getCategoryBalance } from './categories';
+import { prepareNextNumber } from './counters';
+import { assertPermission } from './users';
+import {
+  getDocumentYear,
+  getOpenBatchIds,
+  getStockChange,
+  getWarehouseIds,
+  readOpenBatches,
+  readProductStock
+} from './warehouses';
+import { BatchConsumption, MAIN_WAREHOUSE_ID, Product, Warehouse, WarehouseDocumentItem } from '../../types/warehouse';
+import {
+  consumeBatches,
+  getBatchRemaining,
+  getBatchRemainingUpdate,
+  getBatchWarehouseRemaining,
+  getConsumptionCost,
+  getCostingMethod,
+  getUnbatchedQuantity,
+  moveBatchQuantity
+} from '../../utils/batchCosting';
+
+type PostingProduct = Pick<Product, 'id' | 'name' | 'unit'>;
+
+export interface IncomePostingInput {
+  date: string;
+  note: string;
+  // Категория сотрудника (второй ряд), от которого пришёл товар
+  supplierId: string;
+  warehouse: Warehouse;
+  items: { product: PostingProduct; quantity: number; price: number }[];
+}
+
+export interface ExpensePostingInput {
+  date: string;
+  note: string;
+  // Категория проекта, на который списываются товары
+  projectId: string;
+  warehouse: Warehouse;
+  items: { product: PostingProduct; quantity: number }[];
+}
+
+export interface PostedStockDocument {
+  id: string;
+  documentNumber: string;
+  items: WarehouseDocumentItem[];
+}
+
+// Категория «Склад» в четвёртом ряду — счёт стоимости товаров на складе
+const findWarehouseCategoryId = async (): Promise<string> => {
+  const snapshot = await getDocs(query(
+    collection(db, 'categories'),
+    where('title', '==', 'Склад'),
+    where('row', '==', 4)
+  ));
+  if (snapshot.empty) {
+    throw new Error('Категория склада не найдена');
+  }
+  return snapshot.docs[0].id;
+};
+
+const validateQuantities = (items: { product: PostingProduct; quantity: number }[]) => {
+  if (items.length === 0) {
+    throw new Error('Добавьте товары');
+  }
+  items.forEach(item => {
+    if (!(item.quantity > 0)) {
+      throw new Error(`Укажите количество товара ${item.product.name}`);
+    }
+  });
+};
+
+// Одинаковые товары в накладной проводятся одной строкой
+const mergeItems = <T extends { product: PostingProduct; quantity: number; price?: number }>(items: T[]): T[] => {
+  const merged = new Map<string, T>();
+  items.forEach(item => {
+    const existing = merged.get(item.product.id);
+    if (!existing) {
+      merged.set(item.product.id, { ...item });
+      return;
+    }
+    const quantity = existing.quantity + item.quantity;
+    const price = existing.price !== undefined && item.price !== undefined
+      ? (existing.quantity * existing.price + item.quantity * item.price) / quantity
+      : existing.price;
+    merged.set(item.product.id, { ...existing, quantity, price });
+  });
+  return Array.from(merged.values());
+};
+
+// Стоимость остатка считаем от количества и средней цены: поле
+// totalPurchasePrice в старых товарах не уменьшалось при расходе
+const getStockValue = (data: DocumentData): number =>
+  (Number(data.quantity) || 0) * (Number(data.averagePurchasePrice) || 0);
+
+// Проводит приход в одной транзакции: перечитывает остатки товаров,
+// пересчитывает среднюю цену, заводит по каждому товару партию, пишет
+// движения, денежные проводки, балансы и накладную с номером. При конфликте Firestore повторяет транзакцию
+// с новыми данными, поэтому одновременные приходы не затирают друг друга
+export const postIncomeDocument = async (input: IncomePostingInput): Promise<PostedStockDocument> => {
+  if (!input.supplierId) {
+    throw new Error('Выберите сотрудника');
+  }
+  validateQuantities(input.items);
+  input.items.forEach(item => {
+    if (item.price < 0) {
+      throw new Error(`Цена товара ${item.product.name} не может быть отрицательной`);
+    }
+  });
+
+  const items = mergeItems(input.items);
+  const { warehouse } = input;
+
+  const [warehouseCategoryId, allocateNumber] = await Promise.all([
+    findWarehouseCategoryId(),
+    prepareNextNumber('income', { year: getDocumentYear(input.date) })
+  ]);
+
+  const supplierRef = doc(db, 'categories', input.supplierId);
+  const warehouseCategoryRef = doc(db, 'categories', warehouseCategoryId);
+  const documentRef = doc(collection(db, 'warehouseDocuments'));
+  const documentItems: WarehouseDocumentItem[] = items.map(({ product, quantity, price }) => ({
+    product: { name: product.name, unit: product.unit },
+    quantity,
+    price
+  }));
+
+  const documentNumber = await runTransaction(db, async (transaction) => {
+    // Все чтения — до первой записи; номер выдаётся последним чтением
+    const [supplierSnap, warehouseCategorySnap, ...productSnaps] = await Promise.all([
+      transaction.get(supplierRef),
+      transaction.get(warehouseCategoryRef),
+      ...items.map(item => transaction.get(doc(db, 'products', item.product.id)))
+    ]);
+
+    if (!supplierSnap.exists() || supplierSnap.data().row !== 2) {
+      throw new Error('Сотрудник не найден');
+    }
+    const supplier: string = supplierSnap.data().title || 'Неизвестный сотрудник';
+
+    productSnaps.forEach((snap, index) => {
+      if (!snap.exists()) {
+        throw new Error(`Товар ${items[index].product.name} не найден`);
+      }
+    });
+    const number = await allocateNumber(transaction);
+
+    const timestamp = serverTimestamp();
+    const totalAmount = items.reduce((sum, item) => sum + item.quantity * item.price, 0);
+
+    transaction.update(supplierRef, {
+      balance: getCategoryBalance(supplierSnap.data()) - totalAmount,
+      updatedAt: timestamp
+    });
+    transaction.update(warehouseCategoryRef, {
+      balance: getCategoryBalance(warehouseCategorySnap.data()) + totalAmount,
+      updatedAt: timestamp
+    });
+
+    items.forEach((item, index) => {
+      const productSnap = productSnaps[index];
+      const current = productSnap.data() as DocumentData;
+      const previousQuantity = Number(current.quantity) || 0;
+      const previousAveragePrice = Number(current.averagePurchasePrice) || 0;
+      const amount = item.quantity * item.price;
+
+      const newQuantity = previousQuantity + item.quantity;
+      const newTotalPrice = Math.max(getStockValue(current), 0) + amount;
+      const newAveragePrice = newQuantity > 0 ? newTotalPrice / newQuantity : item.price;
+      const batchRef = doc(collection(db, 'productBatches'));
+
+      transaction.update(productSnap.ref, {
+        quantity: newQuantity,
+        totalPurchasePrice: newTotalPrice,
+        averagePurchasePrice: newAveragePrice,
+        openBatchIds: [...getOpenBatchIds(current), batchRef.id],
+        updatedAt: timestamp
+      });
+
+      transaction.set(batchRef, {
+        productId: item.product.id,
+        quantity: item.quantity,
+        remainingQuantity: item.quantity,
+        remainingByWarehouse: { [warehouse.id]: item.quantity },
+        purchasePrice: item.price,
+        totalPrice: amount,
+        date: timestamp,
+        supplier,
+        warehouseId: warehouse.id,
+        warehouseName: warehouse.name,
+        documentId: documentRef.id
+      });
+
+      const stockChange = getStockChange(item.product.id, warehouse.id, item.quantity);
+      if (stockChange) {
+        transaction.set(stockChange.ref, stockChange.data, { merge: true });
+      }
+
+      const description = `${item.product.name} (${item.quantity} ${item.product.unit})`;
+      // Обе части проводки связаны, как в обычном переводе
+      const withdrawalRef = doc(collection(db, 'transactions'));
+      transaction.set(withdrawalRef, {
+        categoryId: supplierRef.id,
+        fromUser: supplier,
+        toUser: 'Склад',
+        amount: -amount,
+        description: `Расход на склад: ${description}`,
+        type: 'expense',
+        date: timestamp,
+        isWarehouseOperation: true,
+        warehouseDocumentId: documentRef.id,
+        relatedTransactionId: withdrawalRef.id
+      });
+      transaction.set(doc(collection(db, 'transactions')), {
+        categoryId: warehouseCategoryRef.id,
+        fromUser: supplier,
+        toUser: 'Склад',
+        amount,
+        description: `Приход на склад: ${description}`,
+        type: 'income',
+        date: timestamp,
+        isWarehouseOperation: true,
+        warehouseDocumentId: documentRef.id,
+        relatedTransactionId: withdrawalRef.id
+      });
+
+      transaction.set(doc(collection(db, 'productMovements')), {
+        productId: item.product.id,
+        type: 'in',
+        quantity: item.quantity,
+        price: item.price,
+        totalPrice: amount,
+        warehouse: warehouse.name,
+        warehouseId: warehouse.id,
+        description: `Приход товара от ${supplier}`,
+        date: timestamp,
+        previousQuantity,
+        newQuantity,
+        previousAveragePrice,
+        newAveragePrice,
+        supplier,
+        batchId: batchRef.id,
+        documentId: documentRef.id
+      });
+    });
+
+    transaction.set(documentRef, {
+      type: 'income',
+      documentNumber: number,
+      date: input.date,
+      supplier,
+      note: input.note,
+      warehouseId: warehouse.id,
+      warehouseName: warehouse.name,
+      items: documentItems,
+      createdAt: timestamp
+    });
+
+    return number;
+  });
+
+  return { id: documentRef.id, documentNumber, items: documentItems };
+};
+
+// Проводит расход на проект в одной транзакции. Остаток склада
+// перечитывается внутри транзакции; если товара не хватает, ничего не
+// записывается. Партии склада списываются по FIFO; проекту начисляется
+// фактическая стоимость партий или средняя цена, если так настроен товар
+export const postExpenseDocument = async (
+  input: ExpensePostingInput
+): Promise<PostedStockDocument & { projectTitle: string }> => {
+  if (!input.projectId) {
+    throw new Error('Выберите проект');
+  }
+  validateQuantities(input.items);
+
+  const items = mergeItems(input.items);
+  const { warehouse } = input;
+
+  const [warehouseCategoryId, warehouseIds, allocateNumber] = await Promise.all([
+    findWarehouseCategoryId(),
+    getWarehouseIds(),
+    prepareNextNumber('expense', { year: getDocumentYear(input.date) })
+  ]);
+
+  const projectRef = doc(db, 'categories', input.projectId);
+  const warehouseCategoryRef = doc(db, 'categories', warehouseCategoryId);
+  const documentRef = doc(collection(db, 'warehouseDocuments'));
+
+  const result = await runTransaction(db, async (transaction) => {
+    const [projectSnap, warehouseCategorySnap, ...stocks] = await Promise.all([
+      transaction.get(projectRef),
+      transaction.get(warehouseCategoryRef),
+      ...items.map(item => readProductStock(transaction, item.product, warehouse.id, warehouseIds))
+    ]);
+
+    if (!projectSnap.exists()) {
+      throw new Error('Проект не найден');
+    }
+    const projectTitle: string = projectSnap.data().title || 'Неизвестный проект';
+
+    items.forEach((item, index) => {
+      const available = stocks[index].warehouseQuantity;
+      if (available < item.quantity) {
+        throw new Error(
+          `Недостаточно товара ${item.product.name} на складе «${warehouse.name}»: ${available} ${item.product.unit}`
+        );
+      }
+    });
+
+    const batches = await Promise.all(stocks.map(stock => readOpenBatches(transaction, stock.data)));
+    const costs = items.map((item, index) => {
+      const { data, warehouseQuantity } = stocks[index];
+      const averagePrice = Number(data.averagePurchasePrice) || 0;
+      const consumptions = consumeBatches(item.quantity, warehouseQuantity, averagePrice, batches[index], warehouse.id);
+      const amount = getConsumptionCost(consumptions, averagePrice, getCostingMethod(data.costingMethod));
+      return { consumptions, amount, averagePrice };
+    });
+    const number = await allocateNumber(transaction);
+
+    const timestamp = serverTimestamp();
+    const documentItems: WarehouseDocumentItem[] = items.map((item, index) => ({
+      product: { name: item.product.name, unit: item.product.unit },
+      quantity: item.quantity,
+      price: costs[index].amount / item.quantity
+    }));
+    const totalAmount = costs.reduce((sum, cost) => sum + cost.amount, 0);
+
+    transaction.update(warehouseCategoryRef, {
+      balance: getCategoryBalance(warehouseCategorySnap.data()) - totalAmount,
+      updatedAt: timestamp
+    });
+    transaction.update(projectRef, {
+      balance: getCategoryBalance(projectSnap.data()) + totalAmount,
+      updatedAt: timestamp
+    });
+
+    items.forEach((item, index) => {
+      const { ref, data } = stocks[index];
+      const { consumptions, amount, averagePrice } = costs[index];
+      const price = documentItems[index].price;
+      const previousQuantity = Number(data.quantity) || 0;
+      const newQuantity = previousQuantity - item.quantity;
+      const newTotalPrice = Math.max(getStockValue(data) - amount, 0);
+      const newAveragePrice = newQuantity > 0 ? newTotalPrice / newQuantity : averagePrice;
+
+      consumptions.forEach(consumption => {
+        const batch = batches[index].find(openBatch => openBatch.id === consumption.batchId);
+        if (!batch) return;
+        moveBatchQuantity(batch, warehouse.id, null, consumption.quantity);
+        transaction.update(doc(db, 'productBatches', batch.id), {
+          ...getBatchRemainingUpdate(batch),
+          updatedAt: timestamp
+        });
+      });
+
+      transaction.update(ref, {
+        quantity: newQuantity,
+        totalPurchasePrice: newTotalPrice,
+        averagePurchasePrice: newAveragePrice,
+        openBatchIds: batches[index]
+          .filter(batch => getBatchRemaining(batch) > 0)
+          .map(batch => batch.id),
+        updatedAt: timestamp
+      });
+
+      const stockChange = getStockChange(item.product.id, warehouse.id, -item.quantity);
+      if (stockChange) {
+        transaction.set(stockChange.ref, stockChange.data, { merge: true });
+      }
+
+      const description = `${item.product.name} (${item.quantity} ${item.product.unit})`;
+      const withdrawalRef = doc(collection(db, 'transactions'));
+      transaction.set(withdrawalRef, {
+        categoryId: warehouseCategoryRef.id,
+        fromUser: 'Склад',
+        toUser: projectTitle,
+        amount: -amount,
+        description: `Списание со склада: ${description}`,
+        type: 'expense',
+        date: timestamp,
+        isWarehouseOperation: true,
+        warehouseDocumentId: documentRef.id,
+        relatedTransactionId: withdrawalRef.id
+      });
+      transaction.set(doc(collection(db, 'transactions')), {
+        categoryId: projectRef.id,
+        fromUser: 'Склад',
+        toUser: projectTitle,
+        amount,
+        description: `Приход со склада: ${description}`,
+        type: 'income',
+        date: timestamp,
+        isWarehouseOperation: true,
+        warehouseDocumentId: documentRef.id,
+        relatedTransactionId: withdrawalRef.id
+      });
+
+      transaction.set(doc(collection(db, 'productMovements')), {
+        productId: item.product.id,
+        type: 'out',
+        quantity: item.quantity,
+        price,
+        totalPrice: amount,
+        projectId: projectRef.id,
+        date: timestamp,
+        description: `Списание на проект: ${projectTitle}`,
+        warehouse: warehouse.name,
+        warehouseId: warehouse.id,
+        previousQuantity,
+        newQuantity,
+        previousAveragePrice: averagePrice,
+        newAveragePrice,
+        batches: consumptions,
+        documentId: documentRef.id
+      });
+    });
+
+    transaction.set(documentRef, {
+      type: 'expense',
+      documentNumber: number,
+      date: input.date,
+      project: projectTitle,
+      note: input.note,
+      warehouseId: warehouse.id,
+      warehouseName: warehouse.name,
+      items: documentItems,
+      createdAt: timestamp
+    });
+
+    return { documentNumber: number, projectTitle, items: documentItems };
+  });
+
+  return { id: documentRef.id, ...result };
+};
+
+// Отмена проведённой накладной в одной транзакции: возвращает остатки,
+// среднюю цену и партии, пишет обратные движения, сторнирует денежные проводки
+// и помечает накладную отменённой с причиной и автором. Приход нельзя
+// отменить, если товар с него уже списан или перемещён
+export const cancelWarehouseDocument = async (documentId: string, reason: string): Promise<void> => {
+  const cancelReason = reason.trim();
+  if (!cancelReason) {
+    throw new Error('Укажите причину отмены');
+  }
+  await assertPermission('cancelWarehouseDocuments');
+
+  const documentRef = doc(db, 'warehouseDocuments', documentId);
+  const documentSnap = await getDoc(documentRef);
+  if (!documentSnap.exists()) {
+    throw new Error('Документ не найден');
+  }
+
+  const document = documentSnap.data();
+  if (document.status === 'cancelled') {
+    throw new Error('Документ уже отменён');
+  }
+
+  const isTransfer = document.type === 'transfer';
+  const linkField = isTransfer ? 'transferId' : 'documentId';
+  const [movementsSnapshot, transactionsSnapshot, warehouseIds] = await Promise.all([
+    getDocs(query(collection(db, 'productMovements'), where(linkField, '==', documentId))),
+    getDocs(query(collection(db, 'transactions'), where('warehouseDocumentId', '==', documentId))),
+    getWarehouseIds()
+  ]);
+
+  // Накладные, проведённые до связи с движениями, отменить автоматически нельзя
+  if (movementsSnapshot.empty) {
+    throw new Error('Движения товаров по документу не найдены — документ нельзя отменить автоматически');
+  }
+
+  // Остаток проверяем на складе, с которого товар уйдёт при отмене:
+  // склад прихода или склад-получатель перемещения
+  const stockWarehouses = new Map<string, string>();
+  movementsSnapshot.docs.forEach(movementDoc => {
+    const data = movementDoc.data();
+    if (!stockWarehouses.has(data.productId) || data.type === 'in') {
+      stockWarehouses.set(data.productId, data.warehouseId || MAIN_WAREHOUSE_ID);
+    }
+  });
+  const productIds = Array.from(stockWarehouses.keys());
+
+  // Партия прихода и партии, из которых сделан расход
+  const batchIds = Array.from(new Set(movementsSnapshot.docs.flatMap(movementDoc => {
+    const data = movementDoc.data();
+    const consumptions: BatchConsumption[] = data.batches || [];
+    return [data.batchId, ...consumptions.map(consumption => consumption.batchId)]
+      .filter((id): id is string => Boolean(id));
+  })));
+
+  const user = auth.currentUser;
+  const cancelledBy = user?.displayName || user?.email || 'Неизвестный пользователь';
+  const documentLabel = `накладной №${document.documentNumber || ''}`.trim();
+
+  await runTransaction(db, async (transaction) => {
+    const [currentSnap, movementSnaps, moneySnaps, stocks, batchSnaps] = await Promise.all([
+      transaction.get(documentRef),
+      Promise.all(movementsSnapshot.docs.map(movementDoc => transaction.get(movementDoc.ref))),
+      Promise.all(transactionsSnapshot.docs.map(transactionDoc => transaction.get(transactionDoc.ref))),
+      Promise.all(productIds.map(productId => readProductStock(
+        transaction,
+        { id: productId, name: productId },
+        stockWarehouses.get(productId) || MAIN_WAREHOUSE_ID,
+        warehouseIds
+      ))),
+      Promise.all(batchIds.map(id => transaction.get(doc(db, 'productBatches', id))))
+    ]);
+
+    if (currentSnap.data()?.status === 'cancelled') {
+      throw new Error('Документ уже отменён');
+    }
+    if (movementSnaps.some(snap => snap.data()?.isReversed)) {
+      throw new Error('Движения по документу уже отменены');
+    }
+
+    // Проводки, сторнированные вручную, баланс уже не меняют
+    const activeMoneySnaps = moneySnaps.filter(snap => {
+      const data = snap.data();
+      return data && !data.isReversed && !data.isReversal;
+    });
+    const deltas = new Map<string, number>();
+    activeMoneySnaps.forEach(snap => {
+      const data = snap.data() as DocumentData;
+      deltas.set(data.categoryId, (deltas.get(data.categoryId) || 0) - data.amount);
+    });
+    const categoryIds = Array.from(deltas.keys());
+    const categorySnaps = await Promise.all(
+      categoryIds.map(id => transaction.get(doc(db, 'categories', id)))
+    );
+
+    const products = new Map(productIds.map((productId, index) => {
+      const { ref, data, warehouseQuantity } = stocks[index];
+      return [productId, {
+        ref,
+        name: String(data.name || productId),
+        quantity: Number(data.quantity) || 0,
+        value: getStockValue(data),
+        averagePrice: Number(data.averagePurchasePrice) || 0,
+        warehouseQuantity,
+        openBatchIds: getOpenBatchIds(data),
+        // Партии, закрытые расходом: старше всех открытых, встают в начало очереди
+        restoredBatchIds: [] as string[]
+      }];
+    }));
+
+    const batches = new Map(batchSnaps
+      .filter(snap => snap.exists())
+      .map(snap => [snap.id, { remainingByWarehouse: getBatchWarehouseRemaining(snap.data() as DocumentData) }]));
+    const cancelledBatchIds = new Set<string>();
+
+    const timestamp = serverTimestamp();
+
+    movementSnaps.forEach(snap => {
+      const movement = snap.data() as DocumentData;
+      const product = products.get(movement.productId);
+      if (!product) return;
+
+      const quantity = Number(movement.quantity) || 0;
+      const price = Number(movement.price) || 0;
+      const amount = Number(movement.totalPrice) || quantity * price;
+      const warehouseId = movement.warehouseId || MAIN_WAREHOUSE_ID;
+      const isIncoming = movement.type === 'in';
+
+      if (isIncoming && product.warehouseQuantity < quantity) {
+        throw new Error(
+          `Нельзя отменить: товара ${product.name} на складе «${movement.warehouse}» осталось ${product.warehouseQuantity}`
+        );
+      }
+
+      const previousQuantity = product.quantity;
+      const previousAveragePrice = product.averagePrice;
+
+      // Перемещение не меняет общий остаток и стоимость товара
+      if (!isTransfer) {
+        product.quantity += isIncoming ? -quantity : quantity;
+        product.value = Math.max(product.value + (isIncoming ? -amount : amount), 0);
+        if (product.quantity > 0) {
+          product.averagePrice = product.value / product.quantity;
+        }
+      }
+      if (isIncoming) {
+        product.warehouseQuantity -= quantity;
+      }
+
+      // Партия прихода закрывается целиком, поэтому вся она должна
+      // оставаться на складе прихода
+      const incomeBatch = movement.batchId ? batches.get(movement.batchId) : undefined;
+      if (incomeBatch) {
+        if (getBatchRemaining(incomeBatch, warehouseId) < quantity) {
+          throw new Error(`Нельзя отменить: часть партии товара ${product.name} уже списана или перемещена`);
+        }
+        incomeBatch.remainingByWarehouse = {};
+        cancelledBatchIds.add(movement.batchId);
+        product.openBatchIds = product.openBatchIds.filter(id => id !== movement.batchId);
+      }
+
+      // Списанные партии возвращаются на склад расхода, перемещённые —
+      // со склада-получателя на склад-отправитель
+      const consumptions: BatchConsumption[] = movement.batches || [];
+      consumptions.forEach(consumption => {
+        const batch = consumption.batchId ? batches.get(consumption.batchId) : undefined;
+        if (!consumption.batchId || !batch) return;
+        if (isIncoming) {
+          if (getBatchRemaining(batch, warehouseId) < consumption.quantity) {
+            throw new Error(
+              `Нельзя отменить: партия товара ${product.name} уже ушла со склада «${movement.warehouse}»`
+            );
+          }
+          moveBatchQuantity(batch, warehouseId, null, consumption.quantity);
+          return;
+        }
+        moveBatchQuantity(batch, null, warehouseId, consumption.quantity);
+        if (!product.openBatchIds.includes(consumption.batchId) && !product.restoredBatchIds.includes(consumption.batchId)) {
+          product.restoredBatchIds.push(consumption.batchId);
+        }
+      });
+
+      const stockChange = getStockChange(movement.productId, warehouseId, isIncoming ? -quantity : quantity);
+      if (stockChange) {
+        transaction.set(stockChange.ref, stockChange.data, { merge: true });
+      }
+
+      const reversalRef = doc(collection(db, 'productMovements'));
+      transaction.set(reversalRef, {
+        productId: movement.productId,
+        type: isIncoming ? 'out' : 'in',
+        quantity,
+        price,
+        totalPrice: amount,
+        warehouse: movement.warehouse,
+        warehouseId,
+        description: `Отмена ${documentLabel}: ${movement.description || ''}`.trim(),
+        date: timestamp,
+        previousQuantity,
+        newQuantity: product.quantity,
+        previousAveragePrice,
+        newAveragePrice: product.averagePrice,
+        [linkField]: documentId,
+        isReversal: true,
+        reversalOf: snap.id
+      });
+      transaction.update(snap.ref, {
+        isReversed: true,
+        reversedAt: timestamp,
+        reversedBy: cancelledBy,
+        reversalMovementId: reversalRef.id
+      });
+    });
+
+    if (!isTransfer) {
+      products.forEach(product => {
+        transaction.update(product.ref, {
+          quantity: product.quantity,
+          totalPurchasePrice: product.value,
+          averagePurchasePrice: product.averagePrice,
+          openBatchIds: [...product.restoredBatchIds, ...product.openBatchIds],
+          updatedAt: timestamp
+        });
+      });
+    }
+
+    batches.forEach((batch, batchId) => {
+      transaction.update(doc(db, 'productBatches', batchId), {
+        ...getBatchRemainingUpdate(batch),
+        ...(cancelledBatchIds.has(batchId) ? { isCancelled: true } : {}),
+        updatedAt: timestamp
+      });
+    });
+
+    activeMoneySnaps.forEach(snap => {
+      const data = snap.data() as DocumentData;
+      const reversalRef = doc(collection(db, 'transactions'));
+
+      transaction.set(reversalRef, {
+        categoryId: data.categoryId,
+        fromUser: data.fromUser,
+        toUser: data.toUser,
+        amount: -data.amount,
+        description: `Сторно: ${data.description || ''}`.trim(),
+        type: data.type === 'income' ? 'expense' : 'income',
+        date: timestamp,
+        isWarehouseOperation: true,
+        warehouseDocumentId: documentId,
+        relatedTransactionId: data.relatedTransactionId || snap.id,
+        reversalOf: snap.id,
+        isReversal: true,
+        reversedBy: cancelledBy,
+        reversedByUid: user?.uid || null,
+        reversalReason: `Отмена ${documentLabel}: ${cancelReason}`
+      });
+
+      transaction.update(snap.ref, {
+        isReversed: true,
+        reversedAt: timestamp,
+        reversedBy: cancelledBy,
+        reversedByUid: user?.uid || null,
+        reversalReason: `Отмена ${documentLabel}: ${cancelReason}`,
+        reversalTransactionId: reversalRef.id
+      });
+    });
+
+    categorySnaps.forEach((categorySnap, index) => {
+      if (!categorySnap.exists()) return;
+      transaction.update(categorySnap.ref, {
+        balance: getCategoryBalance(categorySnap.data()) + (deltas.get(categoryIds[index]) || 0),
+        updatedAt: timestamp
+      });
+    });
+
+    transaction.update(documentRef, {
+      status: 'cancelled',
+      cancelReason,
+      cancelledAt: timestamp,
+      cancelledBy,
+      cancelledByUid: user?.uid || null
+    });
+  });
+};
+
+// Отмена отдельного движения без накладной (ручная корректировка или
+// старая запись) в одной транзакции: остаток и стоимость меняются на
+// разницу, а не перезаписываются, движение помечается отменённым и
+// получает обратную запись. Движения накладных и перемещений отменяются
+// только вместе с документом
+export const cancelStockMovement = async (movementId: string, reason: string): Promise<void> => {
+  const cancelReason = reason.trim();
+  if (!cancelReason) {
+    throw new Error('Укажите причину отмены');
+  }
+  await assertPermission('cancelWarehouseDocuments');
+
+  const movementRef = doc(db, 'productMovements', movementId);
+  const movementSnap = await getDoc(movementRef);
+  if (!movementSnap.exists()) {
+    throw new Error('Операция не найдена');
+  }
+
+  const initial = movementSnap.data();
+  if (initial.transferId) {
+    throw new Error('Операцию перемещения между складами отменяет документ перемещения');
+  }
+  if (initial.documentId || initial.isReversal) {
+    throw new Error('Операция проведена накладной — отмените накладную в разделе «Документы»');
+  }
+  if (initial.batchId || initial.batches?.length) {
+    throw new Error('Операция связана с партиями — отменить её отдельно нельзя');
+  }
+
+  const warehouseId = initial.warehouseId || MAIN_WAREHOUSE_ID;
+  const warehouseIds = await getWarehouseIds();
+  const user = auth.currentUser;
+  const cancelledBy = user?.displayName || user?.email || 'Неизвестный пользователь';
+
+  await runTransaction(db, async (transaction) => {
+    const [currentSnap, stock] = await Promise.all([
+      transaction.get(movementRef),
+      readProductStock(
+        transaction,
+        { id: initial.productId, name: initial.productId },
+        warehouseId,
+        warehouseIds
+      )
+    ]);
+
+    const movement = currentSnap.data();
+    if (!movement || movement.isReversed) {
+      throw new Error('Операция уже отменена');
+    }
+
+    const name = String(stock.data.name || initial.productId);
+    const quantity = Number(movement.quantity) || 0;
+    const price = Number(movement.price) || 0;
+    const amount = Number(movement.totalPrice) || quantity * price;
+    const isIncoming = movement.type === 'in';
+
+    // Приход без партии снимается с остатка вне партий, иначе партии
+    // склада окажутся больше его остатка
+    if (isIncoming) {
+      const openBatches = await readOpenBatches(transaction, stock.data);
+      if (getUnbatchedQuantity(stock.warehouseQuantity, openBatches, warehouseId) < quantity) {
+        throw new Error(
+          `Нельзя отменить: товара ${name} на складе «${movement.warehouse}» осталось меньше ${quantity}`
+        );
+      }
+    }
+
+    const previousQuantity = Number(stock.data.quantity) || 0;
+    const previousAveragePrice = Number(stock.data.averagePurchasePrice) || 0;
+    const newQuantity = previousQuantity + (isIncoming ? -quantity : quantity);
+    const newValue = Math.max(getStockValue(stock.data) + (isIncoming ? -amount : amount), 0);
+    const newAveragePrice = newQuantity > 0 ? newValue / newQuantity : previousAveragePrice;
+    const timestamp = serverTimestamp();
+
+    const stockChange = getStockChange(movement.productId, warehouseId, isIncoming ? -quantity : quantity);
+    if (stockChange) {
+      transaction.set(stockChange.ref, stockChange.data, { merge: true });
+    }
+
+    transaction.update(stock.ref, {
+      quantity: newQuantity,
+      totalPurchasePrice: newValue,
+      averagePurchasePrice: newAveragePrice,
+      updatedAt: timestamp
+    });
+
+    const reversalRef = doc(collection(db, 'productMovements'));
+    transaction.set(reversalRef, {
+      productId: movement.productId,
+      type: isIncoming ? 'out' : 'in',
+      quantity,
+      price,
+      totalPrice: amount,
+      warehouse: movement.warehouse,
+      warehouseId,
+      description: `Отмена операции: ${cancelReason}`,
+      date: timestamp,
+      previousQuantity,
+      newQuantity,
+      previousAveragePrice,
+      newAveragePrice,
+      isReversal: true,
+      reversalOf: movementId
+    });
+    transaction.update(movementRef, {
+      isReversed: true,
+      reversedAt: timestamp,
+      reversedBy: cancelledBy,
+      reversalReason: cancelReason,
+      reversalMovementId: reversalRef.id
+    });
+  });
+};
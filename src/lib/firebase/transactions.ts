@@ -1,7 +1,8 @@
-import { collection, doc, runTransaction, serverTimestamp, query, where, getDocs, writeBatch, getDoc } from 'firebase/firestore';
+import { collection, doc, runTransaction, serverTimestamp, query, where, getDocs, getDoc, DocumentData, DocumentReference, QueryDocumentSnapshot } from 'firebase/firestore';
 import { db } from './config';
 import { CategoryCardType } from '../../types';
-import { formatAmount, parseAmount } from './categories';
+import { getCategoryBalance } from './categories';
+import { auth } from './auth';
 import { sendTelegramNotification, formatTransactionMessage } from '../../services/telegramService';
 
 export const transferFunds = async (
@@ -43,8 +44,8 @@ export const transferFunds = async (
         throw new Error('Категория получателя не найдена');
       }
 
-      const sourceBalance = parseAmount(sourceDoc.data().amount);
-      const targetBalance = parseAmount(targetDoc.data().amount);
+      const sourceBalance = getCategoryBalance(sourceDoc.data());
+      const targetBalance = getCategoryBalance(targetDoc.data());
 
       // Создаем ID для транзакции заранее
       const withdrawalId = doc(collection(db, 'transactions')).id;
@@ -91,12 +92,12 @@ export const transferFunds = async (
       transaction.set(doc(db, 'transactions', depositId), depositData);
 
       transaction.update(sourceRef, {
-        amount: formatAmount(sourceBalance - amount),
+        balance: sourceBalance - amount,
         updatedAt: timestamp
       });
 
       transaction.update(targetRef, {
-        amount: formatAmount(targetBalance + amount),
+        balance: targetBalance + amount,
         updatedAt: timestamp
       });
       
@@ -117,27 +118,76 @@ export const transferFunds = async (
   }
 };
 
-export const deleteTransaction = async (transactionId: string): Promise<void> => {
+// Сторнированная операция и её сторнирующая запись не участвуют в итогах
+export const isReversedEntry = (transaction: { isReversed?: boolean; isReversal?: boolean }): boolean => {
+  return Boolean(transaction.isReversed || transaction.isReversal);
+};
+
+// Ограничение Firestore на количество значений в условии 'in'
+const IN_QUERY_LIMIT = 30;
+
+const chunk = <T>(values: T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += IN_QUERY_LIMIT) {
+    chunks.push(values.slice(i, i + IN_QUERY_LIMIT));
+  }
+  return chunks;
+};
+
+// Проводки категорий вместе со второй частью их переводов. Ищем только
+// по id категорий: по названию попали бы проводки однофамильцев
+export const findCategoryTransactions = async (
+  categoryIds: string[]
+): Promise<QueryDocumentSnapshot<DocumentData>[]> => {
+  const found = new Map<string, QueryDocumentSnapshot<DocumentData>>();
+  const relatedIds = new Set<string>();
+
+  const snapshots = await Promise.all(chunk(categoryIds).map(ids =>
+    getDocs(query(collection(db, 'transactions'), where('categoryId', 'in', ids)))
+  ));
+  snapshots.forEach(snapshot => snapshot.docs.forEach(transactionDoc => {
+    found.set(transactionDoc.id, transactionDoc);
+    const relatedTransactionId = transactionDoc.data().relatedTransactionId;
+    if (relatedTransactionId) relatedIds.add(relatedTransactionId);
+  }));
+
+  const relatedSnapshots = await Promise.all(chunk(Array.from(relatedIds)).map(ids =>
+    getDocs(query(collection(db, 'transactions'), where('relatedTransactionId', 'in', ids)))
+  ));
+  relatedSnapshots.forEach(snapshot => snapshot.docs.forEach(transactionDoc => {
+    found.set(transactionDoc.id, transactionDoc);
+  }));
+
+  return Array.from(found.values());
+};
+
+export const WAREHOUSE_DOCUMENT_REVERSAL_MESSAGE =
+  'Операция проведена складской накладной. Отмените накладную в разделе «Склад → Документы»';
+
+// Сторно: вместо удаления создаём зеркальные проводки по каждой части перевода,
+// а исходные помечаем как сторнированные с указанием автора и времени
+export const reverseTransaction = async (transactionId: string, reason = ''): Promise<void> => {
   if (!transactionId) {
     throw new Error('Transaction ID is required');
   }
 
   try {
-    const batch = writeBatch(db);
     const transactionRef = doc(db, 'transactions', transactionId);
     const transactionSnap = await getDoc(transactionRef);
 
     if (!transactionSnap.exists()) {
-      throw new Error('Transaction not found');
+      throw new Error('Операция не найдена');
     }
 
-    const transactionData = transactionSnap.data();
-    const relatedTransactionId = transactionData.relatedTransactionId;
+    // Сторно одной проводки накладной разошлось бы с остатками склада
+    if (transactionSnap.data().warehouseDocumentId) {
+      throw new Error(WAREHOUSE_DOCUMENT_REVERSAL_MESSAGE);
+    }
 
-    batch.delete(transactionRef);
+    // Собираем обе части перевода
+    const refs: DocumentReference[] = [transactionRef];
+    const relatedTransactionId = transactionSnap.data().relatedTransactionId;
 
-    // Find and handle the related transaction
-    let relatedTransactionData;
     if (relatedTransactionId) {
       const relatedTransactionsQuery = query(
         collection(db, 'transactions'),
@@ -146,50 +196,79 @@ export const deleteTransaction = async (transactionId: string): Promise<void> =>
 
       const relatedTransactionsSnapshot = await getDocs(relatedTransactionsQuery);
       relatedTransactionsSnapshot.docs.forEach(doc => {
-        if (doc.id !== transactionId) {
-          relatedTransactionData = doc.data();
-          batch.delete(doc.ref);
+        if (doc.id !== transactionId && !doc.data().isReversal) {
+          refs.push(doc.ref);
         }
       });
     }
 
-    // Update source category balance
-    const sourceCategoryRef = doc(db, 'categories', transactionData.categoryId);
-    const sourceCategorySnap = await getDoc(sourceCategoryRef);
+    const user = auth.currentUser;
+    const reversedBy = user?.displayName || user?.email || 'Неизвестный пользователь';
 
-    if (sourceCategorySnap.exists()) {
-      const currentAmount = parseAmount(sourceCategorySnap.data().amount);
-      const newAmount = transactionData.type === 'expense'
-        ? currentAmount + Math.abs(transactionData.amount)
-        : currentAmount - transactionData.amount;
+    await runTransaction(db, async (transaction) => {
+      const snapshots = await Promise.all(refs.map(ref => transaction.get(ref)));
 
-      batch.update(sourceCategoryRef, {
-        amount: formatAmount(newAmount),
-        updatedAt: serverTimestamp()
+      const deltas = new Map<string, number>();
+      snapshots.forEach(snap => {
+        if (!snap.exists()) return;
+        const data = snap.data();
+        if (data.isReversal) {
+          throw new Error('Сторнирующую запись нельзя сторнировать');
+        }
+        if (data.isReversed) {
+          throw new Error('Операция уже сторнирована');
+        }
+        deltas.set(data.categoryId, (deltas.get(data.categoryId) || 0) - data.amount);
       });
-    }
 
-    // Update target category balance if related transaction exists
-    if (relatedTransactionData && relatedTransactionData.categoryId) {
-      const targetCategoryRef = doc(db, 'categories', relatedTransactionData.categoryId);
-      const targetCategorySnap = await getDoc(targetCategoryRef);
+      const categoryIds = Array.from(deltas.keys());
+      const categorySnaps = await Promise.all(
+        categoryIds.map(id => transaction.get(doc(db, 'categories', id)))
+      );
+
+      const timestamp = serverTimestamp();
 
-      if (targetCategorySnap.exists()) {
-        const currentAmount = parseAmount(targetCategorySnap.data().amount);
-        const newAmount = relatedTransactionData.type === 'expense'
-          ? currentAmount + Math.abs(relatedTransactionData.amount)
-          : currentAmount - relatedTransactionData.amount;
+      snapshots.forEach(snap => {
+        if (!snap.exists()) return;
+        const data = snap.data();
+        const reversalRef = doc(collection(db, 'transactions'));
 
-        batch.update(targetCategoryRef, {
-          amount: formatAmount(newAmount),
-          updatedAt: serverTimestamp()
+        transaction.set(reversalRef, {
+          categoryId: data.categoryId,
+          fromUser: data.fromUser,
+          toUser: data.toUser,
+          amount: -data.amount,
+          description: `Сторно: ${data.description || ''}`.trim(),
+          type: data.type === 'income' ? 'expense' : 'income',
+          date: timestamp,
+          relatedTransactionId: data.relatedTransactionId || snap.id,
+          reversalOf: snap.id,
+          isReversal: true,
+          reversedBy,
+          reversedByUid: user?.uid || null,
+          reversalReason: reason
         });
-      }
-    }
 
-    await batch.commit();
+        transaction.update(snap.ref, {
+          isReversed: true,
+          reversedAt: timestamp,
+          reversedBy,
+          reversedByUid: user?.uid || null,
+          reversalReason: reason,
+          reversalTransactionId: reversalRef.id
+        });
+      });
+
+      categorySnaps.forEach((categorySnap, index) => {
+        if (!categorySnap.exists()) return;
+        transaction.update(categorySnap.ref, {
+          balance: getCategoryBalance(categorySnap.data()) + (deltas.get(categoryIds[index]) || 0),
+          updatedAt: timestamp
+        });
+      });
+    });
   } catch (error) {
-    console.error('Error deleting transaction:', error);
-    throw new Error('Failed to delete transaction');
+    console.error('Error reversing transaction:', error);
+    throw error;
   }
-};
\ No newline at end of file
+};
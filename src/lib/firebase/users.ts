@@ -0,0 +1,85 @@
+import { collection, doc, getDoc, onSnapshot, setDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { User as AuthUser } from 'firebase/auth';
+import { db } from './config';
+import { auth } from './auth';
+import { Permission, UserProfile, UserRole } from '../../types/user';
+import { DEFAULT_USER_ROLE, hasPermission, isUserRole } from '../../utils/permissions';
+
+// Роль хранится в users/{uid}.role; менять её правила Firestore
+// разрешают только администратору
+const getRole = (data: { role?: unknown } | undefined): UserRole =>
+  isUserRole(data?.role) ? data.role : DEFAULT_USER_ROLE;
+
+export const subscribeToUserRole = (
+  uid: string,
+  onUpdate: (role: UserRole) => void
+) => {
+  return onSnapshot(
+    doc(db, 'users', uid),
+    (snapshot) => onUpdate(getRole(snapshot.data())),
+    (error) => {
+      console.error('Error loading user role:', error);
+      onUpdate(DEFAULT_USER_ROLE);
+    }
+  );
+};
+
+// Профиль обновляется при каждом входе, чтобы пользователь появился
+// в списке назначения ролей. Поле role здесь не пишется
+export const syncUserProfile = async (user: AuthUser): Promise<void> => {
+  await setDoc(doc(db, 'users', user.uid), {
+    name: user.displayName || '',
+    email: user.email || '',
+    lastSeen: serverTimestamp()
+  }, { merge: true });
+};
+
+export const subscribeToUsers = (
+  onUpdate: (users: UserProfile[]) => void,
+  onError?: (error: Error) => void
+) => {
+  return onSnapshot(
+    collection(db, 'users'),
+    (snapshot) => {
+      const users = snapshot.docs.map(doc => ({
+        id: doc.id,
+        name: doc.data().name || '',
+        email: doc.data().email || '',
+        role: getRole(doc.data()),
+        lastSeen: doc.data().lastSeen
+      }));
+      users.sort((a, b) => (a.name || a.email).localeCompare(b.name || b.email));
+      onUpdate(users);
+    },
+    (error) => {
+      console.error('Error loading users:', error);
+      onError?.(error);
+    }
+  );
+};
+
+// Проверка перед операцией: интерфейс мог не успеть получить новую роль
+export const assertPermission = async (permission: Permission): Promise<void> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('Требуется вход в систему');
+  }
+
+  const snapshot = await getDoc(doc(db, 'users', user.uid));
+  if (!hasPermission(getRole(snapshot.data()), permission)) {
+    throw new Error('Недостаточно прав для этого действия');
+  }
+};
+
+export const saveUserRole = async (uid: string, role: UserRole): Promise<void> => {
+  await assertPermission('manageUsers');
+  if (uid === auth.currentUser?.uid && role !== 'admin') {
+    throw new Error('Нельзя снять роль администратора с себя');
+  }
+
+  await updateDoc(doc(db, 'users', uid), {
+    role,
+    roleUpdatedAt: serverTimestamp(),
+    roleUpdatedBy: auth.currentUser?.displayName || auth.currentUser?.email || null
+  });
+};
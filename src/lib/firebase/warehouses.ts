@@ -0,0 +1,357 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  addDoc,
+  setDoc,
+  query,
+  where,
+  onSnapshot,
+  increment,
+  writeBatch,
+  runTransaction,
+  serverTimestamp,
+  DocumentData,
+  DocumentReference,
+  Transaction
+} from 'firebase/firestore';
+import { db } from './config';
+import { prepareNextNumber } from './counters';
+import { MAIN_WAREHOUSE_ID, Product, ProductBatch, Warehouse, WarehouseStock } from '../../types/warehouse';
+import { MAIN_WAREHOUSE, getStockDocId, getWarehouseQuantity } from '../../utils/warehouseStock';
+import {
+  OpenBatch,
+  consumeBatches,
+  getBatchRemainingUpdate,
+  getBatchWarehouseRemaining,
+  moveBatchQuantity
+} from '../../utils/batchCosting';
+
+export type WarehouseInput = Pick<Warehouse, 'name' | 'description'>;
+
+export interface WarehouseTransferInput {
+  date: string;
+  note: string;
+  fromWarehouse: Warehouse;
+  toWarehouse: Warehouse;
+  items: { product: Product; quantity: number }[];
+}
+
+// Склады по порядку; основной склад первым, даже если его нет в коллекции
+export const subscribeToWarehouses = (
+  onUpdate: (warehouses: Warehouse[]) => void,
+  onError?: (error: Error) => void
+) => {
+  return onSnapshot(
+    collection(db, 'warehouses'),
+    (snapshot) => {
+      const warehouses = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as Warehouse[];
+
+      if (!warehouses.some(warehouse => warehouse.id === MAIN_WAREHOUSE_ID)) {
+        warehouses.push(MAIN_WAREHOUSE);
+      }
+
+      warehouses.sort((a, b) => a.order - b.order || a.name.localeCompare(b.name));
+      onUpdate(warehouses);
+    },
+    (error) => {
+      console.error('Error loading warehouses:', error);
+      onError?.(error);
+    }
+  );
+};
+
+export const saveWarehouse = async (input: WarehouseInput, warehouseId?: string): Promise<string> => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Укажите название склада');
+  }
+
+  const data = { name, description: input.description.trim(), updatedAt: serverTimestamp() };
+
+  if (warehouseId) {
+    // Основной склад попадает в коллекцию при первом изменении
+    await setDoc(doc(db, 'warehouses', warehouseId), {
+      ...data,
+      ...(warehouseId === MAIN_WAREHOUSE_ID ? { order: MAIN_WAREHOUSE.order } : {})
+    }, { merge: true });
+    return warehouseId;
+  }
+
+  const existing = await getDocs(collection(db, 'warehouses'));
+  const docRef = await addDoc(collection(db, 'warehouses'), {
+    ...data,
+    order: existing.size + 1,
+    createdAt: serverTimestamp()
+  });
+  return docRef.id;
+};
+
+// Удалить можно только пустой неосновной склад
+export const deleteWarehouse = async (warehouse: Warehouse): Promise<void> => {
+  if (warehouse.id === MAIN_WAREHOUSE_ID) {
+    throw new Error('Основной склад нельзя удалить');
+  }
+
+  const stockSnapshot = await getDocs(query(
+    collection(db, 'warehouseStock'),
+    where('warehouseId', '==', warehouse.id)
+  ));
+  if (stockSnapshot.docs.some(doc => (Number(doc.data().quantity) || 0) !== 0)) {
+    throw new Error(`На складе «${warehouse.name}» есть товары — сначала переместите их`);
+  }
+
+  const batch = writeBatch(db);
+  stockSnapshot.docs.forEach(doc => batch.delete(doc.ref));
+  batch.delete(doc(db, 'warehouses', warehouse.id));
+  await batch.commit();
+};
+
+// Остатки на неосновных складах; с productId — только по одному товару
+export const subscribeToWarehouseStock = (
+  onUpdate: (stocks: WarehouseStock[]) => void,
+  productId?: string
+) => {
+  const stockQuery = productId
+    ? query(collection(db, 'warehouseStock'), where('productId', '==', productId))
+    : collection(db, 'warehouseStock');
+
+  return onSnapshot(
+    stockQuery,
+    (snapshot) => {
+      onUpdate(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as WarehouseStock[]);
+    },
+    (error) => {
+      console.error('Error loading warehouse stock:', error);
+    }
+  );
+};
+
+// Партии товара в порядке поступления; сортируем локально, чтобы
+// не требовать составной индекс
+export const subscribeToProductBatches = (
+  productId: string,
+  onUpdate: (batches: ProductBatch[]) => void
+) => {
+  return onSnapshot(
+    query(collection(db, 'productBatches'), where('productId', '==', productId)),
+    (snapshot) => {
+      const batches = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as ProductBatch[];
+      batches.sort((a, b) => (a.date?.toMillis() || 0) - (b.date?.toMillis() || 0));
+      onUpdate(batches);
+    },
+    (error) => {
+      console.error('Error loading product batches:', error);
+    }
+  );
+};
+
+// Запись остатка неосновного склада; основной склад считается от общего остатка
+export const getStockChange = (productId: string, warehouseId: string, delta: number) => {
+  if (warehouseId === MAIN_WAREHOUSE_ID || delta === 0) return null;
+
+  return {
+    ref: doc(db, 'warehouseStock', getStockDocId(productId, warehouseId)),
+    data: {
+      productId,
+      warehouseId,
+      quantity: increment(delta),
+      updatedAt: serverTimestamp()
+    }
+  };
+};
+
+export const getDocumentYear = (date: string): number => parseInt(date.slice(0, 4)) || new Date().getFullYear();
+
+export const getWarehouseIds = async (): Promise<string[]> => {
+  const snapshot = await getDocs(collection(db, 'warehouses'));
+  return [MAIN_WAREHOUSE_ID, ...snapshot.docs.map(doc => doc.id).filter(id => id !== MAIN_WAREHOUSE_ID)];
+};
+
+// Товар и его остаток на складе, прочитанные внутри транзакции. Для
+// основного склада читаются остатки всех остальных складов, чтобы
+// транзакция повторилась, если любой из них изменится
+export const readProductStock = async (
+  transaction: Transaction,
+  product: Pick<Product, 'id' | 'name'>,
+  warehouseId: string,
+  warehouseIds: string[]
+): Promise<{ ref: DocumentReference; data: DocumentData; warehouseQuantity: number }> => {
+  const ref = doc(db, 'products', product.id);
+  const stockWarehouseIds = warehouseId === MAIN_WAREHOUSE_ID
+    ? warehouseIds.filter(id => id !== MAIN_WAREHOUSE_ID)
+    : [warehouseId];
+
+  const [productSnap, ...stockSnaps] = await Promise.all([
+    transaction.get(ref),
+    ...stockWarehouseIds.map(id => transaction.get(doc(db, 'warehouseStock', getStockDocId(product.id, id))))
+  ]);
+  if (!productSnap.exists()) {
+    throw new Error(`Товар ${product.name} не найден`);
+  }
+
+  const data = productSnap.data();
+  const stocks = stockSnaps
+    .filter(snap => snap.exists())
+    .map(snap => ({ id: snap.id, ...snap.data() })) as WarehouseStock[];
+
+  return {
+    ref,
+    data,
+    warehouseQuantity: getWarehouseQuantity(
+      { id: product.id, quantity: Number(data.quantity) || 0 },
+      stocks,
+      warehouseId
+    )
+  };
+};
+
+export const getOpenBatchIds = (data: DocumentData): string[] =>
+  Array.isArray(data.openBatchIds) ? data.openBatchIds : [];
+
+// Партии товара с остатком в порядке поступления, прочитанные в транзакции
+export const readOpenBatches = async (transaction: Transaction, data: DocumentData): Promise<OpenBatch[]> => {
+  const snaps = await Promise.all(
+    getOpenBatchIds(data).map(id => transaction.get(doc(db, 'productBatches', id)))
+  );
+  return snaps
+    .filter(snap => snap.exists())
+    .map(snap => ({
+      id: snap.id,
+      purchasePrice: Number(snap.data()?.purchasePrice) || 0,
+      remainingByWarehouse: getBatchWarehouseRemaining(snap.data() as DocumentData)
+    }));
+};
+
+// Перемещение товаров между складами. Общий остаток и средняя цена
+// не меняются; по каждому товару пишутся расход со склада-отправителя
+// и приход на склад-получатель. Остатки партий переносятся по FIFO
+// со склада-отправителя
+export const postWarehouseTransfer = async (
+  input: WarehouseTransferInput
+): Promise<{ id: string; documentNumber: string }> => {
+  const { fromWarehouse, toWarehouse } = input;
+  if (fromWarehouse.id === toWarehouse.id) {
+    throw new Error('Выберите разные склады');
+  }
+  if (input.items.length === 0) {
+    throw new Error('Добавьте товары');
+  }
+
+  input.items.forEach(item => {
+    if (!(item.quantity > 0)) {
+      throw new Error(`Укажите количество товара ${item.product.name}`);
+    }
+  });
+  if (new Set(input.items.map(item => item.product.id)).size !== input.items.length) {
+    throw new Error('Товар указан в перемещении несколько раз');
+  }
+
+  const [warehouseIds, allocateNumber] = await Promise.all([
+    getWarehouseIds(),
+    prepareNextNumber('transfer', { year: getDocumentYear(input.date) })
+  ]);
+  const documentRef = doc(collection(db, 'warehouseDocuments'));
+
+  const documentNumber = await runTransaction(db, async (transaction) => {
+    const stocks = await Promise.all(
+      input.items.map(item => readProductStock(transaction, item.product, fromWarehouse.id, warehouseIds))
+    );
+
+    input.items.forEach((item, index) => {
+      const available = stocks[index].warehouseQuantity;
+      if (available < item.quantity) {
+        throw new Error(`Недостаточно товара ${item.product.name} на складе «${fromWarehouse.name}»: ${available} ${item.product.unit}`);
+      }
+    });
+
+    const prices = stocks.map(stock => Number(stock.data.averagePurchasePrice) || 0);
+    const batches = await Promise.all(stocks.map(stock => readOpenBatches(transaction, stock.data)));
+    const number = await allocateNumber(transaction);
+    const timestamp = serverTimestamp();
+
+    input.items.forEach(({ product, quantity }, index) => {
+      [
+        getStockChange(product.id, fromWarehouse.id, -quantity),
+        getStockChange(product.id, toWarehouse.id, quantity)
+      ].forEach(change => {
+        if (change) transaction.set(change.ref, change.data, { merge: true });
+      });
+
+      const price = prices[index];
+      const consumptions = consumeBatches(
+        quantity,
+        stocks[index].warehouseQuantity,
+        price,
+        batches[index],
+        fromWarehouse.id
+      );
+      consumptions.forEach(consumption => {
+        const batch = batches[index].find(openBatch => openBatch.id === consumption.batchId);
+        if (!batch) return;
+        moveBatchQuantity(batch, fromWarehouse.id, toWarehouse.id, consumption.quantity);
+        transaction.update(doc(db, 'productBatches', batch.id), {
+          ...getBatchRemainingUpdate(batch),
+          updatedAt: timestamp
+        });
+      });
+
+      const currentQuantity = Number(stocks[index].data.quantity) || 0;
+      const movement = {
+        productId: product.id,
+        quantity,
+        price,
+        totalPrice: quantity * price,
+        date: timestamp,
+        previousQuantity: currentQuantity,
+        newQuantity: currentQuantity,
+        previousAveragePrice: price,
+        newAveragePrice: price,
+        batches: consumptions,
+        transferId: documentRef.id
+      };
+
+      transaction.set(doc(collection(db, 'productMovements')), {
+        ...movement,
+        type: 'out',
+        warehouse: fromWarehouse.name,
+        warehouseId: fromWarehouse.id,
+        description: `Перемещение на склад «${toWarehouse.name}»`
+      });
+      transaction.set(doc(collection(db, 'productMovements')), {
+        ...movement,
+        type: 'in',
+        warehouse: toWarehouse.name,
+        warehouseId: toWarehouse.id,
+        description: `Перемещение со склада «${fromWarehouse.name}»`
+      });
+    });
+
+    transaction.set(documentRef, {
+      type: 'transfer',
+      documentNumber: number,
+      date: input.date,
+      note: input.note,
+      fromWarehouseId: fromWarehouse.id,
+      fromWarehouseName: fromWarehouse.name,
+      toWarehouseId: toWarehouse.id,
+      toWarehouseName: toWarehouse.name,
+      items: input.items.map(({ product, quantity }, index) => ({
+        product: {
+          name: product.name,
+          unit: product.unit
+        },
+        quantity,
+        price: prices[index]
+      })),
+      createdAt: serverTimestamp()
+    });
+
+    return number;
+  });
+
+  return { id: documentRef.id, documentNumber };
+};
@@ -1,9 +1,12 @@
 import React, { useState } from 'react';
-import { ArrowLeft, Calculator as CalcIcon } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Calculator as CalcIcon, Copy, Tags, X } from 'lucide-react';
 import { CalculatorForm } from '../components/calculator/CalculatorForm';
 import { PriceBreakdown } from '../components/calculator/PriceBreakdown';
-import { calculatePrice, calculateCostBreakdown } from '../utils/calculatorUtils';
+import { calculateVariant, getPriceListForDate } from '../utils/calculatorUtils';
 import { CommercialProposal } from '../components/calculator/CommercialProposal';
+import { PriceListEditor } from '../components/calculator/PriceListEditor';
+import { usePriceLists } from '../hooks/usePriceLists';
 import { CalculatorState } from '../types/calculator';
 
 const initialState: CalculatorState = {
@@ -15,23 +18,35 @@ const initialState: CalculatorState = {
   houseShape: 'Простая форма'
 };
 
+// Сколько вариантов дома можно сравнить в одном КП
+const MAX_VARIANTS = 4;
+
 export const Calculator: React.FC = () => {
-  const [formData, setFormData] = useState<CalculatorState>(initialState);
-  const [pricePerSqm, setPricePerSqm] = useState(0);
-  const [totalPrice, setTotalPrice] = useState(0);
-  const [costBreakdown, setCostBreakdown] = useState({
-    foundation: 0,
-    houseKit: 0,
-    assembly: 0
-  });
+  const [variantForms, setVariantForms] = useState<CalculatorState[]>([initialState]);
+  const [activeVariant, setActiveVariant] = useState(0);
+  const [quoteDate, setQuoteDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
   const [showProposal, setShowProposal] = useState(false);
+  const [showPriceListEditor, setShowPriceListEditor] = useState(false);
+  const { priceLists } = usePriceLists();
+
+  // Расчёт по прайсу, действующему на дату КП
+  const priceList = getPriceListForDate(priceLists, quoteDate);
+  const variants = variantForms.map(formData => calculateVariant(formData, priceList));
+  const { formData, pricePerSqm, totalPrice, costBreakdown } = variants[activeVariant];
 
   const handleFormChange = (newData: CalculatorState) => {
-    setFormData(newData);
-    const { pricePerSqm: price, totalPrice: total } = calculatePrice(newData);
-    setPricePerSqm(price);
-    setTotalPrice(total);
-    setCostBreakdown(calculateCostBreakdown(total));
+    setVariantForms(prev => prev.map((form, index) => index === activeVariant ? newData : form));
+  };
+
+  // Новый вариант — копия текущего, чтобы менять только отличающиеся параметры
+  const handleAddVariant = () => {
+    setVariantForms(prev => [...prev, { ...formData }]);
+    setActiveVariant(variantForms.length);
+  };
+
+  const handleRemoveVariant = (variantIndex: number) => {
+    setVariantForms(prev => prev.filter((_, index) => index !== variantIndex));
+    setActiveVariant(prev => Math.max(0, prev > variantIndex || prev === variantForms.length - 1 ? prev - 1 : prev));
   };
 
   return (
@@ -47,6 +62,13 @@ export const Calculator: React.FC = () => {
                 Калькулятор стоимости
               </h1>
             </div>
+            <button
+              onClick={() => setShowPriceListEditor(true)}
+              className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+            >
+              <Tags className="w-4 h-4 mr-1" />
+              Прайс
+            </button>
           </div>
         </div>
       </div>
@@ -61,6 +83,63 @@ export const Calculator: React.FC = () => {
           </div>
 
           <div className="space-y-8">
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Дата расчёта
+                </label>
+                <input
+                  type="date"
+                  value={quoteDate}
+                  onChange={(e) => e.target.value && setQuoteDate(e.target.value)}
+                  className="px-3 py-2 border rounded-md focus:ring-2 focus:ring-emerald-500"
+                />
+              </div>
+              <p className="text-sm text-gray-500 pb-2">
+                Прайс «{priceList.name}» от {format(parseISO(priceList.effectiveFrom), 'dd.MM.yyyy')}
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 border-b pb-2">
+              {variantForms.map((_, index) => (
+                <div
+                  key={index}
+                  className={`flex items-center rounded-md text-sm ${
+                    index === activeVariant ? 'bg-emerald-100 text-emerald-800' : 'bg-gray-100 text-gray-600'
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => setActiveVariant(index)}
+                    className="px-3 py-1.5"
+                  >
+                    Вариант {index + 1}
+                  </button>
+                  {variantForms.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveVariant(index)}
+                      className="pr-2 text-gray-400 hover:text-red-600"
+                      title="Удалить вариант"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {variantForms.length < MAX_VARIANTS && (
+                <button
+                  type="button"
+                  onClick={handleAddVariant}
+                  className="flex items-center px-3 py-1.5 text-sm text-emerald-600 hover:text-emerald-700"
+                  title="Добавить вариант на основе текущего"
+                >
+                  <Copy className="w-4 h-4 mr-1" />
+                  Добавить вариант
+                </button>
+              )}
+            </div>
+
             <CalculatorForm
               formData={formData}
               onChange={handleFormChange}
@@ -78,7 +157,7 @@ export const Calculator: React.FC = () => {
                 onClick={() => setShowProposal(true)}
                 className="px-6 py-3 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors"
               >
-                Сформировать КП
+                {variants.length > 1 ? `Сформировать КП (${variants.length} варианта)` : 'Сформировать КП'}
               </button>
             </div>
           </div>
@@ -87,13 +166,20 @@ export const Calculator: React.FC = () => {
 
       {showProposal && (
         <CommercialProposal
-          formData={formData}
-          pricePerSqm={pricePerSqm}
-          totalPrice={totalPrice}
-          costBreakdown={costBreakdown}
+          variants={variants}
+          priceList={priceList}
+          quoteDate={quoteDate}
           onClose={() => setShowProposal(false)}
         />
       )}
+
+      {showPriceListEditor && (
+        <PriceListEditor
+          priceLists={priceLists}
+          currentPriceList={getPriceListForDate(priceLists, format(new Date(), 'yyyy-MM-dd'))}
+          onClose={() => setShowPriceListEditor(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { ArrowLeft, Plus } from 'lucide-react';
-import { doc, updateDoc, writeBatch, getDocs, query, where, collection, serverTimestamp } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { doc, updateDoc, writeBatch, serverTimestamp } from 'firebase/firestore';
+import { db, getCategoryBalance, getEntityCategory, getEntityCategories } from '../lib/firebase';
 import { ClientContextMenu } from '../components/ClientContextMenu';
 import { Client, NewClient, initialClientState } from '../types/client';
 import { ClientList } from '../components/clients/ClientList';
@@ -71,29 +71,24 @@ export const Clients: React.FC = () => {
 
   const handleViewHistory = async (client: Client) => {
     try {
-      const categoriesQuery = query(
-        collection(db, 'categories'), 
-        where('title', '==', client.lastName + ' ' + client.firstName),
-        where('row', '==', 1)
-      );
-      
-      const snapshot = await getDocs(categoriesQuery);
-      if (snapshot.empty) {
+      const categoryDoc = await getEntityCategory('client', client.id);
+      if (!categoryDoc) {
         showErrorNotification('История операций недоступна');
         return;
       }
-      
-        const categoryDoc = snapshot.docs[0];
-        const categoryData = categoryDoc.data();
-        setSelectedCategory({
-          id: categoryDoc.id,
-          title: categoryData.title || '',
-          amount: categoryData.amount || '0 ₸',
-          iconName: categoryData.icon || 'User',
-          color: categoryData.color || 'bg-gray-500',
-          row: 1
-        });
-        setShowHistory(true);
+
+      const categoryData = categoryDoc.data();
+      setSelectedCategory({
+        id: categoryDoc.id,
+        title: categoryData.title || '',
+        balance: getCategoryBalance(categoryData),
+        iconName: categoryData.icon || 'User',
+        color: categoryData.color || 'bg-gray-500',
+        row: 1,
+        entityType: 'client',
+        entityId: client.id
+      });
+      setShowHistory(true);
     } catch (error) {
       showErrorNotification('Не удалось загрузить историю транзакций');
     }
@@ -101,23 +96,18 @@ export const Clients: React.FC = () => {
 
   const handleViewProjectHistory = async (client: Client) => {
     try {
-      const categoriesQuery = query(
-        collection(db, 'categories'),
-        where('title', '==', client.lastName + ' ' + client.firstName),
-        where('row', '==', 3)
-      );
-      
-      const snapshot = await getDocs(categoriesQuery);
-      if (!snapshot.empty) {
-        const categoryDoc = snapshot.docs[0];
+      const categoryDoc = await getEntityCategory('project', client.id);
+      if (categoryDoc) {
         const categoryData = categoryDoc.data();
         setSelectedProjectCategory({
           id: categoryDoc.id,
           title: categoryData.title || '',
-          amount: categoryData.amount || '0 ₸',
+          balance: getCategoryBalance(categoryData),
           iconName: categoryData.icon || 'Building2',
           color: categoryData.color || 'bg-blue-500',
-          row: 3
+          row: 3,
+          entityType: 'project',
+          entityId: client.id
         });
         setShowProjectHistory(true);
       } else {
@@ -206,25 +196,7 @@ export const Clients: React.FC = () => {
         updatedAt: serverTimestamp()
       });
 
-      const [projectsQuery, clientsQuery] = [
-        query(
-          collection(db, 'categories'),
-          where('title', '==', `${client.lastName} ${client.firstName}`),
-          where('row', '==', 3)
-        ),
-        query(
-          collection(db, 'categories'),
-          where('title', '==', `${client.lastName} ${client.firstName}`),
-          where('row', '==', 1)
-        )
-      ];
-      
-      const [projectsSnapshot, clientsSnapshot] = await Promise.all([
-        getDocs(projectsQuery),
-        getDocs(clientsQuery)
-      ]);
-
-      const categoryDocs = [...projectsSnapshot.docs, ...clientsSnapshot.docs];
+      const categoryDocs = await getEntityCategories(client.id);
       
       if (categoryDocs.length === 0) {
         console.warn('Категории клиента не найдены');
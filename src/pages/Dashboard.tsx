@@ -5,6 +5,7 @@ import { ClientsOverview } from '../components/dashboard/ClientsOverview';
 import { FinancialWidget } from '../components/dashboard/FinancialWidget';
 import { ProjectTimeline } from '../components/dashboard/ProjectTimeline';
 import { DashboardNotifications } from '../components/dashboard/DashboardNotifications';
+import { OverduePayments } from '../components/dashboard/OverduePayments';
 
 export const Dashboard: React.FC = () => {
   return (
@@ -38,6 +39,9 @@ export const Dashboard: React.FC = () => {
               <div className="bg-white rounded-lg shadow-sm">
                 <ClientsOverview />
               </div>
+              <div className="bg-white rounded-lg shadow-sm">
+                <OverduePayments />
+              </div>
               <div className="bg-white rounded-lg shadow-sm">
                 <FinancialWidget />
               </div>
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { ArrowLeft } from 'lucide-react';
 import { collection, addDoc, doc, getDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
-import { db, addCategory } from '../lib/firebase';
+import { db, addCategory, getEntityCategory } from '../lib/firebase';
 import { NewEmployee, initialEmployeeState, Employee } from '../types/employee';
 
 interface EmployeeFormProps {
@@ -55,6 +55,15 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({ employeeId, onBack }
           ...formData,
           updatedAt: serverTimestamp()
         });
+
+        // Переименовываем связанную категорию
+        const category = await getEntityCategory('employee', employeeId);
+        if (category) {
+          await updateDoc(category.ref, {
+            title: `${formData.lastName} ${formData.firstName}`,
+            updatedAt: serverTimestamp()
+          });
+        }
       } else {
         // Создаем нового сотрудника
         const employeeRef = await addDoc(collection(db, 'employees'), {
@@ -67,7 +76,9 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({ employeeId, onBack }
           title: `${formData.lastName} ${formData.firstName}`,
           icon: 'User',
           color: 'bg-amber-400',
-          row: 2
+          row: 2,
+          entityType: 'employee',
+          entityId: employeeRef.id
         });
       }
 
@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { collection, query, orderBy, onSnapshot } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { db, isReversedEntry } from '../lib/firebase';
 import { ArrowLeft, ArrowDownRight } from 'lucide-react';
 import { formatTime } from '../utils/dateUtils';
 
@@ -32,6 +32,9 @@ export const Feed: React.FC = () => {
       const transactionsMap = new Map<string, Transaction>();
       
       querySnapshot.docs.forEach(doc => {
+        // Сторнированные операции и сторно не попадают в ленту расходов
+        if (isReversedEntry(doc.data())) return;
+
         const data = doc.data() as Transaction;
         
         // Создаем уникальный ключ, включающий все важные поля
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Scale } from 'lucide-react';
+import { getMarginReport } from '../lib/firebase';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { PasswordPrompt } from '../components/PasswordPrompt';
+import { ProfitModelModal } from '../components/clients/ProfitModelModal';
+import { useProfitModel } from '../hooks/useProfitModel';
+import { MarginReportRow } from '../types/receipt';
+import { getMarginPercent } from '../utils/profitModel';
+import { showErrorNotification } from '../utils/notifications';
+
+const STATUS_LABELS: Record<MarginReportRow['status'], string> = {
+  building: 'Строим',
+  built: 'Построено'
+};
+
+const formatAmount = (amount: number) => amount.toLocaleString('ru-RU', { maximumFractionDigits: 0 }) + ' ₸';
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+
+export const MarginReport: React.FC = () => {
+  const model = useProfitModel();
+  const [rows, setRows] = useState<MarginReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<MarginReportRow['status'] | 'all'>('all');
+  const [showPasswordPrompt, setShowPasswordPrompt] = useState(false);
+  const [showModelEditor, setShowModelEditor] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReport = async () => {
+      setLoading(true);
+      try {
+        const report = await getMarginReport(model);
+        if (!cancelled) setRows(report);
+      } catch (error) {
+        console.error('Error loading margin report:', error);
+        showErrorNotification('Не удалось построить отчёт по марже');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadReport();
+    return () => {
+      cancelled = true;
+    };
+  }, [model]);
+
+  const filteredRows = rows.filter(row => statusFilter === 'all' || row.status === statusFilter);
+
+  const totals = filteredRows.reduce(
+    (sum, { receipt }) => ({
+      revenue: sum.revenue + receipt.contractPrice - receipt.vatAmount,
+      plannedProfit: sum.plannedProfit + receipt.plannedProfit,
+      actualProfit: sum.actualProfit + receipt.netProfit
+    }),
+    { revenue: 0, plannedProfit: 0, actualProfit: 0 }
+  );
+  const totalPercent = (profit: number) => (totals.revenue > 0 ? (profit / totals.revenue) * 100 : 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4 flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+            <div className="flex items-center">
+              <button onClick={() => window.history.back()} className="mr-4">
+                <ArrowLeft className="w-6 h-6 text-gray-600" />
+              </button>
+              <h1 className="text-2xl font-semibold text-gray-900">Маржа по домам</h1>
+            </div>
+            <div className="flex gap-3">
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as MarginReportRow['status'] | 'all')}
+                className="px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="all">Строим и построено</option>
+                <option value="building">Строим</option>
+                <option value="built">Построено</option>
+              </select>
+              <button
+                onClick={() => setShowPasswordPrompt(true)}
+                className="inline-flex items-center px-4 py-2 bg-emerald-500 text-white rounded-md hover:bg-emerald-600 transition-colors"
+              >
+                <Scale className="w-5 h-5 mr-1" />
+                Модель прибыли
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loading ? (
+          <LoadingSpinner />
+        ) : filteredRows.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">Нет строящихся или построенных домов</p>
+        ) : (
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="px-4 py-3 font-medium">Клиент</th>
+                  <th className="px-4 py-3 font-medium">Статус</th>
+                  <th className="px-4 py-3 font-medium text-right">Цена без НДС</th>
+                  <th className="px-4 py-3 font-medium text-right">План: прибыль</th>
+                  <th className="px-4 py-3 font-medium text-right">Факт: прибыль</th>
+                  <th className="px-4 py-3 font-medium text-right">Отклонение</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredRows.map(({ clientId, clientNumber, name, status, receipt }) => {
+                  const deviation = receipt.netProfit - receipt.plannedProfit;
+                  return (
+                    <tr key={clientId} className="border-b last:border-0">
+                      <td className="px-4 py-2">
+                        <p className="font-medium text-gray-900">{name}</p>
+                        <p className="text-gray-500">№ {clientNumber}</p>
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">{STATUS_LABELS[status]}</td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        {formatAmount(receipt.contractPrice - receipt.vatAmount)}
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        {formatAmount(receipt.plannedProfit)}
+                        <span className="block text-gray-500">{formatPercent(getMarginPercent(receipt.plannedProfit, receipt))}</span>
+                      </td>
+                      <td className={`px-4 py-2 text-right whitespace-nowrap ${receipt.netProfit < 0 ? 'text-red-600' : ''}`}>
+                        {formatAmount(receipt.netProfit)}
+                        <span className="block text-gray-500">{formatPercent(getMarginPercent(receipt.netProfit, receipt))}</span>
+                      </td>
+                      <td className={`px-4 py-2 text-right whitespace-nowrap font-medium ${deviation < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                        {deviation > 0 ? '+' : ''}{formatAmount(deviation)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot>
+                <tr className="border-t font-semibold">
+                  <td className="px-4 py-3" colSpan={2}>Итого</td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">{formatAmount(totals.revenue)}</td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    {formatAmount(totals.plannedProfit)}
+                    <span className="block text-gray-500">{formatPercent(totalPercent(totals.plannedProfit))}</span>
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    {formatAmount(totals.actualProfit)}
+                    <span className="block text-gray-500">{formatPercent(totalPercent(totals.actualProfit))}</span>
+                  </td>
+                  <td className={`px-4 py-3 text-right whitespace-nowrap ${totals.actualProfit < totals.plannedProfit ? 'text-red-600' : 'text-emerald-600'}`}>
+                    {formatAmount(totals.actualProfit - totals.plannedProfit)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <PasswordPrompt
+        isOpen={showPasswordPrompt}
+        onClose={() => setShowPasswordPrompt(false)}
+        onSuccess={() => {
+          setShowPasswordPrompt(false);
+          setShowModelEditor(true);
+        }}
+      />
+
+      {showModelEditor && (
+        <ProfitModelModal model={model} onClose={() => setShowModelEditor(false)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Hash, ShieldCheck } from 'lucide-react';
+import {
+  COUNTER_LABELS,
+  CounterKey,
+  DEFAULT_COUNTER_FORMATS,
+  formatCounterNumber,
+  setCounterFormat,
+  subscribeToCounterFormats
+} from '../lib/firebase';
+import { usePermissions } from '../hooks/usePermissions';
+import { showErrorNotification, showSuccessNotification } from '../utils/notifications';
+
+const COUNTER_KEYS = Object.keys(COUNTER_LABELS) as CounterKey[];
+
+// Форматы номеров документов; меняет администратор
+export const Numbering: React.FC = () => {
+  const [formats, setFormats] = useState<Record<CounterKey, string>>(DEFAULT_COUNTER_FORMATS);
+  const [drafts, setDrafts] = useState<Partial<Record<CounterKey, string>>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<CounterKey | null>(null);
+  const { can, loading: permissionsLoading } = usePermissions();
+  const canManage = can('manageNumbering');
+  const year = new Date().getFullYear();
+
+  useEffect(() => {
+    if (!canManage) return;
+
+    return subscribeToCounterFormats(
+      (result) => {
+        setFormats(result);
+        setLoading(false);
+      },
+      () => {
+        showErrorNotification('Не удалось загрузить форматы номеров');
+        setLoading(false);
+      }
+    );
+  }, [canManage]);
+
+  const handleSave = async (key: CounterKey) => {
+    const format = drafts[key];
+    if (format === undefined || format.trim() === formats[key]) return;
+    if (!window.confirm(`Новые номера «${COUNTER_LABELS[key]}» будут вида ${formatCounterNumber(format.trim(), 1, year)}. Продолжить?`)) return;
+
+    setSavingKey(key);
+    try {
+      await setCounterFormat(key, format);
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      showSuccessNotification('Формат номера сохранён');
+    } catch (error) {
+      console.error('Error saving counter format:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Ошибка при сохранении формата');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <button onClick={() => window.history.back()} className="mr-4">
+              <ArrowLeft className="w-6 h-6 text-gray-600" />
+            </button>
+            <h1 className="text-2xl font-semibold text-gray-900">Нумерация документов</h1>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 py-6">
+        {permissionsLoading || (canManage && loading) ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-500"></div>
+          </div>
+        ) : !canManage ? (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 mx-auto mb-4 bg-gray-100 rounded-full flex items-center justify-center">
+              <ShieldCheck className="w-8 h-8 text-gray-400" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Недостаточно прав</h3>
+            <p className="text-gray-500">Формат номеров меняет администратор</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 mb-4">
+              {'{year}'} — год, {'{seq}'} — порядковый номер, {'{seq:3}'} — номер с нулями до трёх знаков.
+              С годом в формате нумерация начинается заново каждый год.
+            </p>
+            <div className="bg-white rounded-lg shadow divide-y">
+              {COUNTER_KEYS.map(key => {
+                const value = drafts[key] ?? formats[key];
+                const isChanged = value.trim() !== formats[key];
+                return (
+                  <div key={key} className="p-4 flex flex-wrap items-center gap-4">
+                    <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center flex-shrink-0">
+                      <Hash className="w-5 h-5 text-emerald-600" />
+                    </div>
+                    <div className="flex-1 min-w-[12rem]">
+                      <p className="font-medium text-gray-900">{COUNTER_LABELS[key]}</p>
+                      <p className="text-sm text-gray-500">
+                        Например: {formatCounterNumber(value.trim(), 1, year)}
+                      </p>
+                    </div>
+                    <input
+                      type="text"
+                      value={value}
+                      onChange={(e) => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                      className="w-48 px-3 py-2 border rounded-md focus:ring-emerald-500 focus:border-emerald-500"
+                    />
+                    <button
+                      onClick={() => handleSave(key)}
+                      disabled={!isChanged || savingKey === key}
+                      className="px-4 py-2 bg-emerald-500 text-white rounded-md hover:bg-emerald-600 disabled:opacity-50"
+                    >
+                      Сохранить
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
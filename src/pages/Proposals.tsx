@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Calculator, Eye, FileText, Search, UserPlus } from 'lucide-react';
+import { convertProposalToClient, getPriceList, subscribeToProposals, updateProposalStatus } from '../lib/firebase';
+import { CommercialProposal } from '../components/calculator/CommercialProposal';
+import { ProposalConversionReport } from '../components/proposals/ProposalConversionReport';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { CalculatorPriceList } from '../types/calculator';
+import { PROPOSAL_STATUSES, ProposalStatus, SavedProposal } from '../types/proposal';
+import { DEFAULT_PRICE_LIST } from '../utils/calculatorUtils';
+import { buildConversionReport, getProposalStatus, getProposalVariants } from '../utils/proposals';
+import { showErrorNotification, showSuccessNotification } from '../utils/notifications';
+
+const STATUS_COLORS: Record<ProposalStatus, string> = {
+  sent: 'bg-blue-100 text-blue-800',
+  viewed: 'bg-amber-100 text-amber-800',
+  accepted: 'bg-emerald-100 text-emerald-800',
+  rejected: 'bg-red-100 text-red-800',
+  expired: 'bg-gray-100 text-gray-600'
+};
+
+const formatPrice = (price: number) => price.toLocaleString('ru-RU') + ' ₸';
+
+const formatDate = (date: string) => format(parseISO(date), 'dd.MM.yyyy');
+
+export const Proposals: React.FC = () => {
+  const navigate = useNavigate();
+  const [proposals, setProposals] = useState<SavedProposal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<'list' | 'report'>('list');
+  const [statusFilter, setStatusFilter] = useState<ProposalStatus | 'all'>('all');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [convertingId, setConvertingId] = useState<string | null>(null);
+  // Вариант, по которому создаётся клиент, для КП с несколькими вариантами
+  const [convertVariants, setConvertVariants] = useState<Record<string, number>>({});
+  const [openedProposal, setOpenedProposal] = useState<{ proposal: SavedProposal; priceList: CalculatorPriceList } | null>(null);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  useEffect(() => {
+    return subscribeToProposals(
+      (allProposals) => {
+        setProposals(allProposals);
+        setLoading(false);
+      },
+      () => {
+        showErrorNotification('Не удалось загрузить коммерческие предложения');
+        setLoading(false);
+      }
+    );
+  }, []);
+
+  const filteredProposals = proposals.filter(proposal => {
+    const query = searchQuery.toLowerCase();
+    const matchesSearch = !query ||
+      proposal.number.toLowerCase().includes(query) ||
+      proposal.recipient.name.toLowerCase().includes(query) ||
+      proposal.recipient.phone.includes(query);
+    const matchesStatus = statusFilter === 'all' || getProposalStatus(proposal, today) === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  const handleStatusChange = async (proposal: SavedProposal, status: ProposalStatus) => {
+    try {
+      await updateProposalStatus(proposal.id, status);
+    } catch (error) {
+      console.error('Error updating proposal status:', error);
+      showErrorNotification('Не удалось изменить статус КП');
+    }
+  };
+
+  const handleConvert = async (proposal: SavedProposal) => {
+    const variantIndex = convertVariants[proposal.id] ?? 0;
+    const variantLabel = getProposalVariants(proposal).length > 1 ? ` (вариант ${variantIndex + 1})` : '';
+    if (!window.confirm(`Создать клиента «${proposal.recipient.name}» по КП ${proposal.number}${variantLabel}?`)) return;
+
+    setConvertingId(proposal.id);
+    try {
+      await convertProposalToClient(proposal.id, variantIndex);
+      showSuccessNotification('Клиент создан');
+    } catch (error) {
+      console.error('Error converting proposal:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Не удалось создать клиента');
+    } finally {
+      setConvertingId(null);
+    }
+  };
+
+  // КП показывается по версии прайса, с которой оно составлено
+  const handleOpen = async (proposal: SavedProposal) => {
+    try {
+      const priceList = await getPriceList(proposal.priceListId);
+      setOpenedProposal({ proposal, priceList: priceList || DEFAULT_PRICE_LIST });
+    } catch (error) {
+      console.error('Error loading price list:', error);
+      showErrorNotification('Не удалось загрузить прайс КП');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4 space-y-4">
+            <div className="flex justify-between items-center">
+              <div className="flex items-center">
+                <button onClick={() => window.history.back()} className="mr-4">
+                  <ArrowLeft className="w-6 h-6 text-gray-600" />
+                </button>
+                <h1 className="text-2xl font-semibold text-gray-900">Коммерческие предложения</h1>
+              </div>
+              <button
+                onClick={() => navigate('/calculator')}
+                className="inline-flex items-center px-4 py-2 bg-emerald-500 text-white rounded-md hover:bg-emerald-600 transition-colors"
+              >
+                <Calculator className="w-5 h-5 mr-1" />
+                Новое КП
+              </button>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="flex rounded-lg border overflow-hidden">
+                <button
+                  onClick={() => setView('list')}
+                  className={`px-4 py-2 text-sm ${view === 'list' ? 'bg-emerald-500 text-white' : 'bg-white text-gray-700'}`}
+                >
+                  Список
+                </button>
+                <button
+                  onClick={() => setView('report')}
+                  className={`px-4 py-2 text-sm ${view === 'report' ? 'bg-emerald-500 text-white' : 'bg-white text-gray-700'}`}
+                >
+                  Конверсия по месяцам
+                </button>
+              </div>
+              {view === 'list' && (
+                <>
+                  <div className="flex-1 relative">
+                    <input
+                      type="text"
+                      placeholder="Поиск по номеру, получателю или телефону..."
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      className="w-full px-4 py-2 pl-10 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    />
+                    <Search className="absolute left-3 top-2.5 w-5 h-5 text-gray-400" />
+                  </div>
+                  <select
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value as ProposalStatus | 'all')}
+                    className="px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    <option value="all">Все статусы</option>
+                    {Object.entries(PROPOSAL_STATUSES).map(([status, label]) => (
+                      <option key={status} value={status}>{label}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loading ? (
+          <LoadingSpinner />
+        ) : view === 'report' ? (
+          <ProposalConversionReport rows={buildConversionReport(proposals, today)} />
+        ) : filteredProposals.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 mx-auto mb-4 bg-gray-100 rounded-full flex items-center justify-center">
+              <FileText className="w-8 h-8 text-gray-400" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Нет коммерческих предложений</h3>
+            <p className="text-gray-500">
+              {searchQuery || statusFilter !== 'all'
+                ? 'По вашему запросу ничего не найдено'
+                : 'Сохраните КП из калькулятора'}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="px-4 py-3 font-medium">№ / дата</th>
+                  <th className="px-4 py-3 font-medium">Получатель</th>
+                  <th className="px-4 py-3 font-medium">Дом</th>
+                  <th className="px-4 py-3 font-medium text-right">Сумма</th>
+                  <th className="px-4 py-3 font-medium">Действует до</th>
+                  <th className="px-4 py-3 font-medium">Статус</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredProposals.map(proposal => {
+                  const status = getProposalStatus(proposal, today);
+                  const variants = getProposalVariants(proposal);
+                  const totals = variants.map(variant => variant.totalPrice);
+                  return (
+                    <tr key={proposal.id} className="border-b last:border-0">
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        <p className="font-medium text-gray-900">{proposal.number}</p>
+                        <p className="text-gray-500">{formatDate(proposal.quoteDate)}</p>
+                      </td>
+                      <td className="px-4 py-2">
+                        <p className="text-gray-900">{proposal.recipient.name}</p>
+                        <p className="text-gray-500">{proposal.recipient.phone || proposal.recipient.email}</p>
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {variants.length > 1
+                          ? `${variants.length} варианта`
+                          : `${proposal.formData.area} м², ${proposal.formData.floors}`}
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap font-medium">
+                        {variants.length > 1
+                          ? `${formatPrice(Math.min(...totals))} – ${formatPrice(Math.max(...totals))}`
+                          : formatPrice(proposal.totalPrice)}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">{formatDate(proposal.validUntil)}</td>
+                      <td className="px-4 py-2">
+                        <select
+                          value={status}
+                          onChange={(e) => handleStatusChange(proposal, e.target.value as ProposalStatus)}
+                          disabled={!!proposal.clientId}
+                          className={`px-2 py-1 rounded-full text-xs font-medium border-0 ${STATUS_COLORS[status]}`}
+                        >
+                          {Object.entries(PROPOSAL_STATUSES).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex items-center justify-end gap-2">
+                          {proposal.clientId ? (
+                            <span className="text-xs text-emerald-600 whitespace-nowrap">
+                              Клиент создан
+                              {variants.length > 1 && proposal.clientVariant !== undefined && ` (вариант ${proposal.clientVariant + 1})`}
+                            </span>
+                          ) : status === 'accepted' && (
+                            <>
+                              {variants.length > 1 && (
+                                <select
+                                  value={convertVariants[proposal.id] ?? 0}
+                                  onChange={(e) => setConvertVariants({ ...convertVariants, [proposal.id]: Number(e.target.value) })}
+                                  className="px-2 py-1 border rounded text-xs"
+                                  title="Вариант для создания клиента"
+                                >
+                                  {variants.map((_, index) => (
+                                    <option key={index} value={index}>Вариант {index + 1}</option>
+                                  ))}
+                                </select>
+                              )}
+                              <button
+                                onClick={() => handleConvert(proposal)}
+                                disabled={convertingId === proposal.id}
+                                className="flex items-center text-sm text-emerald-600 hover:text-emerald-700 disabled:opacity-50 whitespace-nowrap"
+                              >
+                                <UserPlus className="w-4 h-4 mr-1" />
+                                Создать клиента
+                              </button>
+                            </>
+                          )}
+                          <button
+                            onClick={() => handleOpen(proposal)}
+                            className="p-1 text-gray-400 hover:text-gray-600"
+                            title="Открыть КП"
+                          >
+                            <Eye className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {openedProposal && (
+        <CommercialProposal
+          variants={getProposalVariants(openedProposal.proposal)}
+          priceList={openedProposal.priceList}
+          quoteDate={openedProposal.proposal.quoteDate}
+          savedProposal={openedProposal.proposal}
+          onClose={() => setOpenedProposal(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -66,7 +66,7 @@ export const Transactions: React.FC = () => {
           // Перенаправляем на страницу нового прихода с предварительно выбранным сотрудником
           navigate('/warehouse/income/new', { 
             state: { 
-              selectedEmployee: sourceCategory.title
+              selectedEmployeeId: sourceCategory.id
             }
           });
           return;
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeft, ShieldCheck, User } from 'lucide-react';
+import { saveUserRole, subscribeToUsers } from '../lib/firebase';
+import { auth } from '../lib/firebase/auth';
+import { usePermissions } from '../hooks/usePermissions';
+import { UserProfile } from '../types/user';
+import { ROLE_LABELS, isUserRole } from '../utils/permissions';
+import { showErrorNotification, showSuccessNotification } from '../utils/notifications';
+
+// Назначение ролей. Первого администратора задают в консоли Firebase:
+// поле role = 'admin' в документе users/{uid}
+export const Users: React.FC = () => {
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { can, loading: permissionsLoading } = usePermissions();
+  const canManage = can('manageUsers');
+
+  useEffect(() => {
+    if (!canManage) return;
+
+    return subscribeToUsers(
+      (result) => {
+        setUsers(result);
+        setLoading(false);
+      },
+      () => {
+        showErrorNotification('Не удалось загрузить пользователей');
+        setLoading(false);
+      }
+    );
+  }, [canManage]);
+
+  const handleRoleChange = async (user: UserProfile, value: string) => {
+    if (!isUserRole(value) || value === user.role) return;
+    if (!window.confirm(`Назначить ${user.name || user.email} роль «${ROLE_LABELS[value]}»?`)) return;
+
+    setSavingId(user.id);
+    try {
+      await saveUserRole(user.id, value);
+      showSuccessNotification('Роль назначена');
+    } catch (error) {
+      console.error('Error saving user role:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Ошибка при назначении роли');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <button onClick={() => window.history.back()} className="mr-4">
+              <ArrowLeft className="w-6 h-6 text-gray-600" />
+            </button>
+            <h1 className="text-2xl font-semibold text-gray-900">Пользователи и роли</h1>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 py-6">
+        {permissionsLoading || (canManage && loading) ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-500"></div>
+          </div>
+        ) : !canManage ? (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 mx-auto mb-4 bg-gray-100 rounded-full flex items-center justify-center">
+              <ShieldCheck className="w-8 h-8 text-gray-400" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Недостаточно прав</h3>
+            <p className="text-gray-500">Роли назначает администратор</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow divide-y">
+            {users.map(user => (
+              <div key={user.id} className="p-4 flex items-center gap-4">
+                <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center flex-shrink-0">
+                  <User className="w-5 h-5 text-emerald-600" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900 truncate">
+                    {user.name || user.email}
+                    {user.id === auth.currentUser?.uid && (
+                      <span className="ml-2 text-xs text-gray-400">это вы</span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {user.email}
+                    {user.lastSeen && `, вход ${format(user.lastSeen.toDate(), 'dd.MM.yyyy HH:mm')}`}
+                  </p>
+                </div>
+                <select
+                  value={user.role}
+                  onChange={(e) => handleRoleChange(user, e.target.value)}
+                  disabled={savingId === user.id}
+                  className="px-3 py-2 border rounded-md focus:ring-emerald-500 focus:border-emerald-500 disabled:opacity-50"
+                >
+                  {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                    <option key={role} value={role}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Plus, Search, Package, AlertTriangle, FileText } from 'lucide-react';
+import { ArrowLeft, Plus, Search, Package, FileText, ArrowLeftRight, Warehouse as WarehouseIcon } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { collection, query, where, orderBy, onSnapshot } from 'firebase/firestore';
-import { db } from '../lib/firebase';
-import { Product } from '../types/warehouse';
+import { collection, query, orderBy, onSnapshot } from 'firebase/firestore';
+import { db, subscribeToWarehouseStock } from '../lib/firebase';
+import { Product, WarehouseStock } from '../types/warehouse';
+import { useWarehouses } from '../hooks/useWarehouses';
+import { getWarehouseProducts } from '../utils/warehouseStock';
+import { WarehouseSelect } from '../components/warehouse/WarehouseSelect';
+import { WarehousesModal } from '../components/warehouse/WarehousesModal';
 import { WarehouseSection } from '../components/warehouse/WarehouseSection';
 import { ProductList } from '../components/warehouse/ProductList';
 import { ProductContextMenu } from '../components/warehouse/ProductContextMenu';
@@ -17,7 +21,8 @@ export const Warehouse: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedWarehouse, setSelectedWarehouse] = useState<'all' | '1' | '2' | '3'>('all');
+  const [stocks, setStocks] = useState<WarehouseStock[]>([]);
+  const [selectedWarehouse, setSelectedWarehouse] = useState('all');
   const [showLowStock, setShowLowStock] = useState(false);
   const [contextMenu, setContextMenu] = useState<{
     x: number;
@@ -28,55 +33,40 @@ export const Warehouse: React.FC = () => {
   const [showProductDetails, setShowProductDetails] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [showQRCode, setShowQRCode] = useState(false);
-  const [totalValue, setTotalValue] = useState(0);
+  const [showWarehouses, setShowWarehouses] = useState(false);
   const [selectedHistoryProduct, setSelectedHistoryProduct] = useState<Product | null>(null);
 
+  const { warehouses } = useWarehouses();
+
   useEffect(() => {
-    let q;
-    
-    try {
-      if (showLowStock) {
-        // Separate query for low stock items
-        q = query(
-          collection(db, 'products'),
-          where('quantity', '<=', 5),
-          ...(selectedWarehouse !== 'all' ? [where('warehouse', '==', selectedWarehouse)] : []),
-          orderBy('quantity'),
-          orderBy('name')
-        );
-      } else {
-        // Normal query without quantity filter
-        q = query(
-          collection(db, 'products'),
-          ...(selectedWarehouse !== 'all' ? [where('warehouse', '==', selectedWarehouse)] : []),
-          orderBy('name')
-        );
-      }
-      
-      const unsubscribe = onSnapshot(q, (snapshot) => {
-        const productsData = snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as Product[];
-        
-        setProducts(productsData);
-        setLoading(false);
-      });
+    const q = query(
+      collection(db, 'products'),
+      orderBy('name')
+    );
 
-      return () => unsubscribe();
-    } catch (error) {
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const productsData = snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as Product[];
+
+      setProducts(productsData);
+      setLoading(false);
+    }, (error) => {
       console.error('Error in products subscription:', error);
       setLoading(false);
-      return () => {};
-    }
-  }, [selectedWarehouse, showLowStock]);
+    });
+
+    return () => unsubscribe();
+  }, []);
 
   useEffect(() => {
-    const total = products.reduce((sum, product) => {
-      return sum + ((product.quantity || 0) * (product.averagePurchasePrice || 0));
-    }, 0);
-    setTotalValue(total);
-  }, [products]);
+    return subscribeToWarehouseStock(setStocks);
+  }, []);
+
+  // В разделе склада количество — остаток этого склада; карточка и меню работают с общим
+  const getFullProduct = (product: Product) =>
+    products.find(item => item.id === product.id) || product;
 
   const handleContextMenu = (e: React.MouseEvent, product: Product) => {
     e.preventDefault();
@@ -95,9 +85,9 @@ export const Warehouse: React.FC = () => {
     setContextMenu({
       x: adjustedX,
       y: adjustedY,
-      product
+      product: getFullProduct(product)
     });
-    setSelectedProduct(product);
+    setSelectedProduct(getFullProduct(product));
   };
 
   // Закрываем контекстное меню при клике вне его
@@ -111,7 +101,7 @@ export const Warehouse: React.FC = () => {
   }, []);
 
   const handleProductClick = (product: Product) => {
-    setSelectedProduct(product);
+    setSelectedProduct(getFullProduct(product));
     setShowProductDetails(true);
   };
 
@@ -121,7 +111,7 @@ export const Warehouse: React.FC = () => {
         showErrorNotification('Товар не найден');
         return;
       }
-      setSelectedHistoryProduct(product);
+      setSelectedHistoryProduct(getFullProduct(product));
       setShowHistory(true);
     } catch (error) {
       showErrorNotification('Не удалось загрузить историю транзакций');
@@ -137,14 +127,25 @@ export const Warehouse: React.FC = () => {
     setShowQRCode(true);
   };
 
-  const filteredProducts = products.filter(product => {
+  // Остатки выбранного склада; для «Все склады» — общий остаток
+  const filterProducts = (warehouseProducts: Product[]) => warehouseProducts.filter(product => {
     const searchString = searchQuery.toLowerCase();
     return (
-      product.name.toLowerCase().includes(searchString) ||
-      product.category?.toLowerCase().includes(searchString)
+      (product.name.toLowerCase().includes(searchString) ||
+        product.category?.toLowerCase().includes(searchString)) &&
+      (!showLowStock || (product.quantity || 0) <= 5)
     );
   });
 
+  const filteredProducts = filterProducts(getWarehouseProducts(products, stocks, selectedWarehouse));
+  const visibleWarehouses = warehouses.filter(warehouse =>
+    selectedWarehouse === 'all' || warehouse.id === selectedWarehouse
+  );
+
+  const totalValue = filteredProducts.reduce((sum, product) => {
+    return sum + ((product.quantity || 0) * (product.averagePurchasePrice || 0));
+  }, 0);
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="bg-white border-b">
@@ -179,6 +180,18 @@ export const Warehouse: React.FC = () => {
                 >
                   <Plus className="w-4 h-4" /> Расход
                 </button>
+                <button
+                  onClick={() => navigate('/warehouse/transfer/new')}
+                  className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm flex items-center justify-center"
+                >
+                  <ArrowLeftRight className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setShowWarehouses(true)}
+                  className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm flex items-center justify-center"
+                >
+                  <WarehouseIcon className="w-4 h-4" />
+                </button>
                 <button 
                   onClick={() => navigate('/warehouse/documents')}
                   className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm flex items-center justify-center"
@@ -202,6 +215,19 @@ export const Warehouse: React.FC = () => {
               >
                 <Plus className="w-4 h-4" /> Расход
               </button>
+              <button
+                onClick={() => navigate('/warehouse/transfer/new')}
+                className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm flex items-center gap-1"
+              >
+                <ArrowLeftRight className="w-4 h-4" /> Перемещение
+              </button>
+              <button
+                onClick={() => setShowWarehouses(true)}
+                className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full transition-colors"
+                title="Склады"
+              >
+                <WarehouseIcon className="w-5 h-5" />
+              </button>
               <button 
                 onClick={() => navigate('/warehouse/documents')}
                 className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-full transition-colors"
@@ -213,16 +239,12 @@ export const Warehouse: React.FC = () => {
           </div>
 
           <div className="flex flex-wrap items-center gap-2 w-full sm:w-auto mt-2 sm:mt-0">
-            <select
+            <WarehouseSelect
               value={selectedWarehouse}
-              onChange={(e) => setSelectedWarehouse(e.target.value as 'all' | '1' | '2' | '3')}
+              onChange={setSelectedWarehouse}
+              allowAll
               className="rounded-md border-gray-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 text-sm h-10 w-[48%] sm:w-auto"
-            >
-              <option value="all">Все склады</option>
-              <option value="1">Склад 1</option>
-              <option value="2">Склад 2</option>
-              <option value="3">Склад 3</option>
-            </select>
+            />
           </div>
           
           <div className="py-2 sm:py-4 overflow-x-hidden">
@@ -271,7 +293,7 @@ export const Warehouse: React.FC = () => {
         ) : (
           <div className="space-y-6">
             <WarehouseSection
-              title="Товары со всех складов"
+              title={selectedWarehouse === 'all' ? 'Товары со всех складов' : 'Товары склада'}
               subtitle="Общий список"
               products={filteredProducts}
               onContextMenu={handleContextMenu}
@@ -281,44 +303,20 @@ export const Warehouse: React.FC = () => {
               warehouse="all"
             />
 
-            {selectedWarehouse === 'all' || selectedWarehouse === '1' ? (
+            {visibleWarehouses.map(warehouse => (
               <WarehouseSection
-                title="Склад 1"
-                subtitle="Основной склад"
-                products={filteredProducts.filter(p => p.warehouse === '1')}
+                key={warehouse.id}
+                title={warehouse.name}
+                subtitle={warehouse.description || 'Склад'}
+                products={filterProducts(getWarehouseProducts(products, stocks, warehouse.id))}
                 onContextMenu={handleContextMenu}
                 onProductClick={handleProductClick}
                 onViewHistory={handleViewHistory}
                 onViewQRCode={handleViewQRCode}
-                warehouse="1"
+                warehouse={warehouse.id}
+                colorIndex={warehouses.indexOf(warehouse)}
               />
-            ) : null}
-            
-            {selectedWarehouse === 'all' || selectedWarehouse === '2' ? (
-              <WarehouseSection
-                title="Склад 2"
-                subtitle="Дополнительный склад"
-                products={filteredProducts.filter(p => p.warehouse === '2')}
-                onContextMenu={handleContextMenu}
-                onProductClick={handleProductClick}
-                onViewHistory={handleViewHistory}
-                onViewQRCode={handleViewQRCode}
-                warehouse="2"
-              />
-            ) : null}
-            
-            {selectedWarehouse === 'all' || selectedWarehouse === '3' ? (
-              <WarehouseSection
-                title="Склад 3"
-                subtitle="Резервный склад"
-                products={filteredProducts.filter(p => p.warehouse === '3')}
-                onContextMenu={handleContextMenu}
-                onProductClick={handleProductClick}
-                onViewHistory={handleViewHistory}
-                onViewQRCode={handleViewQRCode}
-                warehouse="3"
-              />
-            ) : null}
+            ))}
           </div>
         )}
       </div>
@@ -349,6 +347,11 @@ export const Warehouse: React.FC = () => {
         />
       )}
 
+      <WarehousesModal
+        isOpen={showWarehouses}
+        onClose={() => setShowWarehouses(false)}
+      />
+
       {showQRCode && selectedProduct && (
         <QRCodeModal
           isOpen={showQRCode}
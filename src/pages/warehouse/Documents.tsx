@@ -1,28 +1,46 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, FileText, Download, Share2, Search, Trash2 } from 'lucide-react';
+import { ArrowLeft, FileText, Download, Share2, Search, Ban } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { collection, query, orderBy, onSnapshot, doc, deleteDoc } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
+import { collection, query, orderBy, onSnapshot } from 'firebase/firestore';
+import { cancelWarehouseDocument, db } from '../../lib/firebase';
 import { ExpenseWaybill } from '../../components/warehouse/ExpenseWaybill';
-import { PasswordPrompt } from '../../components/PasswordPrompt';
+import { IncomeWaybill } from '../../components/warehouse/IncomeWaybill';
+import { TransferWaybill } from '../../components/warehouse/TransferWaybill';
+import { WarehouseSelect } from '../../components/warehouse/WarehouseSelect';
+import { MAIN_WAREHOUSE_ID, WarehouseDocument, WarehouseDocumentType } from '../../types/warehouse';
+import { usePermissions } from '../../hooks/usePermissions';
 import { showSuccessNotification, showErrorNotification } from '../../utils/notifications';
 
-interface Document {
-  id: string;
-  documentNumber: string;
-  date: string;
-  project: string;
-  note: string;
-  items: Array<{
-    product: {
-      name: string;
-      unit: string;
-    };
-    quantity: number;
-    price: number;
-  }>;
-  type: 'expense' | 'income';
-}
+type Document = WarehouseDocument;
+
+const DOCUMENT_TABS: { id: 'all' | WarehouseDocumentType; label: string }[] = [
+  { id: 'all', label: 'Все' },
+  { id: 'expense', label: 'Расходные' },
+  { id: 'income', label: 'Приходные' },
+  { id: 'transfer', label: 'Перемещения' }
+];
+
+const DOCUMENT_TITLES: Record<WarehouseDocumentType, string> = {
+  expense: 'Расход',
+  income: 'Приход',
+  transfer: 'Перемещение'
+};
+
+// Склады документа; накладные без склада созданы до появления складов
+const getDocumentWarehouseIds = (document: Document): string[] =>
+  document.type === 'transfer'
+    ? [document.fromWarehouseId || MAIN_WAREHOUSE_ID, document.toWarehouseId || MAIN_WAREHOUSE_ID]
+    : [document.warehouseId || MAIN_WAREHOUSE_ID];
+
+const getDocumentSubtitle = (document: Document): string => {
+  if (document.type === 'transfer') {
+    return `${document.fromWarehouseName} → ${document.toWarehouseName}`;
+  }
+  return [
+    document.type === 'expense' ? document.project : document.supplier,
+    document.warehouseName
+  ].filter(Boolean).join(' · ');
+};
 
 export const Documents: React.FC = () => {
   const navigate = useNavigate();
@@ -30,10 +48,12 @@ export const Documents: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
   const [showWaybill, setShowWaybill] = useState(false);
-  const [activeTab, setActiveTab] = useState<'all' | 'expense' | 'income'>('all');
+  const [activeTab, setActiveTab] = useState<'all' | WarehouseDocumentType>('all');
+  const [warehouseFilter, setWarehouseFilter] = useState('all');
   const [searchQuery, setSearchQuery] = useState('');
-  const [showPasswordPrompt, setShowPasswordPrompt] = useState(false);
-  const [documentToDelete, setDocumentToDelete] = useState<Document | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const { can } = usePermissions();
+  const canCancel = can('cancelWarehouseDocuments');
 
   useEffect(() => {
     const q = query(
@@ -55,36 +75,39 @@ export const Documents: React.FC = () => {
   }, []);
 
   const filteredDocuments = documents.filter(doc => {
-    if (activeTab === 'all') return true;
-    const matchesTab = doc.type === activeTab;
-    const matchesSearch = searchQuery === '' || 
-      doc.documentNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      doc.project.toLowerCase().includes(searchQuery.toLowerCase());
-    return matchesTab && matchesSearch;
+    const matchesTab = activeTab === 'all' || doc.type === activeTab;
+    const matchesWarehouse = warehouseFilter === 'all' || getDocumentWarehouseIds(doc).includes(warehouseFilter);
+    const search = searchQuery.toLowerCase();
+    const matchesSearch = search === '' ||
+      (doc.documentNumber || '').toLowerCase().includes(search) ||
+      getDocumentSubtitle(doc).toLowerCase().includes(search);
+    return matchesTab && matchesWarehouse && matchesSearch;
   });
 
-  const handleDeleteClick = (e: React.MouseEvent, document: Document) => {
+  // Отмена вместо удаления: остатки, движения и проводки сторнируются,
+  // накладная остаётся в списке с причиной и автором
+  const handleCancelClick = async (e: React.MouseEvent, document: Document) => {
     e.stopPropagation();
-    setDocumentToDelete(document);
-    setShowPasswordPrompt(true);
-  };
+    if (cancellingId) return;
 
-  const handleDelete = async (isAuthenticated: boolean) => {
-    if (!isAuthenticated || !documentToDelete) {
-      setShowPasswordPrompt(false);
-      setDocumentToDelete(null);
+    const input = window.prompt(
+      `Отменить ${DOCUMENT_TITLES[document.type].toLowerCase()} №${document.documentNumber}? Укажите причину`
+    );
+    if (input === null) return;
+    if (!input.trim()) {
+      showErrorNotification('Укажите причину отмены');
       return;
     }
 
+    setCancellingId(document.id);
     try {
-      await deleteDoc(doc(db, 'warehouseDocuments', documentToDelete.id));
-      showSuccessNotification('Документ успешно удален');
+      await cancelWarehouseDocument(document.id, input);
+      showSuccessNotification('Документ отменён');
     } catch (error) {
-      console.error('Error deleting document:', error);
-      showErrorNotification('Ошибка при удалении документа');
+      console.error('Error cancelling document:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Ошибка при отмене документа');
     } finally {
-      setShowPasswordPrompt(false);
-      setDocumentToDelete(null);
+      setCancellingId(null);
     }
   };
 
@@ -93,6 +116,11 @@ export const Documents: React.FC = () => {
     setShowWaybill(true);
   };
 
+  const handleCloseWaybill = () => {
+    setShowWaybill(false);
+    setSelectedDocument(null);
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="bg-white border-b">
@@ -103,24 +131,30 @@ export const Documents: React.FC = () => {
             </button>
             <div>
               <h1 className="text-xl font-semibold text-gray-900">Документы</h1>
-              <p className="text-sm text-gray-500">Основной склад</p>
+              <p className="text-sm text-gray-500">Накладные складов</p>
             </div>
           </div>
         </div>
         
         {/* Поиск */}
         <div className="border-t">
-          <div className="max-w-7xl mx-auto px-4 py-4">
-            <div className="relative">
+          <div className="max-w-7xl mx-auto px-4 py-4 flex flex-col sm:flex-row gap-2">
+            <div className="relative flex-1">
               <input
                 type="text"
-                placeholder="Поиск по номеру документа или проекту..."
+                placeholder="Поиск по номеру документа, проекту или складу..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="w-full pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-emerald-500"
               />
               <Search className="absolute left-3 top-2.5 w-5 h-5 text-gray-400" />
             </div>
+            <WarehouseSelect
+              value={warehouseFilter}
+              onChange={setWarehouseFilter}
+              allowAll
+              className="sm:w-56 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-emerald-500"
+            />
           </div>
         </div>
         
@@ -128,36 +162,19 @@ export const Documents: React.FC = () => {
         <div className="border-t">
           <div className="max-w-7xl mx-auto px-4">
             <div className="flex space-x-4">
-              <button
-                onClick={() => setActiveTab('all')}
-                className={`py-3 px-4 text-sm font-medium border-b-2 ${
-                  activeTab === 'all'
-                    ? 'border-emerald-500 text-emerald-600'
-                    : 'border-transparent text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                Все
-              </button>
-              <button
-                onClick={() => setActiveTab('expense')}
-                className={`py-3 px-4 text-sm font-medium border-b-2 ${
-                  activeTab === 'expense'
-                    ? 'border-emerald-500 text-emerald-600'
-                    : 'border-transparent text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                Расходные
-              </button>
-              <button
-                onClick={() => setActiveTab('income')}
-                className={`py-3 px-4 text-sm font-medium border-b-2 ${
-                  activeTab === 'income'
-                    ? 'border-emerald-500 text-emerald-600'
-                    : 'border-transparent text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                Приходные
-              </button>
+              {DOCUMENT_TABS.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`py-3 px-4 text-sm font-medium border-b-2 ${
+                    activeTab === tab.id
+                      ? 'border-emerald-500 text-emerald-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
             </div>
           </div>
         </div>
@@ -187,17 +204,19 @@ export const Documents: React.FC = () => {
                 <div className="p-4 sm:p-6 flex items-start gap-4">
                   <div className="flex-shrink-0">
                     <div className={`w-12 h-12 rounded-lg flex items-center justify-center ${
-                      doc.type === 'expense' ? 'bg-red-100' : 'bg-emerald-100'
+                      doc.type === 'expense' ? 'bg-red-100' : doc.type === 'transfer' ? 'bg-amber-100' : 'bg-emerald-100'
                     }`}>
                       <FileText className={`w-6 h-6 ${
-                        doc.type === 'expense' ? 'text-red-600' : 'text-emerald-600'
+                        doc.type === 'expense' ? 'text-red-600' : doc.type === 'transfer' ? 'text-amber-600' : 'text-emerald-600'
                       }`} />
                     </div>
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center justify-between">
-                      <h3 className="text-lg font-medium text-gray-900">
-                        {doc.type === 'expense' ? 'Расход' : 'Приход'} №{doc.documentNumber}
+                      <h3 className={`text-lg font-medium ${
+                        doc.status === 'cancelled' ? 'text-gray-400 line-through' : 'text-gray-900'
+                      }`}>
+                        {DOCUMENT_TITLES[doc.type] || 'Документ'} №{doc.documentNumber}
                       </h3>
                       <div className="flex items-center gap-2">
                         <button
@@ -218,21 +237,34 @@ export const Documents: React.FC = () => {
                         >
                           <Download className="w-5 h-5" />
                         </button>
-                        <button
-                          onClick={(e) => handleDeleteClick(e, doc)}
-                          className="p-2 text-gray-400 hover:text-red-600"
-                        >
-                          <Trash2 className="w-5 h-5" />
-                        </button>
+                        {canCancel && doc.status !== 'cancelled' && (
+                          <button
+                            onClick={(e) => handleCancelClick(e, doc)}
+                            disabled={cancellingId === doc.id}
+                            className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                            title="Отменить документ"
+                          >
+                            <Ban className="w-5 h-5" />
+                          </button>
+                        )}
                       </div>
                     </div>
-                    <p className="text-sm text-gray-500 mt-1">{doc.project}</p>
+                    <p className="text-sm text-gray-500 mt-1">{getDocumentSubtitle(doc)}</p>
                     <div className="flex items-center gap-4 mt-2">
                       <span className="text-xs text-gray-400">{doc.date}</span>
                       <span className="text-xs text-gray-400">
                         {doc.items.length} {doc.items.length === 1 ? 'товар' : 'товаров'}
                       </span>
                     </div>
+                    {doc.status === 'cancelled' && (
+                      <div className="mt-2 text-xs text-amber-600">
+                        Отменён: {doc.cancelledBy}
+                        {doc.cancelledAt && `, ${doc.cancelledAt.toDate().toLocaleString('ru-RU')}`}
+                        {doc.cancelReason && (
+                          <div className="text-gray-500">Причина: {doc.cancelReason}</div>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -241,25 +273,39 @@ export const Documents: React.FC = () => {
         )}
       </div>
 
-      {selectedDocument && (
-        <ExpenseWaybill
+      {selectedDocument?.type === 'transfer' && (
+        <TransferWaybill
           isOpen={showWaybill}
-          onClose={() => {
-            setShowWaybill(false);
-            setSelectedDocument(null);
+          onClose={handleCloseWaybill}
+          data={{
+            ...selectedDocument,
+            fromWarehouseName: selectedDocument.fromWarehouseName || '',
+            toWarehouseName: selectedDocument.toWarehouseName || ''
           }}
-          data={selectedDocument}
         />
       )}
-      
-      {showPasswordPrompt && (
-        <PasswordPrompt
-          isOpen={showPasswordPrompt}
-          onClose={() => {
-            setShowPasswordPrompt(false);
-            setDocumentToDelete(null);
+
+      {selectedDocument?.type === 'income' && (
+        <IncomeWaybill
+          isOpen={showWaybill}
+          onClose={handleCloseWaybill}
+          data={{
+            ...selectedDocument,
+            supplier: selectedDocument.supplier || '',
+            warehouse: selectedDocument.warehouseName
+          }}
+        />
+      )}
+
+      {selectedDocument?.type === 'expense' && (
+        <ExpenseWaybill
+          isOpen={showWaybill}
+          onClose={handleCloseWaybill}
+          data={{
+            ...selectedDocument,
+            project: selectedDocument.project || '',
+            warehouse: selectedDocument.warehouseName
           }}
-          onSuccess={() => handleDelete(true)}
         />
       )}
     </div>
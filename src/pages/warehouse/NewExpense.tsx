@@ -1,15 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { ArrowLeft, Search, Barcode, Paperclip, Plus } from 'lucide-react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { collection, addDoc, doc, getDoc, updateDoc, serverTimestamp, writeBatch, getDocs, query, where } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
-import { Product } from '../../types/product';
+import { postExpenseDocument } from '../../lib/firebase';
+import { useWarehouses } from '../../hooks/useWarehouses';
+import { MAIN_WAREHOUSE_ID, Product, WarehouseDocumentItem } from '../../types/warehouse';
 import { ProjectSelector } from '../../components/warehouse/ProjectSelector';
 import { showErrorNotification, showSuccessNotification } from '../../utils/notifications';
 import { Trash2 } from 'lucide-react';
 import { ExpenseWaybill } from '../../components/warehouse/ExpenseWaybill';
+import { WarehouseSelect } from '../../components/warehouse/WarehouseSelect';
 
 const EXPENSE_PROJECT_KEY = 'expense_selected_project';
+const EXPENSE_WAREHOUSE_KEY = 'expense_warehouse';
 interface ExpenseItem {
   product: Product;
   quantity: number;
@@ -21,10 +23,18 @@ export const NewExpense: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
-  const [documentNumber, setDocumentNumber] = useState('000003');
+  // Номер выдаётся при проведении; у черновика его нет
+  const [documentNumber, setDocumentNumber] = useState('');
+  // Строки проведённой накладной с ценами на момент проведения
+  const [postedItems, setPostedItems] = useState<WarehouseDocumentItem[]>([]);
   const [selectedProject, setSelectedProject] = useState(() => {
     return localStorage.getItem(EXPENSE_PROJECT_KEY) || '';
   });
+  const [warehouseId, setWarehouseId] = useState(() =>
+    localStorage.getItem(EXPENSE_WAREHOUSE_KEY) || MAIN_WAREHOUSE_ID
+  );
+  const { warehouses } = useWarehouses();
+  const warehouse = warehouses.find(item => item.id === warehouseId);
   const [note, setNote] = useState('');
   const [items, setItems] = useState<ExpenseItem[]>(() => {
     const savedItems = localStorage.getItem(EXPENSE_ITEMS_KEY);
@@ -34,6 +44,10 @@ export const NewExpense: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [projectTitle, setProjectTitle] = useState('');
 
+  useEffect(() => {
+    localStorage.setItem(EXPENSE_WAREHOUSE_KEY, warehouseId);
+  }, [warehouseId]);
+
   // Сохраняем items в localStorage при изменении
   useEffect(() => {
     localStorage.setItem(EXPENSE_ITEMS_KEY, JSON.stringify(items));
@@ -80,6 +94,27 @@ export const NewExpense: React.FC = () => {
       navigate('.', { replace: true, state: {} });
     }
   }, [location.state, navigate]);
+
+  // Заполнение по ведомости материалов из сметы клиента
+  useEffect(() => {
+    const state = location.state as { plannedItems?: ExpenseItem[] };
+    if (state?.plannedItems) {
+      setItems(prev => {
+        const newItems = [...prev];
+        state.plannedItems!.forEach(plannedItem => {
+          const existingIndex = newItems.findIndex(item => item.product.id === plannedItem.product.id);
+          if (existingIndex >= 0) {
+            newItems[existingIndex] = { ...newItems[existingIndex], quantity: plannedItem.quantity };
+          } else {
+            newItems.push(plannedItem);
+          }
+        });
+        return newItems;
+      });
+
+      navigate('.', { replace: true, state: {} });
+    }
+  }, [location.state, navigate]);
   const handleAddProducts = () => {
     navigate('/warehouse/products', { state: 'expense' });
   };
@@ -90,6 +125,11 @@ export const NewExpense: React.FC = () => {
       return;
     }
 
+    if (!warehouse) {
+      showErrorNotification('Выберите склад');
+      return;
+    }
+
     if (items.length === 0) {
       showErrorNotification('Добавьте товары');
       return;
@@ -97,136 +137,22 @@ export const NewExpense: React.FC = () => {
 
     setLoading(true);
     try {
-      const batch = writeBatch(db);
-
-      // Получаем информацию о проекте
-      const [projectDoc, warehouseQuery] = await Promise.all([
-        getDoc(doc(db, 'categories', selectedProject)),
-        getDocs(query(collection(db, 'categories'), where('title', '==', 'Склад'), where('row', '==', 4)))
-      ]);
-
-      if (!projectDoc.exists()) {
-        showErrorNotification('Проект не найден');
-        setLoading(false);
-        return;
-      }
-      
-      // Получаем ID категории склада
-      const warehouseCategory = warehouseQuery.docs[0];
-      if (!warehouseCategory) {
-        showErrorNotification('Категория склада не найдена');
-        setLoading(false);
-        return;
-      }
-
-      const projectData = projectDoc.data();
-      const projectRef = doc(db, 'categories', selectedProject);
-      const warehouseCategoryRef = doc(db, 'categories', warehouseCategory.id);
-      
-      // Получаем текущие балансы
-      const projectAmount = parseFloat(projectData.amount?.replace(/[^\d.-]/g, '') || '0');
-      const warehouseAmount = parseFloat(warehouseCategory.data().amount?.replace(/[^\d.-]/g, '') || '0');
-      
-      // Рассчитываем общую сумму операции
-      const totalAmount = items.reduce((sum, item) => 
-        sum + (item.quantity * (item.product.averagePurchasePrice || 0)), 0);
-      
-      // Обновляем балансы
-      batch.update(warehouseCategoryRef, {
-        amount: `${warehouseAmount - totalAmount} ₸`,
-        updatedAt: serverTimestamp()
-      });
-      
-      batch.update(projectRef, {
-        amount: `${projectAmount + totalAmount} ₸`,
-        updatedAt: serverTimestamp()
-      });
-
-      setProjectTitle(projectData.title || 'Неизвестный проект');
-
-      // Создаем транзакции для каждого товара
-      for (const item of items) {
-        // Проверяем наличие товара
-        const productRef = doc(db, 'products', item.product.id);
-        const productDoc = await getDoc(productRef);
-        
-        if (!productDoc.exists()) {
-          throw new Error(`Товар ${item.product.name} не найден`);
-        }
-        
-        const currentQuantity = productDoc.data().quantity || 0;
-        if (currentQuantity < item.quantity) {
-          throw new Error(`Недостаточно товара ${item.product.name} на складе`);
-        }
-
-        // Обновляем количество товара
-        batch.update(productRef, {
-          quantity: currentQuantity - item.quantity,
-          updatedAt: serverTimestamp()
-        });
-
-        // Создаем транзакцию для склада (расход)
-        const transactionRef = doc(collection(db, 'transactions'));
-        
-        // Записываем только расход со склада
-        batch.set(transactionRef, {
-          categoryId: warehouseCategory.id,
-          fromUser: 'Склад',
-          toUser: projectData.title,
-          amount: -(item.quantity * (item.product.averagePurchasePrice || 0)),
-          description: `Списание со склада: ${item.product.name} (${item.quantity} ${item.product.unit})`,
-          type: 'expense',
-          date: serverTimestamp(),
-          isWarehouseOperation: true
-        });
-        
-        // Создаем отдельную транзакцию для проекта (приход)
-        const projectTransactionRef = doc(collection(db, 'transactions'));
-        batch.set(projectTransactionRef, { 
-          categoryId: selectedProject,
-          fromUser: 'Склад',
-          toUser: projectData.title,
-          amount: item.quantity * (item.product.averagePurchasePrice || 0),
-          description: `Приход со склада: ${item.product.name} (${item.quantity} ${item.product.unit})`,
-          type: 'income',
-          date: serverTimestamp(),
-          isWarehouseOperation: true
-        });
-
-        // Добавляем запись в историю движения товара
-        const movementRef = doc(collection(db, 'productMovements'));
-        batch.set(movementRef, {
-          productId: item.product.id,
-          type: 'out',
-          quantity: item.quantity,
-          date: serverTimestamp(),
-          description: `Списание на проект: ${projectData.title}`,
-          warehouse: 'Основной склад'
-        });
-      }
-
-      await batch.commit();
-      
-      // Сохраняем накладную в коллекции документов
-      await addDoc(collection(db, 'warehouseDocuments'), {
-        documentNumber,
+      const posted = await postExpenseDocument({
         date,
-        project: projectTitle,
         note,
-        items: items.map(item => ({
-          product: {
-            name: item.product.name,
-            unit: item.product.unit
-          },
-          quantity: item.quantity,
-          price: item.product.averagePurchasePrice || 0
-        })),
-        type: 'expense',
-        createdAt: serverTimestamp()
+        projectId: selectedProject,
+        warehouse,
+        items
       });
 
-      showSuccessNotification('Товары успешно списаны на проект');
+      setProjectTitle(posted.projectTitle);
+      setDocumentNumber(posted.documentNumber);
+      setPostedItems(posted.items);
+      // Себестоимость по партиям известна только после проведения
+      const postedAmount = posted.items.reduce((sum, item) => sum + item.quantity * item.price, 0);
+      showSuccessNotification(`Расход №${posted.documentNumber} проведён на ${postedAmount.toLocaleString()} ₸`);
       setShowWaybill(true);
+      setItems([]);
       localStorage.removeItem(EXPENSE_ITEMS_KEY); // Очищаем сохраненные items
       localStorage.removeItem(EXPENSE_PROJECT_KEY); // Очищаем сохраненный проект
     } catch (error) {
@@ -306,7 +232,7 @@ export const NewExpense: React.FC = () => {
                 </label>
                 <input
                   type="text"
-                  value={documentNumber}
+                  value={documentNumber || 'Присваивается при проведении'}
                   disabled
                   className="w-full px-2 py-1 sm:px-3 sm:py-2 border rounded-lg bg-gray-50 text-gray-500 text-xs sm:text-sm"
                 />
@@ -324,6 +250,14 @@ export const NewExpense: React.FC = () => {
               />
             </div>
 
+            {/* Склад */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Склад
+              </label>
+              <WarehouseSelect value={warehouseId} onChange={setWarehouseId} />
+            </div>
+
             {/* Примечание */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -449,8 +383,9 @@ export const NewExpense: React.FC = () => {
             documentNumber,
             date,
             project: projectTitle,
+            warehouse: warehouse?.name,
             note,
-            items
+            items: postedItems
           }}
         />
       )}
@@ -1,16 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { ArrowLeft, Search, Barcode, Paperclip, Plus, Trash2 } from 'lucide-react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { collection, doc, updateDoc, serverTimestamp, writeBatch, addDoc, getDoc, getDocs, query, where } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
+import { postIncomeDocument } from '../../lib/firebase';
 import { useCategories } from '../../hooks/useCategories';
+import { useWarehouses } from '../../hooks/useWarehouses';
 import { showSuccessNotification, showErrorNotification } from '../../utils/notifications';
-import { Product } from '../../types/warehouse';
+import { MAIN_WAREHOUSE_ID, Product, WarehouseDocumentItem } from '../../types/warehouse';
 import { ProjectSelector } from '../../components/warehouse/ProjectSelector';
 import { IncomeWaybill } from '../../components/warehouse/IncomeWaybill';
+import { WarehouseSelect } from '../../components/warehouse/WarehouseSelect';
 
 const INCOME_ITEMS_KEY = 'income_items';
-const INCOME_SUPPLIER_KEY = 'income_supplier';
+const INCOME_SUPPLIER_KEY = 'income_supplier_id';
+const INCOME_WAREHOUSE_KEY = 'income_warehouse';
 
 interface IncomeItem {
   product: Product;
@@ -22,12 +24,19 @@ export const NewIncome: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const [date] = useState(new Date().toISOString().split('T')[0]);
-  const [documentNumber] = useState('000012');
-  const [supplier, setSupplier] = useState(() => {
+  // Номер выдаётся при проведении; у черновика его нет
+  const [documentNumber, setDocumentNumber] = useState('');
+  // Строки проведённой накладной с ценами на момент проведения
+  const [postedItems, setPostedItems] = useState<WarehouseDocumentItem[]>([]);
+  // Категория сотрудника, от которого пришёл товар
+  const [supplierId, setSupplierId] = useState(() => {
     // Сначала проверяем state, затем localStorage
-    const state = location.state as { selectedEmployee?: string };
-    return state?.selectedEmployee || localStorage.getItem(INCOME_SUPPLIER_KEY) || '';
+    const state = location.state as { selectedEmployeeId?: string };
+    return state?.selectedEmployeeId || localStorage.getItem(INCOME_SUPPLIER_KEY) || '';
   });
+  const [warehouseId, setWarehouseId] = useState(() =>
+    localStorage.getItem(INCOME_WAREHOUSE_KEY) || MAIN_WAREHOUSE_ID
+  );
   const [note, setNote] = useState('');
   const [items, setItems] = useState<IncomeItem[]>(() => {
     const savedItems = localStorage.getItem(INCOME_ITEMS_KEY);
@@ -36,16 +45,23 @@ export const NewIncome: React.FC = () => {
   const [showWaybill, setShowWaybill] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { categories, loading: categoriesLoading } = useCategories();
+  const { warehouses } = useWarehouses();
+  const warehouse = warehouses.find(item => item.id === warehouseId);
 
   // Фильтруем только категории сотрудников (row === 2)
   const employeeCategories = categories.filter(c => c.row === 2 && c.isVisible !== false);
+  const supplier = employeeCategories.find(category => category.id === supplierId)?.title || '';
 
-  // Сохраняем supplier в localStorage при изменении
+  // Сохраняем сотрудника в localStorage при изменении
   useEffect(() => {
-    if (supplier) {
-      localStorage.setItem(INCOME_SUPPLIER_KEY, supplier);
+    if (supplierId) {
+      localStorage.setItem(INCOME_SUPPLIER_KEY, supplierId);
     }
-  }, [supplier]);
+  }, [supplierId]);
+
+  useEffect(() => {
+    localStorage.setItem(INCOME_WAREHOUSE_KEY, warehouseId);
+  }, [warehouseId]);
 
   useEffect(() => {
     localStorage.setItem(INCOME_ITEMS_KEY, JSON.stringify(items));
@@ -98,16 +114,21 @@ export const NewIncome: React.FC = () => {
       setItems([]);
       localStorage.removeItem(INCOME_ITEMS_KEY);
       localStorage.removeItem(INCOME_SUPPLIER_KEY);
-      setSupplier('');
+      setSupplierId('');
     }
   };
 
   const handleSubmit = async () => {
-    if (!supplier) {
+    if (!supplierId) {
       showErrorNotification('Выберите сотрудника');
       return;
     }
 
+    if (!warehouse) {
+      showErrorNotification('Выберите склад');
+      return;
+    }
+
     if (items.length === 0) {
       showErrorNotification('Добавьте товары');
       return;
@@ -115,137 +136,17 @@ export const NewIncome: React.FC = () => {
 
     setIsSubmitting(true);
     try {
-      const batch = writeBatch(db);
-
-      // Получаем информацию о сотруднике и складе
-      const [supplierQuery, warehouseQuery] = await Promise.all([
-        getDocs(query(
-          collection(db, 'categories'),
-          where('title', '==', supplier),
-          where('row', '==', 2)
-        )),
-        getDocs(query(
-          collection(db, 'categories'),
-          where('title', '==', 'Склад'),
-          where('row', '==', 4)
-        ))
-      ]);
-
-      if (supplierQuery.empty) {
-        showErrorNotification('Сотрудник не найден');
-        setIsSubmitting(false);
-        return;
-      }
-
-      if (warehouseQuery.empty) {
-        showErrorNotification('Категория склада не найдена');
-        setIsSubmitting(false);
-        return;
-      }
-
-      const supplierCategory = supplierQuery.docs[0];
-      const warehouseCategory = warehouseQuery.docs[0];
-      
-      // Получаем текущий баланс сотрудника
-      const supplierAmount = parseFloat(supplierCategory.data().amount?.replace(/[^\d.-]/g, '') || '0');
-      
-      // Рассчитываем общую сумму операции
-      const totalAmount = items.reduce((sum, item) => 
-        sum + (item.quantity * item.price), 0);
-      
-      // Обновляем баланс сотрудника
-      batch.update(doc(db, 'categories', supplierCategory.id), {
-        amount: `${supplierAmount - totalAmount} ₸`,
-        updatedAt: serverTimestamp()
-      });
-      
-      // Обновляем количество и цены товаров
-      for (const item of items) {
-        // Получаем текущие данные о товаре
-        const productRef = doc(db, 'products', item.product.id);
-        const productDoc = await getDoc(productRef);
-        if (!productDoc.exists()) {
-          throw new Error(`Товар ${item.product.name} не найден`);
-        }
-        const currentData = productDoc.data();
-
-        const newQuantity = (item.product.quantity || 0) + item.quantity;
-        const newTotalPrice = (item.product.totalPurchasePrice || 0) + (item.quantity * item.price);
-        const newAveragePrice = newTotalPrice / newQuantity;
-
-        batch.update(productRef, {
-          quantity: newQuantity,
-          totalPurchasePrice: newTotalPrice,
-          averagePurchasePrice: newAveragePrice,
-          updatedAt: serverTimestamp()
-        });
-
-        // Создаем транзакцию расхода для сотрудника
-        const supplierTransactionRef = doc(collection(db, 'transactions'));
-        batch.set(supplierTransactionRef, {
-          categoryId: supplierCategory.id,
-          fromUser: supplier,
-          toUser: 'Склад',
-          amount: -(item.quantity * item.price), // Отрицательная сумма для расхода
-          description: `Расход на склад: ${item.product.name} (${item.quantity} ${item.product.unit})`,
-          type: 'expense',
-          date: serverTimestamp(),
-          isWarehouseOperation: true
-        });
-
-        // Создаем транзакцию прихода для склада
-        const warehouseTransactionRef = doc(collection(db, 'transactions'));
-        batch.set(warehouseTransactionRef, {
-          categoryId: warehouseCategory.id,
-          fromUser: supplier,
-          toUser: 'Склад',
-          amount: item.quantity * item.price,
-          description: `Приход на склад: ${item.product.name} (${item.quantity} ${item.product.unit})`,
-          type: 'income',
-          date: serverTimestamp(),
-          isWarehouseOperation: true
-        });
-
-        // Добавляем запись в историю движения товара
-        const movementRef = doc(collection(db, 'productMovements'));
-        batch.set(movementRef, {
-          productId: item.product.id,
-          type: 'in',
-          quantity: item.quantity,
-          price: item.price,
-          totalPrice: item.quantity * item.price,
-          warehouse: 'Основной склад',
-          description: `Приход товара от ${supplier}`,
-          date: serverTimestamp(), 
-          previousQuantity: currentData?.quantity || 0,
-          newQuantity: newQuantity,
-          previousAveragePrice: currentData?.averagePurchasePrice || 0,
-          newAveragePrice: newAveragePrice,
-          supplier: supplier
-        });
-      }
-
-      await batch.commit();
-      
-      // Сохраняем накладную в коллекции документов
-      await addDoc(collection(db, 'warehouseDocuments'), {
-        documentNumber,
+      const posted = await postIncomeDocument({
         date,
-        supplier,
         note,
-        items: items.map(item => ({
-          product: {
-            name: item.product.name,
-            unit: item.product.unit
-          },
-          quantity: item.quantity,
-          price: item.price
-        })),
-        type: 'income',
-        createdAt: serverTimestamp()
+        supplierId,
+        warehouse,
+        items
       });
 
-      showSuccessNotification('Товары успешно добавлены на склад');
+      setDocumentNumber(posted.documentNumber);
+      setPostedItems(posted.items);
+      showSuccessNotification(`Приход №${posted.documentNumber} проведён`);
       setShowWaybill(true);
       setItems([]);
       localStorage.removeItem(INCOME_ITEMS_KEY);
@@ -318,7 +219,7 @@ export const NewIncome: React.FC = () => {
                 </label>
                 <input
                   type="text"
-                  value={documentNumber}
+                  value={documentNumber || 'Присваивается при проведении'}
                   disabled
                   className="w-full px-2 py-1 sm:px-3 sm:py-2 border rounded-lg bg-gray-50 text-gray-500 text-xs sm:text-sm"
                 />
@@ -331,8 +232,8 @@ export const NewIncome: React.FC = () => {
                 Сотрудник
               </label>
               <select
-                value={supplier}
-                onChange={(e) => setSupplier(e.target.value)}
+                value={supplierId}
+                onChange={(e) => setSupplierId(e.target.value)}
                 className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-emerald-500"
               >
                 <option value="">Выберите сотрудника</option>
@@ -340,7 +241,7 @@ export const NewIncome: React.FC = () => {
                   <option disabled>Загрузка...</option>
                 ) : (
                   employeeCategories.map((category) => (
-                    <option key={category.id} value={category.title}>
+                    <option key={category.id} value={category.id}>
                       {category.title}
                     </option>
                   ))
@@ -348,6 +249,14 @@ export const NewIncome: React.FC = () => {
               </select>
             </div>
 
+            {/* Склад */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Склад
+              </label>
+              <WarehouseSelect value={warehouseId} onChange={setWarehouseId} />
+            </div>
+
             {/* Примечание */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -452,7 +361,7 @@ export const NewIncome: React.FC = () => {
               <div className="flex gap-2 w-full sm:w-auto">
                 <button
                   onClick={handleSubmit}
-                  disabled={isSubmitting || !supplier || items.length === 0}
+                  disabled={isSubmitting || !supplierId || items.length === 0}
                   className="flex-1 sm:flex-none px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:bg-gray-300 text-sm sm:text-base"
                 >
                   {isSubmitting ? 'Отправка...' : 'Отправить на склад'}
@@ -480,8 +389,9 @@ export const NewIncome: React.FC = () => {
             documentNumber,
             date,
             supplier,
+            warehouse: warehouse?.name,
             note,
-            items
+            items: postedItems
           }}
         />
       )}
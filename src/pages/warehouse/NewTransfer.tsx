@@ -0,0 +1,325 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, ArrowRight, Plus, Trash2 } from 'lucide-react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { postWarehouseTransfer, subscribeToWarehouseStock } from '../../lib/firebase';
+import { useWarehouses } from '../../hooks/useWarehouses';
+import { MAIN_WAREHOUSE_ID, Product, WarehouseStock } from '../../types/warehouse';
+import { WarehouseSelect } from '../../components/warehouse/WarehouseSelect';
+import { TransferWaybill } from '../../components/warehouse/TransferWaybill';
+import { getWarehouseQuantity } from '../../utils/warehouseStock';
+import { showErrorNotification, showSuccessNotification } from '../../utils/notifications';
+
+const TRANSFER_ITEMS_KEY = 'transfer_items';
+const TRANSFER_FROM_KEY = 'transfer_from_warehouse';
+const TRANSFER_TO_KEY = 'transfer_to_warehouse';
+
+interface TransferItem {
+  product: Product;
+  quantity: number;
+}
+
+interface PostedTransfer {
+  documentNumber: string;
+  fromWarehouseName: string;
+  toWarehouseName: string;
+  items: Array<TransferItem & { price: number }>;
+}
+
+export const NewTransfer: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [date] = useState(new Date().toISOString().split('T')[0]);
+  const [fromWarehouseId, setFromWarehouseId] = useState(() =>
+    localStorage.getItem(TRANSFER_FROM_KEY) || MAIN_WAREHOUSE_ID
+  );
+  const [toWarehouseId, setToWarehouseId] = useState(() =>
+    localStorage.getItem(TRANSFER_TO_KEY) || ''
+  );
+  const [note, setNote] = useState('');
+  const [items, setItems] = useState<TransferItem[]>(() => {
+    const savedItems = localStorage.getItem(TRANSFER_ITEMS_KEY);
+    return savedItems ? JSON.parse(savedItems) : [];
+  });
+  const [stocks, setStocks] = useState<WarehouseStock[]>([]);
+  const [posted, setPosted] = useState<PostedTransfer | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { warehouses } = useWarehouses();
+
+  const fromWarehouse = warehouses.find(warehouse => warehouse.id === fromWarehouseId);
+  const toWarehouse = warehouses.find(warehouse => warehouse.id === toWarehouseId);
+
+  useEffect(() => {
+    return subscribeToWarehouseStock(setStocks);
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(TRANSFER_ITEMS_KEY, JSON.stringify(items));
+  }, [items]);
+
+  useEffect(() => {
+    localStorage.setItem(TRANSFER_FROM_KEY, fromWarehouseId);
+    localStorage.setItem(TRANSFER_TO_KEY, toWarehouseId);
+  }, [fromWarehouseId, toWarehouseId]);
+
+  // Товар, выбранный в каталоге или из меню товара
+  useEffect(() => {
+    const state = location.state as { addedProduct?: TransferItem };
+    if (state?.addedProduct?.product) {
+      const addedProduct = state.addedProduct;
+      setItems(prev => {
+        const existingIndex = prev.findIndex(item => item.product.id === addedProduct.product.id);
+        if (existingIndex >= 0) {
+          const newItems = [...prev];
+          newItems[existingIndex] = { ...newItems[existingIndex], quantity: addedProduct.quantity };
+          return newItems;
+        }
+        return [...prev, addedProduct];
+      });
+
+      navigate('.', { replace: true, state: {} });
+    }
+  }, [location.state, navigate]);
+
+  const handleUpdateQuantity = (index: number, quantity: number) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, quantity } : item)));
+  };
+
+  const handleDeleteItem = (index: number) => {
+    setItems(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleDeleteAll = () => {
+    if (window.confirm('Вы уверены, что хотите удалить все товары?')) {
+      setItems([]);
+      localStorage.removeItem(TRANSFER_ITEMS_KEY);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!fromWarehouse || !toWarehouse) {
+      showErrorNotification('Выберите склады');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { documentNumber } = await postWarehouseTransfer({
+        date,
+        note,
+        fromWarehouse,
+        toWarehouse,
+        items
+      });
+
+      setPosted({
+        documentNumber,
+        fromWarehouseName: fromWarehouse.name,
+        toWarehouseName: toWarehouse.name,
+        items: items.map(item => ({ ...item, price: item.product.averagePurchasePrice || 0 }))
+      });
+      showSuccessNotification(`Товары перемещены на склад «${toWarehouse.name}»`);
+      setItems([]);
+      localStorage.removeItem(TRANSFER_ITEMS_KEY);
+    } catch (error) {
+      console.error('Error posting transfer:', error);
+      showErrorNotification(error instanceof Error ? error.message : 'Ошибка при перемещении товаров');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0);
+  const totalAmount = items.reduce((sum, item) => sum + item.quantity * (item.product.averagePurchasePrice || 0), 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Шапка */}
+      <div className="bg-white border-b sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center justify-between p-4">
+            <div className="flex items-center gap-4">
+              <button onClick={() => navigate('/warehouse')} className="text-gray-600">
+                <ArrowLeft className="w-6 h-6" />
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">Перемещение новое</h1>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Форма */}
+      <div className="max-w-7xl mx-auto p-2 sm:p-4 mb-32">
+        <div className="bg-white rounded-lg shadow-sm mb-4">
+          <div className="p-3 sm:p-4 space-y-3 sm:space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-0.5 sm:mb-1">
+                  Дата документа
+                </label>
+                <input
+                  type="date"
+                  value={date}
+                  disabled
+                  className="w-full px-2 py-1 sm:px-3 sm:py-2 border rounded-lg bg-gray-50 text-gray-500 text-xs sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-0.5 sm:mb-1">
+                  Номер документа
+                </label>
+                <input
+                  type="text"
+                  value="Присваивается при проведении"
+                  disabled
+                  className="w-full px-2 py-1 sm:px-3 sm:py-2 border rounded-lg bg-gray-50 text-gray-500 text-xs sm:text-sm"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-[1fr_auto_1fr] gap-2 items-end">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Со склада
+                </label>
+                <WarehouseSelect value={fromWarehouseId} onChange={setFromWarehouseId} />
+              </div>
+              <ArrowRight className="w-5 h-5 text-gray-400 mb-2.5" />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  На склад
+                </label>
+                <select
+                  value={toWarehouseId}
+                  onChange={(e) => setToWarehouseId(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-emerald-500"
+                >
+                  <option value="">Выберите склад</option>
+                  {warehouses
+                    .filter(warehouse => warehouse.id !== fromWarehouseId)
+                    .map(warehouse => (
+                      <option key={warehouse.id} value={warehouse.id}>{warehouse.name}</option>
+                    ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Примечание
+              </label>
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-emerald-500"
+                rows={2}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Список товаров */}
+        <div className="bg-white rounded-lg shadow-sm">
+          <div className="p-4 flex justify-between">
+            <button
+              onClick={() => navigate('/warehouse/products', { state: 'transfer' })}
+              className="text-emerald-600 hover:text-emerald-700 text-sm flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Добавить товары
+            </button>
+            {items.length > 0 && (
+              <button
+                onClick={handleDeleteAll}
+                className="text-red-600 hover:text-red-700 text-sm flex items-center gap-1"
+              >
+                <Trash2 className="w-4 h-4" />
+                Удалить все
+              </button>
+            )}
+          </div>
+          {items.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 border-t">
+              <div className="w-24 h-24 bg-gray-100 rounded-lg flex items-center justify-center mb-4">
+                <div className="text-4xl text-gray-400">📦</div>
+              </div>
+              <p className="text-gray-500 text-lg">Добавьте товары</p>
+            </div>
+          ) : (
+            <div className="divide-y border-t">
+              {items.map((item, index) => {
+                const available = getWarehouseQuantity(item.product, stocks, fromWarehouseId);
+                return (
+                  <div key={item.product.id} className="p-4 flex items-center justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-medium text-xs sm:text-base truncate max-w-[180px] sm:max-w-none">
+                        {item.product.name}
+                      </h3>
+                      <div className="mt-1 sm:mt-2 flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-4">
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs sm:text-sm text-gray-500">Кол-во:</span>
+                          <input
+                            type="number"
+                            value={item.quantity}
+                            onChange={(e) => handleUpdateQuantity(index, Number(e.target.value))}
+                            className="w-14 sm:w-20 px-1 py-0.5 sm:px-2 sm:py-1 border rounded text-right text-xs sm:text-sm"
+                            min="1"
+                          />
+                          <span className="text-xs sm:text-sm text-gray-500">{item.product.unit}</span>
+                        </div>
+                        <span className={`text-xs sm:text-sm ${available < item.quantity ? 'text-red-600' : 'text-gray-500'}`}>
+                          На складе: {available} {item.product.unit}
+                        </span>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleDeleteItem(index)}
+                      className="p-1 sm:p-2 text-red-500 hover:text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4 sm:w-5 sm:h-5" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Нижняя панель */}
+        <div className="fixed bottom-0 inset-x-0 bg-white border-t shadow-lg">
+          <div className="max-w-7xl mx-auto px-4 py-4">
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+              <div className="grid grid-cols-2 gap-2 sm:gap-4 text-center w-full sm:flex-1">
+                <div>
+                  <div className="text-lg sm:text-2xl font-bold text-gray-900">{totalQuantity}</div>
+                  <div className="text-xs text-gray-500">Кол-во</div>
+                </div>
+                <div>
+                  <div className="text-lg sm:text-2xl font-bold text-emerald-600">{totalAmount.toLocaleString()}</div>
+                  <div className="text-xs text-gray-500">Сумма</div>
+                </div>
+              </div>
+              <button
+                onClick={handleSubmit}
+                disabled={isSubmitting || !toWarehouse || items.length === 0}
+                className="w-full sm:w-auto px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors disabled:bg-gray-300 text-sm sm:text-base"
+              >
+                {isSubmitting ? 'Отправка...' : 'Переместить'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {posted && (
+        <TransferWaybill
+          isOpen
+          onClose={() => {
+            setPosted(null);
+            navigate('/warehouse');
+          }}
+          data={{ ...posted, date, note }}
+        />
+      )}
+    </div>
+  );
+};
@@ -50,8 +50,8 @@ export const FolderProducts: React.FC = () => {
   }, [folderId]);
 
   const handleProductClick = (e: React.MouseEvent, product: Product) => {
-    const isFromExpense = location.state === 'expense';
-    if (isFromExpense) {
+    const isPicking = location.state === 'expense' || location.state === 'transfer';
+    if (isPicking) {
       e.preventDefault(); // Предотвращаем переход на страницу товара
       setSelectedProduct(product);
       setShowQuantityModal(true);
@@ -68,7 +68,7 @@ export const FolderProducts: React.FC = () => {
 
   const handleQuantityConfirm = (quantity: number) => {
     if (selectedProduct) {
-      navigate('/warehouse/expense/new', {
+      navigate(location.state === 'transfer' ? '/warehouse/transfer/new' : '/warehouse/expense/new', {
         replace: true,
         state: {
           addedProduct: {
@@ -95,7 +95,7 @@ export const FolderProducts: React.FC = () => {
           </div>
           <h2 className="text-xl font-semibold text-gray-900 mb-2">Папка не найдена</h2>
           <button
-            onClick={() => navigate('/warehouse/products')}
+            onClick={() => navigate('/warehouse/products', { state: location.state })}
             className="text-emerald-600 hover:text-emerald-700"
           >
             Вернуться к списку товаров
@@ -112,7 +112,7 @@ export const FolderProducts: React.FC = () => {
         <div className="max-w-7xl mx-auto">
           <div className="flex items-center justify-between p-4">
             <div className="flex items-center gap-4">
-              <button onClick={() => navigate('/warehouse/products')}>
+              <button onClick={() => navigate('/warehouse/products', { state: location.state })}>
                 <ArrowLeft className="w-6 h-6 text-gray-600" />
               </button>
               <div className="flex items-center">
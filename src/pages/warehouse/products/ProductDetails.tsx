@@ -3,9 +3,10 @@ import { ArrowLeft, Barcode, QrCode, Plus, Minus, Image as ImageIcon, Trash2, Hi
 import { useNavigate, useParams } from 'react-router-dom';
 import { doc, getDoc, updateDoc, serverTimestamp, collection, setDoc } from 'firebase/firestore';
 import { db } from '../../../lib/firebase';
-import { Product } from '../../../types/product';
+import { MAIN_WAREHOUSE_ID, Product } from '../../../types/warehouse';
 import { BarcodeGenerator } from '../../../components/warehouse/BarcodeGenerator';
 import { ProductHistory } from '../../../components/warehouse/ProductHistory';
+import { ProductBatches } from '../../../components/warehouse/ProductBatches';
 import { PasswordPrompt } from '../../../components/PasswordPrompt';
 import { showSuccessNotification, showErrorNotification } from '../../../utils/notifications';
 
@@ -98,7 +99,9 @@ export const ProductDetails: React.FC = () => {
         totalPrice: Math.abs(editedQuantity - previousQuantity) * editedPrice,
         date: serverTimestamp(),
         description: 'Ручная корректировка количества',
+        // Корректировка общего остатка меняет остаток основного склада
         warehouse: 'Основной склад',
+        warehouseId: MAIN_WAREHOUSE_ID,
         previousQuantity: previousQuantity,
         newQuantity: editedQuantity,
         previousAveragePrice: previousPrice,
@@ -286,6 +289,17 @@ export const ProductDetails: React.FC = () => {
             </div>
           </div>
 
+          {/* Партии */}
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <ProductBatches
+              productId={product.id}
+              quantity={product.quantity || 0}
+              unit={product.unit}
+              averagePrice={product.averagePurchasePrice || 0}
+              costingMethod={product.costingMethod}
+            />
+          </div>
+
           {/* История операций */}
           <div className="bg-white rounded-lg shadow-lg p-6 flex flex-col sm:flex-row justify-between items-center gap-4">
             <h3 className="text-lg font-medium">История операций</h3>
@@ -71,8 +71,8 @@ export const WarehouseProducts: React.FC = () => {
   );
 
   const handleProductClick = (product: Product) => {
-    const isFromExpense = location.state === 'expense';
-    if (isFromExpense) {
+    const isPicking = location.state === 'expense' || location.state === 'transfer';
+    if (isPicking) {
       setSelectedProduct(product);
       setShowQuantityModal(true);
     } else {
@@ -107,7 +107,7 @@ export const WarehouseProducts: React.FC = () => {
 
   const handleQuantityConfirm = (quantity: number) => {
     if (selectedProduct) {
-      navigate('/warehouse/expense/new', {
+      navigate(location.state === 'transfer' ? '/warehouse/transfer/new' : '/warehouse/expense/new', {
         replace: true,
         state: {
           addedProduct: {
@@ -193,7 +193,7 @@ export const WarehouseProducts: React.FC = () => {
                     key={folder.id}
                     className={`${folder.color} bg-opacity-10 rounded-lg p-4 cursor-pointer hover:shadow-md transition-all`}
                     onContextMenu={(e) => handleFolderContextMenu(e, folder)}
-                    onClick={() => navigate(`/warehouse/folders/${folder.id}`)}
+                    onClick={() => navigate(`/warehouse/folders/${folder.id}`, { state: location.state })}
                   >
                     <div className="flex items-center justify-center mb-3">
                       {folder.image ? (
@@ -15,7 +15,7 @@ const initializeFirestore = async () => {
       // Проекты (row: 3)
       {
         title: 'вап упавп',
-        amount: '0 ₸',
+        balance: 0,
         icon: 'Building2',
         color: 'bg-blue-500',
         row: 3
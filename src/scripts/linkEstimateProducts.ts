@@ -0,0 +1,19 @@
+import { linkEstimateSectionProducts } from '../lib/firebase/estimateSections';
+
+// Связывает позиции норм смет (коллекция estimateSections) с товарами каталога по id.
+// Позиции, для которых товар не найден, выводятся списком — их нужно завести в каталоге.
+const link = async () => {
+  try {
+    const { linked, missing } = await linkEstimateSectionProducts();
+
+    console.log(`Связано позиций: ${linked}`);
+    if (missing.length) {
+      console.log('Товары не найдены в каталоге:');
+      missing.forEach(item => console.log(`  ${item}`));
+    }
+  } catch (error) {
+    console.error('Ошибка при связывании позиций с каталогом:', error);
+  }
+};
+
+link();
@@ -0,0 +1,26 @@
+import { backfillCategoryEntityLinks } from '../lib/firebase/categoryLinks';
+
+// Привязывает существующие категории к клиентам, сотрудникам и проектам по ID.
+// Запуск без --apply только показывает отчёт.
+const migrateCategoryLinks = async () => {
+  try {
+    const apply = process.argv.includes('--apply');
+    const results = await backfillCategoryEntityLinks({ apply });
+
+    const linked = results.filter(result => result.entityId);
+    const flagged = results.filter(result => result.issue);
+
+    console.log(`Привязано категорий: ${linked.length}`);
+    flagged.forEach(result => {
+      console.warn(`Не удалось привязать «${result.title}» (ряд ${result.row}, ${result.categoryId}): ${result.issue}`);
+    });
+
+    if (!apply) {
+      console.log('Изменения не записаны. Запустите с флагом --apply, чтобы сохранить связи.');
+    }
+  } catch (error) {
+    console.error('Ошибка при миграции категорий:', error);
+  }
+};
+
+migrateCategoryLinks();
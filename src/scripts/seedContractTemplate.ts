@@ -0,0 +1,13 @@
+import { seedDefaultContractTemplate } from '../lib/firebase/contractTemplates';
+
+// Переносит договор подряда, ранее заданный в коде, в Firestore (коллекции contractTemplates и contractTemplateVersions)
+const seed = async () => {
+  try {
+    const created = await seedDefaultContractTemplate();
+    console.log(created ? 'Базовый шаблон договора записан' : 'Базовый шаблон договора уже есть в базе');
+  } catch (error) {
+    console.error('Ошибка при записи шаблона договора:', error);
+  }
+};
+
+seed();
@@ -0,0 +1,18 @@
+import { seedEstimateSections } from '../lib/firebase/estimateSections';
+
+// Записывает нормы расхода по умолчанию в Firestore (коллекция estimateSections).
+// Существующие разделы не трогает; --overwrite сбрасывает их к нормам по умолчанию.
+const seed = async () => {
+  try {
+    const overwrite = process.argv.includes('--overwrite');
+    const written = await seedEstimateSections({ overwrite });
+
+    console.log(written.length
+      ? `Записаны разделы: ${written.join(', ')}`
+      : 'Все разделы уже настроены');
+  } catch (error) {
+    console.error('Ошибка при записи норм смет:', error);
+  }
+};
+
+seed();
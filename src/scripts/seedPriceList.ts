@@ -0,0 +1,13 @@
+import { seedDefaultPriceList } from '../lib/firebase/priceLists';
+
+// Переносит прайс калькулятора, ранее заданный в коде, в Firestore (коллекция calculatorPriceLists)
+const seed = async () => {
+  try {
+    const created = await seedDefaultPriceList();
+    console.log(created ? 'Базовый прайс записан' : 'Базовый прайс уже есть в базе');
+  } catch (error) {
+    console.error('Ошибка при записи прайса:', error);
+  }
+};
+
+seed();
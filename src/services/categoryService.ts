@@ -7,7 +7,7 @@ export const addCategory = async (categoryData: CategoryData): Promise<string> =
   try {
     const docRef = await addDoc(collection(db, 'categories'), {
       ...categoryData,
-      amount: '0 ₸',
+      balance: 0,
       createdAt: serverTimestamp()
     });
     return docRef.id;
@@ -1,5 +1,5 @@
 import { collection, addDoc, doc, updateDoc, deleteDoc, getDocs, query, where, writeBatch, serverTimestamp } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { db, getEntityCategory } from '../lib/firebase';
 import { Employee, EmployeeFormData } from '../types/employee';
 import { addCategory } from './categoryService';
 
@@ -22,7 +22,9 @@ export const createEmployee = async (formData: EmployeeFormData): Promise<string
       icon: 'User',
       color: 'bg-amber-400',
       row: 2,
-      amount: '0 ₸',
+      entityType: 'employee',
+      entityId: employeeRef.id,
+      balance: 0,
       createdAt: serverTimestamp()
     });
 
@@ -46,16 +48,9 @@ export const updateEmployee = async (employeeId: string, formData: EmployeeFormD
     });
 
     // Находим и обновляем категорию сотрудника
-    const categoriesQuery = query(
-      collection(db, 'categories'),
-      where('row', '==', 2),
-      where('title', '==', formData.lastName + ' ' + formData.firstName)
-    );
-    
-    const categoriesSnapshot = await getDocs(categoriesQuery);
-    if (!categoriesSnapshot.empty) {
-      const categoryRef = doc(db, 'categories', categoriesSnapshot.docs[0].id);
-      batch.update(categoryRef, {
+    const category = await getEntityCategory('employee', employeeId);
+    if (category) {
+      batch.update(category.ref, {
         title: formData.lastName + ' ' + formData.firstName,
         updatedAt: serverTimestamp()
       });
@@ -76,15 +71,9 @@ export const deleteEmployeeWithHistory = async (employee: Employee): Promise<voi
     batch.delete(doc(db, 'employees', employee.id));
 
     // Находим категорию сотрудника
-    const categoriesQuery = query(
-      collection(db, 'categories'),
-      where('row', '==', 2),
-      where('title', '==', employee.lastName + ' ' + employee.firstName)
-    );
-    
-    const categoriesSnapshot = await getDocs(categoriesQuery);
-    if (!categoriesSnapshot.empty) {
-      const categoryId = categoriesSnapshot.docs[0].id;
+    const category = await getEntityCategory('employee', employee.id);
+    if (category) {
+      const categoryId = category.id;
       
       // Удаляем категорию
       batch.delete(doc(db, 'categories', categoryId));
@@ -116,15 +105,9 @@ export const deleteEmployeeOnly = async (employee: Employee): Promise<void> => {
     batch.delete(doc(db, 'employees', employee.id));
 
     // Находим и удаляем категорию
-    const categoriesQuery = query(
-      collection(db, 'categories'),
-      where('row', '==', 2),
-      where('title', '==', employee.lastName + ' ' + employee.firstName)
-    );
-    
-    const categoriesSnapshot = await getDocs(categoriesQuery);
-    if (!categoriesSnapshot.empty) {
-      batch.delete(doc(db, 'categories', categoriesSnapshot.docs[0].id));
+    const category = await getEntityCategory('employee', employee.id);
+    if (category) {
+      batch.delete(category.ref);
     }
 
     await batch.commit();
@@ -1,3 +1,5 @@
+import { Timestamp } from 'firebase/firestore';
+
 export interface CalculatorState {
   area: string;
   floors: string;
@@ -11,4 +13,44 @@ export interface CostBreakdown {
   foundation: number;
   houseKit: number;
   assembly: number;
-}
\ No newline at end of file
+}
+
+// Вариант дома в КП со своим расчётом стоимости
+export interface CalculatorVariant {
+  formData: CalculatorState;
+  pricePerSqm: number;
+  totalPrice: number;
+  costBreakdown: CostBreakdown;
+}
+
+export interface PriceTier {
+  minArea: number;
+  maxArea: number;
+  pricePerSqm: number;
+}
+
+// Прайс калькулятора: цена за м² по площади и надбавки за м² по параметрам дома.
+// Версии не редактируются — изменение цен оформляется новой версией с датой начала действия
+export interface CalculatorPriceList {
+  id: string;
+  name: string;
+  // Дата начала действия в формате YYYY-MM-DD
+  effectiveFrom: string;
+  tiers: PriceTier[];
+  // Надбавки по значению соответствующего поля CalculatorState
+  floorAdditions: Record<string, number>;
+  firstFloorHeightAdditions: Record<string, number>;
+  secondFloorHeightAdditions: Record<string, number>;
+  // Тип крыши → этажность → надбавка
+  roofAdditions: Record<string, Record<string, number>>;
+  shapeAdditions: Record<string, number>;
+  createdAt?: Timestamp;
+  createdBy?: string;
+}
+
+export interface PriceCalculation {
+  pricePerSqm: number;
+  totalPrice: number;
+  // Версия прайса, по которой выполнен расчёт
+  priceListId: string;
+}
@@ -7,6 +7,25 @@ export interface ClientFile {
   path: string;
 }
 
+export type ConstructionStage = 'foundation' | 'walls' | 'roof' | 'finishing' | 'handover';
+
+export const CONSTRUCTION_STAGES: Record<ConstructionStage, string> = {
+  foundation: 'Фундамент',
+  walls: 'Стены',
+  roof: 'Кровля',
+  finishing: 'Отделка',
+  handover: 'Сдача объекта'
+};
+
+export interface PaymentTranche {
+  id: string;
+  label: string;
+  amount: number;
+  // Срок оплаты в формате YYYY-MM-DD, пустая строка — без срока
+  dueDate: string;
+  stage?: ConstructionStage;
+}
+
 export interface Client {
   id: string;
   clientNumber: string;
@@ -31,6 +50,10 @@ export interface Client {
   createdAt?: any;
   isIconsVisible?: boolean;
   files?: Array<ClientFile>;
+  paymentSchedule?: PaymentTranche[];
+  // НДС в сумме договора, если цена рассчитана по смете с НДС
+  vatRate?: number;
+  vatAmount?: number;
 }
 
 export interface NewClient {
@@ -57,6 +80,10 @@ export interface NewClient {
   createdAt?: any;
   isIconsVisible?: boolean;
   files?: Array<ClientFile>;
+  paymentSchedule?: PaymentTranche[];
+  // НДС в сумме договора, если цена рассчитана по смете с НДС
+  vatRate?: number;
+  vatAmount?: number;
 }
 
 export const initialClientState: NewClient = {
@@ -0,0 +1,43 @@
+import { Timestamp } from 'firebase/firestore';
+import { ClientFile, ConstructionStage } from './client';
+
+export type ClosingDocumentType = 'act' | 'invoice';
+
+export const CLOSING_DOCUMENT_TYPES: Record<ClosingDocumentType, string> = {
+  act: 'Акт выполненных работ',
+  invoice: 'Счёт на оплату'
+};
+
+export interface ClosingDocumentLine {
+  name: string;
+  amount: number;
+}
+
+// Закрывающий документ по этапу строительства (коллекция closingDocuments).
+// Реквизиты клиента и суммы сохраняются на момент формирования
+export interface ClosingDocument {
+  id: string;
+  type: ClosingDocumentType;
+  number: string;
+  clientId: string;
+  clientNumber: string;
+  // ФИО одной строкой: «Фамилия Имя Отчество»
+  clientName: string;
+  clientIin: string;
+  constructionAddress: string;
+  contractNumber: string;
+  stage: ConstructionStage;
+  // Дата документа в формате YYYY-MM-DD
+  date: string;
+  lines: ClosingDocumentLine[];
+  totalAmount: number;
+  vatRate: number;
+  vatAmount: number;
+  // Сформированный PDF, он же в файлах клиента
+  file?: ClientFile;
+  createdAt?: Timestamp;
+  createdBy?: string | null;
+}
+
+// Документ до присвоения номера — для предпросмотра
+export type ClosingDocumentDraft = Omit<ClosingDocument, 'id' | 'number' | 'file' | 'createdAt' | 'createdBy'>;
@@ -0,0 +1,124 @@
+import { Timestamp } from 'firebase/firestore';
+import { Client } from './client';
+
+// Шаблон договора (коллекция contractTemplates). body — текст текущей версии:
+// «# » — заголовок договора, «## » — заголовок раздела, **текст** — жирный,
+// строки вида «слева || справа» — две колонки (реквизиты и подписи),
+// {{путь|фильтр}} — подстановки из данных клиента (см. CONTRACT_PLACEHOLDERS)
+export interface ContractTemplate {
+  id: string;
+  title: string;
+  description: string;
+  body: string;
+  version: number;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+  updatedBy?: string | null;
+}
+
+// Сохранённая версия шаблона (коллекция contractTemplateVersions, id `${templateId}_v${version}`).
+// Версии не изменяются: по ним сформированы договоры
+export interface ContractTemplateVersion {
+  id: string;
+  templateId: string;
+  version: number;
+  title: string;
+  body: string;
+  createdAt?: Timestamp;
+  createdBy?: string | null;
+}
+
+export type ContractTemplateInput = Pick<ContractTemplate, 'title' | 'description' | 'body'>;
+
+// Данные клиента на момент создания договора (поле content договора в JSON)
+export type ContractClientData = Pick<
+  Client,
+  | 'clientNumber' | 'lastName' | 'firstName' | 'middleName' | 'iin' | 'phone' | 'email'
+  | 'livingAddress' | 'constructionAddress' | 'objectName' | 'constructionDays' | 'totalAmount'
+  | 'deposit' | 'firstPayment' | 'secondPayment' | 'thirdPayment' | 'fourthPayment'
+  | 'vatRate' | 'vatAmount'
+> & {
+  contractNumber?: string;
+};
+
+export type ContractStatus = 'draft' | 'sent' | 'signed' | 'terminated';
+
+export const CONTRACT_STATUSES: Record<ContractStatus, string> = {
+  draft: 'Черновик',
+  sent: 'Отправлен клиенту',
+  signed: 'Подписан',
+  terminated: 'Расторгнут'
+};
+
+export interface ContractScan {
+  name: string;
+  url: string;
+  path: string;
+  uploadedAt: Timestamp;
+}
+
+// Созданный договор (коллекция contracts)
+export interface Contract {
+  id: string;
+  clientId: string;
+  clientNumber: string;
+  clientName: string;
+  clientLastName: string;
+  contractNumber: string;
+  contractType: string;
+  createdAt: Timestamp;
+  // Цена и срок с учётом доп. соглашений; в content — условия на момент создания
+  totalAmount: number;
+  constructionDays?: number;
+  content: string;
+  // Версия шаблона, по которой сформирован договор; у старых договоров не указана
+  templateId?: string;
+  templateVersion?: number;
+  // У договоров, созданных до появления статусов, не указан — считаются черновиками
+  status?: ContractStatus;
+  statusChangedAt?: Timestamp;
+  signedAt?: Timestamp;
+  signedScan?: ContractScan;
+  terminatedAt?: Timestamp;
+  terminationReason?: string;
+  amendmentCount?: number;
+}
+
+export type ContractInput = Omit<
+  Contract,
+  'id' | 'createdAt' | 'status' | 'statusChangedAt' | 'signedAt' | 'signedScan' | 'terminatedAt' | 'terminationReason' | 'amendmentCount'
+>;
+
+// Дополнительное соглашение к договору (коллекция contractAmendments)
+export interface ContractAmendment {
+  id: string;
+  contractId: string;
+  clientId: string;
+  // Порядковый номер соглашения в пределах договора
+  number: number;
+  // Дата соглашения в формате YYYY-MM-DD
+  date: string;
+  // Изменение объёма работ
+  description: string;
+  previousTotalAmount: number;
+  totalAmount: number;
+  previousConstructionDays: number;
+  constructionDays: number;
+  // Разница в цене перенесена на последний транш клиента
+  paymentsAdjusted?: boolean;
+  createdAt?: Timestamp;
+  createdBy?: string | null;
+}
+
+export type ContractAmendmentInput = Pick<ContractAmendment, 'date' | 'description' | 'totalAmount' | 'constructionDays'>;
+
+export interface ContractRun {
+  text: string;
+  bold: boolean;
+}
+
+export type ContractBlock =
+  | { type: 'title'; runs: ContractRun[] }
+  | { type: 'heading'; runs: ContractRun[] }
+  | { type: 'paragraph'; lines: ContractRun[][] }
+  | { type: 'columns'; rows: [ContractRun[], ContractRun[]][] };
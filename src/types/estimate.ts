@@ -1,3 +1,5 @@
+import { DocumentData, Timestamp } from 'firebase/firestore';
+
 export interface EstimateValue {
   value: number;
   isChecked: boolean;
@@ -16,4 +18,270 @@ export interface EstimateRow {
   isChecked?: boolean;
   onChange?: (value: number) => void;
   onCheckChange?: (checked: boolean) => void;
-}
\ No newline at end of file
+}
+
+export interface EstimateItem {
+  // Идентификатор позиции из конфигурации раздела сметы
+  id?: string;
+  name: string;
+  unit: string;
+  quantity: number;
+  price: number;
+  total: number;
+  // Пояснение к позиции, показывается при наведении
+  note?: string;
+  // Товар каталога, с которым сверяется цена позиции
+  productId?: string;
+  // Цена закреплена вручную и не обновляется из каталога
+  pricePinned?: boolean;
+}
+
+export type FoundationEstimateItem = EstimateItem;
+export type SipWallsEstimateItem = EstimateItem;
+export type FloorEstimateItem = EstimateItem;
+export type RoofEstimateItem = EstimateItem;
+export type PartitionEstimateItem = EstimateItem;
+export type ConsumablesEstimateItem = EstimateItem;
+
+export interface FoundationEstimateData {
+  items: FoundationEstimateItem[];
+  totalMaterialsCost: number;
+  foundationWorkCost: number;
+  totalCost: number;
+}
+
+export interface SipWallsEstimateData {
+  items: SipWallsEstimateItem[];
+  totalMaterialsCost: number;
+  installationCost: number;
+  deliveryCost: number;
+  totalCost: number;
+}
+
+export interface FloorEstimateData {
+  items: FloorEstimateItem[];
+  totalMaterialsCost: number;
+  installationCost: number;
+  deliveryCost: number;
+  totalCost: number;
+}
+
+export interface RoofEstimateData {
+  items: RoofEstimateItem[];
+  totalMaterialsCost: number;
+  roofWorkCost: number;
+  deliveryCost: number;
+  totalCost: number;
+}
+
+export interface PartitionEstimateData {
+  items: PartitionEstimateItem[];
+  totalMaterialsCost: number;
+  installationCost: number;
+  deliveryCost: number;
+  totalCost: number;
+}
+
+export interface ConsumablesEstimateData {
+  items: ConsumablesEstimateItem[];
+  totalMaterialsCost: number;
+  createdAt?: unknown;
+  updatedAt?: unknown;
+}
+
+export type EstimateSectionId = 'foundation' | 'sipWalls' | 'floor' | 'roof' | 'partition' | 'consumables';
+
+export interface EstimateItemConfig {
+  id: string;
+  name: string;
+  unit: string;
+  // Цена по умолчанию, пока нет цены из каталога
+  price: number;
+  // Товар каталога, с которым связана позиция: id, а пока он не проставлен — название
+  productId?: string;
+  productName?: string;
+  // Формула количества; без формулы количество вводится вручную
+  quantityFormula?: string;
+  // Начальные значения для новой сметы: количество и сумма для позиций «под итог»
+  defaultQuantity?: number;
+  defaultTotal?: number;
+  note?: string;
+}
+
+export interface EstimateSectionConfig {
+  id: EstimateSectionId;
+  title: string;
+  items: EstimateItemConfig[];
+}
+
+// Документы сметы клиента: исходные данные (estimates) и разделы (*Estimates)
+export type EstimateDocumentKey =
+  | 'inputs'
+  | 'foundation'
+  | 'sipWalls'
+  | 'floor'
+  | 'roof'
+  | 'partition'
+  | 'consumables'
+  | 'additionalWorks';
+
+export interface EstimateVersion {
+  id: string;
+  clientId: string;
+  name: string;
+  // Содержимое документов сметы на момент сохранения версии; null — документа не было
+  documents: Partial<Record<EstimateDocumentKey, DocumentData | null>>;
+  grandTotal: number;
+  createdAt?: Timestamp;
+  createdBy?: string | null;
+}
+
+// Тип крыши — те же значения, что и roofType в калькуляторе
+export type RoofType = '1-скатная' | '2-скатная' | '4-скатная';
+
+// Исходные данные инструмента геометрии крыши, размеры в метрах.
+// Сохраняются в estimates/{clientId}.roofGeometry
+export interface RoofGeometryInput {
+  roofType: RoofType;
+  // Габариты дома по наружным стенам: длина — вдоль конька
+  length: number;
+  width: number;
+  // Угол наклона скатов, градусы
+  pitch: number;
+  // Свес по карнизу и по фронтону
+  eaveOverhang: number;
+  gableOverhang: number;
+  // Пристройка с перпендикулярной крышей того же уклона (Т-образный дом);
+  // 0 — без пристройки. Длина — вынос от стены основного дома
+  wingLength: number;
+  wingWidth: number;
+  // Шаг стропил и обрешётки
+  rafterSpacing: number;
+  lathingSpacing: number;
+}
+
+export interface RoofSegment {
+  from: [number, number];
+  to: [number, number];
+}
+
+export interface RoofGeometryResult {
+  roofArea: number;
+  slopeLength: number;
+  ridgeLength: number;
+  hipLength: number;
+  valleyLength: number;
+  gableArea: number;
+  rafterLength: number;
+  lathingLength: number;
+  conicPlugs: number;
+  tees: number;
+  // План крыши для предпросмотра: контуры по свесам и линии коньков, рёбер и ендов
+  plan: {
+    outlines: [number, number][][];
+    ridges: RoofSegment[];
+    hips: RoofSegment[];
+    valleys: RoofSegment[];
+    width: number;
+    height: number;
+  };
+}
+
+// Проём в стене. Смещение — от начала стены до края проёма,
+// высота низа — от пола (0 для дверей)
+export interface WallOpening {
+  offset: number;
+  width: number;
+  height: number;
+  sillHeight: number;
+}
+
+// Участок стены из СИП панелей, размеры в метрах
+export interface WallSegment {
+  name: string;
+  length: number;
+  height: number;
+  openings: WallOpening[];
+}
+
+export type SipPanelType = 'sip25' | 'sip28';
+
+// Назначение бруса: от него зависит позиция сметы, в которую идёт количество
+export type LumberUsage = 'walls40x140' | 'roof40x140' | 'lathing25x100';
+
+export interface LumberPiece {
+  name: string;
+  usage: LumberUsage;
+  length: number;
+  quantity: number;
+}
+
+// Исходные данные раскроя. Сохраняются в estimates/{clientId}.cuttingInput
+export interface CuttingInput {
+  walls: WallSegment[];
+  pieces: LumberPiece[];
+  // Ширина пропила, мм
+  kerf: number;
+}
+
+// Деталь на панели: x — от левого края, y — от низа панели
+export interface PanelCut {
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PanelLayout {
+  type: SipPanelType;
+  cuts: PanelCut[];
+  wasteArea: number;
+}
+
+export interface BeamLayout {
+  usage: LumberUsage;
+  cuts: { label: string; length: number }[];
+  offcut: number;
+}
+
+export interface CuttingPlan {
+  panels: PanelLayout[];
+  beams: BeamLayout[];
+}
+
+// Разделы сметы, стоимость которых входит в цену для клиента
+export type EstimateTotalsKey =
+  | 'foundation'
+  | 'sipWalls'
+  | 'floor'
+  | 'roof'
+  | 'partitions'
+  | 'consumables'
+  | 'additionalWorks';
+
+export type DiscountType = 'percent' | 'fixed';
+
+// Ценообразование сметы: наценка по разделам, скидка клиенту и НДС.
+// Сохраняется в estimates/{clientId}.pricing; без него цена по договору
+// вводится вручную
+export interface EstimatePricing {
+  // Наценка на себестоимость раздела, %
+  markups: Record<EstimateTotalsKey, number>;
+  discountType: DiscountType;
+  discountValue: number;
+  vatEnabled: boolean;
+  vatRate: number;
+}
+
+export interface EstimatePriceBreakdown {
+  sections: { key: EstimateTotalsKey; cost: number; markupAmount: number; price: number }[];
+  cost: number;
+  markupAmount: number;
+  discountAmount: number;
+  priceWithoutVat: number;
+  vatAmount: number;
+  priceWithVat: number;
+  // Цена по договору: с НДС, если он начисляется
+  contractPrice: number;
+}
@@ -1,18 +1,23 @@
 import { ReactNode } from 'react';
 
+// Сущность, к которой привязана категория: клиент (ряд 1), сотрудник (ряд 2), проект клиента (ряд 3)
+export type CategoryEntityType = 'client' | 'employee' | 'project';
+
 export interface CategoryCardType {
   id: string;
   title: string;
-  amount: string;
+  balance: number;
   iconName: string;
   color: string;
   row?: number;
   isVisible?: boolean;
+  entityType?: CategoryEntityType;
+  entityId?: string;
 }
 
 export interface TopStatType {
   label: string;
-  value: string;
+  value: number;
 }
 
 export interface Transaction {
@@ -32,4 +37,6 @@ export interface CategoryData {
   color: string;
   row?: number;
   isVisible?: boolean;
+  entityType?: CategoryEntityType;
+  entityId?: string;
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { Timestamp } from 'firebase/firestore';
+import { CalculatorState, CalculatorVariant, CostBreakdown } from './calculator';
+
+export type ProposalStatus = 'sent' | 'viewed' | 'accepted' | 'rejected' | 'expired';
+
+export const PROPOSAL_STATUSES: Record<ProposalStatus, string> = {
+  sent: 'Отправлено',
+  viewed: 'Просмотрено',
+  accepted: 'Принято',
+  rejected: 'Отклонено',
+  expired: 'Истекло'
+};
+
+export interface ProposalRecipient {
+  // ФИО одной строкой: «Фамилия Имя Отчество»
+  name: string;
+  phone: string;
+  email: string;
+}
+
+// Сохранённое коммерческое предложение (коллекция commercialProposals).
+// formData и цены — первый вариант; все варианты КП, если их несколько, — в variants
+export interface SavedProposal {
+  id: string;
+  number: string;
+  formData: CalculatorState;
+  pricePerSqm: number;
+  totalPrice: number;
+  costBreakdown: CostBreakdown;
+  variants?: CalculatorVariant[];
+  // Версия прайса, по которой составлено КП
+  priceListId: string;
+  // Дата расчёта и срок действия в формате YYYY-MM-DD
+  quoteDate: string;
+  validUntil: string;
+  recipient: ProposalRecipient;
+  status: ProposalStatus;
+  statusChangedAt?: Timestamp;
+  // Клиент, созданный из принятого КП, и вариант, по которому он создан
+  clientId?: string;
+  clientVariant?: number;
+  convertedAt?: Timestamp;
+  createdAt?: Timestamp;
+  createdBy?: string | null;
+}
+
+export interface ProposalConversionRow {
+  // Месяц в формате YYYY-MM
+  month: string;
+  total: number;
+  accepted: number;
+  rejected: number;
+  converted: number;
+  // Доля принятых КП от всех, %
+  conversionRate: number;
+}
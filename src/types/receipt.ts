@@ -1,14 +1,51 @@
+import { Timestamp } from 'firebase/firestore';
+import { EstimateSectionId } from './estimate';
+
+// Виды проводок по категории проекта для модели прибыли
+export type ProfitTransactionKind = 'warehouse' | 'salary' | 'incoming' | 'outgoing' | 'adjustment';
+
+// Позиция сметы, стоимость которой входит в фактический расход
+// (собственное производство, не проходящее через проводки проекта)
+export interface ProfitCostLine {
+  sectionId: EstimateSectionId;
+  itemId: string;
+  label: string;
+}
+
+// Модель прибыли. Хранится в settings/profitModel и меняется администратором.
+// Вес вида проводки: 1 — сумма со знаком (поступление на проект — расход,
+// списание с проекта уменьшает расход), -1 — с обратным знаком, 0 — не учитывается
+export interface ProfitModel {
+  overheadPerHouse: number;
+  costLines: ProfitCostLine[];
+  transactionWeights: Record<ProfitTransactionKind, number>;
+  updatedAt?: Timestamp;
+  updatedBy?: string | null;
+}
+
 export interface ReceiptData {
   operationalExpense: number;
-  sipWalls: number;
-  ceilingInsulation: number;
+  costLines: { label: string; amount: number }[];
   generalExpense: number;
   contractPrice: number;
+  // НДС в цене по договору: прибыль считается от цены без НДС
+  vatAmount: number;
   totalExpense: number;
   netProfit: number;
+  // План: себестоимость по смете и накладные расходы
+  plannedExpense: number;
+  plannedProfit: number;
 }
 
 export interface ReceiptCalculationProps {
   isEditing: boolean;
   clientId: string;
-}
\ No newline at end of file
+}
+
+export interface MarginReportRow {
+  clientId: string;
+  clientNumber: string;
+  name: string;
+  status: 'building' | 'built';
+  receipt: ReceiptData;
+}
@@ -1,3 +1,4 @@
+import { Timestamp } from 'firebase/firestore';
 import { User } from './user';
 
 export interface Transaction {
@@ -10,6 +11,20 @@ export interface Transaction {
   type: 'income' | 'expense';
   categoryId: string;
   isSalary?: boolean;
+  isAdjustment?: boolean;
+  relatedTransactionId?: string;
+  // Проводка складской накладной; сторнируется только отменой накладной
+  isWarehouseOperation?: boolean;
+  warehouseDocumentId?: string;
+  // Сторно
+  isReversed?: boolean;
+  reversedAt?: Timestamp;
+  reversalTransactionId?: string;
+  isReversal?: boolean;
+  reversalOf?: string;
+  reversedBy?: string;
+  reversedByUid?: string | null;
+  reversalReason?: string;
   photos?: Array<{
     name: string;
     url: string;
@@ -1,4 +1,10 @@
-```typescript
+import { Timestamp } from 'firebase/firestore';
+
+export type UserRole = 'admin' | 'manager' | 'employee';
+
+// Действия, доступные не всем ролям (см. utils/permissions)
+export type Permission = 'cancelWarehouseDocuments' | 'manageUsers' | 'manageNumbering';
+
 export interface User {
   id: string;
   name: string;
@@ -6,6 +12,14 @@ export interface User {
   avatar?: string;
   status: 'online' | 'offline';
   lastSeen?: Date;
-  role: 'admin' | 'manager' | 'employee';
+  role: UserRole;
+}
+
+// Запись коллекции users: профиль создаётся при входе, роль назначает администратор
+export interface UserProfile {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  lastSeen?: Timestamp;
 }
-```
\ No newline at end of file
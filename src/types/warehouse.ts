@@ -1,3 +1,5 @@
+import { Timestamp } from 'firebase/firestore';
+
 export interface Product {
   id: string;
   name: string;
@@ -7,12 +9,20 @@ export interface Product {
   averagePurchasePrice: number;
   totalPurchasePrice: number;
   unit: string;
-  warehouse: string;
+  // Устаревший номер склада; остатки по складам — в warehouseStock
+  warehouse?: string;
   order: number;
+  // Способ расчёта себестоимости списания; по умолчанию FIFO
+  costingMethod?: CostingMethod;
+  // Партии с остатком в порядке поступления (productBatches)
+  openBatchIds?: string[];
   createdAt?: any;
   updatedAt?: any;
 }
 
+// Себестоимость расхода: по партиям в порядке поступления или по средней цене
+export type CostingMethod = 'fifo' | 'average';
+
 export interface Transaction {
   id: string;
   type: 'in' | 'out';
@@ -27,6 +37,60 @@ export interface Transaction {
   newValue: number;
 }
 
+// Склад: основной, цех SIP-панелей, контейнер на объекте (коллекция warehouses)
+export interface Warehouse {
+  id: string;
+  name: string;
+  description: string;
+  order: number;
+  createdAt?: Timestamp;
+}
+
+// Основной склад есть всегда; товары, поступившие до появления
+// нескольких складов, числятся на нём
+export const MAIN_WAREHOUSE_ID = 'main';
+
+// Остаток товара на неосновном складе (коллекция warehouseStock,
+// id `${productId}_${warehouseId}`). Остаток основного склада — это
+// Product.quantity за вычетом остатков на остальных складах
+export interface WarehouseStock {
+  id: string;
+  productId: string;
+  warehouseId: string;
+  quantity: number;
+  updatedAt?: Timestamp;
+}
+
+// Партия товара (коллекция productBatches): создаётся приходом, расход
+// уменьшает остаток на своём складе, перемещение переносит остаток
+// между складами. remainingQuantity — сумма остатков по складам
+export interface ProductBatch {
+  id: string;
+  productId: string;
+  quantity: number;
+  remainingQuantity: number;
+  // Остатки по складам; в старых партиях поля нет, весь остаток
+  // числится на складе прихода
+  remainingByWarehouse?: Record<string, number>;
+  purchasePrice: number;
+  totalPrice: number;
+  date?: Timestamp;
+  supplier?: string;
+  // Склад прихода
+  warehouseId?: string;
+  warehouseName?: string;
+  // Приходная накладная партии; отменённая накладная закрывает партию
+  documentId?: string;
+  isCancelled?: boolean;
+}
+
+// Часть списания: партия или остаток без партии (batchId = null)
+export interface BatchConsumption {
+  batchId: string | null;
+  quantity: number;
+  price: number;
+}
+
 export interface Movement {
   id: string;
   productId: string;
@@ -34,5 +98,73 @@ export interface Movement {
   quantity: number;
   date: any;
   description: string;
+  // Название склада на момент операции
   warehouse: string;
-}
\ No newline at end of file
+  warehouseId?: string;
+  // Перемещение или накладная, частью которых является движение
+  transferId?: string;
+  documentId?: string;
+  // Отмена накладной: исходное движение и обратное к нему
+  isReversed?: boolean;
+  isReversal?: boolean;
+  reversalOf?: string;
+  // Цена списания и категория проекта, на который списан товар
+  price?: number;
+  totalPrice?: number;
+  projectId?: string;
+  // Партия прихода и партии, из которых сделан расход
+  batchId?: string;
+  batches?: BatchConsumption[];
+}
+
+// Строка плана материалов проекта: потребность по смете и фактический расход со склада
+export interface MaterialPlanLine {
+  key: string;
+  productId: string | null;
+  name: string;
+  unit: string;
+  plannedQuantity: number;
+  plannedCost: number;
+  issuedQuantity: number;
+  issuedCost: number;
+  // Выдача по складам; движения без склада — с основного
+  issuedByWarehouse: Record<string, { quantity: number; cost: number }>;
+}
+
+export type WarehouseDocumentType = 'income' | 'expense' | 'transfer';
+
+export interface WarehouseDocumentItem {
+  product: {
+    name: string;
+    unit: string;
+  };
+  quantity: number;
+  price: number;
+}
+
+// Накладная склада (коллекция warehouseDocuments). Приход и расход
+// относятся к одному складу, перемещение — к двум
+export interface WarehouseDocument {
+  id: string;
+  type: WarehouseDocumentType;
+  documentNumber: string;
+  date: string;
+  note: string;
+  items: WarehouseDocumentItem[];
+  // Проект расхода и сотрудник прихода
+  project?: string;
+  supplier?: string;
+  warehouseId?: string;
+  warehouseName?: string;
+  fromWarehouseId?: string;
+  fromWarehouseName?: string;
+  toWarehouseId?: string;
+  toWarehouseName?: string;
+  createdAt?: Timestamp;
+  // Отменённая накладная остаётся в списке; её движения и проводки сторнированы
+  status?: 'cancelled';
+  cancelReason?: string;
+  cancelledAt?: Timestamp;
+  cancelledBy?: string;
+  cancelledByUid?: string | null;
+}
@@ -0,0 +1,122 @@
+import { BatchConsumption, CostingMethod, MAIN_WAREHOUSE_ID } from '../types/warehouse';
+
+export const DEFAULT_COSTING_METHOD: CostingMethod = 'fifo';
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  fifo: 'По партиям (FIFO)',
+  average: 'По средней цене'
+};
+
+// Партия с остатками по складам, прочитанная для списания
+export interface OpenBatch {
+  id: string;
+  purchasePrice: number;
+  remainingByWarehouse: Record<string, number>;
+}
+
+export const getCostingMethod = (value: unknown): CostingMethod =>
+  value === 'average' ? 'average' : DEFAULT_COSTING_METHOD;
+
+// Остатки партии по складам. В партиях без разбивки весь остаток
+// числится на складе прихода
+export const getBatchWarehouseRemaining = (data: {
+  remainingByWarehouse?: Record<string, number>;
+  remainingQuantity?: number;
+  warehouseId?: string;
+}): Record<string, number> => {
+  if (data.remainingByWarehouse) {
+    return { ...data.remainingByWarehouse };
+  }
+  const remaining = Number(data.remainingQuantity) || 0;
+  return remaining > 0 ? { [data.warehouseId || MAIN_WAREHOUSE_ID]: remaining } : {};
+};
+
+// Остаток партии на складе или, без склада, по всем складам
+export const getBatchRemaining = (
+  batch: Pick<OpenBatch, 'remainingByWarehouse'>,
+  warehouseId?: string
+): number => {
+  if (warehouseId) {
+    return batch.remainingByWarehouse[warehouseId] || 0;
+  }
+  return Object.values(batch.remainingByWarehouse).reduce((sum, quantity) => sum + quantity, 0);
+};
+
+// Переносит количество партии между складами; null — вне склада
+// (приход или списание)
+export const moveBatchQuantity = (
+  batch: Pick<OpenBatch, 'remainingByWarehouse'>,
+  fromWarehouseId: string | null,
+  toWarehouseId: string | null,
+  quantity: number
+): void => {
+  const remaining = batch.remainingByWarehouse;
+  if (fromWarehouseId) {
+    remaining[fromWarehouseId] = (remaining[fromWarehouseId] || 0) - quantity;
+    if (remaining[fromWarehouseId] <= 0) delete remaining[fromWarehouseId];
+  }
+  if (toWarehouseId) {
+    remaining[toWarehouseId] = (remaining[toWarehouseId] || 0) + quantity;
+  }
+};
+
+// Поля партии после изменения остатков
+export const getBatchRemainingUpdate = (batch: Pick<OpenBatch, 'remainingByWarehouse'>) => ({
+  remainingByWarehouse: batch.remainingByWarehouse,
+  remainingQuantity: getBatchRemaining(batch)
+});
+
+// Остаток, не покрытый партиями: товар, поступивший до учёта партий,
+// и ручные корректировки. Считается самым старым и оценивается по средней цене
+export const getUnbatchedQuantity = (
+  stockQuantity: number,
+  batches: Pick<OpenBatch, 'remainingByWarehouse'>[],
+  warehouseId?: string
+): number =>
+  Math.max(stockQuantity - batches.reduce((sum, batch) => sum + getBatchRemaining(batch, warehouseId), 0), 0);
+
+// Списание со склада по FIFO: сначала остаток без партий, затем партии
+// этого склада в порядке поступления. Партии списываются так при любом
+// способе расчёта, чтобы остатки по партиям совпадали с остатком склада
+export const consumeBatches = (
+  quantity: number,
+  warehouseQuantity: number,
+  averagePrice: number,
+  batches: OpenBatch[],
+  warehouseId: string
+): BatchConsumption[] => {
+  const consumptions: BatchConsumption[] = [];
+  let rest = quantity;
+
+  const unbatched = Math.min(getUnbatchedQuantity(warehouseQuantity, batches, warehouseId), rest);
+  if (unbatched > 0) {
+    consumptions.push({ batchId: null, quantity: unbatched, price: averagePrice });
+    rest -= unbatched;
+  }
+
+  for (const batch of batches) {
+    if (rest <= 0) break;
+    const taken = Math.min(getBatchRemaining(batch, warehouseId), rest);
+    if (taken <= 0) continue;
+    consumptions.push({ batchId: batch.id, quantity: taken, price: batch.purchasePrice });
+    rest -= taken;
+  }
+
+  if (rest > 0) {
+    consumptions.push({ batchId: null, quantity: rest, price: averagePrice });
+  }
+
+  return consumptions;
+};
+
+// Себестоимость списания: фактическая по партиям или по средней цене
+export const getConsumptionCost = (
+  consumptions: BatchConsumption[],
+  averagePrice: number,
+  method: CostingMethod
+): number => {
+  if (method === 'average') {
+    return consumptions.reduce((sum, consumption) => sum + consumption.quantity, 0) * averagePrice;
+  }
+  return consumptions.reduce((sum, consumption) => sum + consumption.quantity * consumption.price, 0);
+};
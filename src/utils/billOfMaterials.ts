@@ -0,0 +1,59 @@
+import { DocumentData } from 'firebase/firestore';
+import { EstimateDocumentKey, EstimateVersion } from '../types/estimate';
+import { MaterialPlanLine } from '../types/warehouse';
+
+// Разделы сметы, позиции которых выдаются со склада
+const MATERIAL_SECTIONS: EstimateDocumentKey[] = ['foundation', 'sipWalls', 'floor', 'roof', 'partition', 'consumables'];
+
+// Ведомость материалов по смете: одинаковые товары из разных разделов суммируются.
+// Позиции с нулевым количеством и без единицы измерения (работы, «под итог») пропускаются
+export const buildBillOfMaterials = (documents: EstimateVersion['documents']): MaterialPlanLine[] => {
+  const isSingleFloor = (documents.inputs?.floors || '1') === '1';
+  const lines = new Map<string, MaterialPlanLine>();
+
+  MATERIAL_SECTIONS
+    .filter(key => !(key === 'floor' && isSingleFloor))
+    .forEach(key => {
+      const items: DocumentData[] = Array.isArray(documents[key]?.items) ? documents[key]!.items : [];
+
+      items.forEach(item => {
+        const quantity = Number(item.quantity) || 0;
+        if (quantity <= 0 || !item.unit) return;
+
+        const lineKey = item.productId || item.name;
+        const line = lines.get(lineKey);
+        if (line) {
+          line.plannedQuantity += quantity;
+          line.plannedCost += Number(item.total) || 0;
+        } else {
+          lines.set(lineKey, {
+            key: lineKey,
+            productId: item.productId || null,
+            name: item.name,
+            unit: item.unit,
+            plannedQuantity: quantity,
+            plannedCost: Number(item.total) || 0,
+            issuedQuantity: 0,
+            issuedCost: 0,
+            issuedByWarehouse: {}
+          });
+        }
+      });
+    });
+
+  return [...lines.values()];
+};
+
+export const isMaterialOverrun = (line: MaterialPlanLine): boolean =>
+  line.issuedQuantity > line.plannedQuantity || line.issuedCost > line.plannedCost;
+
+// Строка с выдачей только с одного склада; 'all' — со всех
+export const getWarehouseLine = (line: MaterialPlanLine, warehouseId: string): MaterialPlanLine => {
+  if (warehouseId === 'all') return line;
+  const issued = line.issuedByWarehouse[warehouseId];
+  return { ...line, issuedQuantity: issued?.quantity || 0, issuedCost: issued?.cost || 0 };
+};
+
+// Сколько ещё нужно выдать по плану
+export const getRemainingQuantity = (line: MaterialPlanLine): number =>
+  Math.max(0, line.plannedQuantity - line.issuedQuantity);
@@ -1,72 +1,96 @@
-import { CalculatorState, CostBreakdown } from '../types/calculator';
+import { CalculatorPriceList, CalculatorState, CalculatorVariant, CostBreakdown, PriceCalculation } from '../types/calculator';
 
-const getPricePerSqm = (area: number): number => {
-  if (area >= 10 && area <= 24) return 131772;
-  if (area >= 25 && area <= 49) return 109586;
-  if (area >= 50 && area <= 74) return 89981;
-  if (area >= 75 && area <= 99) return 86163;
-  if (area >= 100 && area <= 149) return 75352;
-  if (area >= 150 && area <= 199) return 65361;
-  if (area >= 200 && area <= 249) return 61000;
-  if (area >= 250 && area <= 299) return 56641;
-  if (area >= 300 && area <= 349) return 56091;
-  if (area >= 350 && area <= 399) return 54991;
-  if (area >= 400 && area <= 499) return 53891;
-  if (area >= 500 && area <= 1500) return 52791;
-  return 0;
-};
-
-const getFloorAddition = (floors: string): number => {
-  return floors === '1 этаж' ? 7295 : 1619;
-};
-
-const getFirstFloorHeightAddition = (height: string): number => {
-  switch (height) {
-    case '2,8 метра': return 3798;
-    case '3,0 метра': return 5290;
-    default: return 0;
+// Прайс, действовавший до переноса цен в Firestore. Используется, пока в базе нет ни одной версии
+export const DEFAULT_PRICE_LIST: CalculatorPriceList = {
+  id: 'default',
+  name: 'Базовый прайс',
+  effectiveFrom: '2000-01-01',
+  tiers: [
+    { minArea: 10, maxArea: 24, pricePerSqm: 131772 },
+    { minArea: 25, maxArea: 49, pricePerSqm: 109586 },
+    { minArea: 50, maxArea: 74, pricePerSqm: 89981 },
+    { minArea: 75, maxArea: 99, pricePerSqm: 86163 },
+    { minArea: 100, maxArea: 149, pricePerSqm: 75352 },
+    { minArea: 150, maxArea: 199, pricePerSqm: 65361 },
+    { minArea: 200, maxArea: 249, pricePerSqm: 61000 },
+    { minArea: 250, maxArea: 299, pricePerSqm: 56641 },
+    { minArea: 300, maxArea: 349, pricePerSqm: 56091 },
+    { minArea: 350, maxArea: 399, pricePerSqm: 54991 },
+    { minArea: 400, maxArea: 499, pricePerSqm: 53891 },
+    { minArea: 500, maxArea: 1500, pricePerSqm: 52791 }
+  ],
+  floorAdditions: {
+    '1 этаж': 7295,
+    '2 этажа': 1619
+  },
+  firstFloorHeightAdditions: {
+    '2,5 метра': 0,
+    '2,8 метра': 3798,
+    '3,0 метра': 5290
+  },
+  secondFloorHeightAdditions: {
+    '2,5 метра': 0,
+    '2,8 метра': 3798,
+    '3,0 метра': 5290
+  },
+  roofAdditions: {
+    '1-скатная': { '1 этаж': 0, '2 этажа': 0 },
+    '2-скатная': { '1 этаж': 1616, '2 этажа': 1616 },
+    '4-скатная': { '1 этаж': 7085, '2 этажа': 4723 }
+  },
+  shapeAdditions: {
+    'Простая форма': 0,
+    'Сложная форма': 4676
   }
 };
 
-const getSecondFloorHeightAddition = (height: string): number => {
-  switch (height) {
-    case '2,8 метра': return 3798;
-    case '3,0 метра': return 5290;
-    default: return 0;
-  }
+const getPricePerSqm = (area: number, tiers: CalculatorPriceList['tiers']): number => {
+  const tier = tiers.find(({ minArea, maxArea }) => area >= minArea && area <= maxArea);
+  return tier ? tier.pricePerSqm : 0;
 };
 
-const getRoofAddition = (roofType: string, floors: string): number => {
-  if (roofType === '1-скатная') return 0;
-  if (roofType === '2-скатная') return 1616;
-  if (roofType === '4-скатная') {
-    return floors === '1 этаж' ? 7085 : 4723;
-  }
-  return 0;
-};
+// Площадь, для которой в прайсе есть цена
+const getAreaRange = (tiers: CalculatorPriceList['tiers']) => ({
+  min: Math.min(...tiers.map(tier => tier.minArea)),
+  max: Math.max(...tiers.map(tier => tier.maxArea))
+});
 
-const getShapeAddition = (shape: string): number => {
-  return shape === 'Сложная форма' ? 4676 : 0;
+// Версия прайса, действующая на дату расчёта (YYYY-MM-DD): последняя с effectiveFrom не позже даты
+export const getPriceListForDate = (
+  priceLists: CalculatorPriceList[],
+  date: string
+): CalculatorPriceList => {
+  const inForce = priceLists
+    .filter(priceList => priceList.effectiveFrom <= date)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+  return inForce[0] || DEFAULT_PRICE_LIST;
 };
 
-export const calculatePrice = (formData: CalculatorState) => {
+export const calculatePrice = (
+  formData: CalculatorState,
+  priceList: CalculatorPriceList = DEFAULT_PRICE_LIST
+): PriceCalculation => {
   const area = parseFloat(formData.area) || 0;
-  if (area < 10 || area > 1500) return { pricePerSqm: 0, totalPrice: 0 };
+  const range = getAreaRange(priceList.tiers);
+  if (!priceList.tiers.length || area < range.min || area > range.max) {
+    return { pricePerSqm: 0, totalPrice: 0, priceListId: priceList.id };
+  }
 
-  const basePrice = getPricePerSqm(area);
-  const floorAddition = getFloorAddition(formData.floors);
-  const firstFloorHeightAddition = getFirstFloorHeightAddition(formData.firstFloorHeight);
-  const secondFloorHeightAddition = formData.floors === '2 этажа' ? 
-    getSecondFloorHeightAddition(formData.secondFloorHeight) : 0;
-  const roofAddition = getRoofAddition(formData.roofType, formData.floors);
-  const shapeAddition = getShapeAddition(formData.houseShape);
+  const basePrice = getPricePerSqm(area, priceList.tiers);
+  const floorAddition = priceList.floorAdditions[formData.floors] || 0;
+  const firstFloorHeightAddition = priceList.firstFloorHeightAdditions[formData.firstFloorHeight] || 0;
+  const secondFloorHeightAddition = formData.floors === '2 этажа' ?
+    priceList.secondFloorHeightAdditions[formData.secondFloorHeight] || 0 : 0;
+  const roofAddition = priceList.roofAdditions[formData.roofType]?.[formData.floors] || 0;
+  const shapeAddition = priceList.shapeAdditions[formData.houseShape] || 0;
 
   const pricePerSqm = basePrice + floorAddition + firstFloorHeightAddition + 
     secondFloorHeightAddition + roofAddition + shapeAddition;
 
   const totalPrice = Math.round(pricePerSqm * area);
 
-  return { pricePerSqm, totalPrice };
+  return { pricePerSqm, totalPrice, priceListId: priceList.id };
 };
 
 export const calculateCostBreakdown = (totalPrice: number): CostBreakdown => {
@@ -75,4 +99,18 @@ export const calculateCostBreakdown = (totalPrice: number): CostBreakdown => {
     houseKit: Math.round(totalPrice * 0.71),   // 71% на домокомплект
     assembly: Math.round(totalPrice * 0.15)    // 15% на монтаж
   };
+};
+
+// Полный расчёт варианта дома: цена за м², итог и расшифровка
+export const calculateVariant = (
+  formData: CalculatorState,
+  priceList: CalculatorPriceList = DEFAULT_PRICE_LIST
+): CalculatorVariant => {
+  const { pricePerSqm, totalPrice } = calculatePrice(formData, priceList);
+  return {
+    formData,
+    pricePerSqm,
+    totalPrice,
+    costBreakdown: calculateCostBreakdown(totalPrice)
+  };
 };
\ No newline at end of file
@@ -1,5 +1,5 @@
-import { writeBatch, collection, query, where, getDocs, doc } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { writeBatch, doc } from 'firebase/firestore';
+import { db, findCategoryTransactions, getEntityCategories } from '../lib/firebase';
 import { deleteClientContracts } from '../lib/firebase';
 import { Client } from '../types/client';
 
@@ -11,70 +11,26 @@ export const deleteClientWithHistory = async (client: Client) => {
   batch.delete(clientRef);
 
   // 2. Find all associated categories
-  const [projectsQuery, clientsQuery] = [
-    query(
-      collection(db, 'categories'),
-      where('title', '==', `${client.lastName} ${client.firstName}`),
-      where('row', '==', 3)
-    ),
-    query(
-      collection(db, 'categories'),
-      where('title', '==', `${client.lastName} ${client.firstName}`),
-      where('row', '==', 1)
-    )
-  ];
-  
-  const [projectsSnapshot, clientsSnapshot] = await Promise.all([
-    getDocs(projectsQuery),
-    getDocs(clientsQuery)
-  ]);
+  const categoryDocs = await getEntityCategories(client.id);
 
   // Get category IDs for finding transactions
-  const categoryIds = [...projectsSnapshot.docs, ...clientsSnapshot.docs].map(doc => doc.id);
+  const categoryIds = categoryDocs.map(doc => doc.id);
 
   // 3. Delete all categories
-  [...projectsSnapshot.docs, ...clientsSnapshot.docs].forEach(doc => {
+  categoryDocs.forEach(doc => {
     batch.delete(doc.ref);
   });
 
-  // 4. Find and delete all related transactions
-  for (const categoryId of categoryIds) {
-    const transactionsQuery = query(
-      collection(db, 'transactions'),
-      where('categoryId', '==', categoryId)
-    );
-    
-    const transactionsSnapshot = await getDocs(transactionsQuery);
-    transactionsSnapshot.docs.forEach(doc => {
-      batch.delete(doc.ref);
-    });
-
-    // 5. Find and delete all related transactions where this category is mentioned
-    const relatedTransactionsQuery = query(
-      collection(db, 'transactions'),
-      where('fromUser', '==', `${client.lastName} ${client.firstName}`)
-    );
-    
-    const relatedTransactionsSnapshot = await getDocs(relatedTransactionsQuery);
-    relatedTransactionsSnapshot.docs.forEach(doc => {
-      batch.delete(doc.ref);
-    });
-
-    const toUserTransactionsQuery = query(
-      collection(db, 'transactions'),
-      where('toUser', '==', `${client.lastName} ${client.firstName}`)
-    );
-    
-    const toUserTransactionsSnapshot = await getDocs(toUserTransactionsQuery);
-    toUserTransactionsSnapshot.docs.forEach(doc => {
-      batch.delete(doc.ref);
-    });
-  }
+  // 4. Find and delete the categories' transactions and the other legs of their transfers
+  const transactionDocs = await findCategoryTransactions(categoryIds);
+  transactionDocs.forEach(doc => {
+    batch.delete(doc.ref);
+  });
 
-  // 6. Delete contracts
+  // 5. Delete contracts
   await deleteClientContracts(client.id);
 
-  // 7. Commit all changes
+  // 6. Commit all changes
   await batch.commit();
 };
 
@@ -86,26 +42,10 @@ export const deleteClientIconOnly = async (client: Client) => {
   batch.delete(clientRef);
 
   // 2. Find and delete all associated categories
-  const [projectsQuery, clientsQuery] = [
-    query(
-      collection(db, 'categories'),
-      where('title', '==', `${client.lastName} ${client.firstName}`),
-      where('row', '==', 3)
-    ),
-    query(
-      collection(db, 'categories'),
-      where('title', '==', `${client.lastName} ${client.firstName}`),
-      where('row', '==', 1)
-    )
-  ];
-  
-  const [projectsSnapshot, clientsSnapshot] = await Promise.all([
-    getDocs(projectsQuery),
-    getDocs(clientsQuery)
-  ]);
+  const categoryDocs = await getEntityCategories(client.id);
   
   // 3. Delete all categories
-  [...projectsSnapshot.docs, ...clientsSnapshot.docs].forEach(doc => {
+  categoryDocs.forEach(doc => {
     batch.delete(doc.ref);
   });
 
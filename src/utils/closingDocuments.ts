@@ -0,0 +1,126 @@
+import { Client, ConstructionStage, CONSTRUCTION_STAGES } from '../types/client';
+import { ContractBlock, ContractRun } from '../types/contract';
+import { EstimateTotalsKey, EstimateVersion } from '../types/estimate';
+import { ClosingDocumentDraft, ClosingDocumentLine, ClosingDocumentType, CLOSING_DOCUMENT_TYPES } from '../types/closingDocument';
+import { calculateEstimatePrice, DEFAULT_ESTIMATE_PRICING, ESTIMATE_TOTALS_LABELS, getEstimateTotals } from './estimatePricing';
+import { allocatePayments, getPaymentSchedule } from './paymentSchedule';
+import { numberToWords } from './numberToWords';
+
+// Разделы сметы, работы по которым сдаются на этапе. Сдача объекта
+// отдельного акта не имеет — по ней выставляется только счёт
+export const STAGE_ESTIMATE_SECTIONS: Record<ConstructionStage, EstimateTotalsKey[]> = {
+  foundation: ['foundation'],
+  walls: ['sipWalls', 'floor', 'partitions'],
+  roof: ['roof'],
+  finishing: ['consumables', 'additionalWorks'],
+  handover: []
+};
+
+// Работы этапа по смете. Цена договора делится между разделами
+// пропорционально их цене для клиента, поэтому скидка и НДС
+// распределяются по этапам так же, как в смете
+export const getActLines = (
+  client: Client,
+  documents: EstimateVersion['documents'],
+  stage: ConstructionStage
+): ClosingDocumentLine[] => {
+  const breakdown = calculateEstimatePrice(
+    getEstimateTotals(documents),
+    String(documents.inputs?.floors || '1'),
+    documents.inputs?.pricing || DEFAULT_ESTIMATE_PRICING
+  );
+  const totalPrice = breakdown.sections.reduce((sum, section) => sum + section.price, 0);
+  if (totalPrice <= 0) return [];
+
+  return breakdown.sections
+    .filter(section => STAGE_ESTIMATE_SECTIONS[stage].includes(section.key) && section.price > 0)
+    .map(section => ({
+      name: ESTIMATE_TOTALS_LABELS[section.key],
+      amount: Math.round((client.totalAmount * section.price) / totalPrice)
+    }));
+};
+
+// Неоплаченные транши этапа по графику платежей с учётом поступлений
+export const getInvoiceLines = (
+  client: Client,
+  payments: { amount: number; date: Date | null }[],
+  stage: ConstructionStage
+): ClosingDocumentLine[] =>
+  allocatePayments(getPaymentSchedule(client), payments)
+    .filter(state => state.tranche.stage === stage && state.dueAmount > 0)
+    .map(state => ({ name: state.tranche.label, amount: state.dueAmount }));
+
+export const getClosingDocumentTitle = (type: ClosingDocumentType, number?: string): string =>
+  `${CLOSING_DOCUMENT_TYPES[type]} №${number || '—'}`;
+
+export const getClosingDocumentFileName = (type: ClosingDocumentType, number: string): string =>
+  `${type === 'act' ? 'Акт' : 'Счет'}_${number}.pdf`;
+
+const formatMoney = (amount: number): string => `${amount.toLocaleString('ru-RU')} ₸`;
+
+const runs = (text: string, bold = false): ContractRun[] => [{ text, bold }];
+
+// Документ в виде блоков договора — для просмотра и PDF (см. ContractDocument)
+export const getClosingDocumentBlocks = (
+  document: ClosingDocumentDraft,
+  number?: string
+): ContractBlock[] => {
+  const date = new Date(`${document.date}T00:00:00`).toLocaleDateString('ru-RU', {
+    day: '2-digit',
+    month: 'long',
+    year: 'numeric'
+  });
+  const subject = document.type === 'act'
+    ? `Исполнитель выполнил, а Заказчик принял работы этапа «${CONSTRUCTION_STAGES[document.stage]}» по договору подряда №${document.contractNumber} на объекте по адресу: ${document.constructionAddress}.`
+    : `Оплата этапа «${CONSTRUCTION_STAGES[document.stage]}» по договору подряда №${document.contractNumber}, объект по адресу: ${document.constructionAddress}.`;
+
+  return [
+    { type: 'title', runs: runs(getClosingDocumentTitle(document.type, number)) },
+    { type: 'columns', rows: [[runs('г. Алматы'), runs(date)]] },
+    {
+      type: 'paragraph',
+      lines: [
+        [{ text: 'Исполнитель: ', bold: true }, { text: 'ТОО "HotWell.KZ", БИН 180440039034', bold: false }],
+        [{ text: 'Заказчик: ', bold: true }, { text: `${document.clientName}, ИИН ${document.clientIin}`, bold: false }]
+      ]
+    },
+    { type: 'paragraph', lines: [runs(subject)] },
+    {
+      type: 'columns',
+      rows: [
+        [runs('Наименование', true), runs('Сумма', true)],
+        ...document.lines.map((line, index): [ContractRun[], ContractRun[]] => [
+          runs(`${index + 1}. ${line.name}`),
+          runs(formatMoney(line.amount))
+        ]),
+        [runs('Итого', true), runs(formatMoney(document.totalAmount), true)]
+      ]
+    },
+    {
+      type: 'paragraph',
+      lines: [
+        runs(`Всего на сумму ${document.totalAmount.toLocaleString('ru-RU')} (${numberToWords(document.totalAmount)}), ${
+          document.vatAmount ? `в том числе НДС ${document.vatRate}% — ${document.vatAmount.toLocaleString('ru-RU')} тенге` : 'без НДС'
+        }.`)
+      ]
+    },
+    ...(document.type === 'act'
+      ? [{ type: 'paragraph' as const, lines: [runs('Работы выполнены в полном объёме и в срок. Заказчик претензий по объёму, качеству и срокам выполнения работ не имеет.')] }]
+      : [{
+          type: 'paragraph' as const,
+          lines: [
+            runs('Получатель: ТОО "HotWell.KZ", ИИК KZ47722S000007871613, АО "Kaspi Bank", БИК CASPKZKA, КБе 17'),
+            runs(`Назначение платежа: оплата по ${getClosingDocumentTitle(document.type, number).toLowerCase()}`)
+          ]
+        }]),
+    {
+      type: 'columns',
+      rows: document.type === 'act'
+        ? [
+            [runs('Исполнитель:', true), runs('Заказчик:', true)],
+            [runs('Директор _____________ В. И. Милюк'), runs(`_____________ ${document.clientName}`)]
+          ]
+        : [[runs('Директор _____________ В. И. Милюк'), runs('')]]
+    }
+  ];
+};
@@ -0,0 +1,317 @@
+import { Contract, ContractBlock, ContractClientData, ContractRun, ContractTemplate } from '../types/contract';
+import { numberToWords } from './numberToWords';
+
+interface ContractPlaceholder {
+  key: string;
+  label: string;
+  value: (data: ContractClientData, date: Date) => string | number;
+}
+
+export const CONTRACT_PLACEHOLDERS: ContractPlaceholder[] = [
+  { key: 'contractNumber', label: 'Номер договора', value: data => data.contractNumber || data.clientNumber },
+  {
+    key: 'contractDate',
+    label: 'Дата договора',
+    value: (_, date) => date.toLocaleDateString('ru-RU', { day: '2-digit', month: 'long', year: 'numeric' })
+  },
+  { key: 'client.clientNumber', label: 'Номер клиента', value: data => data.clientNumber },
+  { key: 'client.lastName', label: 'Фамилия', value: data => data.lastName },
+  { key: 'client.firstName', label: 'Имя', value: data => data.firstName },
+  { key: 'client.middleName', label: 'Отчество', value: data => data.middleName || '' },
+  {
+    key: 'client.fullName',
+    label: 'ФИО полностью',
+    value: data => [data.lastName, data.firstName, data.middleName].filter(Boolean).join(' ')
+  },
+  { key: 'client.iin', label: 'ИИН', value: data => data.iin },
+  { key: 'client.phone', label: 'Телефон', value: data => data.phone },
+  { key: 'client.email', label: 'Email', value: data => data.email },
+  { key: 'client.livingAddress', label: 'Адрес проживания', value: data => data.livingAddress },
+  { key: 'client.constructionAddress', label: 'Адрес строительства', value: data => data.constructionAddress },
+  { key: 'client.objectName', label: 'Объект', value: data => data.objectName },
+  { key: 'constructionDays', label: 'Срок строительства, рабочих дней', value: data => Number(data.constructionDays) || 0 },
+  { key: 'totalAmount', label: 'Цена договора', value: data => Number(data.totalAmount) || 0 },
+  { key: 'vatRate', label: 'Ставка НДС, %', value: data => data.vatRate || 0 },
+  { key: 'vatAmount', label: 'Сумма НДС', value: data => data.vatAmount || 0 },
+  {
+    key: 'vatClause',
+    label: 'Оговорка об НДС',
+    value: data => data.vatAmount
+      ? `в том числе НДС ${data.vatRate}% — ${data.vatAmount.toLocaleString('ru-RU')} тенге`
+      : 'без учёта НДС'
+  },
+  { key: 'payments.deposit', label: 'Задаток', value: data => Number(data.deposit) || 0 },
+  { key: 'payments.first', label: 'Первый транш', value: data => Number(data.firstPayment) || 0 },
+  { key: 'payments.second', label: 'Второй транш', value: data => Number(data.secondPayment) || 0 },
+  { key: 'payments.third', label: 'Третий транш', value: data => Number(data.thirdPayment) || 0 },
+  { key: 'payments.fourth', label: 'Четвертый транш', value: data => Number(data.fourthPayment) || 0 }
+];
+
+export const CONTRACT_FILTERS: Record<string, { label: string; apply: (value: string | number) => string }> = {
+  words: { label: 'Сумма прописью', apply: value => numberToWords(Math.round(Number(value) || 0)) },
+  initial: { label: 'Инициал', apply: value => (String(value) ? `${String(value).charAt(0)}.` : '') },
+  upper: { label: 'Заглавными буквами', apply: value => String(value).toUpperCase() }
+};
+
+// Только собственные ключи: {{toString}} или |constructor не должны находить методы объекта
+const hasOwnKey = (object: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*(?:\|\s*(\w+)\s*)?\}\}/g;
+
+// Неизвестные подстановки и фильтры в тексте шаблона
+export const findTemplateErrors = (body: string): string[] => {
+  const keys = new Set(CONTRACT_PLACEHOLDERS.map(placeholder => placeholder.key));
+  const errors = new Set<string>();
+
+  for (const [match, key, filter] of body.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!keys.has(key)) {
+      errors.add(`Неизвестная подстановка ${match}`);
+    } else if (filter && !hasOwnKey(CONTRACT_FILTERS, filter)) {
+      errors.add(`Неизвестный фильтр «${filter}» в ${match}`);
+    }
+  }
+
+  return Array.from(errors);
+};
+
+const fillPlaceholders = (text: string, values: Record<string, string | number>): string =>
+  text.replace(PLACEHOLDER_PATTERN, (match, key: string, filter?: string) => {
+    if (!hasOwnKey(values, key)) return match;
+    const value = values[key];
+    if (filter) {
+      return hasOwnKey(CONTRACT_FILTERS, filter) ? CONTRACT_FILTERS[filter].apply(value) : match;
+    }
+    return typeof value === 'number' ? value.toLocaleString('ru-RU') : value;
+  });
+
+// **жирный** текст; подстановки заполняются внутри фрагментов, чтобы данные клиента не меняли разметку
+const parseRuns = (text: string, values: Record<string, string | number>): ContractRun[] =>
+  text
+    .split('**')
+    .map((part, index) => ({ text: fillPlaceholders(part, values), bold: index % 2 === 1 }))
+    .filter(run => run.text);
+
+// Разбирает текст шаблона на блоки и заполняет подстановки данными клиента.
+// Абзацы разделяются пустой строкой, перенос строки внутри абзаца сохраняется
+export const renderContractTemplate = (body: string, data: ContractClientData, date: Date): ContractBlock[] => {
+  const values = CONTRACT_PLACEHOLDERS.reduce((result, placeholder) => {
+    result[placeholder.key] = placeholder.value(data, date);
+    return result;
+  }, {} as Record<string, string | number>);
+
+  const blocks: ContractBlock[] = [];
+  let current: ContractBlock | null = null;
+
+  const flush = () => {
+    if (current) blocks.push(current);
+    current = null;
+  };
+
+  body.replace(/\r\n/g, '\n').split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+
+    if (!line) {
+      flush();
+    } else if (line.startsWith('## ')) {
+      flush();
+      blocks.push({ type: 'heading', runs: parseRuns(line.slice(3), values) });
+    } else if (line.startsWith('# ')) {
+      flush();
+      blocks.push({ type: 'title', runs: parseRuns(line.slice(2), values) });
+    } else if (line.includes('||')) {
+      const separator = line.indexOf('||');
+      const row: [ContractRun[], ContractRun[]] = [
+        parseRuns(line.slice(0, separator).trim(), values),
+        parseRuns(line.slice(separator + 2).trim(), values)
+      ];
+      if (current?.type !== 'columns') {
+        flush();
+        current = { type: 'columns', rows: [] };
+      }
+      current.rows.push(row);
+    } else {
+      if (current?.type !== 'paragraph') {
+        flush();
+        current = { type: 'paragraph', lines: [] };
+      }
+      current.lines.push(parseRuns(line, values));
+    }
+  });
+  flush();
+
+  return blocks;
+};
+
+// Данные клиента, сохранённые в договоре при создании
+export const getContractClientData = (contract: Contract): ContractClientData => ({
+  ...JSON.parse(contract.content),
+  contractNumber: contract.contractNumber
+});
+
+export const getContractDate = (contract: Contract): Date =>
+  contract.createdAt?.toDate ? contract.createdAt.toDate() : new Date();
+
+export const getContractShareText = (data: ContractClientData): string => `
+Договор подряда №${data.contractNumber || data.clientNumber}
+
+Заказчик: ${data.lastName} ${data.firstName} ${data.middleName}
+Объект: ${data.objectName}
+Адрес строительства: ${data.constructionAddress}
+Общая стоимость: ${Number(data.totalAmount).toLocaleString()} тг${data.vatAmount ? ` (в т.ч. НДС ${data.vatRate}% — ${data.vatAmount.toLocaleString()} тг)` : ''}
+
+ТОО "HotWell.KZ"
+Тел: +7 747 743 4343
+WhatsApp: +7 747 743 4343
+Email: HotWell.KZ@gmail.com
+    `;
+
+// Данные для предпросмотра шаблона
+export const SAMPLE_CONTRACT_DATA: ContractClientData = {
+  clientNumber: '2024-001',
+  contractNumber: '2024-001',
+  lastName: 'Иванов',
+  firstName: 'Иван',
+  middleName: 'Иванович',
+  objectName: 'Жилой дом',
+  constructionAddress: 'г. Алматы, мкр. Алатау, ул. Жетысу, уч. 123',
+  totalAmount: 10500000,
+  iin: '123456789012',
+  livingAddress: 'г. Алматы, ул. Абая, д. 1, кв. 1',
+  phone: '+7 747 743 4343',
+  email: 'HotWell.KZ@gmail.com',
+  constructionDays: 45,
+  deposit: 75000,
+  firstPayment: 4170000,
+  secondPayment: 4170000,
+  thirdPayment: 1981500,
+  fourthPayment: 103500
+};
+
+const DEFAULT_CONTRACT_BODY = `# Договор подряда №{{contractNumber}}
+
+г. Алматы || {{contractDate}}
+
+ТОО "HotWell.KZ", БИН 180440039034, в лице Директора Милюк Виталия Игоревича, действующего на основании Устава, именуемый в дальнейшем «Исполнитель», с одной стороны и **{{client.fullName}}**, ИИН **{{client.iin}}**, именуемый(-ая) в дальнейшем «Заказчик», с другой стороны, далее совместно именуемые «Стороны», а по отдельности, именуемые «Сторона» заключили настоящий Договор (далее «Договор») о нижеследующем:
+
+## 1. Предмет Договора.
+
+1.1. Заказчик поручает, а Исполнитель принимает на себя обязательство по возведению дома из Структурно-Изоляционных Панелей (СИП) (далее – «Работы») на земельном участке, расположенном по адресу: **{{client.constructionAddress}}** (далее – «Участок»). Работы производятся Исполнителем после внесения Заказчиком первой предоплаты, согласно п. 2.2. настоящего Договора. Наименование, объемы и стоимость Работ по настоящему Договору указаны в спецификации, являющейся неотъемлемой частью настоящего Договора (Приложение №1).
+
+1.2. Подрядчик обязуется выполнить Работы, согласно планам и размерам Приложения №2 настоящего Договора, собственными силами и средствами, или силами и средствами привлеченных субподрядных организаций, а также из материалов, в соответствии с Приложением №1.
+
+1.3. Заказчик обязуется принять выполненные на Участке Работы при условии соблюдения всех условий Договора и уплатить за них обусловленную в разделе 2 настоящего Договора стоимость.
+
+1.4. Выполненная работа Исполнителя принимается Заказчиком путем двустороннего подписания Акта сдачи-приемки выполненных работ.
+
+## 2. Цена Договора и порядок расчетов.
+
+2.1. Сметная стоимость согласована сторонами в Спецификации (Приложение №1), являющихся неотъемлемой частью настоящего Договора.
+
+2.2. Цена Договора включает в себя сумму стоимости Работ, согласно Спецификации (Приложение №1) и составляет **{{totalAmount}}** (**{{totalAmount|words}}**) тенге, {{vatClause}}.
+
+2.3. В цену Договора не входят услуги, не указанные в настоящем Договоре.
+
+2.4. Оплата производится Заказчиком наличными в кассу Исполнителя или иным способом, согласованным Сторонами и не противоречащим действующему законодательству Республики Казахстан.
+
+2.5. Заказчик производит предоплату в размере **{{payments.deposit}}** (**{{payments.deposit|words}}**) тенге за согласования эскизного 2д проекта и сметы.
+
+2.6. Заказчик производит предоплату в размере **{{payments.first}}** (**{{payments.first|words}}**) тенге в момент заключения договора.
+
+2.7. Заказчик производит предоплату в размере **{{payments.second}}** (**{{payments.second|words}}**) тенге в течение 3 (трех) рабочих дней после монтажа фундамента и стен 1 этажа, перед завозом материала для монтажа кровли.
+
+2.8. Заказчик производит предоплату в размере **{{payments.third}}** (**{{payments.third|words}}**) тенге в течение 3 (трех) рабочих дней после возведения стен второго этажа, перед завозом материала для монтажа кровли.
+
+2.9. Оставшаяся часть, **{{payments.fourth}}** (**{{payments.fourth|words}}**) тенге оплачиваются Заказчиком в течение 3 (трех) рабочих дней с даты подписания акта сдачи-приемки выполненных Работ.
+
+## 3. Сроки выполнения Работ.
+
+3.1. Работы осуществляются Исполнителем по адресу: **{{client.constructionAddress}}** в течение **{{constructionDays}}** рабочих дней, при наличии погодных условий необходимых для проведения Работ, с учетом условия предусмотренных Разделом 2 настоящего Договора.
+
+## 4. Права и обязанности сторон по Договору.
+
+**4.1. Исполнитель обязуется:**
+
+4.1.1. Приступить к началу строительства не позднее 7-х календарных дней со дня оплаты Заказчикам суммы согласно пункту 2.8. Договора и осуществить работы в сроки, в порядке и на условиях, установленных настоящим Договором.
+
+4.1.2. Гарантировать качество и полное соответствие использованных материалов и выполненных работ согласно документации и перечням материалов из приложений №1 и №2 к настоящему Договору.
+
+4.1.2.1. После завершения Работ подписывать акт приема передачи со сроком гарантии 1 (один) календарный год и 6 месяцев. Исполнитель в течение гарантийного срока обязуется устранить выявленные Заказчиком недостатки за свой счет в течение 20 (двадцати) календарных дней со дня направления Заказчиком уведомления или произвести за него возврат денег, но в данном случае, Работы считаются выполненными со дня исправления Подрядчиком выявленных недостатков.
+
+4.1.3. Обеспечить доступ представителям Заказчика к объекту или его части во всякое время для проверки хода и качества работ, качества представленных Исполнителем материалов.
+
+4.1.4. Устранять по требованию Заказчика недостатки и дефекты в работе.
+
+**4.2. Исполнитель имеет право:**
+
+4.2.1. Досрочно сдать Объект при достижении требуемого качества результатов их выполнения.
+
+4.2.2. На получение оплаты за результат выполненных работ.
+
+**4.3. Заказчик:**
+
+4.3.1. Обязуется предоставить благоприятные условия для выполнения Работ, а именно: удобный подъезд к участку, обеспечение электричеством и водой.
+
+4.3.2. Обязуется подготовить участок перед началом строительства, а именно: расчистить участок от мусора, старых строений и деревьев, также провести выравнивание грунта.
+
+4.3.3. Обязуется оплатить Работы, в порядке и на условиях, определенных настоящим Договором.
+
+4.3.4. Имеет право осуществлять контроль и надзор за ходом и качеством выполняемых работ, соблюдением сроков их выполнения, качеством предоставленных Исполнителем материалов, не вмешиваясь при этом в оперативно-хозяйственную деятельность Исполнителя.
+
+## 5. Ответственность сторон.
+
+5.1. За неисполнение или ненадлежащее исполнение обязательств по настоящему Договору Стороны несут ответственность, предусмотренную настоящим Договором и законодательством Республики Казахстан.
+
+5.2. В случае нарушения Исполнителем сроков производства Работ, Заказчик вправе потребовать от Исполнителя уплаты пени в размере 0,1% от цены Договора за каждый день просрочки, но не более 5% от стоимости невыполненных работ.
+
+5.3. В случае нарушения Заказчиком условий п. 2.5, 2.6, настоящего Договора, Исполнитель вправе требовать от Заказчика уплаты пени в размере 0,1% от суммы Договора, за каждый день просрочки, но не более 5% от общей стоимости настоящего Договора.
+
+5.4. Все споры, возникающие в период действия настоящего Договора, разрешаются Сторонами путем переговоров. В случае невозможности урегулирования спорных вопросов силами Сторон, они будут разрешаться в порядке установленном законодательством Республики Казахстан.
+
+## 6. Обстоятельства непреодолимой силы.
+
+6.1. В случае возникновения обстоятельств непреодолимой силы, к которым относятся стихийные бедствия, военные действия, эпидемии, крупномасштабные забастовки, вступление в силу законодательных и правительственных актов, прямо или косвенно запрещающих, а также препятствующих исполнению Сторонами обязательств по настоящему Договору, они освобождаются от ответственности за неисполнение взятых на себя обязательств.
+
+6.2. Затронутая обстоятельствами непреодолимой силы Сторона без промедления, но не позднее чем через 5 (пять) рабочих дней после наступления указанных обстоятельств, письменно должна известить об этом другую Сторону.
+
+## 7. Заключительные положения.
+
+7.1. Настоящий Договор вступает в силу с момента его подписания Сторонами и действует до исполнения Сторонами всех своих обязательств.
+
+7.2. Любые изменения и дополнения к Договору действительны лишь при условии, что они совершены в письменной форме и подписаны уполномоченными представителями Сторон.
+
+7.3. Все приложения к Договору являются его неотъемлемой частью.
+
+7.4. Права и обязательства Сторон по настоящему Договору не могут быть переданы третьим лицам без письменного согласия другой Стороны.
+
+7.5. Все уведомления и другие сообщения, требуемые или предусмотренные по Договору, должны быть составлены в письменной форме. Все уведомления или сообщения считаются представленными должным образом, если они будут доставлены лично или почтой с уведомлением по адресу участвующей Стороны, либо отправлены на e-mail, указанный в Договоре.
+
+7.6. Настоящий Договор составлен в двух идентичных экземплярах, на русском языке, имеющих одинаковую юридическую силу, по одному экземпляру для каждой из Сторон.
+
+7.7. На всех страницах данного Договора подписываются Стороны, подтверждая тем самым своё волеизъявление и согласие на данную сделку.
+
+7.8. Каждая из Сторон обязана заблаговременно уведомить другую сторону об изменении своих реквизитов.
+
+**Исполнитель:** || **Заказчик:**
+ТОО "HotWell.KZ" || {{client.fullName}}
+Адрес: г.Алматы, пос. Бесагаш, ул. Алтай 12 || ИИН {{client.iin}}
+БИН 180440039034 || Адрес проживания: {{client.livingAddress}}
+ИИК KZ47722S000007871613 || Тел: {{client.phone}}
+КБе 17 АО "Kaspi Bank" || Email: {{client.email}}
+БИК CASPKZKA ||
+КБе 14 ||
+Тел: +7 747 743 4343 ||
+WhatsApp: +7 747 743 4343 ||
+E-mail: HotWell.KZ@gmail.com ||
+Директор _____________ В. И. Милюк || _____________ {{client.lastName}} {{client.firstName|initial}} {{client.middleName|initial}}
+Зам. Директор _____________ Л. Н. Гросс ||
+`;
+
+// Договор, ранее заданный в коде. Старые договоры без templateId сформированы по нему
+export const DEFAULT_CONTRACT_TEMPLATE: ContractTemplate = {
+  id: 'default',
+  title: 'Договор подряда на строительство дома',
+  description: 'Стандартный договор для строительства частного дома',
+  body: DEFAULT_CONTRACT_BODY,
+  version: 1
+};
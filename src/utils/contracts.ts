@@ -0,0 +1,22 @@
+import { Contract, ContractStatus } from '../types/contract';
+
+// Допустимые переходы статуса договора. Подписанный договор нельзя
+// вернуть в черновик — только расторгнуть
+export const CONTRACT_STATUS_TRANSITIONS: Record<ContractStatus, ContractStatus[]> = {
+  draft: ['sent', 'signed'],
+  sent: ['draft', 'signed'],
+  signed: ['terminated'],
+  terminated: []
+};
+
+export const getContractStatus = (contract: Contract): ContractStatus => contract.status || 'draft';
+
+// Удалить можно только договор, который ещё не подписан
+export const canDeleteContract = (contract: Contract): boolean => {
+  const status = getContractStatus(contract);
+  return status === 'draft' || status === 'sent';
+};
+
+// Срок строительства по договору с учётом доп. соглашений
+export const getContractConstructionDays = (contract: Contract): number =>
+  contract.constructionDays ?? (Number(JSON.parse(contract.content).constructionDays) || 0);
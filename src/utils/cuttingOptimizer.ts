@@ -0,0 +1,257 @@
+import {
+  BeamLayout,
+  CuttingInput,
+  CuttingPlan,
+  LumberPiece,
+  LumberUsage,
+  PanelCut,
+  PanelLayout,
+  SipPanelType,
+  WallSegment
+} from '../types/estimate';
+
+// Размеры заготовок: СИП панель шириной 1,25 м (3,125 и 3,5 м² при высоте
+// 2,5 и 2,8 м, как в нормах сметы) и брус длиной 6 м
+export const PANEL_WIDTH = 1.25;
+
+export const PANEL_HEIGHTS: Record<SipPanelType, number> = {
+  sip25: 2.5,
+  sip28: 2.8
+};
+
+export const BEAM_LENGTH = 6;
+
+export const PANEL_NAMES: Record<SipPanelType, string> = {
+  sip25: 'СИП панель 2,5 м',
+  sip28: 'СИП панель 2,8 м'
+};
+
+export const LUMBER_USAGES: Record<LumberUsage, string> = {
+  walls40x140: 'Брус 40x140x6000 — стены',
+  roof40x140: 'Брус 40x140x6000 — крыша',
+  lathing25x100: 'Брус 25x100x6000 — обрешётка'
+};
+
+export const DEFAULT_CUTTING_INPUT: CuttingInput = {
+  walls: [],
+  pieces: [],
+  kerf: 4
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Проверка исходных данных; возвращает текст ошибки или null
+export const validateCuttingInput = (input: CuttingInput): string | null => {
+  if (input.kerf < 0 || input.kerf > 10) return 'Ширина пропила должна быть от 0 до 10 мм';
+
+  for (const wall of input.walls) {
+    const name = wall.name || 'без названия';
+    if (wall.length <= 0 || wall.height <= 0) return `Укажите длину и высоту стены «${name}»`;
+    if (wall.height > PANEL_HEIGHTS.sip28) {
+      return `Стена «${name}» выше ${PANEL_HEIGHTS.sip28} м — такие панели не производятся`;
+    }
+
+    const openings = [...wall.openings].sort((a, b) => a.offset - b.offset);
+    for (let index = 0; index < openings.length; index++) {
+      const opening = openings[index];
+      if (opening.width <= 0 || opening.height <= 0) return `Укажите размеры проёмов стены «${name}»`;
+      if (opening.offset < 0 || opening.offset + opening.width > wall.length) {
+        return `Проём стены «${name}» выходит за её длину`;
+      }
+      if (opening.sillHeight < 0 || opening.sillHeight + opening.height > wall.height) {
+        return `Проём стены «${name}» выходит за её высоту`;
+      }
+      const next = openings[index + 1];
+      if (next && next.offset < opening.offset + opening.width) {
+        return `Проёмы стены «${name}» пересекаются`;
+      }
+    }
+  }
+
+  for (const piece of input.pieces) {
+    const name = piece.name || 'без названия';
+    if (piece.length <= 0) return `Укажите длину детали «${name}»`;
+    if (piece.length > BEAM_LENGTH) return `Деталь «${name}» длиннее ${BEAM_LENGTH} м`;
+    if (!Number.isInteger(piece.quantity) || piece.quantity < 1) {
+      return `Количество деталей «${name}» должно быть целым числом`;
+    }
+  }
+
+  return null;
+};
+
+// Стена нарезается на полосы шириной в панель от её начала. Полоса без
+// проёмов — целая деталь на высоту стены, над и под проёмом — перемычка
+// и подоконная часть шириной по проёму
+const getWallCuts = (wall: WallSegment): Omit<PanelCut, 'x' | 'y'>[] => {
+  const cuts: Omit<PanelCut, 'x' | 'y'>[] = [];
+  const edges = wall.openings.flatMap(opening => [opening.offset, opening.offset + opening.width]);
+
+  for (let start = 0; start < wall.length - 0.0005; start += PANEL_WIDTH) {
+    const end = Math.min(start + PANEL_WIDTH, wall.length);
+    const points = [start, ...edges.filter(edge => edge > start && edge < end), end].sort((a, b) => a - b);
+
+    for (let index = 0; index < points.length - 1; index++) {
+      const width = round(points[index + 1] - points[index]);
+      if (width <= 0) continue;
+
+      const middle = (points[index] + points[index + 1]) / 2;
+      const opening = wall.openings.find(item => item.offset < middle && middle < item.offset + item.width);
+      if (!opening) {
+        cuts.push({ label: wall.name, width, height: round(wall.height) });
+        continue;
+      }
+
+      const aboveHeight = round(wall.height - opening.sillHeight - opening.height);
+      if (opening.sillHeight > 0) {
+        cuts.push({ label: `${wall.name}, под проёмом`, width, height: round(opening.sillHeight) });
+      }
+      if (aboveHeight > 0) {
+        cuts.push({ label: `${wall.name}, над проёмом`, width, height: aboveHeight });
+      }
+    }
+  }
+
+  return cuts;
+};
+
+interface PanelColumn {
+  x: number;
+  width: number;
+  usedHeight: number;
+}
+
+// Раскладка деталей по панелям: панель делится по ширине на колонки,
+// в колонке детали стоят друг над другом. Детали берутся по убыванию
+// высоты и ставятся в колонку с наименьшим остатком по ширине
+const packPanels = (type: SipPanelType, cuts: Omit<PanelCut, 'x' | 'y'>[], kerf: number): PanelLayout[] => {
+  const panelHeight = PANEL_HEIGHTS[type];
+  const panels: { cuts: PanelCut[]; columns: PanelColumn[]; usedWidth: number }[] = [];
+  const sorted = [...cuts].sort((a, b) => b.height - a.height || b.width - a.width);
+
+  sorted.forEach(cut => {
+    let best: { panel: typeof panels[number]; column: PanelColumn } | null = null;
+    panels.forEach(panel => {
+      panel.columns.forEach(column => {
+        const fitsWidth = column.width >= cut.width;
+        const fitsHeight = column.usedHeight + kerf + cut.height <= panelHeight + 0.0005;
+        if (fitsWidth && fitsHeight && (!best || column.width < best.column.width)) {
+          best = { panel, column };
+        }
+      });
+    });
+
+    if (best) {
+      const { panel, column } = best as { panel: typeof panels[number]; column: PanelColumn };
+      const y = column.usedHeight + kerf;
+      panel.cuts.push({ ...cut, x: column.x, y: round(y) });
+      column.usedHeight = y + cut.height;
+      return;
+    }
+
+    // Новая колонка в панели, где хватает ширины, иначе новая панель
+    let panel = panels.find(item => item.usedWidth + (item.usedWidth > 0 ? kerf : 0) + cut.width <= PANEL_WIDTH + 0.0005);
+    if (!panel) {
+      panel = { cuts: [], columns: [], usedWidth: 0 };
+      panels.push(panel);
+    }
+    const x = panel.usedWidth > 0 ? panel.usedWidth + kerf : 0;
+    panel.columns.push({ x, width: cut.width, usedHeight: cut.height });
+    panel.cuts.push({ ...cut, x: round(x), y: 0 });
+    panel.usedWidth = x + cut.width;
+  });
+
+  return panels.map(panel => ({
+    type,
+    cuts: panel.cuts,
+    wasteArea: round(
+      PANEL_WIDTH * panelHeight - panel.cuts.reduce((sum, cut) => sum + cut.width * cut.height, 0)
+    )
+  }));
+};
+
+// Раскрой бруса: детали по убыванию длины, каждая — в брус с наименьшим
+// остатком, куда она помещается вместе с пропилом
+const packBeams = (usage: LumberUsage, pieces: LumberPiece[], kerf: number): BeamLayout[] => {
+  const beams: { cuts: BeamLayout['cuts']; used: number }[] = [];
+  const lengths = pieces
+    .flatMap(piece => Array.from({ length: piece.quantity }, () => ({ label: piece.name, length: piece.length })))
+    .sort((a, b) => b.length - a.length);
+
+  lengths.forEach(cut => {
+    let best: typeof beams[number] | null = null;
+    beams.forEach(beam => {
+      const fits = beam.used + kerf + cut.length <= BEAM_LENGTH + 0.0005;
+      if (fits && (!best || beam.used > best.used)) best = beam;
+    });
+
+    if (best) {
+      const beam = best as typeof beams[number];
+      beam.cuts.push(cut);
+      beam.used += kerf + cut.length;
+    } else {
+      beams.push({ cuts: [cut], used: cut.length });
+    }
+  });
+
+  return beams.map(beam => ({ usage, cuts: beam.cuts, offcut: round(Math.max(BEAM_LENGTH - beam.used, 0)) }));
+};
+
+// Тип панели по высоте стены: 2,5 м, если хватает, иначе 2,8 м
+export const getPanelType = (wall: WallSegment): SipPanelType =>
+  wall.height <= PANEL_HEIGHTS.sip25 ? 'sip25' : 'sip28';
+
+export const calculateCuttingPlan = (input: CuttingInput): CuttingPlan => {
+  const kerf = input.kerf / 1000;
+  const panelTypes: SipPanelType[] = ['sip25', 'sip28'];
+  const usages = Object.keys(LUMBER_USAGES) as LumberUsage[];
+
+  return {
+    panels: panelTypes.flatMap(type =>
+      packPanels(type, input.walls.filter(wall => getPanelType(wall) === type).flatMap(getWallCuts), kerf)
+    ),
+    beams: usages.flatMap(usage =>
+      packBeams(usage, input.pieces.filter(piece => piece.usage === usage), kerf)
+    )
+  };
+};
+
+// Брус обвязки стен: низ и верх по длине стены (длинные стены — со стыками)
+// и обрамление проёмов — стойки по высоте, перемычка и подоконный брус
+export const getWallFramingPieces = (walls: WallSegment[]): LumberPiece[] => {
+  const pieces = new Map<string, LumberPiece>();
+  const add = (name: string, length: number, quantity: number) => {
+    const key = `${name}|${length}`;
+    const existing = pieces.get(key);
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      pieces.set(key, { name, usage: 'walls40x140', length, quantity });
+    }
+  };
+
+  walls.forEach(wall => {
+    const parts = Math.ceil(wall.length / BEAM_LENGTH);
+    add(`Обвязка: ${wall.name}`, round(wall.length / parts), parts * 2);
+    wall.openings.forEach(opening => {
+      add(`Стойка проёма: ${wall.name}`, round(opening.height), 2);
+      add(`Перемычка проёма: ${wall.name}`, round(opening.width), opening.sillHeight > 0 ? 2 : 1);
+    });
+  });
+
+  return [...pieces.values()];
+};
+
+// Количества для исходных данных сметы (cuttingValues)
+export const getCuttingEstimateValues = (plan: CuttingPlan) => {
+  const countPanels = (type: SipPanelType) => plan.panels.filter(panel => panel.type === type).length;
+  const countBeams = (usage: LumberUsage) => plan.beams.filter(beam => beam.usage === usage).length;
+
+  return {
+    sip25Panels: countPanels('sip25'),
+    sip28Panels: countPanels('sip28'),
+    walls40x140: countBeams('walls40x140'),
+    roof40x140: countBeams('roof40x140'),
+    lathing25x100: countBeams('lathing25x100')
+  };
+};
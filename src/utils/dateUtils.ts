@@ -25,4 +25,9 @@ export const formatDateHeader = (dateKey: string): string => {
 export const formatTime = (timestamp: any): string => {
   if (!timestamp) return '';
   return format(timestamp.toDate(), 'HH:mm');
-};
\ No newline at end of file
+};
+
+export const formatDateTime = (timestamp?: { toDate?: () => Date } | null): string => {
+  if (!timestamp?.toDate) return '';
+  return format(timestamp.toDate(), 'dd.MM.yyyy HH:mm');
+};
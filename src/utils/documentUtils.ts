@@ -1,48 +1,64 @@
-import { Document, Packer, Paragraph, TextRun, AlignmentType } from 'docx';
+import { Document, Packer, Paragraph, TextRun, AlignmentType, Table, TableRow, TableCell, WidthType, BorderStyle } from 'docx';
 import { saveAs } from 'file-saver';
 import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
+import { ContractBlock, ContractRun } from '../types/contract';
 
-// Функция для генерации PDF из HTML элемента
-export const generatePDFFromElement = async (elementId: string, fileName: string = 'document.pdf') => {
-  try {
-    const element = document.getElementById(elementId);
-    if (!element) throw new Error('Element not found');
+// Снимок HTML элемента, разбитый на страницы A4
+const renderElementToPDF = async (elementId: string): Promise<jsPDF> => {
+  const element = document.getElementById(elementId);
+  if (!element) throw new Error('Element not found');
 
-    const canvas = await html2canvas(element, {
-      scale: 2,
-      useCORS: true,
-      logging: false
-    });
+  const canvas = await html2canvas(element, {
+    scale: 2,
+    useCORS: true,
+    logging: false,
+    windowHeight: element.scrollHeight,
+    // Элемент с прокруткой снимается целиком, а не только видимая часть
+    onclone: (clonedDocument) => {
+      const clonedElement = clonedDocument.getElementById(elementId);
+      if (clonedElement) {
+        clonedElement.style.maxHeight = 'none';
+        clonedElement.style.overflow = 'visible';
+      }
+    }
+  });
 
-    const imgWidth = 210; // A4 width in mm
-    const pageHeight = 297; // A4 height in mm
-    const imgHeight = (canvas.height * imgWidth) / canvas.width;
-    let heightLeft = imgHeight;
-    let position = 0;
+  const imgWidth = 210; // A4 width in mm
+  const pageHeight = 297; // A4 height in mm
+  const imgHeight = (canvas.height * imgWidth) / canvas.width;
+  let heightLeft = imgHeight;
+  let position = 0;
 
-    const pdf = new jsPDF('p', 'mm', 'a4');
-    let firstPage = true;
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  let firstPage = true;
 
-    while (heightLeft >= 0) {
-      if (!firstPage) {
-        pdf.addPage();
-      }
-      
-      pdf.addImage(
-        canvas.toDataURL('image/jpeg', 1.0),
-        'JPEG',
-        0,
-        position,
-        imgWidth,
-        imgHeight
-      );
-      
-      heightLeft -= pageHeight;
-      position -= pageHeight;
-      firstPage = false;
+  while (heightLeft >= 0) {
+    if (!firstPage) {
+      pdf.addPage();
     }
+    
+    pdf.addImage(
+      canvas.toDataURL('image/jpeg', 1.0),
+      'JPEG',
+      0,
+      position,
+      imgWidth,
+      imgHeight
+    );
+    
+    heightLeft -= pageHeight;
+    position -= pageHeight;
+    firstPage = false;
+  }
+
+  return pdf;
+};
 
+// Функция для генерации PDF из HTML элемента
+export const generatePDFFromElement = async (elementId: string, fileName: string = 'document.pdf') => {
+  try {
+    const pdf = await renderElementToPDF(elementId);
     pdf.save(fileName);
     return true;
   } catch (error) {
@@ -51,58 +67,62 @@ export const generatePDFFromElement = async (elementId: string, fileName: string
   }
 };
 
-// Функция для генерации DOCX из данных контракта
-export const generateDOCX = async (contractData: any, fileName: string = 'document.docx') => {
+// PDF из HTML элемента в виде файла — для загрузки в хранилище
+export const generatePDFFileFromElement = async (elementId: string, fileName: string): Promise<File> => {
+  const pdf = await renderElementToPDF(elementId);
+  return new File([pdf.output('blob')], fileName, { type: 'application/pdf' });
+};
+
+// DOCX договора из блоков заполненного шаблона (см. renderContractTemplate)
+export const generateContractDOCX = async (blocks: ContractBlock[], fileName: string = 'document.docx') => {
   try {
+    const toTextRuns = (runs: ContractRun[], size = 24) =>
+      runs.map(run => new TextRun({ text: run.text, bold: run.bold, size }));
+
+    const noBorder = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' };
+    const noBorders = { top: noBorder, bottom: noBorder, left: noBorder, right: noBorder };
+
+    const children = blocks.map(block => {
+      switch (block.type) {
+        case 'title':
+          return new Paragraph({
+            alignment: AlignmentType.CENTER,
+            spacing: { after: 200 },
+            children: toTextRuns(block.runs.map(run => ({ ...run, bold: true })), 28)
+          });
+        case 'heading':
+          return new Paragraph({
+            spacing: { before: 200, after: 200 },
+            children: toTextRuns(block.runs.map(run => ({ ...run, bold: true })))
+          });
+        case 'paragraph':
+          return new Paragraph({
+            alignment: AlignmentType.JUSTIFIED,
+            spacing: { after: 200 },
+            children: block.lines.flatMap((line, index) => [
+              ...(index > 0 ? [new TextRun({ text: '', break: 1 })] : []),
+              ...toTextRuns(line)
+            ])
+          });
+        case 'columns':
+          return new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            borders: { ...noBorders, insideHorizontal: noBorder, insideVertical: noBorder },
+            rows: block.rows.map(cells => new TableRow({
+              children: cells.map(runs => new TableCell({
+                width: { size: 50, type: WidthType.PERCENTAGE },
+                borders: noBorders,
+                children: [new Paragraph({ children: toTextRuns(runs) })]
+              }))
+            }))
+          });
+      }
+    });
+
     const doc = new Document({
       sections: [{
         properties: {},
-        children: [
-          new Paragraph({
-            alignment: AlignmentType.CENTER,
-            children: [
-              new TextRun({
-                text: `Договор подряда №${contractData.contractNumber}`,
-                bold: true,
-                size: 28
-              })
-            ]
-          }),
-          new Paragraph({
-            alignment: AlignmentType.JUSTIFIED,
-            spacing: {
-              after: 200
-            },
-            children: [
-              new TextRun({
-                text: `г. Алматы                                                                                           ${new Date().toLocaleDateString('ru-RU')}`,
-                size: 24
-              })
-            ]
-          }),
-          new Paragraph({
-            alignment: AlignmentType.JUSTIFIED,
-            spacing: {
-              after: 200
-            },
-            children: [
-              new TextRun({
-                text: 'ТОО "HotWell.KZ", БИН 180440039034, в лице Директора Милюк Виталия Игоревича, действующего на основании Устава, именуемый в дальнейшем «Исполнитель», с одной стороны и ',
-                size: 24
-              }),
-              new TextRun({
-                text: `${contractData.lastName} ${contractData.firstName} ${contractData.middleName}`,
-                bold: true,
-                size: 24
-              }),
-              new TextRun({
-                text: `, ИИН ${contractData.iin}, именуемый(-ая) в дальнейшем «Заказчик», с другой стороны, далее совместно именуемые «Стороны», заключили настоящий Договор о нижеследующем:`,
-                size: 24
-              })
-            ]
-          }),
-          // ... добавьте остальные параграфы договора
-        ]
+        children
       }]
     });
 
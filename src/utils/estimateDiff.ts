@@ -0,0 +1,142 @@
+import { DocumentData } from 'firebase/firestore';
+import { EstimateDocumentKey, EstimateVersion } from '../types/estimate';
+
+type EstimateDocuments = EstimateVersion['documents'];
+
+interface ItemValues {
+  quantity: number;
+  price: number;
+  total: number;
+}
+
+export interface EstimateItemDiff {
+  key: string;
+  name: string;
+  unit: string;
+  before: ItemValues | null;
+  after: ItemValues | null;
+  changed: boolean;
+}
+
+export interface EstimateSectionDiff {
+  key: EstimateDocumentKey;
+  items: EstimateItemDiff[];
+  totalBefore: number;
+  totalAfter: number;
+}
+
+// Поля исходных данных, значения которых сравниваются как позиции
+const INPUT_VALUE_GROUPS = ['foundationValues', 'lumberValues', 'roofValues', 'cuttingValues'];
+
+const toNumber = (value: unknown): number => {
+  const number = typeof value === 'string' ? parseFloat(value.replace(',', '.')) : Number(value);
+  return Number.isFinite(number) ? number : 0;
+};
+
+const isSameValues = (a: ItemValues | null, b: ItemValues | null): boolean =>
+  !!a && !!b && a.quantity === b.quantity && a.price === b.price && a.total === b.total;
+
+// Итог сметы по версии: межэтажное перекрытие учитывается только для многоэтажных домов
+export const getEstimateGrandTotal = (documents: EstimateDocuments): number => {
+  const isSingleFloor = (documents.inputs?.floors || '1') === '1';
+
+  return (Object.keys(documents) as EstimateDocumentKey[]).reduce((sum, key) => {
+    if (key === 'inputs' || (key === 'floor' && isSingleFloor)) return sum;
+    return sum + toNumber(documents[key]?.totalCost);
+  }, 0);
+};
+
+// Позиции раздела по ключу: id из конфигурации, иначе название.
+// Пустые строки-заготовки без суммы пропускаются
+const collectItems = (data: DocumentData | null | undefined) => {
+  const items = new Map<string, { name: string; unit: string; values: ItemValues }>();
+
+  (Array.isArray(data?.items) ? data!.items : []).forEach((item: DocumentData, index: number) => {
+    const name = item?.name || '';
+    const total = toNumber(item?.total);
+    if (!name && !total) return;
+
+    items.set(item.id || name || `#${index}`, {
+      name: name || `Строка ${index + 1}`,
+      unit: item.unit || '',
+      values: { quantity: toNumber(item.quantity), price: toNumber(item.price), total }
+    });
+  });
+
+  return items;
+};
+
+// Исходные данные сметы сравниваются по значению поля, цена и сумма не используются
+const collectInputs = (data: DocumentData | null | undefined) => {
+  const items = new Map<string, { name: string; unit: string; values: ItemValues }>();
+  if (!data) return items;
+
+  INPUT_VALUE_GROUPS.forEach(group => {
+    Object.entries<DocumentData>(data[group] || {}).forEach(([field, entry]) => {
+      items.set(`${group}.${field}`, {
+        name: field,
+        unit: '',
+        values: { quantity: toNumber(entry?.value), price: 0, total: 0 }
+      });
+    });
+  });
+
+  ['floors', 'firstFloorHeight', 'secondFloorHeight'].forEach(field => {
+    if (data[field] !== undefined) {
+      items.set(field, {
+        name: field,
+        unit: '',
+        values: { quantity: toNumber(data[field]), price: 0, total: 0 }
+      });
+    }
+  });
+
+  return items;
+};
+
+const diffSection = (
+  key: EstimateDocumentKey,
+  before: DocumentData | null | undefined,
+  after: DocumentData | null | undefined
+): EstimateSectionDiff => {
+  const collect = key === 'inputs' ? collectInputs : collectItems;
+  const beforeItems = collect(before);
+  const afterItems = collect(after);
+
+  // Порядок позиций — как в новой версии, удалённые позиции в конце
+  const keys = [...afterItems.keys(), ...[...beforeItems.keys()].filter(itemKey => !afterItems.has(itemKey))];
+
+  const items = keys.map(itemKey => {
+    const beforeItem = beforeItems.get(itemKey);
+    const afterItem = afterItems.get(itemKey);
+    const source = (afterItem || beforeItem)!;
+    const beforeValues = beforeItem?.values ?? null;
+    const afterValues = afterItem?.values ?? null;
+
+    return {
+      key: itemKey,
+      name: source.name,
+      unit: source.unit,
+      before: beforeValues,
+      after: afterValues,
+      changed: !isSameValues(beforeValues, afterValues)
+    };
+  });
+
+  return {
+    key,
+    items,
+    totalBefore: toNumber(before?.totalCost),
+    totalAfter: toNumber(after?.totalCost)
+  };
+};
+
+// Сравнение двух версий сметы по разделам: количество, цена и сумма каждой позиции
+export const diffEstimateDocuments = (
+  before: EstimateDocuments,
+  after: EstimateDocuments,
+  keys: EstimateDocumentKey[]
+): EstimateSectionDiff[] =>
+  keys
+    .filter(key => before[key] || after[key])
+    .map(key => diffSection(key, before[key], after[key]));
@@ -0,0 +1,315 @@
+import { saveAs } from 'file-saver';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { DocumentData } from 'firebase/firestore';
+import dejaVuSansUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url';
+import dejaVuSansBoldUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url';
+import { EstimateDocumentKey, EstimateVersion } from '../types/estimate';
+import { getEstimateGrandTotal } from './estimateDiff';
+
+export interface EstimateExportRow {
+  name: string;
+  unit: string;
+  quantity: number | null;
+  price: number | null;
+  total: number;
+}
+
+export interface EstimateExportSection {
+  key: EstimateDocumentKey;
+  title: string;
+  rows: EstimateExportRow[];
+  // Строки итогов под таблицей: материалы, работы, доставка, итог раздела
+  summary: { label: string; amount: number }[];
+  totalCost: number;
+}
+
+export interface EstimateExport {
+  title: string;
+  sections: EstimateExportSection[];
+  grandTotal: number;
+}
+
+type SummaryField = [field: string, label: string];
+
+// Разделы в порядке сметы и подписи итогов — как в таблицах на странице клиента
+const EXPORT_SECTIONS: { key: EstimateDocumentKey; title: string; summary: SummaryField[] }[] = [
+  {
+    key: 'foundation',
+    title: 'Фундамент + Засыпка фундамента + Стяжка',
+    summary: [
+      ['totalMaterialsCost', 'Итого, стоимость материалов'],
+      ['foundationWorkCost', 'Доставка + аренда опалубки + Амортизация'],
+      ['totalCost', 'Итого, стоим. материалов + стоим. работ по фунд. + дост.']
+    ]
+  },
+  {
+    key: 'sipWalls',
+    title: 'Стены из СИП панелей (несущие)',
+    summary: [
+      ['totalMaterialsCost', 'Итого, стоимость материалов'],
+      ['installationCost', 'Стоимость работы по монтажу СИП стен'],
+      ['deliveryCost', 'Доставка материала'],
+      ['totalCost', 'Итого, стоимость материалов + стоимость работ по монтажу SIP стен + доставка']
+    ]
+  },
+  {
+    key: 'floor',
+    title: 'Перекрытие из балок + OSB 18мм между первым и вторым этажами',
+    summary: [
+      ['totalMaterialsCost', 'Итого, стоимость материалов'],
+      ['installationCost', 'Стоимость работы по монтажу перекрытия'],
+      ['deliveryCost', 'Доставка'],
+      ['totalCost', 'Итого, стоимость материалов + стоимость работ по монтажу перекрытия']
+    ]
+  },
+  {
+    key: 'roof',
+    title: 'Крыша+навес',
+    summary: [
+      ['totalMaterialsCost', 'Итого, стоимость материалов'],
+      ['roofWorkCost', 'Стоимость кровельных работ с утеплением потолка второго этажа'],
+      ['deliveryCost', 'Доставка Черепицы, бруса, пенопласта потолок'],
+      ['totalCost', 'Итого, стоимость материалов + стоимость кровельных работ']
+    ]
+  },
+  {
+    key: 'partition',
+    title: 'Перегородки несущие из профиля и гипсокартона',
+    summary: [
+      ['totalMaterialsCost', 'Итого, стоимость материалов'],
+      ['installationCost', 'Стоимость работ по монтажу перегородок из гипсокартона'],
+      ['deliveryCost', 'Доставка перегородок'],
+      ['totalCost', 'Итого, стоимость материалов + стоимость работ по монтажу перегородок']
+    ]
+  },
+  {
+    key: 'consumables',
+    title: 'Расходные материалы',
+    summary: [['totalMaterialsCost', 'Итого, стоимость расходных материалов']]
+  },
+  {
+    key: 'additionalWorks',
+    title: 'Дополнительные работы',
+    summary: [['totalCost', 'Итого, стоимость дополнительных работ']]
+  }
+];
+
+const toNumber = (value: unknown): number => Number(value) || 0;
+
+// Собирает данные для выгрузки из документов сметы клиента.
+// Перекрытие попадает в выгрузку только для многоэтажных домов
+export const buildEstimateExport = (
+  documents: EstimateVersion['documents'],
+  title: string
+): EstimateExport => {
+  const isSingleFloor = (documents.inputs?.floors || '1') === '1';
+
+  const sections = EXPORT_SECTIONS
+    .filter(({ key }) => documents[key] && !(key === 'floor' && isSingleFloor))
+    .map(({ key, title: sectionTitle, summary }) => {
+      const data = documents[key] as DocumentData;
+      const isAdditionalWorks = key === 'additionalWorks';
+
+      const rows = (Array.isArray(data.items) ? data.items : [])
+        .filter((item: DocumentData) => item.name || toNumber(item.total))
+        .map((item: DocumentData) => ({
+          name: item.name || '',
+          unit: item.unit || '',
+          quantity: isAdditionalWorks ? null : toNumber(item.quantity),
+          price: isAdditionalWorks ? null : toNumber(item.price),
+          total: toNumber(item.total)
+        }));
+
+      return {
+        key,
+        title: sectionTitle,
+        rows,
+        summary: summary.map(([field, label]) => ({ label, amount: toNumber(data[field]) })),
+        totalCost: toNumber(data.totalCost)
+      };
+    });
+
+  return {
+    title,
+    sections,
+    grandTotal: getEstimateGrandTotal(documents)
+  };
+};
+
+const TABLE_HEAD = ['Наименование', 'Ед.изм', 'Кол-во', 'Цена ₸', 'Сумма ₸'];
+
+const formatAmount = (value: number): string =>
+  value.toLocaleString('ru-RU', { maximumFractionDigits: 2 });
+
+// Excel ограничивает имя листа 31 символом и запрещает : \ / ? * [ ]
+const toSheetName = (title: string): string =>
+  title.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31).trim();
+
+export const exportEstimateToXlsx = async (estimate: EstimateExport, fileName: string) => {
+  try {
+    // exceljs тяжёлый, поэтому загружается только при выгрузке
+    const { default: ExcelJS } = await import('exceljs');
+    const workbook = new ExcelJS.Workbook();
+    const moneyFormat = '#,##0.00';
+
+    estimate.sections.forEach(section => {
+      const sheet = workbook.addWorksheet(toSheetName(section.title), {
+        views: [{ state: 'frozen', ySplit: 2 }]
+      });
+      sheet.columns = [
+        { width: 60 },
+        { width: 10 },
+        { width: 10, style: { numFmt: '#,##0.##' } },
+        { width: 14, style: { numFmt: moneyFormat } },
+        { width: 16, style: { numFmt: moneyFormat } }
+      ];
+
+      sheet.mergeCells('A1:E1');
+      sheet.getCell('A1').value = section.title;
+      sheet.getCell('A1').font = { bold: true, size: 13 };
+
+      const headRow = sheet.addRow(TABLE_HEAD);
+      headRow.font = { bold: true };
+      headRow.eachCell(cell => {
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE5E7EB' } };
+      });
+
+      section.rows.forEach(row => {
+        sheet.addRow([row.name, row.unit, row.quantity, row.price, row.total]);
+      });
+
+      section.summary.forEach(({ label, amount }) => {
+        const summaryRow = sheet.addRow([label, null, null, null, amount]);
+        summaryRow.font = { bold: true };
+      });
+    });
+
+    const totals = workbook.addWorksheet('Итого');
+    totals.columns = [{ width: 60 }, { width: 18, style: { numFmt: moneyFormat } }];
+    totals.addRow([estimate.title]).font = { bold: true, size: 13 };
+    totals.addRow(['Раздел', 'Сумма ₸']).font = { bold: true };
+    estimate.sections.forEach(section => {
+      totals.addRow([section.title, section.totalCost]);
+    });
+    totals.addRow(['ИТОГО ОБЩАЯ', estimate.grandTotal]).font = { bold: true };
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    saveAs(
+      new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+      fileName
+    );
+    return true;
+  } catch (error) {
+    console.error('Error generating XLSX:', error);
+    return false;
+  }
+};
+
+const loadFont = async (url: string): Promise<string> => {
+  const buffer = await (await fetch(url)).arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Стандартные шрифты jsPDF не содержат кириллицы, поэтому встраиваем DejaVu Sans
+const registerFonts = async (pdf: jsPDF) => {
+  const [regular, bold] = await Promise.all([loadFont(dejaVuSansUrl), loadFont(dejaVuSansBoldUrl)]);
+  pdf.addFileToVFS('DejaVuSans.ttf', regular);
+  pdf.addFont('DejaVuSans.ttf', 'DejaVuSans', 'normal');
+  pdf.addFileToVFS('DejaVuSans-Bold.ttf', bold);
+  pdf.addFont('DejaVuSans-Bold.ttf', 'DejaVuSans', 'bold');
+  pdf.setFont('DejaVuSans', 'normal');
+};
+
+// Векторный PDF: текст остаётся текстом, строки не разрезаются между страницами,
+// шапка таблицы повторяется на каждой странице
+export const exportEstimateToPdf = async (estimate: EstimateExport, fileName: string) => {
+  try {
+    const pdf = new jsPDF('p', 'mm', 'a4');
+    await registerFonts(pdf);
+
+    const margin = 14;
+    const tableStyles = { font: 'DejaVuSans', fontSize: 8, cellPadding: 1.5 };
+    let cursorY = margin;
+
+    pdf.setFontSize(14);
+    pdf.setFont('DejaVuSans', 'bold');
+    pdf.text(estimate.title, margin, cursorY + 4);
+    cursorY += 10;
+
+    const getFinalY = () => (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+    estimate.sections.forEach(section => {
+      autoTable(pdf, {
+        startY: cursorY,
+        margin: { left: margin, right: margin },
+        styles: tableStyles,
+        headStyles: { fillColor: [31, 41, 55], fontStyle: 'bold' },
+        head: [
+          [{ content: section.title, colSpan: 5, styles: { halign: 'center' } }],
+          TABLE_HEAD
+        ],
+        body: [
+          ...section.rows.map(row => [
+            row.name,
+            row.unit,
+            row.quantity === null ? '' : formatAmount(row.quantity),
+            row.price === null ? '' : formatAmount(row.price),
+            formatAmount(row.total)
+          ]),
+          ...section.summary.map(({ label, amount }) => [
+            { content: label, colSpan: 4, styles: { halign: 'right' as const, fontStyle: 'bold' as const } },
+            { content: formatAmount(amount), styles: { fontStyle: 'bold' as const } }
+          ])
+        ],
+        columnStyles: {
+          0: { cellWidth: 'auto' },
+          1: { cellWidth: 16, halign: 'center' },
+          2: { cellWidth: 18, halign: 'right' },
+          3: { cellWidth: 22, halign: 'right' },
+          4: { cellWidth: 26, halign: 'right' }
+        },
+        showHead: 'everyPage',
+        rowPageBreak: 'avoid'
+      });
+      cursorY = getFinalY() + 8;
+    });
+
+    autoTable(pdf, {
+      startY: cursorY,
+      margin: { left: margin, right: margin },
+      styles: tableStyles,
+      headStyles: { fillColor: [31, 41, 55], fontStyle: 'bold' },
+      head: [['Раздел', 'Сумма ₸']],
+      body: [
+        ...estimate.sections.map(section => [section.title, formatAmount(section.totalCost)]),
+        [
+          { content: 'ИТОГО ОБЩАЯ', styles: { fontStyle: 'bold' as const } },
+          { content: formatAmount(estimate.grandTotal), styles: { fontStyle: 'bold' as const } }
+        ]
+      ],
+      columnStyles: { 1: { cellWidth: 40, halign: 'right' } },
+      showHead: 'everyPage',
+      rowPageBreak: 'avoid'
+    });
+
+    const pageCount = pdf.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      pdf.setPage(page);
+      pdf.setFont('DejaVuSans', 'normal');
+      pdf.setFontSize(8);
+      pdf.text(`${page} / ${pageCount}`, pdf.internal.pageSize.getWidth() - margin, pdf.internal.pageSize.getHeight() - 8, { align: 'right' });
+    }
+
+    pdf.save(fileName);
+    return true;
+  } catch (error) {
+    console.error('Error generating estimate PDF:', error);
+    return false;
+  }
+};
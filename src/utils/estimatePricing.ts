@@ -0,0 +1,91 @@
+import { EstimatePriceBreakdown, EstimatePricing, EstimateTotalsKey, EstimateVersion } from '../types/estimate';
+
+// Ставка НДС в Казахстане, %
+export const VAT_RATE = 12;
+
+export const ESTIMATE_TOTALS_LABELS: Record<EstimateTotalsKey, string> = {
+  foundation: 'Фундамент',
+  sipWalls: 'СИП стены',
+  floor: 'Перекрытие',
+  roof: 'Крыша',
+  partitions: 'Перегородки',
+  consumables: 'Расходные материалы',
+  additionalWorks: 'Дополнительные работы'
+};
+
+export const DEFAULT_ESTIMATE_PRICING: EstimatePricing = {
+  markups: {
+    foundation: 0,
+    sipWalls: 0,
+    floor: 0,
+    roof: 0,
+    partitions: 0,
+    consumables: 0,
+    additionalWorks: 0
+  },
+  discountType: 'percent',
+  discountValue: 0,
+  vatEnabled: false,
+  vatRate: VAT_RATE
+};
+
+// Себестоимость разделов по документам сметы (раздел перегородок
+// хранится под ключом partition)
+export const getEstimateTotals = (
+  documents: EstimateVersion['documents']
+): Record<EstimateTotalsKey, number> =>
+  (Object.keys(ESTIMATE_TOTALS_LABELS) as EstimateTotalsKey[]).reduce((totals, key) => {
+    const document = documents[key === 'partitions' ? 'partition' : key];
+    totals[key] = Number(document?.totalCost) || 0;
+    return totals;
+  }, {} as Record<EstimateTotalsKey, number>);
+
+// НДС, входящий в сумму с НДС
+export const getIncludedVat = (amount: number, rate: number): number =>
+  Math.round((amount * rate) / (100 + rate));
+
+// Цена для клиента по себестоимости разделов: наценка по разделам,
+// затем скидка на всю сумму, затем НДС. Межэтажное перекрытие
+// учитывается только для многоэтажных домов. Суммы округляются до тенге
+export const calculateEstimatePrice = (
+  totals: Record<EstimateTotalsKey, number>,
+  floors: string,
+  pricing: EstimatePricing
+): EstimatePriceBreakdown => {
+  const keys = (Object.keys(ESTIMATE_TOTALS_LABELS) as EstimateTotalsKey[])
+    .filter(key => key !== 'floor' || floors !== '1');
+
+  const sections = keys.map(key => {
+    const cost = totals[key] || 0;
+    const markupAmount = Math.round((cost * (pricing.markups[key] || 0)) / 100);
+    return { key, cost, markupAmount, price: cost + markupAmount };
+  });
+
+  const cost = sections.reduce((sum, section) => sum + section.cost, 0);
+  const markupAmount = sections.reduce((sum, section) => sum + section.markupAmount, 0);
+  const subtotal = cost + markupAmount;
+
+  const discountAmount = Math.min(
+    Math.max(
+      pricing.discountType === 'percent'
+        ? Math.round((subtotal * pricing.discountValue) / 100)
+        : Math.round(pricing.discountValue),
+      0
+    ),
+    subtotal
+  );
+  const priceWithoutVat = subtotal - discountAmount;
+  const vatAmount = pricing.vatEnabled ? Math.round((priceWithoutVat * pricing.vatRate) / 100) : 0;
+  const priceWithVat = priceWithoutVat + vatAmount;
+
+  return {
+    sections,
+    cost,
+    markupAmount,
+    discountAmount,
+    priceWithoutVat,
+    vatAmount,
+    priceWithVat,
+    contractPrice: priceWithVat
+  };
+};
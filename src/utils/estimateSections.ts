@@ -0,0 +1,244 @@
+import { DocumentData } from 'firebase/firestore';
+import { EstimateItem, EstimateItemConfig, EstimateSectionConfig, EstimateSectionId } from '../types/estimate';
+import { evaluateFormula } from './formulaEvaluator';
+
+// Нормы расхода по умолчанию. Рабочая конфигурация хранится в Firestore
+// (коллекция estimateSections) и может меняться без выпуска приложения.
+// В формулах доступны foundationValues.*, lumberValues.*, roofValues.*,
+// cuttingValues.* (результат раскроя панелей и бруса), firstFloorHeight,
+// secondFloorHeight и количества позиций раздела items.<id>
+export const DEFAULT_ESTIMATE_SECTIONS: Record<EstimateSectionId, EstimateSectionConfig> = {
+  foundation: {
+    id: 'foundation',
+    title: 'Фундамент + Засыпка фундамента + Стяжка',
+    items: [
+      { id: 'concreteFoundation', name: 'Бетон М250 для фундамента', unit: 'м3', price: 29.34, productName: 'Бетон М250 для фундамента и стяжки', quantityFormula: '0.09 * foundationValues.pilesCount + 0.18 * foundationValues.perimeter + 4.5' },
+      { id: 'concreteScreed', name: 'Бетон М250 для стяжки', unit: 'м3', price: 29.34, productName: 'Бетон М250 для фундамента и стяжки', quantityFormula: '0.06 * foundationValues.backfillArea + 3' },
+      { id: 'armature12', name: 'Арматура 12 мм (Для армирования фундамента)', unit: 'м/п', price: 240, productName: 'Арматура 12 мм (Для армирования фундамента)', quantityFormula: 'ceil(6 * foundationValues.pilesCount + 4 * foundationValues.perimeter + 60)' },
+      { id: 'mesh', name: 'Сетка 15x15 (Для теплого пола в стяжку) размер 80см на 2,4м = 1,92м2 1шт', unit: 'шт', price: 550, productName: 'Сетка 15x15 (Для теплого пола в стяжку) размер 80см на 2,4м = 1,92м2 1шт', quantityFormula: 'ceil(foundationValues.backfillArea * 1.3 / 1.92)' },
+      { id: 'squarePipe', name: 'Труба квадратная 80x80 2,5 мм (Для стойки балкона, навеса, или террасы)', unit: 'метр', price: 2500, productName: 'Труба квадратная 80x80 2,5 мм (Для стойки балкона, навеса, или террасы)', quantityFormula: 'foundationValues.pipeLength' },
+      { id: 'wire6', name: 'Проволока 6мм (Для хомутов при армировании арматуры)', unit: 'метр', price: 120, productName: 'Проволока 6мм (Для хомутов при армировании арматуры)', quantityFormula: 'ceil(items.armature12 * 0.13)' },
+      { id: 'pgsHowo', name: 'ПГС Howo (Для засыпки внутри фундамента) (15м3)', unit: 'маш', price: 50000, productName: 'ПГС Howo (Для засыпки внутри фундамента) (15м3)', quantityFormula: 'ceil(foundationValues.backfillArea * 0.5 / 15)' },
+      { id: 'bindingWire3', name: 'Вязальная проволока 3мм (Для крепления опалубки)', unit: 'кг', price: 800, productName: 'Вязальная проволока 3мм (Для крепления опалубки)', quantityFormula: 'ceil(foundationValues.perimeter * 0.087)' },
+      { id: 'tieWire', name: 'Вязальная проволока (Для связки арматуры и монтажа теплого пола)', unit: 'кг', price: 800, productName: 'Вязальная проволока (Для связки арматуры и монтажа теплого пола)', quantityFormula: 'ceil(foundationValues.perimeter * 0.125)' },
+      { id: 'nails120', name: 'Гвозди 120', unit: 'кг', price: 700, productName: 'Гвозди 120', quantityFormula: 'ceil(foundationValues.perimeter * 0.12)' },
+      { id: 'underlay', name: 'Подложка под теплый пол Рулон 60м2', unit: 'рулон', price: 6000, productName: 'Подложка под теплый пол Рулон 60м2', quantityFormula: 'ceil(foundationValues.backfillArea / 50)' },
+      { id: 'heatedFloor', name: 'Теплый пол (для монтажа в стяжку) в 1 бухте 200м', unit: 'бухта', price: 27000, productName: 'Теплый пол (для монтажа в стяжку) в 1 бухте 200м', quantityFormula: 'ceil(foundationValues.backfillArea / 50)' },
+      { id: 'plumbing', name: 'Канализация, водопровод (Все материалы) См. доп смету', unit: '', price: 80000, quantityFormula: '1' }
+    ]
+  },
+  sipWalls: {
+    id: 'sipWalls',
+    title: 'Стены из СИП панелей (несущие)',
+    items: [
+      { id: 'sip28', name: 'СИП панели 163 мм высота 2,8м нарощенные пр-ва HotWell.kz', unit: 'шт', price: 28890, productName: 'СИП панели 163 мм высота 2,8м нарощенные пр-ва HotWell.kz', quantityFormula: 'coalesce(cuttingValues.sip28Panels, ceil(foundationValues.sip28Area / 3.5 + 3))' },
+      { id: 'sip25', name: 'СИП панели 163 мм высота 2,5м пр-ва HotWell.kz', unit: 'шт', price: 25890, productName: 'СИП панели 163 мм высота 2,5м пр-ва HotWell.kz', quantityFormula: 'coalesce(cuttingValues.sip25Panels, ceil(foundationValues.sip25Area / 3.125 + 3))' },
+      { id: 'beam40x140', name: 'Брус 40x140x6000', unit: 'шт', price: 3800, productName: 'Брус 40x140x6000', quantityFormula: 'coalesce(cuttingValues.walls40x140, ceil(lumberValues.walls40x14 / 6 + 15))' },
+      { id: 'screws4', name: 'Шурупы 4 крупная резьба', unit: 'пач', price: 700, productName: 'Шурупы 4 крупная резьба', quantityFormula: 'ceil((items.sip28 + items.sip25) / 2)', note: '(Для монтажа СИП пан) 1 пач хват. на 2,5 СИП' },
+      { id: 'screws10', name: 'Шурупы 10 крупная резьба', unit: 'пач', price: 700, productName: 'Шурупы 10 крупная резьба', quantityFormula: 'ceil((items.sip28 + items.sip25) * 0.04)', note: '(Для соединения углов дома)' },
+      { id: 'foam', name: 'Пена монтажная 70л', unit: 'шт', price: 3700, productName: 'Пена монтажная 70л', quantityFormula: 'ceil((items.sip28 + items.sip25) / 1.5)', note: '(Для монтажа СИП) 1 пены хватает на 3 панели' },
+      { id: 'bikrost', name: 'Бикрост (Для гидро изоляции между СИП панелями и фундаментом)', unit: 'рул', price: 12000, productName: 'Бикрост (Для гидро изоляции между СИП панелями и фундаментом)', quantityFormula: 'ceil(foundationValues.perimeter / 15 / 4)' },
+      { id: 'ventilation', name: 'Вентиляция (Все материалы) См. доп смету', unit: '', price: 0, defaultTotal: 40000 }
+    ]
+  },
+  floor: {
+    id: 'floor',
+    title: 'ПЕРЕКРЫТИЕ из балок + OSB 18мм между первым и вторым этажами',
+    items: [
+      { id: 'beam40x190', name: 'Брус 40x190x6000 (Для перекрыт расстояние между балками 29см)', unit: 'шт', price: 5800, productName: 'Брус 40x190x6000 (Для перекрыт расстояние между балками 29см)', quantityFormula: 'ceil((lumberValues.floor40x19 + lumberValues.beam40x19) / 6 + 2)' },
+      { id: 'osb18', name: 'OSB 18 (Для перекрытия (пол второго этажа))', unit: 'лист', price: 15500, productName: 'OSB 18 (Для перекрытия (пол второго этажа))', quantityFormula: 'ceil(lumberValues.floorArea / 3.125 + 1)' },
+      { id: 'screws4', name: 'Шурупы 4 крупная резьба', unit: 'пач', price: 700, productName: 'Шурупы 4 крупная резьба', quantityFormula: 'ceil(items.osb18 / 5)' },
+      { id: 'nails120', name: 'Гвозди 120', unit: 'кг', price: 700, productName: 'Гвозди 120', quantityFormula: 'ceil(items.beam40x190 * 0.05)' }
+    ]
+  },
+  roof: {
+    id: 'roof',
+    title: 'Крыша+навес',
+    items: [
+      { id: 'beam40x140', name: 'Брус 40x140x6000', unit: 'шт', price: 3800, productName: 'Брус 40x140x6000', quantityFormula: 'coalesce(cuttingValues.roof40x140, ceil((lumberValues.roof40x14 + lumberValues.attic40x14) / 6 + 15))', note: '(Для устройства стропильной системы крыши)' },
+      { id: 'lathing25x100', name: 'Брус 25x100x6000 (Для обрешетки)', unit: 'шт', price: 1700, productName: 'Брус 25x100x6000 (Для обрешетки)', quantityFormula: 'coalesce(cuttingValues.lathing25x100, ceil(lumberValues.lathing20x9 / 6 + 15))' },
+      { id: 'metalTile', name: 'Металлочерепица глянец (Сырье Россия) (Форм СуперМонтеррей толщ. 0,45мм)', unit: 'м2', price: 3006, productName: 'Металлочерепица глянец (Сырье Россия) (Форм СуперМонтеррей толщ. 0,45мм)', quantityFormula: 'roofValues.metalTileArea' },
+      { id: 'vaporBarrier', name: 'Паро. пленка (Под обрешетку) и (Для обшивки потолок 2эт.)', unit: 'рул', price: 7000, productName: 'Паро. пленка (Под обрешетку) и (Для обшивки потолок 2эт.)', quantityFormula: 'ceil(roofValues.metalTileArea / 50 + lumberValues.floorArea / 50)', note: '(Паро-гидро изоляция.) (Рулон-60м3) Класс D' },
+      { id: 'barrelRidge', name: 'Конек бочкообразный (Для металлочерепицы двухметровый)', unit: 'шт', price: 2970, productName: 'Конек бочкообразный (Для металлочерепицы двухметровый)', quantityFormula: 'ceil(roofValues.ridgeLength / 1.85)' },
+      { id: 'conicPlug', name: 'Заглушка конусная (Для бочкообразного конька)', unit: 'шт', price: 2200, productName: 'Заглушка конусная (Для бочкообразного конька)', quantityFormula: 'roofValues.conicPlug' },
+      { id: 'tee', name: 'Тройник (Для стыков бочкообразных коньков)', unit: 'шт', price: 2680, productName: 'Тройник (Для стыков бочкообразных коньков)', quantityFormula: 'roofValues.tee' },
+      { id: 'externalValley', name: 'Ендова внешняя 80x80мм (Для металлочерепицы двухметровая)', unit: 'шт', price: 2754, productName: 'Ендова внешняя 80x80мм (Для металлочерепицы двухметровая)', quantityFormula: 'ceil(roofValues.endowLength / 1.85)' },
+      { id: 'internalValley', name: 'Ендова внутренняя 600x600мм (Под металлочереп 600x600 двухметровая)', unit: 'шт', price: 11166, productName: 'Ендова внутренняя 600x600мм (Под металлочереп 600x600 двухметровая)', quantityFormula: 'ceil(roofValues.endowLength / 1.85)' },
+      { id: 'wallPlank', name: 'Планка примыкания к стене 150x150мм (В местах примык. мет. чер. к стене)', unit: 'шт', price: 2816, productName: 'Планка примыкания к стене 150x150мм (В местах примык. мет. чер. к стене)', quantityFormula: 'roofValues.wallPlank' },
+      { id: 'ceilingInsulation', name: 'Пенополистирол Толщ 150мм (Для Утепления пот. 2-го эт)', unit: 'лист', price: 8640, productName: 'Пенополистирол Толщ 150мм (Для Утепления пот. 2-го эт)', quantityFormula: 'ceil(lumberValues.atticArea / 2.88)' },
+      { id: 'nails120', name: 'Гвозди 120', unit: 'кг', price: 700, productName: 'Гвозди 120', quantityFormula: 'ceil(items.beam40x140 * 0.15)', note: '(Для устройства стропильной системы)' },
+      { id: 'nails70', name: 'Гвозди 70 (Для монтажа обрешетки)', unit: 'кг', price: 700, productName: 'Гвозди 70 (Для монтажа обрешетки)', quantityFormula: 'ceil(items.lathing25x100 * 0.166)' },
+      { id: 'metalTileScrews', name: 'Шурупы 4 (Для монтажа металлочерепицы)', unit: 'пач', price: 1800, productName: 'Шурупы 4 (Для монтажа металлочерепицы)', quantityFormula: 'ceil(items.metalTile * 0.074)' },
+      { id: 'foam', name: 'Пена монтажная 70л', unit: 'шт', price: 3700, productName: 'Пена монтажная 70л', quantityFormula: 'ceil(items.ceilingInsulation * 0.5)', note: '(Утеплен потолок 2 эт. + утеплен. перим перекр.)' },
+      { id: 'staples', name: 'Скобы (Для крепления паро пленки)', unit: 'пач', price: 400, productName: 'Скобы (Для крепления паро пленки)', quantityFormula: 'max(0, items.vaporBarrier - 1)' },
+      { id: 'screws4', name: 'Шурупы 4 крупная резьба', unit: 'пач', price: 700, productName: 'Шурупы 4 крупная резьба', note: '(Для монтажа фронтонов) 1 пач хват. на 7 осб' },
+      { id: 'osb9', name: 'OSB 9мм (Для фронтона. Только для двух или односкатных крыш)', unit: 'лист', price: 5300, productName: 'OSB 9мм (Для фронтона. Только для двух или односкатных крыш)', quantityFormula: 'ceil(lumberValues.frontonArea / 3.125) + 2' }
+    ]
+  },
+  partition: {
+    id: 'partition',
+    title: 'Перегородки несущие из профиля и гипсокартона',
+    items: [
+      { id: 'gklRegular', name: 'Гипсокартон 12,5мм стеновой (Для межкомнатных перегородок) пр-ва Knauf', unit: 'лист', price: 2700, productName: 'Гипсокартон 12,5мм стеновой (Для межкомнатных перегородок) пр-ва Knauf', quantityFormula: 'max(0, ceil(lumberValues.gklWallsArea * 2 / 3 + 2) - items.gklMoisture)' },
+      { id: 'gklMoisture', name: 'Гипсокартон 12,5мм влагостойкий стеновой (Для межком перег) пр-ва Knauf', unit: 'лист', price: 3000, productName: 'Гипсокартон 12,5мм влагостойкий стеновой (Для межком перег) пр-ва Knauf', quantityFormula: 'ceil((lumberValues.firstFloorWallsLength * firstFloorHeight + lumberValues.secondFloorWallsLength * secondFloorHeight) / 3)' },
+      { id: 'profile', name: 'Профиль для перегородок 75x50x3000 пр-ва Stynergy', unit: 'шт', price: 1700, productName: 'Профиль для перегородок 75x50x3000 пр-ва Stynergy', quantityFormula: 'lumberValues.partitionProfile' },
+      { id: 'guides', name: 'Направляющие для перегородочного проф. 75x40x3000 пр-ва Stynergy', unit: 'шт', price: 1500, productName: 'Направляющие для перегородочного проф. 75x40x3000 пр-ва Stynergy', quantityFormula: 'ceil(lumberValues.gklWallsLength * 2 / 3 + 2)' },
+      { id: 'mineralWool', name: 'Мин вата Экотерм (Для заполнения меж-комнатных перегородок) (1рул-12м2)', unit: 'рул', price: 6000, productName: 'Мин вата Экотерм (Для заполнения меж-комнатных перегородок) (1рул-12м2)', quantityFormula: 'ceil(lumberValues.gklWallsArea / 9)' },
+      { id: 'gklScrews', name: 'Шурупы 3 мелкая резьба (Для монтажа гипсокартона к профилям) 1п на 5 лис', unit: 'пач', price: 700, productName: 'Шурупы 3 мелкая резьба (Для монтажа гипсокартона к профилям) 1п на 5 лис', quantityFormula: 'ceil(items.gklRegular / 5)' },
+      { id: 'profileScrews', name: 'Шурупы семечки (Для монтажа профилей межкомнатных перегородок)', unit: 'пач', price: 700, productName: 'Шурупы семечки (Для монтажа профилей межкомнатных перегородок)', defaultQuantity: 1 },
+      { id: 'wasteRemoval', name: 'Вывоз мусора', unit: '', price: 0, defaultTotal: 20000 }
+    ]
+  },
+  consumables: {
+    id: 'consumables',
+    title: 'Расходные материалы',
+    items: [
+      { id: 'buildingThread', name: 'Нить строительная', unit: 'шт', price: 300, productName: 'Нить строительная', defaultQuantity: 1 },
+      { id: 'fishingLine', name: 'Леска строительная', unit: 'шт', price: 300, productName: 'Леска строительная', defaultQuantity: 1 },
+      { id: 'anchors', name: 'Анкера 12x150 (Для крепления обвязки к фундаменту)', unit: 'шт', price: 220, productName: 'Анкера 12x150 (Для крепления обвязки к фундаменту)', quantityFormula: 'ceil(foundationValues.perimeter / 2 + 20)' },
+      { id: 'gklSipScrews', name: 'Шурупы 3 крупная резьба (Для монтажа гипсокар к сип) 1 п на 5 лис', unit: 'пач', price: 700, productName: 'Шурупы 3 крупная резьба (Для монтажа гипсокар к сип) 1 п на 5 лис' },
+      { id: 'rafterBrackets', name: 'Металлические Скобы (Для монтажа стропил)', unit: 'шт', price: 80, productName: 'Металлические Скобы (Для монтажа стропил)', defaultQuantity: 100 },
+      { id: 'bit8', name: 'Насадка 8 на шуруповерт (Для шурупов по металлочерепицы)', unit: 'шт', price: 300, productName: 'Насадка 8 на шуруповерт (Для шурупов по металлочерепицы)', defaultQuantity: 1 },
+      { id: 'trashBags', name: 'Мешки мусорные', unit: 'шт', price: 70, productName: 'Мешки мусорные', defaultQuantity: 10 },
+      { id: 'crossBits', name: 'Насадки крестовые на шуруповерт пр-ва ЗУБР', unit: 'шт', price: 400, productName: 'Насадки крестовые на шуруповерт пр-ва ЗУБР', defaultQuantity: 5 },
+      { id: 'grinderDiscs', name: 'Диски 150мм Rodex на болгарку', unit: 'шт', price: 400, productName: 'Диски 150мм Rodex на болгарку', defaultQuantity: 5 },
+      { id: 'foamGun', name: 'Пистолет для пены', unit: 'шт', price: 3000, productName: 'Пистолет для пены', defaultQuantity: 1 },
+      { id: 'pencils', name: 'Карандаши', unit: 'шт', price: 100, productName: 'Карандаши', defaultQuantity: 5 },
+      { id: 'knifeBlades', name: 'Лезвия для строительного ножа', unit: 'шт', price: 300, productName: 'Лезвия для строительного ножа', defaultQuantity: 2 },
+      { id: 'gloves', name: 'Перчатки', unit: 'шт', price: 300, productName: 'Перчатки', defaultQuantity: 12 },
+      { id: 'rainFilm', name: 'Пленка от дождя самая плотная', unit: 'метр', price: 400, productName: 'Пленка от дождя самая плотная', defaultQuantity: 7 },
+      { id: 'woodDisc', name: 'Диск на пчелку 180 по дереву', unit: 'шт', price: 2000, productName: 'Диск на пчелку 180 по дереву', defaultQuantity: 1 },
+      { id: 'silicone', name: 'Силикон (Для вентиляции)', unit: 'шт', price: 2500, productName: 'Силикон (Для вентиляции)', defaultQuantity: 1 },
+      { id: 'tape', name: 'Скотч (Для монтажа биопленки)', unit: 'шт', price: 500, productName: 'Скотч (Для монтажа биопленки)', defaultQuantity: 1 },
+      { id: 'miscellaneous', name: 'Разное + Износ инструмента + ЗП сотрудникам', unit: '', price: 0, defaultTotal: 470000 }
+    ]
+  }
+};
+
+const VALUE_GROUPS = ['foundationValues', 'lumberValues', 'roofValues', 'cuttingValues'];
+
+const parseFloorHeight = (value: unknown): number => {
+  const height = parseFloat(String(value ?? '2.5').replace(',', '.'));
+  return isNaN(height) ? 2.5 : height;
+};
+
+// Находит позицию сметы по id, а в старых сметах без id — по названию из конфигурации
+export const findEstimateItem = <T extends EstimateItem>(
+  items: T[],
+  sectionId: EstimateSectionId,
+  itemId: string
+): T | undefined => {
+  const byId = items.find(item => item.id === itemId);
+  if (byId) return byId;
+
+  const defaultName = DEFAULT_ESTIMATE_SECTIONS[sectionId].items.find(item => item.id === itemId)?.name;
+  return defaultName ? items.find(item => !item.id && item.name === defaultName) : undefined;
+};
+
+export const createEstimateItems = (config: EstimateSectionConfig): EstimateItem[] =>
+  config.items.map(item => {
+    const quantity = item.defaultQuantity ?? 0;
+    return {
+      id: item.id,
+      name: item.name,
+      unit: item.unit,
+      quantity,
+      price: item.price,
+      total: item.defaultTotal ?? quantity * item.price,
+      ...(item.note ? { note: item.note } : {}),
+      ...(item.productId ? { productId: item.productId } : {})
+    };
+  });
+
+// Пересчитывает количества позиций по формулам конфигурации.
+// Позиции без формулы и добавленные вручную остаются как есть.
+export const applyEstimateFormulas = <T extends EstimateItem>(
+  items: T[],
+  config: EstimateSectionConfig,
+  estimateValues: DocumentData
+): T[] => {
+  const matched = new Set<T>();
+  const baseItems = new Map<string, T>();
+  const itemConfigs = new Map<string, EstimateItemConfig>();
+
+  config.items.forEach(itemConfig => {
+    itemConfigs.set(itemConfig.id, itemConfig);
+    const existing = items.find(item => !matched.has(item) && item.id === itemConfig.id)
+      || items.find(item => !matched.has(item) && !item.id && item.name === itemConfig.name);
+
+    if (existing) {
+      matched.add(existing);
+      const base = { ...existing, id: itemConfig.id };
+      // Пояснение всегда берётся из конфигурации; undefined Firestore не примет
+      if (itemConfig.note) {
+        base.note = itemConfig.note;
+      } else {
+        delete base.note;
+      }
+      if (itemConfig.productId && !base.productId) {
+        base.productId = itemConfig.productId;
+      }
+      baseItems.set(itemConfig.id, base);
+    } else {
+      baseItems.set(itemConfig.id, createEstimateItems({ ...config, items: [itemConfig] })[0] as T);
+    }
+  });
+
+  const quantities = new Map<string, number>();
+  const evaluating = new Set<string>();
+
+  const getQuantity = (itemId: string): number => {
+    const cached = quantities.get(itemId);
+    if (cached !== undefined) return cached;
+
+    const itemConfig = itemConfigs.get(itemId);
+    const base = baseItems.get(itemId);
+    if (!itemConfig || !base) {
+      throw new Error(`Неизвестная позиция «${itemId}»`);
+    }
+    if (!itemConfig.quantityFormula) {
+      return base.quantity;
+    }
+    if (evaluating.has(itemId)) {
+      throw new Error(`Циклическая зависимость в формуле позиции «${itemId}»`);
+    }
+
+    evaluating.add(itemId);
+    try {
+      const quantity = evaluateFormula(itemConfig.quantityFormula, resolveVariable);
+      quantities.set(itemId, quantity);
+      return quantity;
+    } finally {
+      evaluating.delete(itemId);
+    }
+  };
+
+  const resolveVariable = (name: string): number => {
+    const [group, key, ...rest] = name.split('.');
+    if (group === 'items' && key && rest.length === 0) {
+      return getQuantity(key);
+    }
+    if (VALUE_GROUPS.includes(group) && key && rest.length === 0) {
+      return Number(estimateValues[group]?.[key]?.value) || 0;
+    }
+    if ((group === 'firstFloorHeight' || group === 'secondFloorHeight') && !key) {
+      return parseFloorHeight(estimateValues[group]);
+    }
+    throw new Error(`Неизвестная переменная «${name}»`);
+  };
+
+  const recalculated = config.items.map(itemConfig => {
+    const base = baseItems.get(itemConfig.id)!;
+    if (!itemConfig.quantityFormula) return base;
+
+    try {
+      const quantity = getQuantity(itemConfig.id);
+      return { ...base, quantity, total: quantity * base.price };
+    } catch (error) {
+      console.error(`Error evaluating formula for ${config.id}.${itemConfig.id}:`, error);
+      return base;
+    }
+  });
+
+  return [...recalculated, ...items.filter(item => !matched.has(item))];
+};
@@ -0,0 +1,185 @@
+// Безопасный вычислитель формул смет: без eval/Function, только арифметика,
+// скобки, переменные вида foundationValues.perimeter и функции из списка ниже
+
+export type FormulaScope = (name: string) => number;
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'identifier'; value: string }
+  | { type: 'operator'; value: string }
+  | { type: 'paren'; value: '(' | ')' }
+  | { type: 'comma' };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  ceil: Math.ceil,
+  floor: Math.floor,
+  round: Math.round,
+  abs: Math.abs,
+  min: Math.min,
+  max: Math.max,
+  // Первое ненулевое значение: количество по раскрою, если он выполнен, иначе норма
+  coalesce: (...values) => values.find(value => value !== 0) ?? 0
+};
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < formula.length) {
+    const char = formula[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    // Дробная часть — только через точку: запятая разделяет аргументы функций
+    const numberMatch = /^\d+(?:\.\d+)?/.exec(formula.slice(position));
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: parseFloat(numberMatch[0]) });
+      position += numberMatch[0].length;
+      continue;
+    }
+
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(formula.slice(position));
+    if (identifierMatch) {
+      tokens.push({ type: 'identifier', value: identifierMatch[0] });
+      position += identifierMatch[0].length;
+      continue;
+    }
+
+    if ('+-*/%'.includes(char)) {
+      tokens.push({ type: 'operator', value: char });
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char });
+    } else if (char === ',') {
+      tokens.push({ type: 'comma' });
+    } else {
+      throw new Error(`Недопустимый символ «${char}» в формуле`);
+    }
+    position++;
+  }
+
+  return tokens;
+};
+
+// Рекурсивный спуск:
+// expression := term (('+' | '-') term)*
+// term       := unary (('*' | '/' | '%') unary)*
+// unary      := '-' unary | primary
+// primary    := number | identifier | identifier '(' args ')' | '(' expression ')'
+export const evaluateFormula = (formula: string, scope: FormulaScope): number => {
+  const tokens = tokenize(formula);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (token: Token | undefined, ...values: string[]) =>
+    token?.type === 'operator' && values.includes(token.value);
+
+  const expect = (type: Token['type'], value?: string) => {
+    const token = tokens[index];
+    if (!token || token.type !== type || (value !== undefined && 'value' in token && token.value !== value)) {
+      throw new Error(`Ошибка в формуле «${formula}»`);
+    }
+    index++;
+    return token;
+  };
+
+  const parseExpression = (): number => {
+    let result = parseTerm();
+    while (isOperator(peek(), '+', '-')) {
+      const operator = (tokens[index++] as { value: string }).value;
+      const right = parseTerm();
+      result = operator === '+' ? result + right : result - right;
+    }
+    return result;
+  };
+
+  const parseTerm = (): number => {
+    let result = parseUnary();
+    while (isOperator(peek(), '*', '/', '%')) {
+      const operator = (tokens[index++] as { value: string }).value;
+      const right = parseUnary();
+      if (operator === '*') {
+        result *= right;
+      } else if (right === 0) {
+        // Деление на ноль в сметах означает «нет данных»
+        result = 0;
+      } else {
+        result = operator === '/' ? result / right : result % right;
+      }
+    }
+    return result;
+  };
+
+  const parseUnary = (): number => {
+    if (isOperator(peek(), '-')) {
+      index++;
+      return -parseUnary();
+    }
+    if (isOperator(peek(), '+')) {
+      index++;
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): number => {
+    const token = tokens[index++];
+    if (!token) {
+      throw new Error(`Неожиданный конец формулы «${formula}»`);
+    }
+
+    if (token.type === 'number') {
+      return token.value;
+    }
+
+    if (token.type === 'paren' && token.value === '(') {
+      const result = parseExpression();
+      expect('paren', ')');
+      return result;
+    }
+
+    if (token.type === 'identifier') {
+      const next = peek();
+      if (next?.type === 'paren' && next.value === '(') {
+        // Только собственные ключи: имена вроде toString или constructor не функции формул
+        const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+        if (!fn) {
+          throw new Error(`Неизвестная функция «${token.value}»`);
+        }
+        index++;
+        const args: number[] = [];
+        if (!(peek()?.type === 'paren' && (peek() as { value: string }).value === ')')) {
+          args.push(parseExpression());
+          while (peek()?.type === 'comma') {
+            index++;
+            args.push(parseExpression());
+          }
+        }
+        expect('paren', ')');
+        return fn(...args);
+      }
+      return scope(token.value);
+    }
+
+    throw new Error(`Ошибка в формуле «${formula}»`);
+  };
+
+  const result = parseExpression();
+  if (index < tokens.length) {
+    throw new Error(`Ошибка в формуле «${formula}»`);
+  }
+
+  return Number.isFinite(result) ? result : 0;
+};
+
+// Проверка формулы без данных — для редактора норм
+export const validateFormula = (formula: string): string | null => {
+  try {
+    evaluateFormula(formula, () => 1);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Ошибка в формуле';
+  }
+};
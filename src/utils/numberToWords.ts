@@ -16,8 +16,9 @@ export function numberToWords(number: number): string {
     return 2;
   }
 
-  function processGroup(n: number, order: number): string {
-    if (n === 0) return '';
+  function processGroup(group: number, order: number): string {
+    if (group === 0) return '';
+    let n = group;
     
     let result = '';
     
@@ -34,14 +35,14 @@ export function numberToWords(number: number): string {
       n %= 10;
     }
     
-    // Units
+    // Units: тысяча женского рода — «одна тысяча», «две тысячи»
     if (n > 0) {
-      result += units[n] + ' ';
+      result += (order === 1 && n <= 2 ? ['одна', 'две'][n - 1] : units[n]) + ' ';
     }
     
-    // Add order name if needed
-    if (order > 0 && result.trim() !== '') {
-      result += orders[order][getCase(Math.floor((number % 1000000) / 1000))] + ' ';
+    // Add order name if needed: падеж по самой группе
+    if (order > 0) {
+      result += orders[order][getCase(group)] + ' ';
     }
     
     return result;
@@ -61,5 +62,5 @@ export function numberToWords(number: number): string {
     orderIndex++;
   }
 
-  return result.trim() + ' тенге';
+  return result.replace(/\s+/g, ' ').trim() + ' тенге';
 }
\ No newline at end of file
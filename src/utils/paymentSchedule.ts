@@ -0,0 +1,154 @@
+import { Client, PaymentTranche } from '../types/client';
+
+export type TrancheStatus = 'paid' | 'partial' | 'pending' | 'overdue';
+
+type LegacyTrancheField = 'deposit' | 'firstPayment' | 'secondPayment' | 'thirdPayment' | 'fourthPayment';
+
+// Суммы траншей клиента: поля договора и явно заданный график
+export type ClientPaymentTerms = Partial<Pick<Client, LegacyTrancheField | 'paymentSchedule'>>;
+
+export interface TrancheState {
+  tranche: PaymentTranche;
+  paidAmount: number;
+  dueAmount: number;
+  status: TrancheStatus;
+  // Дата платежа, которым транш закрыт полностью
+  paidAt: Date | null;
+  daysOverdue: number;
+}
+
+interface SchedulePayment {
+  amount: number;
+  date: Date | null;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const LEGACY_TRANCHES: Array<{ field: LegacyTrancheField; label: string }> = [
+  { field: 'deposit', label: 'Задаток' },
+  { field: 'firstPayment', label: 'Первый транш' },
+  { field: 'secondPayment', label: 'Второй транш' },
+  { field: 'thirdPayment', label: 'Третий транш' },
+  { field: 'fourthPayment', label: 'Четвертый транш' }
+];
+
+export const createTrancheId = (): string =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`;
+
+export const parseDueDate = (dueDate: string): Date | null => {
+  if (!dueDate) return null;
+  const date = new Date(`${dueDate}T00:00:00`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Черновик графика по суммам из договора (задаток и четыре транша) — без сроков
+export const buildScheduleFromContract = (client: Client): PaymentTranche[] =>
+  LEGACY_TRANCHES
+    .filter(({ field }) => Number(client[field]) > 0)
+    .map(({ field, label }) => ({
+      id: createTrancheId(),
+      label,
+      amount: Number(client[field]),
+      dueDate: ''
+    }));
+
+export const getPaymentSchedule = (client: Client): PaymentTranche[] =>
+  client.paymentSchedule?.length ? client.paymentSchedule : buildScheduleFromContract(client);
+
+// Транши без срока оплачиваются после всех траншей со сроком
+const sortTranches = (schedule: PaymentTranche[]): PaymentTranche[] =>
+  schedule
+    .map((tranche, index) => ({ tranche, index }))
+    .sort((a, b) => {
+      if (a.tranche.dueDate === b.tranche.dueDate) return a.index - b.index;
+      if (!a.tranche.dueDate) return 1;
+      if (!b.tranche.dueDate) return -1;
+      return a.tranche.dueDate.localeCompare(b.tranche.dueDate);
+    })
+    .map(({ tranche }) => tranche);
+
+// Изменение цены договора переносится на последний транш — и в полях
+// договора, и в явном графике: ранние, возможно уже оплаченные транши не
+// меняются. null, если последний транш ушёл бы в минус: график нужно
+// пересчитать вручную
+export const shiftLastTranche = (terms: ClientPaymentTerms, delta: number): ClientPaymentTerms | null => {
+  const changes: ClientPaymentTerms = {};
+  if (delta === 0) return changes;
+
+  const lastTranche = [...LEGACY_TRANCHES].reverse().find(({ field }) => Number(terms[field]) > 0);
+  if (lastTranche) {
+    const amount = Number(terms[lastTranche.field]) + delta;
+    if (amount < 0) return null;
+    changes[lastTranche.field] = amount;
+  }
+
+  if (terms.paymentSchedule?.length) {
+    const lastId = sortTranches(terms.paymentSchedule)[terms.paymentSchedule.length - 1].id;
+    const schedule = terms.paymentSchedule.map(tranche =>
+      tranche.id === lastId ? { ...tranche, amount: tranche.amount + delta } : tranche
+    );
+    if (schedule.some(tranche => tranche.amount < 0)) return null;
+    changes.paymentSchedule = schedule;
+  }
+
+  return changes;
+};
+
+// Распределяет поступления по траншам в порядке сроков: каждый платёж
+// гасит самый ранний неоплаченный транш, остаток переходит на следующий
+export const allocatePayments = (
+  schedule: PaymentTranche[],
+  payments: SchedulePayment[],
+  today: Date = new Date()
+): TrancheState[] => {
+  const sortedPayments = [...payments].sort(
+    (a, b) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0)
+  );
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+
+  const states = sortTranches(schedule).map(tranche => ({
+    tranche,
+    paidAmount: 0,
+    dueAmount: tranche.amount,
+    status: 'pending' as TrancheStatus,
+    paidAt: null as Date | null,
+    daysOverdue: 0
+  }));
+
+  let stateIndex = 0;
+  for (const payment of sortedPayments) {
+    let rest = payment.amount;
+    while (rest > 0 && stateIndex < states.length) {
+      const state = states[stateIndex];
+      const applied = Math.min(rest, state.dueAmount);
+      state.paidAmount += applied;
+      state.dueAmount -= applied;
+      rest -= applied;
+
+      if (state.dueAmount <= 0) {
+        state.paidAt = payment.date;
+        stateIndex++;
+      }
+    }
+  }
+
+  return states.map(state => {
+    const dueDate = parseDueDate(state.tranche.dueDate);
+    if (state.dueAmount <= 0) {
+      return { ...state, dueAmount: 0, status: 'paid' };
+    }
+    if (dueDate && dueDate < startOfToday) {
+      return {
+        ...state,
+        status: 'overdue',
+        daysOverdue: Math.floor((startOfToday.getTime() - dueDate.getTime()) / DAY_MS)
+      };
+    }
+    return { ...state, status: state.paidAmount > 0 ? 'partial' : 'pending' };
+  });
+};
+
+export const getOverdueAmount = (states: TrancheState[]): number =>
+  states
+    .filter(state => state.status === 'overdue')
+    .reduce((sum, state) => sum + state.dueAmount, 0);
@@ -0,0 +1,23 @@
+import { Permission, UserRole } from '../types/user';
+
+// Пользователь без записи в коллекции users считается сотрудником
+export const DEFAULT_USER_ROLE: UserRole = 'employee';
+
+// Те же права проверяются в firestore.rules
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['cancelWarehouseDocuments', 'manageUsers', 'manageNumbering'],
+  manager: ['cancelWarehouseDocuments'],
+  employee: []
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Администратор',
+  manager: 'Менеджер',
+  employee: 'Сотрудник'
+};
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, value);
+
+export const hasPermission = (role: UserRole, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission);
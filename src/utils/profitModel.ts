@@ -0,0 +1,93 @@
+import { DocumentData } from 'firebase/firestore';
+import { EstimateDocumentKey, EstimateItem } from '../types/estimate';
+import { ProfitModel, ProfitTransactionKind, ReceiptData } from '../types/receipt';
+import { getEstimateGrandTotal } from './estimateDiff';
+import { findEstimateItem } from './estimateSections';
+import { getIncludedVat } from './estimatePricing';
+
+export const PROFIT_TRANSACTION_KINDS: Record<ProfitTransactionKind, string> = {
+  warehouse: 'Материалы со склада',
+  salary: 'Зарплата',
+  incoming: 'Прочие поступления на проект',
+  outgoing: 'Списания с проекта',
+  adjustment: 'Корректировки баланса'
+};
+
+// Модель по умолчанию: операционный расход 1 300 000, СИП панели и
+// утеплитель потолка по смете и проводки проекта со знаком — поступления
+// на проект увеличивают расход, списания и возвраты с проекта уменьшают.
+// Ручные корректировки баланса расходом не считаются
+export const DEFAULT_PROFIT_MODEL: ProfitModel = {
+  overheadPerHouse: 1300000,
+  costLines: [
+    { sectionId: 'sipWalls', itemId: 'sip28', label: 'СИП панели 2,8 м' },
+    { sectionId: 'sipWalls', itemId: 'sip25', label: 'СИП панели 2,5 м' },
+    { sectionId: 'roof', itemId: 'ceilingInsulation', label: 'Пенополистирол утепл потолка' }
+  ],
+  transactionWeights: {
+    warehouse: 1,
+    salary: 1,
+    incoming: 1,
+    outgoing: 1,
+    adjustment: 0
+  }
+};
+
+export const getTransactionKind = (transaction: DocumentData): ProfitTransactionKind => {
+  if (transaction.isAdjustment) return 'adjustment';
+  if (transaction.isSalary) return 'salary';
+  if (transaction.isWarehouseOperation) return 'warehouse';
+  return Number(transaction.amount) < 0 ? 'outgoing' : 'incoming';
+};
+
+// Плановая и фактическая прибыль по дому.
+// documents — документы сметы клиента (см. getCurrentEstimateDocuments),
+// transactions — проводки категории проекта без сторнированных
+export const calculateReceipt = (
+  model: ProfitModel,
+  documents: Partial<Record<EstimateDocumentKey, DocumentData | null>>,
+  transactions: DocumentData[]
+): ReceiptData => {
+  const inputs = documents.inputs;
+  const contractPrice = Number(inputs?.roofValues?.contractPrice?.value) || 0;
+  const vatAmount = inputs?.pricing?.vatEnabled ? getIncludedVat(contractPrice, inputs.pricing.vatRate) : 0;
+
+  const costLines = model.costLines.map(line => {
+    const items: EstimateItem[] = documents[line.sectionId]?.items || [];
+    return {
+      label: line.label,
+      amount: Number(findEstimateItem(items, line.sectionId, line.itemId)?.total) || 0
+    };
+  });
+
+  // Расход на проект приходит на его счёт с плюсом, поэтому сумма берётся
+  // со знаком: возврат на склад или перевод с проекта уменьшает расход
+  const generalExpense = transactions.reduce(
+    (sum, transaction) =>
+      sum + (model.transactionWeights[getTransactionKind(transaction)] || 0) * (Number(transaction.amount) || 0),
+    0
+  );
+
+  const totalExpense = model.overheadPerHouse +
+    costLines.reduce((sum, line) => sum + line.amount, 0) +
+    generalExpense;
+  const plannedExpense = model.overheadPerHouse + getEstimateGrandTotal(documents);
+
+  return {
+    operationalExpense: model.overheadPerHouse,
+    costLines,
+    generalExpense,
+    contractPrice,
+    vatAmount,
+    totalExpense,
+    netProfit: contractPrice - vatAmount - totalExpense,
+    plannedExpense,
+    plannedProfit: contractPrice - vatAmount - plannedExpense
+  };
+};
+
+// Доля прибыли в цене без НДС, %
+export const getMarginPercent = (profit: number, receipt: ReceiptData): number => {
+  const revenue = receipt.contractPrice - receipt.vatAmount;
+  return revenue > 0 ? (profit / revenue) * 100 : 0;
+};
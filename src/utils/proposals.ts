@@ -0,0 +1,98 @@
+import { CalculatorState, CalculatorVariant } from '../types/calculator';
+import { ProposalConversionRow, ProposalStatus, SavedProposal } from '../types/proposal';
+
+// Статус с учётом срока действия: отправленное или просмотренное КП
+// с прошедшим сроком считается истёкшим, даже если статус не меняли вручную
+export const getProposalStatus = (proposal: SavedProposal, today: string): ProposalStatus => {
+  if ((proposal.status === 'sent' || proposal.status === 'viewed') && proposal.validUntil < today) {
+    return 'expired';
+  }
+  return proposal.status;
+};
+
+// Варианты КП; у КП, сохранённых до появления вариантов, он один
+export const getProposalVariants = (proposal: SavedProposal): CalculatorVariant[] =>
+  proposal.variants?.length
+    ? proposal.variants
+    : [{
+        formData: proposal.formData,
+        pricePerSqm: proposal.pricePerSqm,
+        totalPrice: proposal.totalPrice,
+        costBreakdown: proposal.costBreakdown
+      }];
+
+export interface VariantComparisonRow {
+  label: string;
+  values: string[];
+  // Значения в вариантах различаются
+  differs: boolean;
+  // Строка стоимости (выделяется в таблице)
+  isPrice?: boolean;
+}
+
+const formatPrice = (price: number) => price.toLocaleString('ru-RU') + ' ₸';
+
+// Таблица сравнения вариантов КП: параметры дома и стоимость по строкам
+export const buildVariantComparison = (variants: CalculatorVariant[]): VariantComparisonRow[] => {
+  const row = (label: string, getValue: (variant: CalculatorVariant) => string, isPrice = false) => {
+    const values = variants.map(getValue);
+    return { label, values, differs: new Set(values).size > 1, isPrice };
+  };
+
+  return [
+    row('Площадь', ({ formData }) => `${formData.area} м²`),
+    row('Этажность', ({ formData }) => formData.floors),
+    row('Высота 1-го этажа', ({ formData }) => formData.firstFloorHeight),
+    row('Высота 2-го этажа', ({ formData }) => formData.floors === '2 этажа' ? formData.secondFloorHeight : '—'),
+    row('Тип крыши', ({ formData }) => formData.roofType),
+    row('Форма дома', ({ formData }) => formData.houseShape),
+    row('Стоимость за м²', ({ pricePerSqm }) => formatPrice(pricePerSqm), true),
+    row('Фундамент', ({ costBreakdown }) => formatPrice(costBreakdown.foundation), true),
+    row('Домокомплект', ({ costBreakdown }) => formatPrice(costBreakdown.houseKit), true),
+    row('Монтаж', ({ costBreakdown }) => formatPrice(costBreakdown.assembly), true),
+    row('Общая стоимость', ({ totalPrice }) => formatPrice(totalPrice), true)
+  ];
+};
+
+// «Иванов Иван Иванович» → фамилия, имя, отчество
+export const splitRecipientName = (name: string) => {
+  const [lastName = '', firstName = '', ...rest] = name.trim().split(/\s+/);
+  return { lastName, firstName, middleName: rest.join(' ') };
+};
+
+// Высота из калькулятора («2,8 метра») в формате исходных данных сметы («2,8 м.»)
+const toEstimateHeight = (height: string): string => {
+  const value = parseFloat(height.replace(',', '.')) || 2.5;
+  return value.toString().replace('.', ',') + ' м.';
+};
+
+// Исходные данные сметы (estimates/{clientId}) по параметрам дома из КП
+export const toEstimateInputs = (formData: CalculatorState) => ({
+  floors: formData.floors === '2 этажа' ? '2' : '1',
+  firstFloorHeight: toEstimateHeight(formData.firstFloorHeight),
+  secondFloorHeight: toEstimateHeight(formData.secondFloorHeight),
+  lumberValues: {
+    floorArea: { value: parseFloat(formData.area) || 0, isChecked: false }
+  }
+});
+
+// Конверсия КП по месяцам даты расчёта, новые месяцы сверху
+export const buildConversionReport = (proposals: SavedProposal[], today: string): ProposalConversionRow[] => {
+  const rows = new Map<string, ProposalConversionRow>();
+
+  proposals.forEach(proposal => {
+    const month = proposal.quoteDate.slice(0, 7);
+    const row = rows.get(month) || { month, total: 0, accepted: 0, rejected: 0, converted: 0, conversionRate: 0 };
+    const status = getProposalStatus(proposal, today);
+
+    row.total++;
+    if (status === 'accepted') row.accepted++;
+    if (status === 'rejected') row.rejected++;
+    if (proposal.clientId) row.converted++;
+    rows.set(month, row);
+  });
+
+  return [...rows.values()]
+    .map(row => ({ ...row, conversionRate: row.total ? Math.round((row.accepted / row.total) * 1000) / 10 : 0 }))
+    .sort((a, b) => b.month.localeCompare(a.month));
+};
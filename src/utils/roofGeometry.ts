@@ -0,0 +1,171 @@
+import { RoofGeometryInput, RoofGeometryResult, RoofSegment } from '../types/estimate';
+
+export const DEFAULT_ROOF_GEOMETRY: RoofGeometryInput = {
+  roofType: '2-скатная',
+  length: 10,
+  width: 8,
+  pitch: 30,
+  eaveOverhang: 0.5,
+  gableOverhang: 0.3,
+  wingLength: 0,
+  wingWidth: 0,
+  rafterSpacing: 0.6,
+  lathingSpacing: 0.35
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const segmentLength = ({ from, to }: RoofSegment) => Math.hypot(to[0] - from[0], to[1] - from[1]);
+
+const hasWing = (input: RoofGeometryInput) =>
+  input.roofType !== '1-скатная' && input.wingLength > 0 && input.wingWidth > 0;
+
+// Проверка исходных данных; возвращает текст ошибки или null
+export const validateRoofGeometry = (input: RoofGeometryInput): string | null => {
+  if (input.length <= 0 || input.width <= 0) return 'Укажите длину и ширину дома';
+  if (input.pitch <= 0 || input.pitch >= 70) return 'Угол наклона должен быть от 1 до 69°';
+  if (input.eaveOverhang < 0 || input.gableOverhang < 0) return 'Свесы не могут быть отрицательными';
+  if (input.rafterSpacing <= 0 || input.lathingSpacing <= 0) return 'Укажите шаг стропил и обрешётки';
+  if (input.wingLength < 0 || input.wingWidth < 0) return 'Размеры пристройки не могут быть отрицательными';
+  if (hasWing(input) && input.wingWidth > Math.min(input.length, input.width)) {
+    return 'Пристройка не может быть шире основного дома';
+  }
+  return null;
+};
+
+// Геометрия крыши прямоугольного (или Т-образного, с пристройкой) дома.
+// Все скаты имеют одинаковый уклон, поэтому площадь кровли равна площади
+// плана по свесам, делённой на cos угла наклона. Длины рёбер и ендов —
+// истинные, с учётом подъёма. План строится в метрах, ось y — вниз
+export const calculateRoofGeometry = (input: RoofGeometryInput): RoofGeometryResult => {
+  const angle = (input.pitch * Math.PI) / 180;
+  const tan = Math.tan(angle);
+  const cos = Math.cos(angle);
+  // Истинная длина ребра или ендовы над диагональю квадрата со стороной run
+  const diagonal = (run: number) => run * Math.sqrt(2 + tan * tan);
+
+  const isHip = input.roofType === '4-скатная';
+  // У вальмовой крыши конёк идёт вдоль длинной стороны
+  const [length, width] = isHip && input.width > input.length
+    ? [input.width, input.length]
+    : [input.length, input.width];
+
+  const sideOverhang = isHip ? input.eaveOverhang : input.gableOverhang;
+  const planLength = length + 2 * sideOverhang;
+  const planWidth = width + 2 * input.eaveOverhang;
+
+  const outlines: [number, number][][] = [[[0, 0], [planLength, 0], [planLength, planWidth], [0, planWidth]]];
+  const ridges: RoofSegment[] = [];
+  const hips: RoofSegment[] = [];
+  const valleys: RoofSegment[] = [];
+  let gableArea = 0;
+  let conicPlugs = 0;
+  let tees = 0;
+  let slopeLength: number;
+  let planArea = planLength * planWidth;
+  let height = planWidth;
+
+  if (input.roofType === '1-скатная') {
+    slopeLength = planWidth / cos;
+    // Два треугольных торца и надстройка высокой стены
+    gableArea = width * width * tan + length * width * tan;
+  } else if (!isHip) {
+    slopeLength = planWidth / 2 / cos;
+    ridges.push({ from: [0, planWidth / 2], to: [planLength, planWidth / 2] });
+    gableArea = (width * width * tan) / 2;
+    conicPlugs = 2;
+  } else {
+    slopeLength = planWidth / 2 / cos;
+    const half = planWidth / 2;
+    const ridgeStart: [number, number] = [half, half];
+    const ridgeEnd: [number, number] = [planLength - half, half];
+    if (planLength > planWidth) {
+      ridges.push({ from: ridgeStart, to: ridgeEnd });
+      tees = 2;
+    } else {
+      // Шатровая крыша: четыре ребра сходятся в одной точке
+      tees = 1;
+    }
+    hips.push(
+      { from: [0, 0], to: ridgeStart },
+      { from: [0, planWidth], to: ridgeStart },
+      { from: [planLength, 0], to: ridgeEnd },
+      { from: [planLength, planWidth], to: ridgeEnd }
+    );
+    conicPlugs = 4;
+  }
+
+  if (hasWing(input)) {
+    const wingPlanWidth = input.wingWidth + 2 * input.eaveOverhang;
+    const wingEndOverhang = isHip ? input.eaveOverhang : input.gableOverhang;
+    // Торец пристройки: стена основного дома + вынос + свес
+    const wingEnd = input.eaveOverhang + width + input.wingLength + wingEndOverhang;
+    const center = planLength / 2;
+    const left = center - wingPlanWidth / 2;
+    const right = center + wingPlanWidth / 2;
+    // Конёк пристройки упирается в скат основной крыши там, где их высоты равны
+    const junction: [number, number] = [center, planWidth - wingPlanWidth / 2];
+
+    outlines.push([[left, planWidth], [right, planWidth], [right, wingEnd], [left, wingEnd]]);
+    planArea += wingPlanWidth * (wingEnd - planWidth);
+    height = wingEnd;
+
+    valleys.push(
+      { from: [left, planWidth], to: junction },
+      { from: [right, planWidth], to: junction }
+    );
+
+    if (isHip) {
+      const wingRidgeEnd: [number, number] = [center, wingEnd - wingPlanWidth / 2];
+      ridges.push({ from: junction, to: wingRidgeEnd });
+      hips.push(
+        { from: [left, wingEnd], to: wingRidgeEnd },
+        { from: [right, wingEnd], to: wingRidgeEnd }
+      );
+      conicPlugs += 2;
+      tees += 1;
+    } else {
+      ridges.push({ from: junction, to: [center, wingEnd] });
+      gableArea += (input.wingWidth * input.wingWidth * tan) / 4;
+      conicPlugs += 1;
+    }
+  }
+
+  // Рёбра и ендовы — диагонали квадратов со стороной, равной половине ширины ската
+  const hipLength = hips.reduce((sum, hip) => sum + diagonal(segmentLength(hip) / Math.SQRT2), 0);
+  const valleyLength = valleys.reduce((sum, valley) => sum + diagonal(segmentLength(valley) / Math.SQRT2), 0);
+  const ridgeLength = ridges.reduce((sum, ridge) => sum + segmentLength(ridge), 0);
+  const roofArea = planArea / cos;
+
+  return {
+    roofArea: round(roofArea),
+    slopeLength: round(slopeLength),
+    // Коньковые элементы закрывают и конёк, и рёбра вальм
+    ridgeLength: round(ridgeLength + hipLength),
+    hipLength: round(hipLength),
+    valleyLength: round(valleyLength),
+    gableArea: round(gableArea),
+    // Рядовые стропила по шагу, плюс стропила рёбер, ендов и коньковый прогон
+    rafterLength: Math.ceil(roofArea / input.rafterSpacing + hipLength + valleyLength + ridgeLength),
+    lathingLength: Math.ceil(roofArea / input.lathingSpacing),
+    conicPlugs,
+    tees,
+    plan: { outlines, ridges, hips, valleys, width: planLength, height }
+  };
+};
+
+// Значения для исходных данных сметы (roofValues и lumberValues)
+export const getRoofEstimateValues = (result: RoofGeometryResult) => ({
+  roofValues: {
+    metalTileArea: result.roofArea,
+    ridgeLength: result.ridgeLength,
+    endowLength: result.valleyLength,
+    conicPlug: result.conicPlugs,
+    tee: result.tees
+  },
+  lumberValues: {
+    roof40x14: result.rafterLength,
+    lathing20x9: result.lathingLength,
+    frontonArea: result.gableArea
+  }
+});
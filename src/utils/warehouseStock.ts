@@ -0,0 +1,43 @@
+import { MAIN_WAREHOUSE_ID, Product, Warehouse, WarehouseStock } from '../types/warehouse';
+
+// Основной склад задан в коде и не хранится в коллекции, пока его не переименуют
+export const MAIN_WAREHOUSE: Warehouse = {
+  id: MAIN_WAREHOUSE_ID,
+  name: 'Основной склад',
+  description: 'Склад компании',
+  order: 0
+};
+
+export const getStockDocId = (productId: string, warehouseId: string): string =>
+  `${productId}_${warehouseId}`;
+
+// Остаток товара на складе. Основной склад получает всё,
+// что не числится на других складах
+export const getWarehouseQuantity = (
+  product: Pick<Product, 'id' | 'quantity'>,
+  stocks: WarehouseStock[],
+  warehouseId: string
+): number => {
+  const productStocks = stocks.filter(stock => stock.productId === product.id);
+
+  if (warehouseId === MAIN_WAREHOUSE_ID) {
+    return (product.quantity || 0) - productStocks
+      .filter(stock => stock.warehouseId !== MAIN_WAREHOUSE_ID)
+      .reduce((sum, stock) => sum + (stock.quantity || 0), 0);
+  }
+
+  return productStocks.find(stock => stock.warehouseId === warehouseId)?.quantity || 0;
+};
+
+// Товары с количеством на выбранном складе; 'all' — общий остаток
+export const getWarehouseProducts = (
+  products: Product[],
+  stocks: WarehouseStock[],
+  warehouseId: string
+): Product[] => {
+  if (warehouseId === 'all') return products;
+
+  return products
+    .map(product => ({ ...product, quantity: getWarehouseQuantity(product, stocks, warehouseId) }))
+    .filter(product => product.quantity !== 0);
+};